@@ -0,0 +1,67 @@
+import crypto from "node:crypto";
+
+import type { UserRole } from "./db.js";
+
+// Personal API tokens for scripts and CI. Only the sha256 of a token is stored; the prefix makes them easy to
+// tell apart from login JWTs and to spot in leaked logs.
+export const API_TOKEN_PREFIX = "yb_";
+
+// Each area of the admin API is one resource. A token also never exceeds its owner's role,
+// so scopes are only offered to roles that can use them.
+const RESOURCE_ROLES = {
+  posts: ["admin", "editor", "author"],
+  uploads: ["admin", "editor", "author"],
+  comments: ["admin", "editor"],
+  links: ["admin", "editor"],
+  backup: ["admin"],
+  settings: ["admin"],
+  security: ["admin"],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+type ApiTokenResource = keyof typeof RESOURCE_ROLES;
+export type ApiTokenScope = `${ApiTokenResource}:${"read" | "write"}`;
+
+export const API_TOKEN_SCOPES = (Object.keys(RESOURCE_ROLES) as ApiTokenResource[]).flatMap(
+  (r) => [`${r}:read`, `${r}:write`] as ApiTokenScope[],
+);
+
+export const scopesForRole = (role: UserRole) =>
+  API_TOKEN_SCOPES.filter((s) => (RESOURCE_ROLES[s.split(":")[0] as ApiTokenResource] as readonly UserRole[]).includes(role));
+
+// Admin route prefixes (relative to /api/admin). Account, user, session and token management are
+// deliberately missing: a token can never mint or manage credentials.
+const ROUTE_RESOURCES: [string, ApiTokenResource][] = [
+  ["/posts", "posts"],
+  ["/import", "posts"],
+  ["/taxonomy", "posts"],
+  ["/upload", "uploads"],
+  ["/uploads", "uploads"],
+  ["/comments", "comments"],
+  ["/links", "links"],
+  ["/link-requests", "links"],
+  ["/link-icon", "links"],
+  ["/backup", "backup"],
+  ["/restore", "backup"],
+  ["/site", "settings"],
+  ["/ai", "settings"],
+  ["/cloudflare", "settings"],
+  ["/mail", "settings"],
+  ["/webhooks", "settings"],
+  ["/security", "security"],
+];
+
+// GET/HEAD need `<resource>:read`, everything else `<resource>:write`; null means tokens are not allowed at all.
+export const requiredScope = (method: string, path: string): ApiTokenScope | null => {
+  const match = ROUTE_RESOURCES.find(([prefix]) => path === prefix || path.startsWith(`${prefix}/`));
+  if (!match) return null;
+  return `${match[1]}:${method === "GET" || method === "HEAD" ? "read" : "write"}`;
+};
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+export const hashApiToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+export const generateApiToken = () => {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, API_TOKEN_PREFIX.length + 6) };
+};
@@ -1,21 +1,52 @@
 import bcrypt from "bcryptjs";
+import crypto from "node:crypto";
 import jwt from "jsonwebtoken";
 import { z } from "zod";
 
 import { config } from "./config.js";
 import type { Db, User } from "./db.js";
-import { getUserByUsername } from "./db.js";
+import { consumeRecoveryCode, getUserByUsername, getUserTotp, setUserTotpLastStep } from "./db.js";
+import { hashRecoveryCode, verifyTotp } from "./totp.js";
 
-export type JwtUser = { userId: number; username: string };
+// Every token points at a row in the sessions table, which is what makes logout and revocation stick.
+export type JwtUser = { userId: number; sid: string };
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 export const signToken = (user: JwtUser) => {
-  return jwt.sign(user, config.jwtSecret, { expiresIn: "7d" });
+  return jwt.sign(user, config.jwtSecret, { expiresIn: Math.floor(SESSION_TTL_MS / 1000) });
 };
 
 export const verifyToken = (token: string) => {
   return jwt.verify(token, config.jwtSecret) as JwtUser;
 };
 
+// Issued after the password check when the account has 2FA enabled. Signed with a derived key so a ticket
+// can never be mistaken for a session token.
+const loginTicketSecret = () => `${config.jwtSecret}:login-2fa`;
+
+export const signLoginTicket = (userId: number) => {
+  return jwt.sign({ userId, jti: crypto.randomUUID() }, loginTicketSecret(), { expiresIn: "5m" });
+};
+
+export const verifyLoginTicket = (ticket: string) => {
+  const payload = jwt.verify(ticket, loginTicketSecret()) as { userId: number; jti: string; exp: number };
+  return { userId: payload.userId, id: payload.jti, expiresAt: payload.exp * 1000 };
+};
+
+// Accepts a current authenticator code or one unused recovery code (which is then spent).
+export const verifySecondFactor = (db: Db, userId: number, code: string): "totp" | "recovery" | null => {
+  const totp = getUserTotp(db, userId);
+  if (!totp?.secret) return null;
+  const step = verifyTotp(totp.secret, code, totp.lastStep);
+  if (step !== null) {
+    setUserTotpLastStep(db, userId, step);
+    return "totp";
+  }
+  if (/^\d{6}$/.test(code.trim())) return null;
+  return consumeRecoveryCode(db, userId, hashRecoveryCode(code)) ? "recovery" : null;
+};
+
 export const loginSchema = z.object({
   username: z.string().trim().min(1).max(64),
   password: z.string().min(1).max(200),
@@ -35,8 +66,50 @@ export const authenticateUser = async (
   creds: z.infer<typeof loginSchema>,
 ): Promise<User | null> => {
   const row = getUserByUsername(db, creds.username);
-  if (!row) return null;
+  // Invited users have no password until they accept the invite.
+  if (!row || !row.passwordHash) return null;
   const ok = await verifyPassword(creds.password, row.passwordHash);
   if (!ok) return null;
-  return { id: row.id, username: row.username, createdAt: row.createdAt };
+  const { passwordHash: _, ...user } = row;
+  return user;
+};
+
+// Set-password links (invites and resets) carry a random token; only its sha256 is stored.
+export const PASSWORD_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const createPasswordToken = () => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashPasswordToken(token), expiresAt: new Date(Date.now() + PASSWORD_TOKEN_TTL_MS).toISOString() };
+};
+
+export const hashPasswordToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Short "browser · OS" label for the session list; the raw user agent is kept alongside it.
+export const describeDevice = (userAgent: string) => {
+  const ua = userAgent || "";
+  const browser = /Edg\//.test(ua)
+    ? "Edge"
+    : /OPR\//.test(ua)
+      ? "Opera"
+      : /Firefox\//.test(ua)
+        ? "Firefox"
+        : /Chrome\//.test(ua)
+          ? "Chrome"
+          : /Safari\//.test(ua)
+            ? "Safari"
+            : /curl\//i.test(ua)
+              ? "curl"
+              : "";
+  const os = /iPhone|iPad/.test(ua)
+    ? "iOS"
+    : /Android/.test(ua)
+      ? "Android"
+      : /Windows/.test(ua)
+        ? "Windows"
+        : /Mac OS X|Macintosh/.test(ua)
+          ? "macOS"
+          : /Linux/.test(ua)
+            ? "Linux"
+            : "";
+  return [browser, os].filter(Boolean).join(" · ");
 };
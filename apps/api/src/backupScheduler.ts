@@ -0,0 +1,208 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  AUTO_BACKUP_PREFIX,
+  autoBackupName,
+  backupFileFromName,
+  listAutoBackups,
+  pruneRestoreLeftovers,
+  selectBackupsToPrune,
+  verifyBackupArchive,
+  writeFullBackup,
+} from "./backups.js";
+import { nextCronRun, parseCron } from "./cron.js";
+import {
+  addBackupRun,
+  getLastBackupRun,
+  listBackupRuns,
+  type BackupRun,
+  type BackupSettings,
+  type Db,
+  type S3Settings,
+} from "./db.js";
+import { s3Delete, s3IsConfigured, s3Key, s3List, s3PutFile } from "./s3.js";
+
+export type BackupHealth = "disabled" | "never" | "ok" | "stale" | "error";
+
+// A scheduled run that is this late counts as missed (the server was down, the lock was held, ...).
+const STALE_GRACE_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isInside = (parent: string, child: string) => {
+  const rel = path.relative(parent, child);
+  return !rel || (!rel.startsWith("..") && !path.isAbsolute(rel));
+};
+
+export const createBackupScheduler = (args: {
+  db: Db;
+  dataDir: string;
+  uploadsDir: string;
+  getSettings: () => BackupSettings;
+  getRemote: () => S3Settings;
+  // Shared with the download and restore routes: one backup or restore at a time.
+  acquire: () => boolean;
+  release: () => void;
+}) => {
+  const { db, dataDir, uploadsDir, getSettings } = args;
+  let nextRunAt: Date | null = null;
+
+  const resolveDir = (s: BackupSettings) => path.resolve(dataDir, s.dir || "backups");
+
+  // Archives inside uploads/ would be publicly downloadable.
+  const dirIsAllowed = (dir: string) => !isInside(uploadsDir, dir);
+
+  const reschedule = (from = new Date()) => {
+    const s = getSettings();
+    const spec = s.enabled ? parseCron(s.schedule) : null;
+    nextRunAt = spec ? nextCronRun(spec, from) : null;
+  };
+
+  // Scheduled archives directly under the prefix; anything else in the bucket is left alone.
+  const pruneRemote = async (remote: S3Settings, s: BackupSettings) => {
+    const prefix = s3Key(remote, "");
+    const archives = (await s3List(remote))
+      .map((o) => (o.key.startsWith(`${prefix}${AUTO_BACKUP_PREFIX}`) ? backupFileFromName(o.key.slice(prefix.length), o.size) : null))
+      .filter((b) => b !== null);
+    const prune = selectBackupsToPrune(archives, { daily: s.keepDaily, weekly: s.keepWeekly, monthly: s.keepMonthly });
+    for (const b of prune) await s3Delete(remote, s3Key(remote, b.name));
+  };
+
+  const runNow = async (trigger: BackupRun["trigger"]): Promise<BackupRun | null> => {
+    if (!args.acquire()) return null;
+    const s = getSettings();
+    const dir = resolveDir(s);
+    const startedAt = new Date();
+    const file = path.join(dir, autoBackupName(startedAt));
+    const partial = `${file}.partial`;
+    const run: Omit<BackupRun, "id"> = {
+      trigger,
+      status: "failed",
+      file: null,
+      size: 0,
+      files: 0,
+      verified: false,
+      pruned: 0,
+      error: null,
+      remoteStatus: null,
+      remoteError: null,
+      startedAt: startedAt.toISOString(),
+      finishedAt: startedAt.toISOString(),
+    };
+
+    try {
+      if (!dirIsAllowed(dir)) throw new Error("invalid_backup_dir");
+      fs.mkdirSync(dir, { recursive: true });
+      const manifest = await writeFullBackup(db, { uploadsDir, file: partial });
+      run.files = manifest.files.length;
+
+      // Re-read the archive before it replaces anything: a backup that cannot be restored is worse than none.
+      const check = await verifyBackupArchive(partial);
+      if (!check.ok) throw new Error(check.error);
+      run.verified = true;
+      fs.renameSync(partial, file);
+      run.file = path.basename(file);
+      run.size = fs.statSync(file).size;
+      run.status = "success";
+
+      const prune = selectBackupsToPrune(listAutoBackups(dir), {
+        daily: s.keepDaily,
+        weekly: s.keepWeekly,
+        monthly: s.keepMonthly,
+      });
+      for (const b of prune) fs.rmSync(path.join(dir, b.name), { force: true });
+      run.pruned = prune.length;
+
+      // Safety copies from old restores are only dropped once a fresh verified backup exists.
+      if (s.leftoverDays > 0) pruneRestoreLeftovers(dataDir, s.leftoverDays * DAY_MS);
+
+      const remote = args.getRemote();
+      if (s3IsConfigured(remote)) {
+        try {
+          await s3PutFile(remote, s3Key(remote, path.basename(file)), file);
+          run.remoteStatus = "uploaded";
+          if (remote.pruneRemote) await pruneRemote(remote, s);
+        } catch (e: any) {
+          run.remoteStatus = run.remoteStatus ?? "failed";
+          run.remoteError = String(e?.message ?? e).slice(0, 500);
+          // eslint-disable-next-line no-console
+          console.error("[yablog-api] off-site backup failed", run.remoteError);
+        }
+      }
+    } catch (e: any) {
+      run.error = String(e?.message ?? e).slice(0, 500);
+      fs.rmSync(partial, { force: true });
+      // eslint-disable-next-line no-console
+      console.error(`[yablog-api] ${trigger} backup failed`, run.error);
+    } finally {
+      args.release();
+    }
+
+    run.finishedAt = new Date().toISOString();
+    const id = addBackupRun(db, run);
+    return { id, ...run };
+  };
+
+  // Called every minute. A run blocked by another backup/restore is retried on the next tick.
+  const tick = async () => {
+    if (!nextRunAt || nextRunAt.getTime() > Date.now()) return;
+    const run = await runNow("schedule");
+    if (run) reschedule();
+  };
+
+  const health = () => {
+    const s = getSettings();
+    const dir = resolveDir(s);
+    const last = getLastBackupRun(db);
+    const lastSuccess = last?.status === "success" ? last : getLastBackupRun(db, "success");
+
+    let status: BackupHealth = "ok";
+    if (!s.enabled) status = "disabled";
+    else if (last?.status === "failed" || last?.remoteStatus === "failed") status = "error";
+    else if (!lastSuccess) status = "never";
+    else {
+      const spec = parseCron(s.schedule);
+      const due = spec ? nextCronRun(spec, new Date(lastSuccess.startedAt)) : null;
+      if (due && due.getTime() + STALE_GRACE_MS < Date.now()) status = "stale";
+    }
+
+    let disk: { free: number; total: number } | null = null;
+    try {
+      const st = fs.statfsSync(fs.existsSync(dir) ? dir : dataDir);
+      disk = { free: st.bavail * st.bsize, total: st.blocks * st.bsize };
+    } catch {
+      disk = null;
+    }
+
+    return {
+      status,
+      dir,
+      nextRunAt: nextRunAt?.toISOString() ?? null,
+      lastRun: last,
+      lastSuccessAt: lastSuccess?.finishedAt ?? null,
+      files: listAutoBackups(dir),
+      disk,
+    };
+  };
+
+  // Archive in the backup directory by file name; null for anything that is not a scheduled backup.
+  const archivePath = (name: string) => {
+    const dir = resolveDir(getSettings());
+    return listAutoBackups(dir).some((b) => b.name === name) ? path.join(dir, name) : null;
+  };
+
+  reschedule();
+
+  return {
+    tick,
+    runNow,
+    reschedule,
+    health,
+    archivePath,
+    dirIsAllowed: (s: BackupSettings) => dirIsAllowed(resolveDir(s)),
+    listRuns: (limit?: number) => listBackupRuns(db, limit),
+  };
+};
+
+export type BackupScheduler = ReturnType<typeof createBackupScheduler>;
@@ -0,0 +1,250 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import tar from "tar";
+
+import type { Db } from "./db.js";
+
+// Full backups (manifest.json + db.sqlite + uploads/) shared by the download route and the
+// scheduler, plus the checks and housekeeping around them.
+
+export type BackupManifest = {
+  version: 1;
+  createdAt: string;
+  files: { path: string; size: number; sha256: string }[];
+};
+
+export type BackupCheckError =
+  | "invalid_backup"
+  | "unsupported_backup_version"
+  | "backup_missing_file"
+  | "backup_size_mismatch"
+  | "backup_hash_mismatch";
+
+export type BackupCheck = { ok: true; manifest: BackupManifest } | { ok: false; error: BackupCheckError };
+
+export const sha256File = async (filePath: string) => {
+  const hash = crypto.createHash("sha256");
+  const stream = fs.createReadStream(filePath);
+  for await (const chunk of stream) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+};
+
+export const listFilesRecursive = (rootDir: string) => {
+  const out: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (entry.isFile()) out.push(full);
+    }
+  };
+  if (fs.existsSync(rootDir)) walk(rootDir);
+  return out;
+};
+
+const parseManifest = (text: string): BackupManifest | null => {
+  try {
+    const manifest = JSON.parse(text) as BackupManifest;
+    return manifest && Array.isArray(manifest.files) ? manifest : null;
+  } catch {
+    return null;
+  }
+};
+
+// Writes a gzipped full backup to `file` and returns its manifest. The uploads staging dir (_tmp) is skipped.
+export const writeFullBackup = async (db: Db, args: { uploadsDir: string; file: string }) => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "yablog_full_backup_"));
+  const tmpDb = path.join(tmpDir, "db.sqlite");
+  const tmpUploads = path.join(tmpDir, "uploads");
+
+  try {
+    await db.backup(tmpDb);
+    fs.mkdirSync(tmpUploads, { recursive: true });
+    if (fs.existsSync(args.uploadsDir)) {
+      fs.cpSync(args.uploadsDir, tmpUploads, {
+        recursive: true,
+        filter: (src) => {
+          const rel = path.relative(args.uploadsDir, src);
+          if (!rel) return true;
+          return !rel.split(path.sep).includes("_tmp");
+        },
+      });
+    }
+
+    const files: BackupManifest["files"] = [];
+    const all = [tmpDb, ...listFilesRecursive(tmpUploads)];
+    for (const full of all) {
+      const stat = fs.statSync(full);
+      const rel = path.relative(tmpDir, full).replaceAll(path.sep, "/");
+      files.push({ path: rel, size: stat.size, sha256: await sha256File(full) });
+    }
+
+    const manifest: BackupManifest = { version: 1, createdAt: new Date().toISOString(), files };
+    fs.writeFileSync(path.join(tmpDir, "manifest.json"), JSON.stringify(manifest, null, 2), "utf8");
+
+    await tar.c(
+      {
+        gzip: { level: 9 },
+        cwd: tmpDir,
+        file: args.file,
+        portable: true,
+      },
+      ["manifest.json", "db.sqlite", "uploads"],
+    );
+    return manifest;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+};
+
+const compareManifest = async (
+  manifest: BackupManifest,
+  lookup: (rel: string) => Promise<{ size: number; sha256: () => Promise<string> } | null>,
+): Promise<BackupCheck> => {
+  if (manifest.version !== 1) return { ok: false, error: "unsupported_backup_version" };
+  for (const entry of manifest.files) {
+    const actual = await lookup(entry.path);
+    if (!actual) return { ok: false, error: "backup_missing_file" };
+    if (actual.size !== entry.size) return { ok: false, error: "backup_size_mismatch" };
+    if ((await actual.sha256()) !== entry.sha256) return { ok: false, error: "backup_hash_mismatch" };
+  }
+  return { ok: true, manifest };
+};
+
+// Checks an already extracted full backup against its manifest.
+export const verifyExtractedBackup = async (dir: string): Promise<BackupCheck> => {
+  const manifestPath = path.join(dir, "manifest.json");
+  if (!fs.existsSync(manifestPath) || !fs.existsSync(path.join(dir, "db.sqlite"))) {
+    return { ok: false, error: "invalid_backup" };
+  }
+  const manifest = parseManifest(fs.readFileSync(manifestPath, "utf8"));
+  if (!manifest) return { ok: false, error: "invalid_backup" };
+  return compareManifest(manifest, async (rel) => {
+    const full = path.join(dir, rel);
+    if (!fs.existsSync(full)) return null;
+    return { size: fs.statSync(full).size, sha256: () => sha256File(full) };
+  });
+};
+
+// Same check straight from the .tar.gz: every entry is hashed while streaming, nothing is extracted.
+export const verifyBackupArchive = async (file: string): Promise<BackupCheck> => {
+  const seen = new Map<string, { size: number; sha256: string }>();
+  let manifestText: string | null = null;
+
+  try {
+    await tar.t({
+      file,
+      strict: true,
+      onentry: (entry) => {
+        if (entry.type !== "File") return;
+        const rel = entry.path.replace(/^\.\//, "");
+        const hash = crypto.createHash("sha256");
+        const chunks: Buffer[] = [];
+        let size = 0;
+        entry.on("data", (chunk: Buffer) => {
+          hash.update(chunk);
+          size += chunk.length;
+          if (rel === "manifest.json") chunks.push(chunk);
+        });
+        entry.on("end", () => {
+          seen.set(rel, { size, sha256: hash.digest("hex") });
+          if (rel === "manifest.json") manifestText = Buffer.concat(chunks).toString("utf8");
+        });
+      },
+    });
+  } catch {
+    return { ok: false, error: "invalid_backup" };
+  }
+
+  const manifest = manifestText === null ? null : parseManifest(manifestText);
+  if (!manifest || !seen.has("db.sqlite")) return { ok: false, error: "invalid_backup" };
+  return compareManifest(manifest, async (rel) => {
+    const actual = seen.get(rel);
+    return actual ? { size: actual.size, sha256: async () => actual.sha256 } : null;
+  });
+};
+
+export const AUTO_BACKUP_PREFIX = "yablog-auto-";
+
+// Timestamps in generated file names use the toISOString() form with ":" and "." replaced by "-".
+const TS_IN_NAME = /(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/;
+
+const dateFromName = (name: string) => {
+  const m = name.match(TS_IN_NAME);
+  if (!m) return null;
+  const d = new Date(`${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z`);
+  return Number.isNaN(d.getTime()) ? null : d;
+};
+
+export const autoBackupName = (at: Date) => `${AUTO_BACKUP_PREFIX}${at.toISOString().replace(/[:.]/g, "-")}.tar.gz`;
+
+export type BackupFile = { name: string; size: number; createdAt: string };
+
+// A scheduled archive's name carries its creation time; null for any other file.
+export const backupFileFromName = (name: string, size: number): BackupFile | null => {
+  if (!name.startsWith(AUTO_BACKUP_PREFIX) || !name.endsWith(".tar.gz") || name.includes("/")) return null;
+  const at = dateFromName(name);
+  return at ? { name, size, createdAt: at.toISOString() } : null;
+};
+
+// Scheduled archives in `dir`, newest first. Other files in the directory are never touched.
+export const listAutoBackups = (dir: string): BackupFile[] => {
+  if (!fs.existsSync(dir)) return [];
+  const out: BackupFile[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    const stat = fs.statSync(path.join(dir, name));
+    const file = stat.isFile() ? backupFileFromName(name, stat.size) : null;
+    if (file) out.push(file);
+  }
+  return out.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const dayKey = (d: Date) => `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+
+// Weeks start on Monday; the key is that Monday's date.
+const weekKey = (d: Date) => dayKey(new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7)));
+
+// Grandfather-father-son retention: the newest archive of each of the last N days, weeks and
+// months (server local time) is kept; the newest archive overall is always kept.
+export const selectBackupsToPrune = (
+  backups: BackupFile[],
+  keep: { daily: number; weekly: number; monthly: number },
+) => {
+  const sorted = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const kept = new Set<string>(sorted.slice(0, 1).map((b) => b.name));
+  const buckets: [number, (d: Date) => string][] = [
+    [keep.daily, dayKey],
+    [keep.weekly, weekKey],
+    [keep.monthly, (d) => `${d.getFullYear()}-${d.getMonth() + 1}`],
+  ];
+  for (const [count, keyOf] of buckets) {
+    const seen = new Set<string>();
+    for (const b of sorted) {
+      if (seen.size >= count) break;
+      const key = keyOf(new Date(b.createdAt));
+      if (seen.has(key)) continue;
+      seen.add(key);
+      kept.add(b.name);
+    }
+  }
+  return sorted.filter((b) => !kept.has(b.name));
+};
+
+// Safety copies a restore or a schema migration leaves next to the database.
+const RESTORE_LEFTOVER = /^(yablog\.pre-(restore|migrate)\..+\.db|yablog\.replaced\..+\.db|uploads\.replaced\..+)$/;
+
+export const pruneRestoreLeftovers = (dataDir: string, olderThanMs: number, now = Date.now()) => {
+  const removed: string[] = [];
+  for (const name of fs.readdirSync(dataDir)) {
+    if (!RESTORE_LEFTOVER.test(name)) continue;
+    const full = path.join(dataDir, name);
+    const at = dateFromName(name)?.getTime() ?? fs.statSync(full).mtimeMs;
+    if (now - at < olderThanMs) continue;
+    fs.rmSync(full, { recursive: true, force: true });
+    removed.push(name);
+  }
+  return removed;
+};
@@ -18,6 +18,8 @@ export type Cache = {
     remaining: number;
     resetSec: number;
   }>;
+  peekRateLimit: (args: { bucket: string; key: string }) => Promise<{ count: number; resetSec: number }>;
+  resetRateLimit: (args: { bucket: string; key: string }) => Promise<void>;
   recordSuspicious: (args: { ip: string; bucket: string; kind: string }) => Promise<void>;
   checkAndAutoBan: (args: {
     ip: string;
@@ -64,6 +66,8 @@ export const createCache = async (): Promise<Cache> => {
     key: async (_ns, raw) => `${prefix}noop:${sha1(safeJsonStringify(raw) ?? String(raw))}`,
     wrapJSON: async (_ns, _raw, _ttl, compute) => Promise.resolve(compute()),
     rateLimit: async (args) => ({ allowed: true, count: 0, remaining: args.limit, resetSec: args.windowSec }),
+    peekRateLimit: async () => ({ count: 0, resetSec: 0 }),
+    resetRateLimit: async () => {},
     recordSuspicious: async () => {},
     checkAndAutoBan: async () => false,
     listSuspiciousIps: async () => [],
@@ -152,6 +156,21 @@ export const createCache = async (): Promise<Cache> => {
     }
   };
 
+  // Reads a rate-limit counter without counting a hit.
+  const peekRateLimit = async (args: { bucket: string; key: string }) => {
+    const k = `${prefix}rl:${args.bucket}:${args.key}`;
+    try {
+      const [v, ttl] = await Promise.all([client.get(k), client.ttl(k)]);
+      return { count: Number.parseInt(v ?? "0", 10) || 0, resetSec: ttl > 0 ? ttl : 0 };
+    } catch {
+      return { count: 0, resetSec: 0 };
+    }
+  };
+
+  const resetRateLimit = async (args: { bucket: string; key: string }) => {
+    await client.del(`${prefix}rl:${args.bucket}:${args.key}`).catch(() => {});
+  };
+
   const recordSuspicious = async (args: { ip: string; bucket: string; kind: string }) => {
     const ip = args.ip || "unknown";
     const now = Date.now();
@@ -233,5 +252,5 @@ export const createCache = async (): Promise<Cache> => {
     return items;
   };
 
-  return { enabled: true, getVersion, bump, getJSON, setJSON, key, wrapJSON, rateLimit, recordSuspicious, checkAndAutoBan, listSuspiciousIps };
+  return { enabled: true, getVersion, bump, getJSON, setJSON, key, wrapJSON, rateLimit, peekRateLimit, resetRateLimit, recordSuspicious, checkAndAutoBan, listSuspiciousIps };
 };
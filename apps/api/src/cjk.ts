@@ -0,0 +1,57 @@
+// FTS5's unicode61 tokenizer treats an unbroken run of CJK characters as a single token, so a word in the
+// middle of a Chinese or Japanese sentence never matches. Runs are rewritten as overlapping bigrams before
+// they reach the index ("全文检索" -> "全文 文检 检索 索"), and queries are cut the same way.
+
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\u30fc";
+const CJK_RUN = new RegExp(`[${CJK}]+`, "gu");
+const WORD_PARTS = new RegExp(`[${CJK}]+|[^${CJK}]+`, "gu");
+const IS_CJK = new RegExp(`^[${CJK}]`, "u");
+
+// SQL function used by the posts_fts triggers; registered on every writable connection in openDb().
+export const SEGMENT_SQL_FUNCTION = "yablog_segment";
+
+const bigrams = (chars: string[]) => {
+  const out: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) out.push(chars[i] + chars[i + 1]);
+  return out;
+};
+
+// Text as it is fed to posts_fts. Non-CJK text is left for unicode61 to handle.
+export const segmentForIndex = (text: string) =>
+  text.replace(CJK_RUN, (run) => {
+    const chars = Array.from(run);
+    // The last character also goes in alone so a one-character query can find it at the end of a run.
+    return ` ${[...bigrams(chars), chars[chars.length - 1]].join(" ")} `;
+  });
+
+// The words of a search box query; every word has to match.
+export const searchWords = (q: string) =>
+  q
+    .trim()
+    .split(/\s+/)
+    .map((w) => w.replace(/["']/g, ""))
+    .filter(Boolean);
+
+// The searchable pieces of a query: each word split where it switches between CJK and other scripts.
+export const queryParts = (q: string) => {
+  const parts: { text: string; cjk: boolean }[] = [];
+  for (const word of searchWords(q)) {
+    for (const part of word.match(WORD_PARTS) ?? []) {
+      const cjk = IS_CJK.test(part);
+      if (cjk || /[\p{L}\p{N}]/u.test(part)) parts.push({ text: part, cjk });
+    }
+  }
+  return parts;
+};
+
+// FTS5 MATCH expression for a search box query, or null when nothing searchable is left.
+// Latin words are prefix matches (app* store*); a CJK run becomes a phrase of its bigrams, which only
+// matches those characters in that order.
+export const toFtsQuery = (q: string) => {
+  const clauses = queryParts(q).map((part) => {
+    const chars = Array.from(part.text);
+    if (!part.cjk || chars.length === 1) return `"${part.text}"*`;
+    return `"${bigrams(chars).join(" ")}"`;
+  });
+  return clauses.length ? clauses.join(" ") : null;
+};
@@ -21,4 +21,6 @@ export const config = {
   cookieName: process.env.COOKIE_NAME ?? "yablog_token",
   cookieSecure: (process.env.COOKIE_SECURE ?? "0") === "1",
   webDistPath: process.env.WEB_DIST_PATH,
+  // Let webhooks reach private/loopback addresses (e.g. a CI runner on the same network).
+  webhookAllowPrivate: (process.env.WEBHOOK_ALLOW_PRIVATE ?? "0") === "1",
 };
@@ -0,0 +1,85 @@
+// Minimal 5-field cron ("minute hour day-of-month month day-of-week") in server local time.
+// Supports *, lists (1,15), ranges (1-5), steps (*/6, 0-30/10) and 7 as Sunday.
+
+export type CronSpec = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough.
+  anyDay: boolean;
+};
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const parseField = (field: string, [min, max]: [number, number]) => {
+  const out = new Set<number>();
+  for (const part of field.split(",")) {
+    const m = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!m) return null;
+    const step = m[4] ? Number(m[4]) : 1;
+    let from = min;
+    let to = max;
+    if (m[2] !== undefined) {
+      from = Number(m[2]);
+      // "5/15" means "from 5 to the end, every 15".
+      to = m[3] !== undefined ? Number(m[3]) : m[4] ? max : from;
+    }
+    if (step < 1 || from < min || to > max || from > to) return null;
+    for (let v = from; v <= to; v += step) out.add(v);
+  }
+  return out;
+};
+
+export const parseCron = (expr: string): CronSpec | null => {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const parsed = fields.map((f, i) => parseField(f, FIELD_RANGES[i]));
+  if (parsed.some((p) => !p)) return null;
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  if (weekdays.delete(7)) weekdays.add(0);
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] !== "*" && fields[4] !== "*" };
+};
+
+const dayMatches = (spec: CronSpec, d: Date) => {
+  const dom = spec.days.has(d.getDate());
+  const dow = spec.weekdays.has(d.getDay());
+  return spec.anyDay ? dom || dow : dom && dow;
+};
+
+// First matching minute strictly after `from`, or null when nothing matches within ~5 years (e.g. "0 0 31 2 *").
+export const nextCronRun = (spec: CronSpec, from: Date): Date | null => {
+  const d = new Date(from.getTime());
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (d.getTime() <= limit) {
+    if (!spec.months.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(spec, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!spec.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!spec.minutes.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  return null;
+};
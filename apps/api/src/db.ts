@@ -3,16 +3,33 @@ import path from "node:path";
 
 import Database from "better-sqlite3";
 
+import { searchWords, segmentForIndex, SEGMENT_SQL_FUNCTION, toFtsQuery } from "./cjk.js";
 import { config } from "./config.js";
+import { parseCron } from "./cron.js";
 
 export type Db = Database.Database;
 
+export type UserRole = "admin" | "editor" | "author";
+
 export type User = {
   id: number;
   username: string;
+  // Shown as the byline on posts; the login name is never published.
+  displayName: string;
+  role: UserRole;
+  disabled: boolean;
+  totpEnabled: boolean;
   createdAt: string;
 };
 
+export type UserAdminRow = User & {
+  hasPassword: boolean;
+  inviteExpiresAt: string | null;
+  postCount: number;
+};
+
+export type PostStatus = "draft" | "scheduled" | "published";
+
 export type Post = {
   id: number;
   title: string;
@@ -20,12 +37,14 @@ export type Post = {
   summary: string | null;
   contentMd: string;
   coverImage: string | null;
-  status: "draft" | "published";
+  status: PostStatus;
   featured: 0 | 1;
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
   publishedAt: string | null;
+  authorId: number | null;
+  authorName: string | null;
   tags: string[];
   categories: string[];
 };
@@ -33,9 +52,12 @@ export type Post = {
 export type Comment = {
   id: number;
   postId: number;
+  parentId: number | null;
   author: string;
   contentMd: string;
   status: "pending" | "approved";
+  // Replies posted from the admin panel (rendered with an author badge).
+  isAdmin: boolean;
   createdAt: string;
   updatedAt: string;
 };
@@ -67,6 +89,75 @@ export type IpBan = {
   createdAt: string;
 };
 
+export type PostRevisionSummary = {
+  id: number;
+  postId: number;
+  title: string;
+  authorName: string;
+  reason: "create" | "update" | "restore" | "baseline" | "import" | "backup";
+  restoredFrom: number | null;
+  contentLength: number;
+  createdAt: string;
+};
+
+export type PostRevision = PostRevisionSummary & {
+  slug: string;
+  summary: string | null;
+  contentMd: string;
+  coverImage: string | null;
+  status: PostStatus;
+  tags: string[];
+  categories: string[];
+};
+
+export type Webhook = {
+  id: number;
+  name: string;
+  url: string;
+  // NOTE: HMAC signing secret; admin-only.
+  secret: string;
+  // Event types to deliver; empty means all.
+  events: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDelivery = {
+  id: number;
+  webhookId: number;
+  event: string;
+  payload: string;
+  status: "pending" | "success" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BackupRun = {
+  id: number;
+  trigger: "schedule" | "manual";
+  status: "success" | "failed";
+  file: string | null;
+  size: number;
+  // Files listed in the manifest (db.sqlite + uploads).
+  files: number;
+  // Archive re-read and checked against its manifest after writing.
+  verified: boolean;
+  // Old archives removed by the retention policy.
+  pruned: number;
+  error: string | null;
+  // Upload to the S3 target; null when off-site backups are not enabled.
+  remoteStatus: "uploaded" | "failed" | null;
+  remoteError: string | null;
+  startedAt: string;
+  finishedAt: string;
+};
+
 const nowIso = () => new Date().toISOString();
 
 export const openDb = (): Db => {
@@ -75,18 +166,80 @@ export const openDb = (): Db => {
   const db = new Database(config.databasePath);
   db.pragma("foreign_keys = ON");
   db.pragma("journal_mode = WAL");
+  // The posts_fts triggers call this, so writing to posts needs it on the connection.
+  db.function(SEGMENT_SQL_FUNCTION, { deterministic: true }, (text: unknown) =>
+    text === null || text === undefined ? null : segmentForIndex(String(text)),
+  );
   return db;
 };
 
+// The schema as of the baseline migration. Later changes go into MIGRATIONS (migrations.ts), not here.
 export const initDb = (db: Db) => {
   db.exec(`
     CREATE TABLE IF NOT EXISTS users (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       username TEXT NOT NULL UNIQUE,
       password_hash TEXT NOT NULL,
+      display_name TEXT NOT NULL DEFAULT '',
+      role TEXT NOT NULL DEFAULT 'author' CHECK (role IN ('admin','editor','author')),
+      disabled INTEGER NOT NULL DEFAULT 0 CHECK (disabled IN (0,1)),
+      password_token_hash TEXT,
+      password_token_expires_at TEXT,
+      totp_secret TEXT,
+      totp_pending_secret TEXT,
+      totp_last_step INTEGER,
       created_at TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS user_recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user ON user_recovery_codes(user_id);
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      device TEXT NOT NULL DEFAULT '',
+      ip TEXT NOT NULL DEFAULT '',
+      user_agent TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL,
+      last_seen_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+
+    CREATE TABLE IF NOT EXISTS login_audit (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL,
+      user_id INTEGER,
+      ip TEXT NOT NULL DEFAULT '',
+      user_agent TEXT NOT NULL DEFAULT '',
+      result TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_login_audit_created ON login_audit(created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_prefix TEXT NOT NULL,
+      scopes_json TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL,
+      last_used_at TEXT,
+      expires_at TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+
     CREATE TABLE IF NOT EXISTS posts (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       title TEXT NOT NULL,
@@ -94,12 +247,13 @@ export const initDb = (db: Db) => {
       summary TEXT,
       content_md TEXT NOT NULL,
       cover_image TEXT,
-      status TEXT NOT NULL CHECK (status IN ('draft','published')),
+      status TEXT NOT NULL CHECK (status IN ('draft','scheduled','published')),
       featured INTEGER NOT NULL DEFAULT 0 CHECK (featured IN (0,1)),
       sort_order INTEGER NOT NULL DEFAULT 0,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
-      published_at TEXT
+      published_at TEXT,
+      author_id INTEGER REFERENCES users(id) ON DELETE SET NULL
     );
 
     CREATE TABLE IF NOT EXISTS tags (
@@ -144,9 +298,13 @@ export const initDb = (db: Db) => {
     CREATE TABLE IF NOT EXISTS comments (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       post_id INTEGER NOT NULL,
+      parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
       author TEXT NOT NULL,
       content_md TEXT NOT NULL,
       status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','approved')),
+      is_admin INTEGER NOT NULL DEFAULT 0 CHECK (is_admin IN (0,1)),
+      email TEXT,
+      notify INTEGER NOT NULL DEFAULT 0 CHECK (notify IN (0,1)),
       ip TEXT,
       user_agent TEXT,
       created_at TEXT NOT NULL,
@@ -185,6 +343,81 @@ export const initDb = (db: Db) => {
       reason TEXT NOT NULL DEFAULT '',
       created_at TEXT NOT NULL
     );
+
+    CREATE TABLE IF NOT EXISTS post_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      slug TEXT NOT NULL,
+      summary TEXT,
+      content_md TEXT NOT NULL,
+      cover_image TEXT,
+      status TEXT NOT NULL,
+      tags_json TEXT NOT NULL DEFAULT '[]',
+      categories_json TEXT NOT NULL DEFAULT '[]',
+      author_id INTEGER,
+      author_name TEXT NOT NULL DEFAULT '',
+      reason TEXT NOT NULL DEFAULT 'update',
+      restored_from INTEGER,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_post_revisions_post_created ON post_revisions(post_id, id DESC);
+
+    CREATE TABLE IF NOT EXISTS redirects (
+      from_path TEXT PRIMARY KEY,
+      to_path TEXT,
+      post_id INTEGER,
+      source TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_redirects_post ON redirects(post_id);
+
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL DEFAULT '',
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL DEFAULT '',
+      events_json TEXT NOT NULL DEFAULT '[]',
+      enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0,1)),
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id INTEGER NOT NULL,
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','success','failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      response_body TEXT,
+      error TEXT,
+      next_attempt_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_hook ON webhook_deliveries(webhook_id, id DESC);
+
+    CREATE TABLE IF NOT EXISTS backup_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trigger TEXT NOT NULL CHECK (trigger IN ('schedule','manual')),
+      status TEXT NOT NULL CHECK (status IN ('success','failed')),
+      file TEXT,
+      size INTEGER NOT NULL DEFAULT 0,
+      files INTEGER NOT NULL DEFAULT 0,
+      verified INTEGER NOT NULL DEFAULT 0 CHECK (verified IN (0,1)),
+      pruned INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      remote_status TEXT,
+      remote_error TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL
+    );
   `);
 };
 
@@ -216,26 +449,87 @@ export const listApprovedCommentsByPostSlug = (db: Db, slug: string) => {
   const rows = db
     .prepare(
       `
-      SELECT id, post_id as postId, author, content_md as contentMd, status, created_at as createdAt, updated_at as updatedAt
+      SELECT id, post_id as postId, parent_id as parentId, author, content_md as contentMd, status, is_admin as isAdmin, created_at as createdAt, updated_at as updatedAt
       FROM comments
       WHERE post_id = ? AND status = 'approved'
       ORDER BY created_at ASC
       `,
     )
     .all(post.id) as any[];
-  return { items: rows as Comment[], total: rows.length };
+  const items = rows.map((r) => ({ ...r, isAdmin: Boolean(r.isAdmin) })) as Comment[];
+  return { items, total: items.length };
+};
+
+// Deepest nesting level a reply may sit at (top-level comments are depth 0).
+export const MAX_COMMENT_DEPTH = 3;
+
+export const getCommentById = (db: Db, id: number) => {
+  const row = db
+    .prepare(
+      "SELECT id, post_id as postId, parent_id as parentId, author, content_md as contentMd, status, is_admin as isAdmin, created_at as createdAt, updated_at as updatedAt FROM comments WHERE id = ?",
+    )
+    .get(id) as any;
+  return row ? ({ ...row, isAdmin: Boolean(row.isAdmin) } as Comment) : undefined;
+};
+
+// Pick the parent a reply to `replyToId` should hang off: past the depth cap the reply is attached
+// to the nearest ancestor that still has room, so the thread stays readable.
+export const resolveReplyParent = (db: Db, replyToId: number) => {
+  const chain = db
+    .prepare(
+      `
+      WITH RECURSIVE chain(id, parent_id, depth) AS (
+        SELECT id, parent_id, 0 FROM comments WHERE id = ?
+        UNION ALL
+        SELECT c.id, c.parent_id, chain.depth + 1 FROM comments c JOIN chain ON c.id = chain.parent_id
+      )
+      SELECT id FROM chain ORDER BY depth ASC
+      `,
+    )
+    .all(replyToId) as { id: number }[];
+  if (!chain.length) return null;
+  // chain[0] is the target itself at depth chain.length - 1; step up until a child of it fits under the cap.
+  const skip = Math.max(0, chain.length - MAX_COMMENT_DEPTH);
+  return chain[skip].id;
 };
 
 export const createComment = (
   db: Db,
-  args: { postId: number; author: string; contentMd: string; ip?: string | null; userAgent?: string | null },
+  args: {
+    postId: number;
+    parentId?: number | null;
+    author: string;
+    contentMd: string;
+    status?: "pending" | "approved";
+    isAdmin?: boolean;
+    // Private contact address; never returned by public endpoints.
+    email?: string | null;
+    notify?: boolean;
+    ip?: string | null;
+    userAgent?: string | null;
+    // Imports keep the original date.
+    createdAt?: string;
+  },
 ) => {
-  const now = nowIso();
+  const now = args.createdAt ?? nowIso();
   const res = db
     .prepare(
-      "INSERT INTO comments (post_id, author, content_md, status, ip, user_agent, created_at, updated_at) VALUES (?, ?, ?, 'pending', ?, ?, ?, ?)",
+      "INSERT INTO comments (post_id, parent_id, author, content_md, status, is_admin, email, notify, ip, user_agent, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
     )
-    .run(args.postId, args.author, args.contentMd, args.ip ?? null, args.userAgent ?? null, now, now);
+    .run(
+      args.postId,
+      args.parentId ?? null,
+      args.author,
+      args.contentMd,
+      args.status ?? "pending",
+      args.isAdmin ? 1 : 0,
+      args.email || null,
+      args.email && args.notify ? 1 : 0,
+      args.ip ?? null,
+      args.userAgent ?? null,
+      now,
+      now,
+    );
   return Number(res.lastInsertRowid);
 };
 
@@ -257,22 +551,28 @@ export const listCommentsAdmin = (db: Db, args: { status?: "pending" | "approved
       SELECT
         c.id,
         c.post_id as postId,
+        c.parent_id as parentId,
         c.author,
         c.content_md as contentMd,
         c.status,
+        c.is_admin as isAdmin,
+        c.email,
+        c.notify,
         c.created_at as createdAt,
         c.updated_at as updatedAt,
         p.title as postTitle,
-        p.slug as postSlug
+        p.slug as postSlug,
+        pc.author as parentAuthor
       FROM comments c
       JOIN posts p ON p.id = c.post_id
+      LEFT JOIN comments pc ON pc.id = c.parent_id
       ${where}
       ORDER BY c.created_at DESC
       LIMIT 500
       `,
     )
     .all(...params) as any[];
-  return rows;
+  return rows.map((r) => ({ ...r, isAdmin: Boolean(r.isAdmin), notify: Boolean(r.notify) }));
 };
 
 export const updateCommentAdmin = (
@@ -302,6 +602,53 @@ export const deleteCommentAdmin = (db: Db, id: number) => {
   db.prepare("DELETE FROM comments WHERE id = ?").run(id);
 };
 
+export type CommentNotifyRow = {
+  id: number;
+  parentId: number | null;
+  author: string;
+  contentMd: string;
+  status: "pending" | "approved";
+  isAdmin: boolean;
+  email: string | null;
+  notify: boolean;
+  createdAt: string;
+  postTitle: string;
+  postSlug: string;
+};
+
+const commentNotifySelect = `
+  SELECT
+    c.id,
+    c.parent_id as parentId,
+    c.author,
+    c.content_md as contentMd,
+    c.status,
+    c.is_admin as isAdmin,
+    c.email,
+    c.notify,
+    c.created_at as createdAt,
+    p.title as postTitle,
+    p.slug as postSlug
+  FROM comments c
+  JOIN posts p ON p.id = c.post_id
+`;
+
+const toCommentNotifyRow = (r: any): CommentNotifyRow => ({ ...r, isAdmin: Boolean(r.isAdmin), notify: Boolean(r.notify) });
+
+// Comment with its private email/notify fields, for building notification emails.
+export const getCommentForNotify = (db: Db, id: number) => {
+  const row = db.prepare(`${commentNotifySelect} WHERE c.id = ?`).get(id) as any;
+  return row ? toCommentNotifyRow(row) : undefined;
+};
+
+// Reader comments created after `since` (admin replies are left out of digests).
+export const listCommentsCreatedSince = (db: Db, since: string) => {
+  const rows = db
+    .prepare(`${commentNotifySelect} WHERE c.created_at > ? AND c.is_admin = 0 ORDER BY c.created_at ASC LIMIT 200`)
+    .all(since) as any[];
+  return rows.map(toCommentNotifyRow);
+};
+
 export const listLinksPublic = (db: Db) => {
   const rows = db
     .prepare(
@@ -379,6 +726,27 @@ export const deleteLinkRequestAdmin = (db: Db, id: number) => {
   db.prepare("DELETE FROM link_requests WHERE id = ?").run(id);
 };
 
+export const getLinkRequestById = (db: Db, id: number) => {
+  return db
+    .prepare("SELECT id, name, url, description, message, status, created_at as createdAt FROM link_requests WHERE id = ?")
+    .get(id) as LinkRequest | undefined;
+};
+
+export const listLinkRequestsCreatedSince = (db: Db, since: string) => {
+  const rows = db
+    .prepare(
+      `
+      SELECT id, name, url, description, message, status, created_at as createdAt
+      FROM link_requests
+      WHERE created_at > ?
+      ORDER BY created_at ASC
+      LIMIT 200
+      `,
+    )
+    .all(since) as any[];
+  return rows as LinkRequest[];
+};
+
 export const listIpBans = (db: Db) => {
   const rows = db
     .prepare("SELECT ip, reason, created_at as createdAt FROM ip_bans ORDER BY created_at DESC LIMIT 5000")
@@ -406,10 +774,86 @@ const hasColumn = (db: Db, table: string, column: string) => {
   return rows.some((r) => r.name === column);
 };
 
-export const migrateDb = (db: Db) => {
+// Column guards from before numbered migrations existed; only ever runs as part of the baseline migration.
+export const upgradeLegacySchema = (db: Db) => {
   if (!hasColumn(db, "posts", "sort_order")) {
     db.exec("ALTER TABLE posts ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0");
   }
+  if (!hasColumn(db, "comments", "parent_id")) {
+    db.exec("ALTER TABLE comments ADD COLUMN parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE");
+  }
+  if (!hasColumn(db, "comments", "is_admin")) {
+    db.exec("ALTER TABLE comments ADD COLUMN is_admin INTEGER NOT NULL DEFAULT 0 CHECK (is_admin IN (0,1))");
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_id)");
+  if (!hasColumn(db, "comments", "email")) {
+    db.exec("ALTER TABLE comments ADD COLUMN email TEXT");
+  }
+  if (!hasColumn(db, "comments", "notify")) {
+    db.exec("ALTER TABLE comments ADD COLUMN notify INTEGER NOT NULL DEFAULT 0 CHECK (notify IN (0,1))");
+  }
+  // SQLite cannot alter a CHECK constraint, so older DBs get their posts table rebuilt to allow 'scheduled'.
+  // The migration runner switches foreign keys off, so dropping the old table does not cascade into tags/categories/comments.
+  const postsSql = (db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'posts'").get() as
+    | { sql: string }
+    | undefined)?.sql;
+  if (postsSql && !postsSql.includes("'scheduled'")) {
+    const cols = "id, title, slug, summary, content_md, cover_image, status, featured, sort_order, created_at, updated_at, published_at";
+    db.exec(`
+      DROP TRIGGER IF EXISTS posts_ai;
+      DROP TRIGGER IF EXISTS posts_ad;
+      DROP TRIGGER IF EXISTS posts_au;
+      CREATE TABLE posts_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        summary TEXT,
+        content_md TEXT NOT NULL,
+        cover_image TEXT,
+        status TEXT NOT NULL CHECK (status IN ('draft','scheduled','published')),
+        featured INTEGER NOT NULL DEFAULT 0 CHECK (featured IN (0,1)),
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        published_at TEXT
+      );
+      INSERT INTO posts_new (${cols}) SELECT ${cols} FROM posts;
+      DROP TABLE posts;
+      ALTER TABLE posts_new RENAME TO posts;
+    `);
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_posts_status_published ON posts(status, published_at)");
+  // Before roles existed the only account was the admin, and every post was theirs.
+  if (!hasColumn(db, "users", "role")) {
+    db.exec(`
+      ALTER TABLE users ADD COLUMN display_name TEXT NOT NULL DEFAULT '';
+      ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'author' CHECK (role IN ('admin','editor','author'));
+      ALTER TABLE users ADD COLUMN disabled INTEGER NOT NULL DEFAULT 0 CHECK (disabled IN (0,1));
+      ALTER TABLE users ADD COLUMN password_token_hash TEXT;
+      ALTER TABLE users ADD COLUMN password_token_expires_at TEXT;
+      UPDATE users SET role = 'admin';
+    `);
+  }
+  if (!hasColumn(db, "posts", "author_id")) {
+    db.exec(`
+      ALTER TABLE posts ADD COLUMN author_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+      UPDATE posts SET author_id = (SELECT id FROM users ORDER BY id ASC LIMIT 1);
+    `);
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_posts_author ON posts(author_id)");
+  if (!hasColumn(db, "users", "totp_secret")) {
+    db.exec(`
+      ALTER TABLE users ADD COLUMN totp_secret TEXT;
+      ALTER TABLE users ADD COLUMN totp_pending_secret TEXT;
+      ALTER TABLE users ADD COLUMN totp_last_step INTEGER;
+    `);
+  }
+  if (!hasColumn(db, "backup_runs", "remote_status")) {
+    db.exec(`
+      ALTER TABLE backup_runs ADD COLUMN remote_status TEXT;
+      ALTER TABLE backup_runs ADD COLUMN remote_error TEXT;
+    `);
+  }
   // FTS (best-effort; if SQLite build lacks FTS5, fallback to LIKE search)
   try {
     db.exec(`
@@ -443,40 +887,24 @@ export const migrateDb = (db: Db) => {
   }
 };
 
+const USER_COLUMNS =
+  "id, username, display_name as displayName, role, disabled, totp_secret IS NOT NULL as totpEnabled, password_hash as passwordHash, created_at as createdAt";
+
+type UserRow = User & { passwordHash: string };
+
+const mapUserRow = (row: any): UserRow | undefined =>
+  row ? { ...row, disabled: Boolean(row.disabled), totpEnabled: Boolean(row.totpEnabled) } : undefined;
+
 export const getUserByUsername = (db: Db, username: string) => {
-  return db
-    .prepare(
-      "SELECT id, username, password_hash as passwordHash, created_at as createdAt FROM users WHERE username = ?",
-    )
-    .get(username) as
-    | (User & {
-        passwordHash: string;
-      })
-    | undefined;
+  return mapUserRow(db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE username = ?`).get(username));
 };
 
 export const getUserById = (db: Db, id: number) => {
-  return db
-    .prepare(
-      "SELECT id, username, password_hash as passwordHash, created_at as createdAt FROM users WHERE id = ?",
-    )
-    .get(id) as
-    | (User & {
-        passwordHash: string;
-      })
-    | undefined;
+  return mapUserRow(db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(id));
 };
 
-export const getFirstUser = (db: Db) => {
-  return db
-    .prepare(
-      "SELECT id, username, password_hash as passwordHash, created_at as createdAt FROM users ORDER BY id ASC LIMIT 1",
-    )
-    .get() as
-    | (User & {
-        passwordHash: string;
-      })
-    | undefined;
+export const getFirstAdmin = (db: Db) => {
+  return mapUserRow(db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE role = 'admin' ORDER BY id ASC LIMIT 1`).get());
 };
 
 export const updateUserCredentials = (
@@ -500,110 +928,442 @@ export const ensureAdminUser = (
   args: { username: string; passwordHash: string },
 ) => {
   db.prepare(
-    "INSERT OR IGNORE INTO users (username, password_hash, created_at) VALUES (?, ?, ?)",
+    "INSERT OR IGNORE INTO users (username, password_hash, role, created_at) VALUES (?, ?, 'admin', ?)",
   ).run(args.username, args.passwordHash, nowIso());
 };
 
-const mapPostRow = (row: any, tags: string[], categories: string[]): Post => ({
-  id: row.id,
-  title: row.title,
-  slug: row.slug,
-  summary: row.summary,
-  contentMd: row.contentMd,
-  coverImage: row.coverImage,
-  status: row.status,
-  featured: row.featured,
-  sortOrder: row.sortOrder ?? 0,
-  createdAt: row.createdAt,
-  updatedAt: row.updatedAt,
-  publishedAt: row.publishedAt,
-  tags,
-  categories,
-});
-
-const getTagsForPost = (db: Db, postId: number): string[] => {
+export const listUsers = (db: Db): UserAdminRow[] => {
   const rows = db
     .prepare(
       `
-      SELECT t.name as name
-      FROM post_tags pt
-      JOIN tags t ON t.id = pt.tag_id
-      WHERE pt.post_id = ?
-      ORDER BY t.name ASC
+      SELECT
+        u.id,
+        u.username,
+        u.display_name as displayName,
+        u.role,
+        u.disabled,
+        u.totp_secret IS NOT NULL as totpEnabled,
+        u.password_hash != '' as hasPassword,
+        u.password_token_expires_at as inviteExpiresAt,
+        u.created_at as createdAt,
+        (SELECT COUNT(1) FROM posts p WHERE p.author_id = u.id) as postCount
+      FROM users u
+      ORDER BY u.id ASC
       `,
     )
-    .all(postId) as { name: string }[];
-  return rows.map((r) => r.name);
+    .all() as any[];
+  return rows.map((r) => ({
+    ...r,
+    disabled: Boolean(r.disabled),
+    totpEnabled: Boolean(r.totpEnabled),
+    hasPassword: Boolean(r.hasPassword),
+  }));
 };
 
-const getCategoriesForPost = (db: Db, postId: number): string[] => {
-  const rows = db
-    .prepare(
-      `
-      SELECT c.name as name
-      FROM post_categories pc
-      JOIN categories c ON c.id = pc.category_id
-      WHERE pc.post_id = ?
-      ORDER BY c.name ASC
-      `,
-    )
-    .all(postId) as { name: string }[];
-  return rows.map((r) => r.name);
+// Invited users start without a password; they pick one through the set-password link.
+export const createUser = (
+  db: Db,
+  args: { username: string; displayName: string; role: UserRole; passwordHash?: string },
+) => {
+  const info = db
+    .prepare("INSERT INTO users (username, password_hash, display_name, role, created_at) VALUES (?, ?, ?, ?, ?)")
+    .run(args.username, args.passwordHash ?? "", args.displayName, args.role, nowIso());
+  return info.lastInsertRowid as number;
 };
 
-export const getPostBySlug = (db: Db, slug: string): Post | null => {
-  const row = db
-    .prepare(
-      `
-      SELECT
-        id,
-        title,
-        slug,
-        summary,
-        content_md as contentMd,
-        cover_image as coverImage,
-        status,
-        featured,
-        sort_order as sortOrder,
-        created_at as createdAt,
-        updated_at as updatedAt,
-        published_at as publishedAt
-      FROM posts
-      WHERE slug = ?
-      LIMIT 1
-      `,
-    )
-    .get(slug) as
-    | {
-        id: number;
-        title: string;
-        slug: string;
-        summary: string | null;
-        contentMd: string;
-        coverImage: string | null;
-        status: "draft" | "published";
-        featured: 0 | 1;
-        sortOrder: number;
-        createdAt: string;
-        updatedAt: string;
-        publishedAt: string | null;
-      }
-    | undefined;
-  if (!row) return null;
-  const tags = getTagsForPost(db, row.id);
-  const categories = getCategoriesForPost(db, row.id);
-  return mapPostRow(row, tags, categories);
+export const updateUserProfile = (
+  db: Db,
+  args: { id: number; displayName: string; role: UserRole; disabled: boolean },
+) => {
+  db.prepare("UPDATE users SET display_name = ?, role = ?, disabled = ? WHERE id = ?").run(
+    args.displayName,
+    args.role,
+    args.disabled ? 1 : 0,
+    args.id,
+  );
 };
 
-export const listPosts = (
-  db: Db,
-  args: {
-    includeDrafts: boolean;
-    featured?: boolean;
-    tag?: string;
-    category?: string;
-    q?: string;
-    page: number;
+export const setUserDisplayName = (db: Db, id: number, displayName: string) => {
+  db.prepare("UPDATE users SET display_name = ? WHERE id = ?").run(displayName, id);
+};
+
+export const countActiveAdmins = (db: Db) => {
+  const row = db.prepare("SELECT COUNT(1) as c FROM users WHERE role = 'admin' AND disabled = 0").get() as { c: number };
+  return row.c;
+};
+
+// Only the hash of a set-password token is stored; issuing a new one replaces the previous link.
+export const setUserPasswordToken = (db: Db, args: { id: number; tokenHash: string; expiresAt: string }) => {
+  db.prepare("UPDATE users SET password_token_hash = ?, password_token_expires_at = ? WHERE id = ?").run(
+    args.tokenHash,
+    args.expiresAt,
+    args.id,
+  );
+};
+
+export const getUserByPasswordToken = (db: Db, tokenHash: string) => {
+  return mapUserRow(
+    db
+      .prepare(
+        `SELECT ${USER_COLUMNS} FROM users WHERE password_token_hash = ? AND password_token_expires_at > ? AND disabled = 0`,
+      )
+      .get(tokenHash, nowIso()),
+  );
+};
+
+export const setUserPassword = (db: Db, args: { id: number; passwordHash: string }) => {
+  db.prepare(
+    "UPDATE users SET password_hash = ?, password_token_hash = NULL, password_token_expires_at = NULL WHERE id = ?",
+  ).run(args.passwordHash, args.id);
+};
+
+export const getUserTotp = (db: Db, id: number) => {
+  return db
+    .prepare("SELECT totp_secret as secret, totp_pending_secret as pendingSecret, totp_last_step as lastStep FROM users WHERE id = ?")
+    .get(id) as { secret: string | null; pendingSecret: string | null; lastStep: number | null } | undefined;
+};
+
+// Enrolment keeps the new secret aside until the user proves their authenticator produces matching codes.
+export const setUserTotpPending = (db: Db, id: number, secret: string | null) => {
+  db.prepare("UPDATE users SET totp_pending_secret = ? WHERE id = ?").run(secret, id);
+};
+
+export const enableUserTotp = (db: Db, args: { id: number; secret: string; step: number; recoveryCodeHashes: string[] }) => {
+  db.transaction(() => {
+    db.prepare("UPDATE users SET totp_secret = ?, totp_pending_secret = NULL, totp_last_step = ? WHERE id = ?").run(
+      args.secret,
+      args.step,
+      args.id,
+    );
+    replaceRecoveryCodes(db, args.id, args.recoveryCodeHashes);
+  })();
+};
+
+export const disableUserTotp = (db: Db, id: number) => {
+  db.transaction(() => {
+    db.prepare("UPDATE users SET totp_secret = NULL, totp_pending_secret = NULL, totp_last_step = NULL WHERE id = ?").run(id);
+    db.prepare("DELETE FROM user_recovery_codes WHERE user_id = ?").run(id);
+  })();
+};
+
+// Remembering the last accepted step stops a code from being replayed within its validity window.
+export const setUserTotpLastStep = (db: Db, id: number, step: number) => {
+  db.prepare("UPDATE users SET totp_last_step = ? WHERE id = ?").run(step, id);
+};
+
+export const replaceRecoveryCodes = (db: Db, userId: number, codeHashes: string[]) => {
+  const now = nowIso();
+  db.transaction(() => {
+    db.prepare("DELETE FROM user_recovery_codes WHERE user_id = ?").run(userId);
+    const insert = db.prepare("INSERT INTO user_recovery_codes (user_id, code_hash, created_at) VALUES (?, ?, ?)");
+    for (const hash of codeHashes) insert.run(userId, hash, now);
+  })();
+};
+
+export const consumeRecoveryCode = (db: Db, userId: number, codeHash: string) => {
+  const info = db
+    .prepare("UPDATE user_recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL")
+    .run(nowIso(), userId, codeHash);
+  return info.changes > 0;
+};
+
+export const countRecoveryCodes = (db: Db, userId: number) => {
+  const row = db
+    .prepare("SELECT COUNT(1) as c FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL")
+    .get(userId) as { c: number };
+  return row.c;
+};
+
+export type Session = {
+  id: string;
+  userId: number;
+  device: string;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+};
+
+export type SessionAdminRow = Session & { username: string; displayName: string };
+
+const SESSION_COLUMNS = `
+  s.id as id, s.user_id as userId, s.device as device, s.ip as ip, s.user_agent as userAgent,
+  s.created_at as createdAt, s.last_seen_at as lastSeenAt, s.expires_at as expiresAt
+`;
+
+export const createSession = (
+  db: Db,
+  args: { id: string; userId: number; device: string; ip: string; userAgent: string; expiresAt: string },
+) => {
+  const now = nowIso();
+  db.prepare(
+    "INSERT INTO sessions (id, user_id, device, ip, user_agent, created_at, last_seen_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+  ).run(args.id, args.userId, args.device, args.ip, args.userAgent.slice(0, 500), now, now, args.expiresAt);
+};
+
+export const getActiveSession = (db: Db, id: string): Session | null => {
+  const row = db
+    .prepare(`SELECT ${SESSION_COLUMNS} FROM sessions s WHERE s.id = ? AND s.expires_at > ?`)
+    .get(id, nowIso()) as Session | undefined;
+  return row ?? null;
+};
+
+export const touchSession = (db: Db, args: { id: string; ip: string }) => {
+  db.prepare("UPDATE sessions SET last_seen_at = ?, ip = ? WHERE id = ?").run(nowIso(), args.ip, args.id);
+};
+
+export const listSessions = (db: Db, args: { userId?: number } = {}): SessionAdminRow[] => {
+  const where = args.userId ? "AND s.user_id = ?" : "";
+  const params: unknown[] = [nowIso()];
+  if (args.userId) params.push(args.userId);
+  return db
+    .prepare(
+      `
+      SELECT ${SESSION_COLUMNS}, u.username as username, u.display_name as displayName
+      FROM sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.expires_at > ? ${where}
+      ORDER BY s.last_seen_at DESC
+      `,
+    )
+    .all(...params) as SessionAdminRow[];
+};
+
+export const deleteSession = (db: Db, id: string, userId?: number) => {
+  const info = userId
+    ? db.prepare("DELETE FROM sessions WHERE id = ? AND user_id = ?").run(id, userId)
+    : db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+  return info.changes > 0;
+};
+
+// Signs the user out everywhere, optionally keeping the session that made the request.
+export const deleteUserSessions = (db: Db, userId: number, exceptId?: string | null) => {
+  const info = db.prepare("DELETE FROM sessions WHERE user_id = ? AND id != ?").run(userId, exceptId ?? "");
+  return info.changes;
+};
+
+export const deleteExpiredSessions = (db: Db) => {
+  db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(nowIso());
+};
+
+export type ApiToken = {
+  id: number;
+  userId: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+};
+
+const API_TOKEN_COLUMNS = `
+  id, user_id as userId, name, token_prefix as prefix, scopes_json as scopesJson,
+  created_at as createdAt, last_used_at as lastUsedAt, expires_at as expiresAt
+`;
+
+const mapApiTokenRow = ({ scopesJson, ...row }: any): ApiToken => ({ ...row, scopes: JSON.parse(scopesJson || "[]") });
+
+export const createApiToken = (
+  db: Db,
+  args: { userId: number; name: string; tokenHash: string; prefix: string; scopes: string[]; expiresAt: string | null },
+) => {
+  const info = db
+    .prepare(
+      "INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scopes_json, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    )
+    .run(args.userId, args.name, args.tokenHash, args.prefix, JSON.stringify(args.scopes), nowIso(), args.expiresAt);
+  return Number(info.lastInsertRowid);
+};
+
+export const getActiveApiTokenByHash = (db: Db, tokenHash: string): ApiToken | null => {
+  const row = db
+    .prepare(`SELECT ${API_TOKEN_COLUMNS} FROM api_tokens WHERE token_hash = ? AND (expires_at IS NULL OR expires_at > ?)`)
+    .get(tokenHash, nowIso());
+  return row ? mapApiTokenRow(row) : null;
+};
+
+export const listApiTokens = (db: Db, userId: number): ApiToken[] => {
+  const rows = db.prepare(`SELECT ${API_TOKEN_COLUMNS} FROM api_tokens WHERE user_id = ? ORDER BY id DESC`).all(userId);
+  return rows.map(mapApiTokenRow);
+};
+
+export const touchApiToken = (db: Db, id: number) => {
+  db.prepare("UPDATE api_tokens SET last_used_at = ? WHERE id = ?").run(nowIso(), id);
+};
+
+export const deleteApiToken = (db: Db, id: number, userId: number) => {
+  return db.prepare("DELETE FROM api_tokens WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+};
+
+export const LOGIN_AUDIT_RESULTS = ["success", "failed", "locked", "disabled", "2fa_failed"] as const;
+export type LoginAuditResult = (typeof LOGIN_AUDIT_RESULTS)[number];
+
+export type LoginAuditEntry = {
+  id: number;
+  username: string;
+  userId: number | null;
+  ip: string;
+  userAgent: string;
+  result: LoginAuditResult;
+  createdAt: string;
+};
+
+export const addLoginAudit = (
+  db: Db,
+  args: { username: string; userId?: number | null; ip: string; userAgent: string; result: LoginAuditResult },
+) => {
+  db.prepare(
+    "INSERT INTO login_audit (username, user_id, ip, user_agent, result, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+  ).run(args.username.slice(0, 64), args.userId ?? null, args.ip, args.userAgent.slice(0, 500), args.result, nowIso());
+};
+
+export const listLoginAudit = (db: Db, args: { limit: number; result?: LoginAuditResult; q?: string }) => {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (args.result) {
+    where.push("result = ?");
+    params.push(args.result);
+  }
+  if (args.q) {
+    where.push("(username LIKE ? OR ip LIKE ?)");
+    params.push(`%${args.q}%`, `%${args.q}%`);
+  }
+  return db
+    .prepare(
+      `
+      SELECT id, username, user_id as userId, ip, user_agent as userAgent, result, created_at as createdAt
+      FROM login_audit
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY id DESC
+      LIMIT ?
+      `,
+    )
+    .all(...params, args.limit) as LoginAuditEntry[];
+};
+
+export const pruneLoginAudit = (db: Db, keepDays: number) => {
+  const cutoff = new Date(Date.now() - keepDays * 24 * 60 * 60 * 1000).toISOString();
+  db.prepare("DELETE FROM login_audit WHERE created_at < ?").run(cutoff);
+};
+
+const mapPostRow = (row: any, tags: string[], categories: string[]): Post => ({
+  id: row.id,
+  title: row.title,
+  slug: row.slug,
+  summary: row.summary,
+  contentMd: row.contentMd,
+  coverImage: row.coverImage,
+  status: row.status,
+  featured: row.featured,
+  sortOrder: row.sortOrder ?? 0,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  publishedAt: row.publishedAt,
+  authorId: row.authorId ?? null,
+  authorName: row.authorName || null,
+  tags,
+  categories,
+});
+
+const postAuthorColumns = (alias: string) =>
+  `${alias}.author_id as authorId, (SELECT NULLIF(u.display_name, '') FROM users u WHERE u.id = ${alias}.author_id) as authorName`;
+
+const getTagsForPost = (db: Db, postId: number): string[] => {
+  const rows = db
+    .prepare(
+      `
+      SELECT t.name as name
+      FROM post_tags pt
+      JOIN tags t ON t.id = pt.tag_id
+      WHERE pt.post_id = ?
+      ORDER BY t.name ASC
+      `,
+    )
+    .all(postId) as { name: string }[];
+  return rows.map((r) => r.name);
+};
+
+const getCategoriesForPost = (db: Db, postId: number): string[] => {
+  const rows = db
+    .prepare(
+      `
+      SELECT c.name as name
+      FROM post_categories pc
+      JOIN categories c ON c.id = pc.category_id
+      WHERE pc.post_id = ?
+      ORDER BY c.name ASC
+      `,
+    )
+    .all(postId) as { name: string }[];
+  return rows.map((r) => r.name);
+};
+
+export const getPostById = (db: Db, id: number): Post | null => {
+  const row = db.prepare("SELECT slug FROM posts WHERE id = ?").get(id) as { slug: string } | undefined;
+  return row ? getPostBySlug(db, row.slug) : null;
+};
+
+export const getPostBySlug = (db: Db, slug: string): Post | null => {
+  const row = db
+    .prepare(
+      `
+      SELECT
+        id,
+        title,
+        slug,
+        summary,
+        content_md as contentMd,
+        cover_image as coverImage,
+        status,
+        featured,
+        sort_order as sortOrder,
+        created_at as createdAt,
+        updated_at as updatedAt,
+        published_at as publishedAt,
+        ${postAuthorColumns("posts")}
+      FROM posts
+      WHERE slug = ?
+      LIMIT 1
+      `,
+    )
+    .get(slug) as
+    | {
+        id: number;
+        title: string;
+        slug: string;
+        summary: string | null;
+        contentMd: string;
+        coverImage: string | null;
+        status: PostStatus;
+        featured: 0 | 1;
+        sortOrder: number;
+        createdAt: string;
+        updatedAt: string;
+        publishedAt: string | null;
+        authorId: number | null;
+        authorName: string | null;
+      }
+    | undefined;
+  if (!row) return null;
+  const tags = getTagsForPost(db, row.id);
+  const categories = getCategoriesForPost(db, row.id);
+  return mapPostRow(row, tags, categories);
+};
+
+export const listPosts = (
+  db: Db,
+  args: {
+    includeDrafts: boolean;
+    featured?: boolean;
+    tag?: string;
+    category?: string;
+    q?: string;
+    authorId?: number;
+    // Plain publish order, ignoring pinned posts and manual sort order (feeds).
+    newestFirst?: boolean;
+    page: number;
     limit: number;
   },
 ): { items: Post[]; total: number } => {
@@ -619,9 +1379,14 @@ export const listPosts = (
     clauses.push("p.featured = ?");
     params.push(args.featured ? 1 : 0);
   }
-  if (args.q) {
+  if (args.authorId !== undefined) {
+    clauses.push("p.author_id = ?");
+    params.push(args.authorId);
+  }
+  // Same word splitting as the full-text search: every word has to appear somewhere in the post.
+  for (const word of args.q ? searchWords(args.q) : []) {
     clauses.push("(p.title LIKE ? OR p.summary LIKE ? OR p.content_md LIKE ?)");
-    params.push(`%${args.q}%`, `%${args.q}%`, `%${args.q}%`);
+    params.push(`%${word}%`, `%${word}%`, `%${word}%`);
   }
 
   let join = "";
@@ -671,11 +1436,12 @@ export const listPosts = (
         p.sort_order as sortOrder,
         p.created_at as createdAt,
         p.updated_at as updatedAt,
-        p.published_at as publishedAt
+        p.published_at as publishedAt,
+        ${postAuthorColumns("p")}
       FROM posts p
       ${join}
       ${where}
-      ORDER BY p.featured DESC, p.sort_order DESC, COALESCE(p.published_at, p.updated_at) DESC
+      ORDER BY ${args.newestFirst ? "" : "p.featured DESC, p.sort_order DESC, "}COALESCE(p.published_at, p.updated_at) DESC
       LIMIT ?
       OFFSET ?
       `,
@@ -701,7 +1467,8 @@ export const upsertTagsAndCategories = (
 
     for (const tag of args.tags) {
       if (!tag.trim()) continue;
-      db.prepare("INSERT OR IGNORE INTO tags (name) VALUES (?)").run(tag.trim());
+      const created = db.prepare("INSERT OR IGNORE INTO tags (name) VALUES (?)").run(tag.trim());
+      if (created.changes) dropTaxonomyRedirect(db, "tag", tag.trim());
       const tagRow = db.prepare("SELECT id FROM tags WHERE name = ?").get(tag.trim()) as {
         id: number;
       };
@@ -715,7 +1482,8 @@ export const upsertTagsAndCategories = (
       const name = category.name.trim();
       const slug = category.slug.trim();
       if (!name || !slug) continue;
-      db.prepare("INSERT OR IGNORE INTO categories (name, slug) VALUES (?, ?)").run(name, slug);
+      const created = db.prepare("INSERT OR IGNORE INTO categories (name, slug) VALUES (?, ?)").run(name, slug);
+      if (created.changes) dropTaxonomyRedirect(db, "category", name);
       const catRow = db
         .prepare("SELECT id FROM categories WHERE name = ?")
         .get(name) as { id: number };
@@ -736,21 +1504,25 @@ export const createPost = (
     summary: string | null;
     contentMd: string;
     coverImage: string | null;
-    status: "draft" | "published";
+    status: PostStatus;
     featured: 0 | 1;
     sortOrder: number;
     publishedAt: string | null;
+    authorId: number | null;
+    // Imports keep the original dates.
+    createdAt?: string;
+    updatedAt?: string;
   },
 ) => {
-  const createdAt = nowIso();
-  const updatedAt = createdAt;
+  const createdAt = args.createdAt ?? nowIso();
+  const updatedAt = args.updatedAt ?? createdAt;
   const info = db
     .prepare(
       `
       INSERT INTO posts
-        (title, slug, summary, content_md, cover_image, status, featured, sort_order, created_at, updated_at, published_at)
+        (title, slug, summary, content_md, cover_image, status, featured, sort_order, created_at, updated_at, published_at, author_id)
       VALUES
-        (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
     )
     .run(
@@ -765,6 +1537,7 @@ export const createPost = (
       createdAt,
       updatedAt,
       args.publishedAt,
+      args.authorId,
     );
   return info.lastInsertRowid as number;
 };
@@ -778,7 +1551,7 @@ export const updatePost = (
     summary: string | null;
     contentMd: string;
     coverImage: string | null;
-    status: "draft" | "published";
+    status: PostStatus;
     featured: 0 | 1;
     sortOrder: number;
     publishedAt: string | null;
@@ -814,6 +1587,357 @@ export const updatePost = (
   );
 };
 
+// Revisions snapshot the post *after* each save, so the newest revision always matches the live post.
+export const createPostRevision = (
+  db: Db,
+  args: {
+    postId: number;
+    authorId?: number | null;
+    authorName?: string | null;
+    reason: PostRevisionSummary["reason"];
+    restoredFrom?: number | null;
+  },
+) => {
+  const row = db
+    .prepare("SELECT title, slug, summary, content_md as contentMd, cover_image as coverImage, status FROM posts WHERE id = ?")
+    .get(args.postId) as
+    | { title: string; slug: string; summary: string | null; contentMd: string; coverImage: string | null; status: string }
+    | undefined;
+  if (!row) return null;
+  const res = db
+    .prepare(
+      `
+      INSERT INTO post_revisions
+        (post_id, title, slug, summary, content_md, cover_image, status, tags_json, categories_json, author_id, author_name, reason, restored_from, created_at)
+      VALUES
+        (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+    )
+    .run(
+      args.postId,
+      row.title,
+      row.slug,
+      row.summary,
+      row.contentMd,
+      row.coverImage,
+      row.status,
+      JSON.stringify(getTagsForPost(db, args.postId)),
+      JSON.stringify(getCategoriesForPost(db, args.postId)),
+      args.authorId ?? null,
+      args.authorName ?? "",
+      args.reason,
+      args.restoredFrom ?? null,
+      nowIso(),
+    );
+  return Number(res.lastInsertRowid);
+};
+
+export const hasPostRevisions = (db: Db, postId: number) =>
+  Boolean(db.prepare("SELECT 1 FROM post_revisions WHERE post_id = ? LIMIT 1").get(postId));
+
+// Old URLs (e.g. from an imported WordPress site) -> new location. Post redirects follow the post's
+// current slug; `to_path` is used for everything else.
+export const normalizeRedirectPath = (p: string) => {
+  let out = p.trim();
+  try {
+    out = decodeURI(out);
+  } catch {
+    // keep as is
+  }
+  if (!out.startsWith("/")) out = `/${out}`;
+  return out.length > 1 ? out.replace(/\/+$/, "") : out;
+};
+
+export const upsertRedirect = (
+  db: Db,
+  args: { fromPath: string; toPath?: string | null; postId?: number | null; source: string; keepOtherSources?: boolean },
+) => {
+  const fromPath = normalizeRedirectPath(args.fromPath);
+  if (fromPath === "/") return;
+  db.prepare(
+    `
+    INSERT INTO redirects (from_path, to_path, post_id, source, created_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(from_path) DO UPDATE SET to_path = excluded.to_path, post_id = excluded.post_id, source = excluded.source
+    ${args.keepOtherSources ? "WHERE redirects.source = excluded.source" : ""}
+    `,
+  ).run(fromPath, args.toPath ?? null, args.postId ?? null, args.source, nowIso());
+};
+
+export const resolveRedirect = (db: Db, fromPath: string): string | null => {
+  const row = db
+    .prepare(
+      `
+      SELECT r.to_path as toPath, p.slug as slug
+      FROM redirects r
+      LEFT JOIN posts p ON p.id = r.post_id
+      WHERE r.from_path = ?
+      `,
+    )
+    .get(normalizeRedirectPath(fromPath)) as { toPath: string | null; slug: string | null } | undefined;
+  if (!row) return null;
+  if (row.slug) return `/post/${encodeURIComponent(row.slug)}`;
+  return row.toPath;
+};
+
+export const listPostRevisions = (db: Db, postId: number): PostRevisionSummary[] => {
+  return db
+    .prepare(
+      `
+      SELECT
+        id,
+        post_id as postId,
+        title,
+        author_name as authorName,
+        reason,
+        restored_from as restoredFrom,
+        length(content_md) as contentLength,
+        created_at as createdAt
+      FROM post_revisions
+      WHERE post_id = ?
+      ORDER BY id DESC
+      LIMIT 200
+      `,
+    )
+    .all(postId) as PostRevisionSummary[];
+};
+
+export const getPostRevision = (db: Db, args: { postId: number; id: number }): PostRevision | null => {
+  const row = db
+    .prepare(
+      `
+      SELECT
+        id,
+        post_id as postId,
+        title,
+        slug,
+        summary,
+        content_md as contentMd,
+        cover_image as coverImage,
+        status,
+        tags_json as tagsJson,
+        categories_json as categoriesJson,
+        author_name as authorName,
+        reason,
+        restored_from as restoredFrom,
+        length(content_md) as contentLength,
+        created_at as createdAt
+      FROM post_revisions
+      WHERE post_id = ? AND id = ?
+      `,
+    )
+    .get(args.postId, args.id) as any;
+  if (!row) return null;
+  const parseList = (raw: string) => {
+    try {
+      const v = JSON.parse(raw);
+      return Array.isArray(v) ? v.map(String) : [];
+    } catch {
+      return [];
+    }
+  };
+  const { tagsJson, categoriesJson, ...rest } = row;
+  return { ...rest, tags: parseList(tagsJson), categories: parseList(categoriesJson) } as PostRevision;
+};
+
+const parseEvents = (raw: string) => {
+  try {
+    const v = JSON.parse(raw);
+    return Array.isArray(v) ? v.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+const mapWebhookRow = (row: any): Webhook => {
+  const { eventsJson, enabled, ...rest } = row;
+  return { ...rest, events: parseEvents(eventsJson), enabled: Boolean(enabled) };
+};
+
+const webhookSelect =
+  "SELECT id, name, url, secret, events_json as eventsJson, enabled, created_at as createdAt, updated_at as updatedAt FROM webhooks";
+
+export const listWebhooks = (db: Db) => {
+  const rows = db.prepare(`${webhookSelect} ORDER BY id ASC`).all() as any[];
+  return rows.map(mapWebhookRow);
+};
+
+export const getWebhook = (db: Db, id: number) => {
+  const row = db.prepare(`${webhookSelect} WHERE id = ?`).get(id) as any;
+  return row ? mapWebhookRow(row) : null;
+};
+
+export const createWebhook = (
+  db: Db,
+  args: { name: string; url: string; secret: string; events: string[]; enabled: boolean },
+) => {
+  const now = nowIso();
+  const res = db
+    .prepare(
+      "INSERT INTO webhooks (name, url, secret, events_json, enabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    )
+    .run(args.name, args.url, args.secret, JSON.stringify(args.events), args.enabled ? 1 : 0, now, now);
+  return Number(res.lastInsertRowid);
+};
+
+export const updateWebhook = (
+  db: Db,
+  args: { id: number; name: string; url: string; secret: string; events: string[]; enabled: boolean },
+) => {
+  const res = db
+    .prepare("UPDATE webhooks SET name = ?, url = ?, secret = ?, events_json = ?, enabled = ?, updated_at = ? WHERE id = ?")
+    .run(args.name, args.url, args.secret, JSON.stringify(args.events), args.enabled ? 1 : 0, nowIso(), args.id);
+  return res.changes > 0;
+};
+
+export const deleteWebhook = (db: Db, id: number) => {
+  db.prepare("DELETE FROM webhooks WHERE id = ?").run(id);
+};
+
+const deliverySelect = `
+  SELECT
+    id,
+    webhook_id as webhookId,
+    event,
+    payload,
+    status,
+    attempts,
+    response_status as responseStatus,
+    response_body as responseBody,
+    error,
+    next_attempt_at as nextAttemptAt,
+    created_at as createdAt,
+    updated_at as updatedAt
+  FROM webhook_deliveries
+`;
+
+// Keep the delivery log bounded: only the newest entries per webhook survive.
+const WEBHOOK_DELIVERY_KEEP = 200;
+
+export const createWebhookDelivery = (db: Db, args: { webhookId: number; event: string; payload: string }) => {
+  const now = nowIso();
+  const res = db
+    .prepare(
+      "INSERT INTO webhook_deliveries (webhook_id, event, payload, status, attempts, next_attempt_at, created_at, updated_at) VALUES (?, ?, ?, 'pending', 0, ?, ?, ?)",
+    )
+    .run(args.webhookId, args.event, args.payload, now, now, now);
+  db.prepare(
+    `
+    DELETE FROM webhook_deliveries
+    WHERE webhook_id = ? AND status != 'pending' AND id NOT IN (
+      SELECT id FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?
+    )
+    `,
+  ).run(args.webhookId, args.webhookId, WEBHOOK_DELIVERY_KEEP);
+  return Number(res.lastInsertRowid);
+};
+
+export const getWebhookDelivery = (db: Db, id: number) => {
+  return (db.prepare(`${deliverySelect} WHERE id = ?`).get(id) as WebhookDelivery | undefined) ?? null;
+};
+
+export const listWebhookDeliveries = (db: Db, args: { webhookId?: number; limit?: number }) => {
+  const limit = Math.min(500, Math.max(1, args.limit ?? 100));
+  if (args.webhookId) {
+    return db.prepare(`${deliverySelect} WHERE webhook_id = ? ORDER BY id DESC LIMIT ?`).all(args.webhookId, limit) as WebhookDelivery[];
+  }
+  return db.prepare(`${deliverySelect} ORDER BY id DESC LIMIT ?`).all(limit) as WebhookDelivery[];
+};
+
+export const listDueWebhookDeliveries = (db: Db, now = nowIso(), limit = 20) => {
+  return db
+    .prepare(`${deliverySelect} WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC, id ASC LIMIT ?`)
+    .all(now, limit) as WebhookDelivery[];
+};
+
+export const recordWebhookAttempt = (
+  db: Db,
+  args: {
+    id: number;
+    status: WebhookDelivery["status"];
+    attempts: number;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    nextAttemptAt: string | null;
+  },
+) => {
+  db.prepare(
+    `
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = ?, response_status = ?, response_body = ?, error = ?, next_attempt_at = ?, updated_at = ?
+    WHERE id = ?
+    `,
+  ).run(args.status, args.attempts, args.responseStatus, args.responseBody, args.error, args.nextAttemptAt, nowIso(), args.id);
+};
+
+// Manual redelivery starts a fresh retry cycle for the same payload.
+export const requeueWebhookDelivery = (db: Db, id: number) => {
+  const now = nowIso();
+  const res = db
+    .prepare("UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = ? WHERE id = ?")
+    .run(now, now, id);
+  return res.changes > 0;
+};
+
+const backupRunSelect = `
+  SELECT
+    id,
+    trigger,
+    status,
+    file,
+    size,
+    files,
+    verified,
+    pruned,
+    error,
+    remote_status as remoteStatus,
+    remote_error as remoteError,
+    started_at as startedAt,
+    finished_at as finishedAt
+  FROM backup_runs
+`;
+
+// Keep the backup history bounded like the webhook delivery log.
+const BACKUP_RUN_KEEP = 200;
+
+export const addBackupRun = (db: Db, run: Omit<BackupRun, "id">) => {
+  const res = db
+    .prepare(
+      "INSERT INTO backup_runs (trigger, status, file, size, files, verified, pruned, error, remote_status, remote_error, started_at, finished_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    )
+    .run(
+      run.trigger,
+      run.status,
+      run.file,
+      run.size,
+      run.files,
+      run.verified ? 1 : 0,
+      run.pruned,
+      run.error,
+      run.remoteStatus,
+      run.remoteError,
+      run.startedAt,
+      run.finishedAt,
+    );
+  db.prepare("DELETE FROM backup_runs WHERE id NOT IN (SELECT id FROM backup_runs ORDER BY id DESC LIMIT ?)").run(BACKUP_RUN_KEEP);
+  return Number(res.lastInsertRowid);
+};
+
+export const listBackupRuns = (db: Db, limit = 50) => {
+  const rows = db.prepare(`${backupRunSelect} ORDER BY id DESC LIMIT ?`).all(Math.min(200, Math.max(1, limit))) as any[];
+  return rows.map((r) => ({ ...r, verified: Boolean(r.verified) })) as BackupRun[];
+};
+
+export const getLastBackupRun = (db: Db, status?: BackupRun["status"]) => {
+  const row = (
+    status
+      ? db.prepare(`${backupRunSelect} WHERE status = ? ORDER BY id DESC LIMIT 1`).get(status)
+      : db.prepare(`${backupRunSelect} ORDER BY id DESC LIMIT 1`).get()
+  ) as any;
+  return row ? ({ ...row, verified: Boolean(row.verified) } as BackupRun) : null;
+};
+
 export type SiteSettings = {
   nav: {
     brandText: string;
@@ -892,13 +2016,68 @@ export type AiSettings = {
 // Only serve it from admin-authenticated endpoints.
 export type CloudflareSettings = {
   enabled: boolean;
-  // When true, YaBlog will attempt to purge Cloudflare cache after content updates.
-  autoPurge: boolean;
-  // Cloudflare Global API Key auth (legacy, but user-requested).
-  email: string;
-  apiKey: string;
-  // Zone ID ("域名区域"/Zone) for the domain.
-  zoneId: string;
+  // When true, YaBlog will attempt to purge Cloudflare cache after content updates.
+  autoPurge: boolean;
+  // Cloudflare Global API Key auth (legacy, but user-requested).
+  email: string;
+  apiKey: string;
+  // Zone ID ("域名区域"/Zone) for the domain.
+  zoneId: string;
+};
+
+// NOTE: Contains SMTP credentials; admin-only like CloudflareSettings.
+export type MailSettings = {
+  enabled: boolean;
+  host: string;
+  port: number;
+  // "tls" = implicit TLS (usually 465), "starttls" = upgrade when offered (587),
+  // "none" = plain SMTP, e.g. a local stand-in like Mailpit/MailHog on port 1025.
+  security: "tls" | "starttls" | "none";
+  username: string;
+  password: string;
+  from: string;
+  // Public base URL used for links inside emails and feeds, e.g. https://blog.example.com
+  siteUrl: string;
+  adminEmail: string;
+  // "instant" = one email per event, "digest" = batched every digestMinutes.
+  adminMode: "off" | "instant" | "digest";
+  digestMinutes: number;
+  notifyComments: boolean;
+  notifyLinkRequests: boolean;
+  // Email commenters who opted in when their comment is approved or replied to.
+  notifyCommenters: boolean;
+};
+
+// Scheduled local backups; see backups.ts.
+export type BackupSettings = {
+  enabled: boolean;
+  // 5-field cron expression in server local time, e.g. "0 3 * * *".
+  schedule: string;
+  // Target directory; empty = "backups" next to the database. Relative paths are resolved against the data dir.
+  dir: string;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+  // Remove yablog.pre-restore.*.db / yablog.replaced.*.db / uploads.replaced.* older than this; 0 = keep forever.
+  leftoverDays: number;
+};
+
+// NOTE: Contains S3 credentials; admin-only like CloudflareSettings.
+export type S3Settings = {
+  enabled: boolean;
+  // e.g. https://s3.us-east-1.amazonaws.com, https://<account>.r2.cloudflarestorage.com, http://127.0.0.1:9000 (MinIO)
+  endpoint: string;
+  // "auto" for R2; MinIO accepts anything (default us-east-1).
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Key prefix inside the bucket, e.g. "yablog/".
+  prefix: string;
+  // endpoint/bucket/key URLs instead of bucket.endpoint/key; needed for MinIO and most self-hosted servers.
+  forcePathStyle: boolean;
+  // Apply the local keep daily/weekly/monthly policy to the uploaded archives as well.
+  pruneRemote: boolean;
 };
 
 export const defaultAiSettings = (): AiSettings => ({
@@ -924,6 +2103,45 @@ export const defaultCloudflareSettings = (): CloudflareSettings => ({
   zoneId: "",
 });
 
+export const defaultMailSettings = (): MailSettings => ({
+  enabled: false,
+  host: "",
+  port: 587,
+  security: "starttls",
+  username: "",
+  password: "",
+  from: "",
+  siteUrl: "",
+  adminEmail: "",
+  adminMode: "instant",
+  digestMinutes: 60,
+  notifyComments: true,
+  notifyLinkRequests: true,
+  notifyCommenters: false,
+});
+
+export const defaultBackupSettings = (): BackupSettings => ({
+  enabled: false,
+  schedule: "0 3 * * *",
+  dir: "",
+  keepDaily: 7,
+  keepWeekly: 4,
+  keepMonthly: 6,
+  leftoverDays: 7,
+});
+
+export const defaultS3Settings = (): S3Settings => ({
+  enabled: false,
+  endpoint: "",
+  region: "us-east-1",
+  bucket: "",
+  accessKeyId: "",
+  secretAccessKey: "",
+  prefix: "yablog/",
+  forcePathStyle: true,
+  pruneRemote: true,
+});
+
 const mergeAiSettings = (base: AiSettings, incoming: any): AiSettings => {
   const safe = typeof incoming === "object" && incoming ? incoming : {};
   const mode = String(safe?.mode ?? base.mode);
@@ -955,6 +2173,63 @@ const mergeCloudflareSettings = (base: CloudflareSettings, incoming: any): Cloud
   };
 };
 
+const mergeMailSettings = (base: MailSettings, incoming: any): MailSettings => {
+  const safe = typeof incoming === "object" && incoming ? incoming : {};
+  const security = String(safe?.security ?? base.security);
+  const adminMode = String(safe?.adminMode ?? base.adminMode);
+  const port = Number(safe?.port);
+  const digestMinutes = Number(safe?.digestMinutes);
+  return {
+    enabled: Boolean(safe?.enabled ?? base.enabled),
+    host: String(safe?.host ?? base.host),
+    port: Number.isInteger(port) && port > 0 && port < 65536 ? port : base.port,
+    security: security === "tls" || security === "starttls" || security === "none" ? security : base.security,
+    username: String(safe?.username ?? base.username),
+    password: String(safe?.password ?? base.password),
+    from: String(safe?.from ?? base.from),
+    siteUrl: String(safe?.siteUrl ?? base.siteUrl),
+    adminEmail: String(safe?.adminEmail ?? base.adminEmail),
+    adminMode: adminMode === "off" || adminMode === "instant" || adminMode === "digest" ? adminMode : base.adminMode,
+    digestMinutes: Number.isFinite(digestMinutes) ? Math.min(10_080, Math.max(5, Math.round(digestMinutes))) : base.digestMinutes,
+    notifyComments: Boolean(safe?.notifyComments ?? base.notifyComments),
+    notifyLinkRequests: Boolean(safe?.notifyLinkRequests ?? base.notifyLinkRequests),
+    notifyCommenters: Boolean(safe?.notifyCommenters ?? base.notifyCommenters),
+  };
+};
+
+const mergeBackupSettings = (base: BackupSettings, incoming: any): BackupSettings => {
+  const safe = typeof incoming === "object" && incoming ? incoming : {};
+  const schedule = String(safe?.schedule ?? base.schedule).trim();
+  const count = (v: unknown, fallback: number, max: number) => {
+    const n = Number(v);
+    return Number.isFinite(n) ? Math.min(max, Math.max(0, Math.round(n))) : fallback;
+  };
+  return {
+    enabled: Boolean(safe?.enabled ?? base.enabled),
+    schedule: parseCron(schedule) ? schedule : base.schedule,
+    dir: String(safe?.dir ?? base.dir).trim(),
+    keepDaily: count(safe?.keepDaily, base.keepDaily, 365),
+    keepWeekly: count(safe?.keepWeekly, base.keepWeekly, 520),
+    keepMonthly: count(safe?.keepMonthly, base.keepMonthly, 240),
+    leftoverDays: count(safe?.leftoverDays, base.leftoverDays, 3650),
+  };
+};
+
+const mergeS3Settings = (base: S3Settings, incoming: any): S3Settings => {
+  const safe = typeof incoming === "object" && incoming ? incoming : {};
+  return {
+    enabled: Boolean(safe?.enabled ?? base.enabled),
+    endpoint: String(safe?.endpoint ?? base.endpoint).trim(),
+    region: String(safe?.region ?? base.region).trim(),
+    bucket: String(safe?.bucket ?? base.bucket).trim(),
+    accessKeyId: String(safe?.accessKeyId ?? base.accessKeyId),
+    secretAccessKey: String(safe?.secretAccessKey ?? base.secretAccessKey),
+    prefix: String(safe?.prefix ?? base.prefix).trim(),
+    forcePathStyle: Boolean(safe?.forcePathStyle ?? base.forcePathStyle),
+    pruneRemote: Boolean(safe?.pruneRemote ?? base.pruneRemote),
+  };
+};
+
 export const getAiSettings = (db: Db): AiSettings => {
   const row = db.prepare("SELECT value FROM settings WHERE key = ? LIMIT 1").get("ai_settings") as
     | { value: string }
@@ -997,6 +2272,85 @@ export const setCloudflareSettings = (db: Db, settings: CloudflareSettings) => {
   );
 };
 
+export const getMailSettings = (db: Db): MailSettings => {
+  const row = db.prepare("SELECT value FROM settings WHERE key = ? LIMIT 1").get("mail_settings") as
+    | { value: string }
+    | undefined;
+  if (!row) return defaultMailSettings();
+  try {
+    const parsed = JSON.parse(row.value);
+    return mergeMailSettings(defaultMailSettings(), parsed);
+  } catch {
+    return defaultMailSettings();
+  }
+};
+
+export const setMailSettings = (db: Db, settings: MailSettings) => {
+  db.prepare("INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)").run(
+    "mail_settings",
+    JSON.stringify(settings),
+    nowIso(),
+  );
+};
+
+export const getBackupSettings = (db: Db): BackupSettings => {
+  const row = db.prepare("SELECT value FROM settings WHERE key = ? LIMIT 1").get("backup_settings") as
+    | { value: string }
+    | undefined;
+  if (!row) return defaultBackupSettings();
+  try {
+    const parsed = JSON.parse(row.value);
+    return mergeBackupSettings(defaultBackupSettings(), parsed);
+  } catch {
+    return defaultBackupSettings();
+  }
+};
+
+export const setBackupSettings = (db: Db, settings: BackupSettings) => {
+  db.prepare("INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)").run(
+    "backup_settings",
+    JSON.stringify(settings),
+    nowIso(),
+  );
+};
+
+export const getS3Settings = (db: Db): S3Settings => {
+  const row = db.prepare("SELECT value FROM settings WHERE key = ? LIMIT 1").get("s3_settings") as
+    | { value: string }
+    | undefined;
+  if (!row) return defaultS3Settings();
+  try {
+    const parsed = JSON.parse(row.value);
+    return mergeS3Settings(defaultS3Settings(), parsed);
+  } catch {
+    return defaultS3Settings();
+  }
+};
+
+export const setS3Settings = (db: Db, settings: S3Settings) => {
+  db.prepare("INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)").run(
+    "s3_settings",
+    JSON.stringify(settings),
+    nowIso(),
+  );
+};
+
+// Timestamp of the newest event already covered by an admin digest email.
+export const getMailDigestCursor = (db: Db) => {
+  const row = db.prepare("SELECT value FROM settings WHERE key = ? LIMIT 1").get("mail_digest_cursor") as
+    | { value: string }
+    | undefined;
+  return row?.value ?? null;
+};
+
+export const setMailDigestCursor = (db: Db, cursor: string) => {
+  db.prepare("INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)").run(
+    "mail_digest_cursor",
+    cursor,
+    nowIso(),
+  );
+};
+
 export const defaultSiteSettings = (): SiteSettings => ({
   nav: {
     brandText: "YaBlog",
@@ -1157,156 +2511,201 @@ const mergeSiteSettings = (base: SiteSettings, incoming: any): SiteSettings => {
   };
 };
 
-const hasFts = (db: Db) => {
+export const hasFts = (db: Db) => {
   const row = db
     .prepare("SELECT 1 as ok FROM sqlite_master WHERE type IN ('table','view') AND name = ? LIMIT 1")
     .get("posts_fts") as { ok: 1 } | undefined;
   return Boolean(row?.ok);
 };
 
-const toFtsQuery = (q: string) => {
-  const cleaned = q
-    .trim()
-    .replace(/["']/g, " ")
-    .replace(/[()[\]{}]/g, " ")
-    .replace(/\s+/g, " ");
-  if (!cleaned) return null;
-  // Prefix match for "fuzzy" feel (e.g., app* store*)
-  return cleaned
-    .split(" ")
-    .filter(Boolean)
-    .map((t) => `${t}*`)
-    .join(" ");
+export type SearchSort = "relevance" | "newest";
+
+// Values within one facet are alternatives (any of the tags); different facets narrow each other.
+export type SearchFilters = {
+  tags?: string[];
+  categories?: string[];
+  // Inclusive YYYY-MM-DD bounds on the post date (published, else last updated).
+  from?: string;
+  to?: string;
 };
 
+export type FacetCount = { value: string; count: number };
+export type SearchFacets = { tags: FacetCount[]; categories: FacetCount[]; years: FacetCount[] };
+
+const FACET_LIMIT = 30;
+const POST_DATE = "COALESCE(p.published_at, p.updated_at)";
+
+const emptyFacets = (): SearchFacets => ({ tags: [], categories: [], years: [] });
+
+type SearchClause = { sql: string; params: unknown[] };
+
 export const searchPosts = (
   db: Db,
-  args: { q: string; page: number; limit: number; includeDrafts: boolean },
-): { items: Post[]; total: number } => {
+  args: {
+    q: string;
+    page: number;
+    limit: number;
+    includeDrafts: boolean;
+    filters?: SearchFilters;
+    sort?: SearchSort;
+  },
+): { items: Post[]; total: number; facets: SearchFacets } => {
   const q = args.q.trim();
-  if (!q) return { items: [], total: 0 };
-
-  const offset = (args.page - 1) * args.limit;
-  const clauses: string[] = ["p.slug != 'about'"];
-  if (!args.includeDrafts) clauses.push("p.status = 'published'");
-  const whereExtra = clauses.length ? `AND ${clauses.join(" AND ")}` : "";
-
+  if (!q) return { items: [], total: 0, facets: emptyFacets() };
+
+  // The matched set: full-text match when available, otherwise every word as a LIKE substring.
+  let from = "posts p";
+  const fromParams: unknown[] = [];
+  let rankOrder = "";
+  const matched: SearchClause[] = [{ sql: "p.slug != 'about'", params: [] }];
+  if (!args.includeDrafts) matched.push({ sql: "p.status = 'published'", params: [] });
   if (hasFts(db)) {
     const fts = toFtsQuery(q);
-    if (!fts) return { items: [], total: 0 };
+    if (!fts) return { items: [], total: 0, facets: emptyFacets() };
+    from = "posts p JOIN (SELECT rowid as id, bm25(posts_fts) as rank FROM posts_fts WHERE posts_fts MATCH ?) m ON m.id = p.id";
+    fromParams.push(fts);
+    rankOrder = "m.rank ASC, ";
+  } else {
+    for (const word of searchWords(q)) {
+      matched.push({
+        sql: "(p.title LIKE ? OR p.summary LIKE ? OR p.content_md LIKE ?)",
+        params: [`%${word}%`, `%${word}%`, `%${word}%`],
+      });
+    }
+  }
 
-    const totalRow = db
-      .prepare(
-        `
-        SELECT COUNT(1) as total
-        FROM posts_fts f
-        JOIN posts p ON p.id = f.rowid
-        WHERE posts_fts MATCH ?
-        ${whereExtra}
-        `,
-      )
-      .get(fts) as { total: number };
+  // One clause per facet, so each facet's counts can ignore its own selection.
+  const f = args.filters ?? {};
+  const byFacet: Record<keyof SearchFacets, SearchClause[]> = { tags: [], categories: [], years: [] };
+  if (f.tags?.length) {
+    byFacet.tags.push({
+      sql: "p.id IN (SELECT pt.post_id FROM post_tags pt JOIN tags t ON t.id = pt.tag_id WHERE t.name IN (SELECT value FROM json_each(?)))",
+      params: [JSON.stringify(f.tags)],
+    });
+  }
+  if (f.categories?.length) {
+    byFacet.categories.push({
+      sql: "p.id IN (SELECT pc.post_id FROM post_categories pc JOIN categories c ON c.id = pc.category_id WHERE c.name IN (SELECT value FROM json_each(?)))",
+      params: [JSON.stringify(f.categories)],
+    });
+  }
+  if (f.from) byFacet.years.push({ sql: `${POST_DATE} >= ?`, params: [f.from] });
+  if (f.to) {
+    const next = new Date(`${f.to}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    byFacet.years.push({ sql: `${POST_DATE} < ?`, params: [next.toISOString().slice(0, 10)] });
+  }
+
+  const where = (skip?: keyof SearchFacets) => {
+    const all = [...matched, ...(Object.keys(byFacet) as (keyof SearchFacets)[]).filter((k) => k !== skip).flatMap((k) => byFacet[k])];
+    return { sql: all.map((c) => c.sql).join(" AND "), params: [...fromParams, ...all.flatMap((c) => c.params)] };
+  };
+
+  const full = where();
+  const totalRow = db.prepare(`SELECT COUNT(1) as total FROM ${from} WHERE ${full.sql}`).get(...full.params) as {
+    total: number;
+  };
+
+  const order =
+    args.sort === "newest"
+      ? `${POST_DATE} DESC`
+      : `${rankOrder}p.featured DESC, p.sort_order DESC, ${POST_DATE} DESC`;
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        p.id,
+        p.title,
+        p.slug,
+        p.summary,
+        p.content_md as contentMd,
+        p.cover_image as coverImage,
+        p.status,
+        p.featured,
+        p.sort_order as sortOrder,
+        p.created_at as createdAt,
+        p.updated_at as updatedAt,
+        p.published_at as publishedAt,
+        ${postAuthorColumns("p")}
+      FROM ${from}
+      WHERE ${full.sql}
+      ORDER BY ${order}
+      LIMIT ?
+      OFFSET ?
+      `,
+    )
+    .all(...full.params, args.limit, (args.page - 1) * args.limit) as any[];
+  const items = rows.map((row) => mapPostRow(row, getTagsForPost(db, row.id), getCategoriesForPost(db, row.id)));
+
+  const facet = (skip: keyof SearchFacets, value: string, join: string, orderBy: string, limit: number) => {
+    const w = where(skip);
+    return db
+      .prepare(`SELECT ${value} as value, COUNT(1) as count FROM ${from} ${join} WHERE ${w.sql} GROUP BY 1 ORDER BY ${orderBy} LIMIT ?`)
+      .all(...w.params, limit) as FacetCount[];
+  };
+  const facets: SearchFacets = {
+    tags: facet("tags", "t.name", "JOIN post_tags pt ON pt.post_id = p.id JOIN tags t ON t.id = pt.tag_id", "count DESC, value ASC", FACET_LIMIT),
+    categories: facet(
+      "categories",
+      "c.name",
+      "JOIN post_categories pc ON pc.post_id = p.id JOIN categories c ON c.id = pc.category_id",
+      "count DESC, value ASC",
+      FACET_LIMIT,
+    ),
+    years: facet("years", `substr(${POST_DATE}, 1, 4)`, "", "value DESC", 100),
+  };
+
+  return { items, total: totalRow.total, facets };
+};
+
+export type SearchSuggestions = {
+  posts: { slug: string; title: string }[];
+  tags: FacetCount[];
+  categories: FacetCount[];
+};
+
+// Type-ahead for the header search box: published titles containing every word, plus tags and
+// categories whose name contains the whole input. Names that start with the input come first.
+export const suggestSearch = (db: Db, q: string, limit: number): SearchSuggestions => {
+  const words = searchWords(q);
+  if (!words.length) return { posts: [], tags: [], categories: [] };
+  const escape = (s: string) => s.replace(/[\\%_]/g, (c) => `\\${c}`);
+  const whole = escape(words.join(" "));
 
-    const rows = db
+  const posts = db
+    .prepare(
+      `
+      SELECT p.slug, p.title
+      FROM posts p
+      WHERE p.status = 'published' AND p.slug != 'about'
+        AND ${words.map(() => "p.title LIKE ? ESCAPE '\\'").join(" AND ")}
+      ORDER BY (p.title LIKE ? ESCAPE '\\') DESC, ${POST_DATE} DESC
+      LIMIT ?
+      `,
+    )
+    .all(...words.map((w) => `%${escape(w)}%`), `${whole}%`, limit) as { slug: string; title: string }[];
+
+  const names = (table: "tags" | "categories", link: string, key: string) =>
+    db
       .prepare(
         `
-        SELECT
-          p.id,
-          p.title,
-          p.slug,
-          p.summary,
-          p.content_md as contentMd,
-          p.cover_image as coverImage,
-          p.status,
-          p.featured,
-          p.sort_order as sortOrder,
-          p.created_at as createdAt,
-          p.updated_at as updatedAt,
-          p.published_at as publishedAt
-        FROM posts_fts f
-        JOIN posts p ON p.id = f.rowid
-        WHERE posts_fts MATCH ?
-        ${whereExtra}
-        ORDER BY bm25(posts_fts) ASC, p.featured DESC, p.sort_order DESC, COALESCE(p.published_at, p.updated_at) DESC
+        SELECT x.name as value, COUNT(p.id) as count
+        FROM ${table} x
+        JOIN ${link} l ON l.${key} = x.id
+        JOIN posts p ON p.id = l.post_id AND p.status = 'published'
+        WHERE x.name LIKE ? ESCAPE '\\'
+        GROUP BY x.id
+        ORDER BY (x.name LIKE ? ESCAPE '\\') DESC, count DESC, x.name ASC
         LIMIT ?
-        OFFSET ?
         `,
       )
-      .all(fts, args.limit, offset) as any[];
-
-    const items = rows.map((row) => {
-      const tags = getTagsForPost(db, row.id);
-      const categories = getCategoriesForPost(db, row.id);
-      return mapPostRow(row, tags, categories);
-    });
-    return { items, total: totalRow.total };
-  }
-
-  // Fallback to LIKE-based search
-  const { items, total } = listPosts(db, {
-    includeDrafts: args.includeDrafts,
-    q,
-    page: args.page,
-    limit: args.limit,
-    tag: undefined,
-    category: undefined,
-    featured: undefined,
-  });
-  return { items, total };
-};
-
-export const recommendPosts = (
-  db: Db,
-  args: { base: Post[]; limit: number },
-): Post[] => {
-  if (!args.base.length) {
-    return listPosts(db, {
-      includeDrafts: false,
-      page: 1,
-      limit: args.limit,
-      featured: undefined,
-      tag: undefined,
-      category: undefined,
-      q: undefined,
-    }).items;
-  }
+      .all(`%${whole}%`, `${whole}%`, limit) as FacetCount[];
 
-  const baseIds = new Set(args.base.map((p) => p.id));
-  const seed = args.base[0];
-  const seedTag = seed.tags[0];
-  const seedCategory = seed.categories[0];
-
-  const candidates = seedTag
-    ? listPosts(db, {
-        includeDrafts: false,
-        page: 1,
-        limit: args.limit + 10,
-        featured: undefined,
-        tag: seedTag,
-        category: undefined,
-        q: undefined,
-      }).items
-    : seedCategory
-      ? listPosts(db, {
-          includeDrafts: false,
-          page: 1,
-          limit: args.limit + 10,
-          featured: undefined,
-          tag: undefined,
-          category: seedCategory,
-          q: undefined,
-        }).items
-      : listPosts(db, {
-          includeDrafts: false,
-          page: 1,
-          limit: args.limit + 10,
-          featured: undefined,
-          tag: undefined,
-          category: undefined,
-          q: undefined,
-        }).items;
-
-  return candidates.filter((p) => !baseIds.has(p.id)).slice(0, args.limit);
+  return {
+    posts,
+    tags: names("tags", "post_tags", "tag_id"),
+    categories: names("categories", "post_categories", "category_id"),
+  };
 };
 
 export const getSiteSettings = (db: Db): SiteSettings => {
@@ -1328,6 +2727,80 @@ export const setSiteSettings = (db: Db, settings: SiteSettings) => {
   ).run("site_settings", JSON.stringify(settings), nowIso());
 };
 
+// Flip scheduled posts whose publish time has passed. Returns the ids of the posts that just went live.
+export const publishDueScheduledPosts = (db: Db, now = nowIso()) => {
+  const rows = db
+    .prepare(
+      "UPDATE posts SET status = 'published', updated_at = ? WHERE status = 'scheduled' AND published_at IS NOT NULL AND published_at <= ? RETURNING id",
+    )
+    .all(now, now) as { id: number }[];
+  return rows.map((r) => r.id);
+};
+
+// Every post, drafts included, oldest first (content export).
+export const listAllPosts = (db: Db): Post[] => {
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        p.id,
+        p.title,
+        p.slug,
+        p.summary,
+        p.content_md as contentMd,
+        p.cover_image as coverImage,
+        p.status,
+        p.featured,
+        p.sort_order as sortOrder,
+        p.created_at as createdAt,
+        p.updated_at as updatedAt,
+        p.published_at as publishedAt,
+        ${postAuthorColumns("p")}
+      FROM posts p
+      ORDER BY COALESCE(p.published_at, p.created_at) ASC, p.id ASC
+      `,
+    )
+    .all() as any[];
+  return rows.map((row) => mapPostRow(row, getTagsForPost(db, row.id), getCategoriesForPost(db, row.id)));
+};
+
+export type CommentExportRow = {
+  id: number;
+  postSlug: string;
+  parentId: number | null;
+  author: string;
+  email: string | null;
+  contentMd: string;
+  status: "pending" | "approved";
+  isAdmin: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const listAllComments = (db: Db): CommentExportRow[] => {
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        c.id,
+        p.slug as postSlug,
+        c.parent_id as parentId,
+        c.author,
+        c.email,
+        c.content_md as contentMd,
+        c.status,
+        c.is_admin as isAdmin,
+        c.created_at as createdAt,
+        c.updated_at as updatedAt
+      FROM comments c
+      JOIN posts p ON p.id = c.post_id
+      ORDER BY c.id ASC
+      `,
+    )
+    .all() as any[];
+  return rows.map((r) => ({ ...r, isAdmin: Boolean(r.isAdmin) }));
+};
+
 export const deletePost = (db: Db, id: number) => {
   db.prepare("DELETE FROM posts WHERE id = ?").run(id);
 };
@@ -1344,3 +2817,149 @@ export const listCategories = (db: Db): { name: string; slug: string }[] => {
     .prepare("SELECT name, slug FROM categories ORDER BY name ASC")
     .all() as { name: string; slug: string }[];
 };
+
+export type TaxonomyKind = "tag" | "category";
+
+export type TaxonomyTerm = {
+  id: number;
+  name: string;
+  // Categories only.
+  slug: string | null;
+  description: string;
+  image: string | null;
+  postCount: number;
+};
+
+const TAXONOMY = {
+  tag: { table: "tags", link: "post_tags", column: "tag_id", path: "/tag/" },
+  category: { table: "categories", link: "post_categories", column: "category_id", path: "/category/" },
+} as const;
+
+export const taxonomyPath = (kind: TaxonomyKind, name: string) => `${TAXONOMY[kind].path}${encodeURIComponent(name)}`;
+
+const taxonomySelect = (kind: TaxonomyKind) => {
+  const t = TAXONOMY[kind];
+  return `
+    SELECT
+      x.id,
+      x.name,
+      ${kind === "category" ? "x.slug" : "NULL"} as slug,
+      x.description,
+      x.image,
+      (SELECT COUNT(*) FROM ${t.link} l WHERE l.${t.column} = x.id) as postCount
+    FROM ${t.table} x
+  `;
+};
+
+export const listTaxonomyTerms = (db: Db, kind: TaxonomyKind): TaxonomyTerm[] =>
+  db.prepare(`${taxonomySelect(kind)} ORDER BY x.name ASC`).all() as TaxonomyTerm[];
+
+export const getTaxonomyTerm = (db: Db, kind: TaxonomyKind, id: number): TaxonomyTerm | null =>
+  (db.prepare(`${taxonomySelect(kind)} WHERE x.id = ?`).get(id) as TaxonomyTerm | undefined) ?? null;
+
+export const getTaxonomyTermByName = (db: Db, kind: TaxonomyKind, name: string): TaxonomyTerm | null =>
+  (db.prepare(`${taxonomySelect(kind)} WHERE x.name = ?`).get(name) as TaxonomyTerm | undefined) ?? null;
+
+// Category slugs are unique too; a rename that lands on a taken slug gets a numeric suffix.
+const uniqueCategorySlug = (db: Db, base: string, excludeId: number | null) => {
+  const taken = db.prepare("SELECT 1 FROM categories WHERE slug = ? AND id != ?");
+  let slug = base;
+  for (let n = 2; taken.get(slug, excludeId ?? 0); n++) slug = `${base}-${n}`;
+  return slug;
+};
+
+// A term that exists (again) under a name must not be redirected away from.
+const dropTaxonomyRedirect = (db: Db, kind: TaxonomyKind, name: string) => {
+  db.prepare("DELETE FROM redirects WHERE from_path = ?").run(normalizeRedirectPath(taxonomyPath(kind, name)));
+};
+
+// Old term URL -> new one; redirects that pointed at the old URL are moved along so they never chain.
+const moveTaxonomyPath = (db: Db, kind: TaxonomyKind, fromName: string, toName: string) => {
+  const fromPath = taxonomyPath(kind, fromName);
+  const toPath = taxonomyPath(kind, toName);
+  upsertRedirect(db, { fromPath, toPath, source: "taxonomy" });
+  db.prepare("UPDATE redirects SET to_path = ? WHERE to_path = ?").run(toPath, fromPath);
+  dropTaxonomyRedirect(db, kind, toName);
+};
+
+export const createTaxonomyTerm = (
+  db: Db,
+  kind: TaxonomyKind,
+  args: { name: string; slug: string; description: string; image: string | null },
+) => {
+  const tx = db.transaction(() => {
+    const info =
+      kind === "category"
+        ? db
+            .prepare("INSERT INTO categories (name, slug, description, image) VALUES (?, ?, ?, ?)")
+            .run(args.name, uniqueCategorySlug(db, args.slug, null), args.description, args.image)
+        : db.prepare("INSERT INTO tags (name, description, image) VALUES (?, ?, ?)").run(args.name, args.description, args.image);
+    dropTaxonomyRedirect(db, kind, args.name);
+    return Number(info.lastInsertRowid);
+  });
+  return tx();
+};
+
+export const updateTaxonomyTerm = (
+  db: Db,
+  kind: TaxonomyKind,
+  args: { id: number; name: string; slug: string; description: string; image: string | null },
+) => {
+  const tx = db.transaction(() => {
+    const current = getTaxonomyTerm(db, kind, args.id);
+    if (!current) return;
+    if (kind === "category") {
+      const slug = current.name === args.name ? current.slug : uniqueCategorySlug(db, args.slug, args.id);
+      db.prepare("UPDATE categories SET name = ?, slug = ?, description = ?, image = ? WHERE id = ?").run(
+        args.name,
+        slug,
+        args.description,
+        args.image,
+        args.id,
+      );
+    } else {
+      db.prepare("UPDATE tags SET name = ?, description = ?, image = ? WHERE id = ?").run(
+        args.name,
+        args.description,
+        args.image,
+        args.id,
+      );
+    }
+    if (current.name !== args.name) moveTaxonomyPath(db, kind, current.name, args.name);
+  });
+  tx();
+};
+
+const taxonomyPostIds = (db: Db, kind: TaxonomyKind, id: number) => {
+  const t = TAXONOMY[kind];
+  return db.prepare(`SELECT post_id FROM ${t.link} WHERE ${t.column} = ?`).pluck().all(id) as number[];
+};
+
+// Moves every post from one term to another and deletes the first; its URL redirects to the target.
+// Returns the ids of the posts that were moved.
+export const mergeTaxonomyTerms = (db: Db, kind: TaxonomyKind, args: { fromId: number; intoId: number }) => {
+  const t = TAXONOMY[kind];
+  const tx = db.transaction(() => {
+    const from = getTaxonomyTerm(db, kind, args.fromId);
+    const into = getTaxonomyTerm(db, kind, args.intoId);
+    if (!from || !into || from.id === into.id) return [];
+    const postIds = taxonomyPostIds(db, kind, from.id);
+    db.prepare(
+      `INSERT OR IGNORE INTO ${t.link} (post_id, ${t.column}) SELECT post_id, ? FROM ${t.link} WHERE ${t.column} = ?`,
+    ).run(into.id, from.id);
+    db.prepare(`DELETE FROM ${t.table} WHERE id = ?`).run(from.id);
+    moveTaxonomyPath(db, kind, from.name, into.name);
+    return postIds;
+  });
+  return tx();
+};
+
+// Returns the ids of the posts that lost the term.
+export const deleteTaxonomyTerm = (db: Db, kind: TaxonomyKind, id: number) => {
+  const tx = db.transaction(() => {
+    const postIds = taxonomyPostIds(db, kind, id);
+    db.prepare(`DELETE FROM ${TAXONOMY[kind].table} WHERE id = ?`).run(id);
+    return postIds;
+  });
+  return tx();
+};
@@ -0,0 +1,25 @@
+// Things that happened on the site which other subsystems (email, webhooks) may react to.
+export type AppEvent =
+  | { type: "post.published"; postId: number }
+  | { type: "post.updated"; postId: number }
+  // The row is already gone when this fires, so it carries what subscribers need to identify it.
+  | { type: "post.deleted"; post: { id: number; slug: string; title: string; status: string } }
+  | { type: "comment.created"; commentId: number }
+  // A comment became publicly visible: approved by the admin, or an admin reply.
+  | { type: "comment.approved"; commentId: number }
+  | { type: "link_request.created"; linkRequestId: number }
+  | { type: "upload.created"; files: { name: string; url: string }[]; replaced: boolean }
+  | { type: "upload.deleted"; name: string };
+
+export type AppEventType = AppEvent["type"];
+
+export const APP_EVENT_TYPES: AppEventType[] = [
+  "post.published",
+  "post.updated",
+  "post.deleted",
+  "comment.created",
+  "comment.approved",
+  "link_request.created",
+  "upload.created",
+  "upload.deleted",
+];
@@ -0,0 +1,201 @@
+import { micromark } from "micromark";
+import { gfm, gfmHtml } from "micromark-extension-gfm";
+
+import type { Post } from "./db.js";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export type FeedChannel = {
+  origin: string;
+  title: string;
+  description: string;
+  author: string;
+  // Path of the HTML page this feed mirrors, e.g. "/" or "/tag/foo".
+  pagePath: string;
+  // Path of the feed document itself (used for self links).
+  feedPath: string;
+  image?: string;
+};
+
+const esc = (s: string) =>
+  s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+
+// CDATA cannot contain "]]>", so split it across two sections.
+const cdata = (s: string) => `<![CDATA[${s.replaceAll("]]>", "]]]]><![CDATA[>")}]]>`;
+
+const absoluteUrl = (origin: string, value: string | null | undefined) => {
+  const input = String(value ?? "").trim();
+  if (!input) return "";
+  if (/^https?:\/\//i.test(input)) return input;
+  if (input.startsWith("//")) return `${new URL(origin).protocol}${input}`;
+  try {
+    return new URL(input, `${origin}/`).toString();
+  } catch {
+    return "";
+  }
+};
+
+const toIso = (value: string | null | undefined) => {
+  const d = new Date(value ?? "");
+  return Number.isNaN(d.getTime()) ? new Date(0).toISOString() : d.toISOString();
+};
+
+const toRfc822 = (value: string | null | undefined) => new Date(toIso(value)).toUTCString();
+
+const guessImageType = (url: string) => {
+  const ext = url.split("?")[0].split(".").pop()?.toLowerCase() ?? "";
+  if (ext === "png") return "image/png";
+  if (ext === "gif") return "image/gif";
+  if (ext === "webp") return "image/webp";
+  if (ext === "svg") return "image/svg+xml";
+  if (ext === "avif") return "image/avif";
+  return "image/jpeg";
+};
+
+// Render post Markdown to HTML for feed readers. Raw HTML in the source is escaped (micromark default),
+// and site-relative links/images are made absolute so they work outside the site.
+export const renderFeedHtml = (md: string, origin: string) => {
+  const html = micromark(md, { extensions: [gfm()], htmlExtensions: [gfmHtml()] });
+  return html.replace(/\s(src|href)="(\/(?!\/)[^"]*)"/g, (_m, attr: string, p: string) => ` ${attr}="${origin}${p}"`);
+};
+
+type FeedEntry = {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  image: string;
+  publishedAt: string;
+  updatedAt: string;
+  tags: string[];
+};
+
+const toEntries = (channel: FeedChannel, posts: Post[]): FeedEntry[] =>
+  posts.map((p) => {
+    const url = `${channel.origin}/post/${encodeURIComponent(p.slug)}`;
+    const publishedAt = toIso(p.publishedAt || p.createdAt);
+    return {
+      id: url,
+      url,
+      title: p.title,
+      summary: (p.summary ?? "").trim(),
+      html: renderFeedHtml(p.contentMd, channel.origin),
+      image: absoluteUrl(channel.origin, p.coverImage),
+      publishedAt,
+      updatedAt: toIso(p.updatedAt || publishedAt),
+      tags: Array.from(new Set([...p.categories, ...p.tags])),
+    };
+  });
+
+const lastUpdated = (entries: FeedEntry[]) =>
+  entries.reduce((max, e) => (e.updatedAt > max ? e.updatedAt : max), entries[0]?.updatedAt ?? new Date(0).toISOString());
+
+export const buildRssFeed = (channel: FeedChannel, posts: Post[]) => {
+  const entries = toEntries(channel, posts);
+  const pageUrl = `${channel.origin}${channel.pagePath}`;
+  const image = absoluteUrl(channel.origin, channel.image);
+  const items = entries.map((e) =>
+    [
+      "<item>",
+      `<title>${esc(e.title)}</title>`,
+      `<link>${esc(e.url)}</link>`,
+      `<guid isPermaLink="true">${esc(e.id)}</guid>`,
+      `<pubDate>${esc(toRfc822(e.publishedAt))}</pubDate>`,
+      `<atom:updated>${esc(e.updatedAt)}</atom:updated>`,
+      `<dc:creator>${esc(channel.author)}</dc:creator>`,
+      ...e.tags.map((t) => `<category>${esc(t)}</category>`),
+      `<description>${cdata(e.summary || e.html)}</description>`,
+      `<content:encoded>${cdata(e.html)}</content:encoded>`,
+      e.image ? `<media:content url="${esc(e.image)}" medium="image" type="${guessImageType(e.image)}" />` : "",
+      "</item>",
+    ].join(""),
+  );
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">` +
+    "<channel>" +
+    `<title>${esc(channel.title)}</title>` +
+    `<link>${esc(pageUrl)}</link>` +
+    `<description>${esc(channel.description)}</description>` +
+    "<language>zh-CN</language>" +
+    `<lastBuildDate>${esc(toRfc822(lastUpdated(entries)))}</lastBuildDate>` +
+    `<atom:link href="${esc(channel.origin + channel.feedPath)}" rel="self" type="application/rss+xml" />` +
+    (image ? `<image><url>${esc(image)}</url><title>${esc(channel.title)}</title><link>${esc(pageUrl)}</link></image>` : "") +
+    items.join("") +
+    "</channel>" +
+    "</rss>"
+  );
+};
+
+export const buildAtomFeed = (channel: FeedChannel, posts: Post[]) => {
+  const entries = toEntries(channel, posts);
+  const pageUrl = `${channel.origin}${channel.pagePath}`;
+  const image = absoluteUrl(channel.origin, channel.image);
+  const items = entries.map((e) =>
+    [
+      "<entry>",
+      `<id>${esc(e.id)}</id>`,
+      `<title>${esc(e.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${esc(e.url)}" />`,
+      `<published>${esc(e.publishedAt)}</published>`,
+      `<updated>${esc(e.updatedAt)}</updated>`,
+      `<author><name>${esc(channel.author)}</name></author>`,
+      ...e.tags.map((t) => `<category term="${esc(t)}" />`),
+      e.summary ? `<summary type="text">${esc(e.summary)}</summary>` : "",
+      `<content type="html">${esc(e.html)}</content>`,
+      e.image ? `<link rel="enclosure" type="${guessImageType(e.image)}" href="${esc(e.image)}" />` : "",
+      e.image ? `<media:thumbnail url="${esc(e.image)}" />` : "",
+      "</entry>",
+    ].join(""),
+  );
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xml:lang="zh-CN">` +
+    `<id>${esc(pageUrl)}</id>` +
+    `<title>${esc(channel.title)}</title>` +
+    `<subtitle>${esc(channel.description)}</subtitle>` +
+    `<updated>${esc(lastUpdated(entries))}</updated>` +
+    `<link rel="alternate" type="text/html" href="${esc(pageUrl)}" />` +
+    `<link rel="self" type="application/atom+xml" href="${esc(channel.origin + channel.feedPath)}" />` +
+    `<author><name>${esc(channel.author)}</name></author>` +
+    (image ? `<icon>${esc(image)}</icon>` : "") +
+    items.join("") +
+    "</feed>"
+  );
+};
+
+// https://www.jsonfeed.org/version/1.1/
+export const buildJsonFeed = (channel: FeedChannel, posts: Post[]) => {
+  const entries = toEntries(channel, posts);
+  const image = absoluteUrl(channel.origin, channel.image);
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: channel.title,
+    home_page_url: `${channel.origin}${channel.pagePath}`,
+    feed_url: `${channel.origin}${channel.feedPath}`,
+    description: channel.description,
+    language: "zh-CN",
+    icon: image || undefined,
+    authors: [{ name: channel.author }],
+    items: entries.map((e) => ({
+      id: e.id,
+      url: e.url,
+      title: e.title,
+      summary: e.summary || undefined,
+      content_html: e.html,
+      image: e.image || undefined,
+      banner_image: e.image || undefined,
+      date_published: e.publishedAt,
+      date_modified: e.updatedAt,
+      tags: e.tags.length ? e.tags : undefined,
+    })),
+  };
+};
@@ -15,43 +15,115 @@ import sharp from "sharp";
 import tar from "tar";
 import { z } from "zod";
 
-import { authenticateUser, hashPassword, loginSchema, signToken, verifyPassword } from "./auth.js";
+import {
+  authenticateUser,
+  describeDevice,
+  hashPassword,
+  hashPasswordToken,
+  loginSchema,
+  signLoginTicket,
+  SESSION_TTL_MS,
+  signToken,
+  verifyLoginTicket,
+  verifyPassword,
+  verifySecondFactor,
+  verifyToken,
+} from "./auth.js";
+import { createBackupScheduler } from "./backupScheduler.js";
+import { verifyBackupArchive, writeFullBackup } from "./backups.js";
 import { createCache } from "./cache.js";
 import { config } from "./config.js";
+import { parseCron } from "./cron.js";
 import {
+  addLoginAudit,
   defaultAiSettings,
   defaultCloudflareSettings,
+  defaultMailSettings,
   defaultSiteSettings,
+  createSession,
+  deleteExpiredSessions,
   deleteIpBan,
+  deleteSession,
+  deleteUserSessions,
+  disableUserTotp,
   ensureAdminUser,
-  getFirstUser,
+  getFirstAdmin,
   getAiSettings,
+  getBackupSettings,
   getCloudflareSettings,
+  getMailSettings,
+  getS3Settings,
   getSiteSettings,
   getUserById,
+  getUserByPasswordToken,
+  getUserByUsername,
   hasAnyUsers,
-  initDb,
   listCategories,
   listPosts,
   listIpBans,
+  listLoginAudit,
+  LOGIN_AUDIT_RESULTS,
   listTags,
-  migrateDb,
   openDb,
+  publishDueScheduledPosts,
+  pruneLoginAudit,
+  resolveRedirect,
   setAiSettings,
+  setBackupSettings,
   setCloudflareSettings,
+  setMailSettings,
+  setS3Settings,
   setSiteSettings,
+  setUserDisplayName,
+  setUserPassword,
   upsertIpBan,
   updateUserCredentials,
+  type LoginAuditResult,
+  updateUserProfile,
 } from "./db.js";
-import { requireAuth, type AuthedRequest } from "./middleware.js";
+import { buildAtomFeed, buildJsonFeed, buildRssFeed, type FeedChannel, type FeedFormat } from "./feeds.js";
+import type { AppEvent } from "./events.js";
+import { createLoginGuard } from "./loginGuard.js";
+import { EXPORT_LAYOUTS, writeMarkdownExport } from "./markdownExport.js";
+import { mailIsConfigured } from "./mailer.js";
+import { createRequireAuth, readAuthToken, requireRole, requireTokenScope, type AuthedRequest } from "./middleware.js";
+import { createNotifier } from "./notifications.js";
 import { mountAdminRoutes } from "./routes/admin.js";
+import { mountApiTokenRoutes } from "./routes/apiTokens.js";
+import { runMigrations } from "./migrations.js";
+import { mountImportRoutes } from "./routes/import.js";
 import { mountPublicRoutes } from "./routes/public.js";
+import { mountRestoreMergeRoutes } from "./routes/restoreMerge.js";
+import { mountSessionRoutes } from "./routes/sessions.js";
+import { mountTaxonomyRoutes } from "./routes/taxonomy.js";
+import { mountTwoFactorRoutes } from "./routes/twoFactor.js";
+import { mountUserRoutes } from "./routes/users.js";
+import { mountWebhookRoutes } from "./routes/webhooks.js";
+import { refreshStaleRelatedPosts } from "./related.js";
+import { s3GetToFile, s3IsConfigured, s3Key, s3List } from "./s3.js";
+import {
+  buildRestorePreview,
+  discardStagedRestore,
+  restoreKindFor,
+  stageRestore,
+  type RestoreKind,
+  type RestorePreview,
+  type StagedRestore,
+} from "./restore.js";
+import { createWebhookDispatcher } from "./webhooks.js";
 
 const cache = await createCache();
 
 const db = openDb();
-initDb(db);
-migrateDb(db);
+// Startup stops here if a migration fails; the database stays at the last completed version.
+const migration = await runMigrations(db, { backupDir: path.dirname(config.databasePath) });
+if (migration.applied.length) {
+  // eslint-disable-next-line no-console
+  console.log(
+    `[yablog-api] schema v${migration.from} -> v${migration.to} (${migration.applied.join(", ")})` +
+      (migration.backupPath ? `, backup: ${migration.backupPath}` : ""),
+  );
+}
 
 const uploadsDir = path.join(path.dirname(config.databasePath), "uploads");
 fs.mkdirSync(uploadsDir, { recursive: true });
@@ -93,12 +165,54 @@ try {
   setCloudflareSettings(db, defaultCloudflareSettings());
 }
 
+// Ensure a default SMTP settings row exists (admin-only secrets).
+try {
+  const current = getMailSettings(db);
+  const exists = db.prepare("SELECT 1 as ok FROM settings WHERE key = ? LIMIT 1").get("mail_settings") as
+    | { ok: 1 }
+    | undefined;
+  if (!exists) setMailSettings(db, current ?? defaultMailSettings());
+} catch {
+  setMailSettings(db, defaultMailSettings());
+}
+
 let isRestoring = false;
 let isBackingUp = false;
 
 let siteCache = getSiteSettings(db);
 let aiCache = getAiSettings(db);
 let cloudflareCache = getCloudflareSettings(db);
+let mailCache = getMailSettings(db);
+let backupCache = getBackupSettings(db);
+let s3Cache = getS3Settings(db);
+
+const notifier = createNotifier({
+  db,
+  getSettings: () => mailCache,
+  getSiteName: () => siteCache.nav?.brandText?.trim() || "YaBlog",
+});
+const webhooks = createWebhookDispatcher({ db, isPaused: () => isRestoring });
+const backupScheduler = createBackupScheduler({
+  db,
+  dataDir: path.dirname(config.databasePath),
+  uploadsDir,
+  getSettings: () => backupCache,
+  getRemote: () => s3Cache,
+  acquire: () => {
+    if (isRestoring || isBackingUp) return false;
+    isBackingUp = true;
+    return true;
+  },
+  release: () => {
+    isBackingUp = false;
+  },
+});
+// Fan-out point for site events.
+const emitEvent = (event: AppEvent) => {
+  if (isRestoring) return;
+  void notifier.handle(event);
+  webhooks.handle(event);
+};
 
 type CfPurgeResult = { ok: true } | { ok: false; error: string };
 const cfIsConfigured = () =>
@@ -191,19 +305,6 @@ try {
   bannedIpSet = new Set();
 }
 
-type BackupManifest = {
-  version: 1;
-  createdAt: string;
-  files: { path: string; size: number; sha256: string }[];
-};
-
-const sha256File = async (filePath: string) => {
-  const hash = crypto.createHash("sha256");
-  const stream = fs.createReadStream(filePath);
-  for await (const chunk of stream) hash.update(chunk as Buffer);
-  return hash.digest("hex");
-};
-
 const normalizeApiBase = (raw: string) => {
   const s = String(raw ?? "").trim();
   if (!s) return "";
@@ -281,27 +382,6 @@ const messagesToPrompt = (messages: { role: string; content: string }[]) => {
   return lines.join("\n");
 };
 
-const listFilesRecursive = (rootDir: string) => {
-  const out: string[] = [];
-  const walk = (dir: string) => {
-    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
-      const full = path.join(dir, entry.name);
-      if (entry.isDirectory()) walk(full);
-      else if (entry.isFile()) out.push(full);
-    }
-  };
-  if (fs.existsSync(rootDir)) walk(rootDir);
-  return out;
-};
-
-const isValidSqliteFile = (filePath: string) => {
-  const fd = fs.openSync(filePath, "r");
-  const header = Buffer.alloc(16);
-  fs.readSync(fd, header, 0, 16, 0);
-  fs.closeSync(fd);
-  return header.subarray(0, 15).toString("utf8").startsWith("SQLite format 3");
-};
-
 const safeUploadName = (value: string) => {
   const name = path.basename(value);
   if (!name || name !== value) return null;
@@ -362,7 +442,7 @@ if (!hasAnyUsers(db)) {
     console.error("[yablog-api] RESET_ADMIN_ON_START=1 requires ADMIN_USERNAME and ADMIN_PASSWORD.");
     process.exit(1);
   }
-  const first = getFirstUser(db);
+  const first = getFirstAdmin(db);
   if (!first) {
     // should not happen since hasAnyUsers(db) is true
     // eslint-disable-next-line no-console
@@ -374,6 +454,10 @@ if (!hasAnyUsers(db)) {
     username: config.adminUsername,
     passwordHash: await hashPassword(config.adminPassword),
   });
+  updateUserProfile(db, { id: first.id, displayName: first.displayName, role: "admin", disabled: false });
+  // A locked-out admin may have lost their authenticator too.
+  disableUserTotp(db, first.id);
+  deleteUserSessions(db, first.id);
   // eslint-disable-next-line no-console
   console.warn("[yablog-api] Admin credentials reset via RESET_ADMIN_ON_START=1.");
 }
@@ -848,23 +932,157 @@ app.post("/api/chat", async (req, res) => {
   }
 });
 
-app.post("/api/auth/login", async (req, res) => {
-  const creds = loginSchema.parse(req.body);
-  const user = await authenticateUser(db, creds);
-  if (!user) return res.status(401).json({ error: "invalid_credentials" });
-
-  const token = signToken({ userId: user.id, username: user.username });
-  res.cookie(config.cookieName, token, {
+// Every successful sign-in gets its own sessions row so it can be listed and revoked later.
+const startSession = (req: express.Request, res: express.Response, user: { id: number }) => {
+  const sid = crypto.randomUUID();
+  const userAgent = req.header("user-agent") ?? "";
+  createSession(db, {
+    id: sid,
+    userId: user.id,
+    device: describeDevice(userAgent),
+    ip: req.ip ?? "",
+    userAgent,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+  });
+  res.cookie(config.cookieName, signToken({ userId: user.id, sid }), {
     httpOnly: true,
     sameSite: "lax",
     secure: config.cookieSecure,
-    maxAge: 7 * 24 * 60 * 60 * 1000,
+    maxAge: SESSION_TTL_MS,
     path: "/",
   });
+};
+
+const requireAuth = createRequireAuth(db);
+
+const loginGuard = createLoginGuard(cache, { onAutoBan });
+
+const auditLogin = (req: express.Request, args: { username: string; userId?: number | null; result: LoginAuditResult }) => {
+  try {
+    addLoginAudit(db, { ...args, ip: ipKey(req.ip), userAgent: req.header("user-agent") ?? "" });
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.warn("[yablog-api] login audit write failed", e?.message ?? e);
+  }
+};
+
+const rejectLockedLogin = (res: express.Response, retryAfterSec: number) => {
+  res.setHeader("retry-after", String(retryAfterSec));
+  return res.status(429).json({ error: "login_locked", retryAfterSec });
+};
+
+// Failed attempts are answered slowly once they start piling up.
+const delayFailedLogin = (ms: number) => (ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve());
+
+app.post("/api/auth/login", async (req, res) => {
+  const creds = loginSchema.parse(req.body);
+  const ip = ipKey(req.ip);
+
+  const lock = await loginGuard.check({ username: creds.username, ip });
+  if (lock) {
+    loginGuard.recordBlocked({ ip });
+    auditLogin(req, { username: creds.username, result: "locked" });
+    return rejectLockedLogin(res, lock.retryAfterSec);
+  }
+
+  const user = await authenticateUser(db, creds);
+  if (!user) {
+    auditLogin(req, { username: creds.username, userId: getUserByUsername(db, creds.username)?.id, result: "failed" });
+    await delayFailedLogin(await loginGuard.recordFailure({ username: creds.username, ip }));
+    return res.status(401).json({ error: "invalid_credentials" });
+  }
+  if (user.disabled) {
+    auditLogin(req, { username: creds.username, userId: user.id, result: "disabled" });
+    return res.status(403).json({ error: "account_disabled" });
+  }
+  // The counters are only cleared once the second factor passes too, otherwise a known password
+  // would reset the lockout on every ticket.
+  if (user.totpEnabled) return res.json({ ok: true, twoFactorRequired: true, ticket: signLoginTicket(user.id) });
+
+  await loginGuard.recordSuccess({ username: creds.username });
+  auditLogin(req, { username: user.username, userId: user.id, result: "success" });
+  startSession(req, res, user);
   res.json({ ok: true, user });
 });
 
-app.post("/api/auth/logout", (_req, res) => {
+// Each login ticket allows a handful of code guesses; after that the password has to be entered again.
+// Tickets live for minutes, so the counters are kept in memory.
+const LOGIN_TICKET_MAX_ATTEMPTS = 5;
+const loginTicketAttempts = new Map<string, { count: number; expiresAt: number }>();
+
+app.post("/api/auth/login/2fa", async (req, res) => {
+  const body = z.object({ ticket: z.string().min(1).max(2000), code: z.string().trim().min(1).max(32) }).parse(req.body);
+  let ticket: ReturnType<typeof verifyLoginTicket>;
+  try {
+    ticket = verifyLoginTicket(body.ticket);
+  } catch {
+    return res.status(401).json({ error: "invalid_ticket" });
+  }
+
+  const now = Date.now();
+  for (const [id, entry] of loginTicketAttempts) if (entry.expiresAt < now) loginTicketAttempts.delete(id);
+  const attempts = loginTicketAttempts.get(ticket.id) ?? { count: 0, expiresAt: ticket.expiresAt };
+  if (attempts.count >= LOGIN_TICKET_MAX_ATTEMPTS) return res.status(401).json({ error: "invalid_ticket" });
+
+  const row = getUserById(db, ticket.userId);
+  if (!row || row.disabled || !row.totpEnabled) return res.status(401).json({ error: "invalid_ticket" });
+
+  const ip = ipKey(req.ip);
+  const lock = await loginGuard.check({ username: row.username, ip });
+  if (lock) {
+    loginGuard.recordBlocked({ ip });
+    auditLogin(req, { username: row.username, userId: row.id, result: "locked" });
+    return rejectLockedLogin(res, lock.retryAfterSec);
+  }
+
+  const method = verifySecondFactor(db, row.id, body.code);
+  if (!method) {
+    loginTicketAttempts.set(ticket.id, { ...attempts, count: attempts.count + 1 });
+    auditLogin(req, { username: row.username, userId: row.id, result: "2fa_failed" });
+    await delayFailedLogin(await loginGuard.recordFailure({ username: row.username, ip }));
+    return res.status(401).json({ error: "invalid_code" });
+  }
+  // Spent: the same ticket cannot start a second session.
+  loginTicketAttempts.set(ticket.id, { ...attempts, count: LOGIN_TICKET_MAX_ATTEMPTS });
+
+  await loginGuard.recordSuccess({ username: row.username });
+  auditLogin(req, { username: row.username, userId: row.id, result: "success" });
+  startSession(req, res, row);
+  const { passwordHash: _, ...user } = row;
+  res.json({ ok: true, user, usedRecoveryCode: method === "recovery" });
+});
+
+// Set-password links from user management (invites and admin-issued resets).
+app.get("/api/auth/invite/:token", (req, res) => {
+  const { token } = z.object({ token: z.string().min(1).max(200) }).parse(req.params);
+  const row = getUserByPasswordToken(db, hashPasswordToken(token));
+  if (!row) return res.status(404).json({ error: "invalid_token" });
+  res.json({ username: row.username, displayName: row.displayName, isNew: !row.passwordHash });
+});
+
+app.post("/api/auth/invite/:token", async (req, res) => {
+  const { token } = z.object({ token: z.string().min(1).max(200) }).parse(req.params);
+  const body = z.object({ password: z.string().min(8).max(200) }).parse(req.body);
+  const row = getUserByPasswordToken(db, hashPasswordToken(token));
+  if (!row) return res.status(404).json({ error: "invalid_token" });
+
+  setUserPassword(db, { id: row.id, passwordHash: await hashPassword(body.password) });
+  // A reset link means the old password may be compromised: drop every existing session.
+  deleteUserSessions(db, row.id);
+  startSession(req, res, row);
+  res.json({ ok: true });
+});
+
+app.post("/api/auth/logout", (req, res) => {
+  const token = readAuthToken(req);
+  if (token) {
+    try {
+      const payload = verifyToken(token);
+      if (payload.sid) deleteSession(db, payload.sid, payload.userId);
+    } catch {
+      // already invalid
+    }
+  }
   res.clearCookie(config.cookieName, { path: "/" });
   res.json({ ok: true });
 });
@@ -874,7 +1092,7 @@ app.get("/api/auth/me", requireAuth, (req: AuthedRequest, res) => {
 });
 
 const publicRouter = express.Router();
-mountPublicRoutes(publicRouter, db, cache);
+mountPublicRoutes(publicRouter, db, cache, { onEvent: emitEvent });
 app.use("/api", publicRouter);
 
 // SEO helpers
@@ -986,6 +1204,93 @@ app.get("/sitemap.xml", (req, res) => {
   return res.send(xml);
 });
 
+// Syndication feeds (RSS 2.0 / Atom / JSON Feed)
+const FEED_LIMIT = 20;
+
+// Feed links are cached, so the origin must not be whatever a client puts in X-Forwarded-Host: use the
+// public site URL from the mail settings when set, otherwise a request host that looks like a hostname.
+const feedOrigin = (req: express.Request) => {
+  const configured = mailCache.siteUrl.trim().replace(/\/+$/, "");
+  if (configured) return configured;
+  const proto = String(req.headers["x-forwarded-proto"] || req.protocol || "http").split(",")[0].trim().toLowerCase();
+  const host = String(req.headers["x-forwarded-host"] || req.headers.host || "").split(",")[0].trim().toLowerCase();
+  const validHost = /^[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?$/.test(host) || /^\[[0-9a-f:.]+\](:\d{1,5})?$/.test(host);
+  return `${proto === "https" ? "https" : "http"}://${validHost ? host : "localhost"}`;
+};
+
+const sendFeed = async (
+  req: express.Request,
+  res: express.Response,
+  format: FeedFormat,
+  scope?: { tag?: string; category?: string },
+) => {
+  const origin = feedOrigin(req);
+
+  const brand = siteCache.nav?.brandText?.trim() || siteCache.home?.title?.trim() || "YaBlog";
+  const scopeName = scope?.tag ?? scope?.category ?? "";
+  const pagePath = scope?.tag
+    ? `/tag/${encodeURIComponent(scope.tag)}`
+    : scope?.category
+      ? `/category/${encodeURIComponent(scope.category)}`
+      : "/";
+  const feedFile = format === "rss" ? "feed.xml" : format === "atom" ? "atom.xml" : "feed.json";
+  const feedPath = `${pagePath === "/" ? "" : pagePath}/${feedFile}`;
+
+  try {
+    const body = await cache.wrapJSON<string | null>(
+      "posts",
+      { feed: format, origin, scope: scope ?? null, brand, site: siteCache.seo?.defaultDescription ?? "" },
+      300,
+      () => {
+        const { items: posts } = listPosts(db, {
+          includeDrafts: false,
+          tag: scope?.tag,
+          category: scope?.category,
+          newestFirst: true,
+          page: 1,
+          limit: FEED_LIMIT,
+        });
+        if (scopeName && !posts.length) return null;
+
+        const channel: FeedChannel = {
+          origin,
+          title: scope?.tag ? `${brand} · 标签：${scopeName}` : scope?.category ? `${brand} · 分类：${scopeName}` : brand,
+          description:
+            siteCache.seo?.defaultDescription?.trim() || siteCache.home?.subtitle?.trim() || siteCache.sidebar?.bio?.trim() || brand,
+          author: siteCache.sidebar?.name?.trim() || brand,
+          pagePath,
+          feedPath,
+          image: siteCache.tab?.faviconUrl || siteCache.sidebar?.avatarUrl || "",
+        };
+        if (format === "rss") return buildRssFeed(channel, posts);
+        if (format === "atom") return buildAtomFeed(channel, posts);
+        return JSON.stringify(buildJsonFeed(channel, posts));
+      },
+    );
+    if (body === null) return res.status(404).json({ error: "not_found" });
+
+    const contentType =
+      format === "rss"
+        ? "application/rss+xml; charset=utf-8"
+        : format === "atom"
+          ? "application/atom+xml; charset=utf-8"
+          : "application/feed+json; charset=utf-8";
+    res.setHeader("content-type", contentType);
+    res.setHeader("cache-control", "no-store");
+    return res.send(body);
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("[yablog-api] feed render failed", err);
+    return res.status(500).json({ error: "feed_failed" });
+  }
+};
+
+app.get("/feed.xml", (req, res) => sendFeed(req, res, "rss"));
+app.get("/atom.xml", (req, res) => sendFeed(req, res, "atom"));
+app.get("/feed.json", (req, res) => sendFeed(req, res, "json"));
+app.get("/tag/:tag/feed.xml", (req, res) => sendFeed(req, res, "rss", { tag: req.params.tag }));
+app.get("/category/:category/feed.xml", (req, res) => sendFeed(req, res, "rss", { category: req.params.category }));
+
 // Serve uploaded images from the DB directory volume (with optional hotlink protection)
 app.use("/uploads", (req, res, next) => {
   const hotlink = siteCache.security?.hotlink;
@@ -1018,6 +1323,12 @@ app.use(
 
 const adminRouter = express.Router();
 adminRouter.use(requireAuth);
+adminRouter.use(requireTokenScope);
+// Site-wide configuration, data maintenance and accounts are admin-only; content routes check roles themselves.
+adminRouter.use(
+  ["/security", "/backup", "/restore", "/site", "/ai", "/cloudflare", "/mail", "/webhooks", "/users", "/sessions"],
+  requireRole("admin"),
+);
 
 adminRouter.get("/security/suspicious", async (req, res) => {
   const q = z.object({ limit: z.string().optional() }).parse(req.query);
@@ -1046,6 +1357,28 @@ adminRouter.get("/security/suspicious.csv", async (req, res) => {
   res.send(`\uFEFF${lines.join("\n")}\n`);
 });
 
+adminRouter.get("/security/logins", (req, res) => {
+  const q = z
+    .object({
+      limit: z.string().optional(),
+      result: z.enum(LOGIN_AUDIT_RESULTS).optional(),
+      q: z.string().trim().max(100).optional(),
+    })
+    .parse(req.query);
+  const limit = Math.min(1000, Math.max(1, Number.parseInt(q.limit ?? "200", 10) || 200));
+  res.json({ items: listLoginAudit(db, { limit, result: q.result, q: q.q || undefined }) });
+});
+
+// Lifts a temporary login lockout early (e.g. the real owner locked out by someone guessing their password).
+adminRouter.post("/security/logins/unlock", async (req, res) => {
+  const body = z
+    .object({ username: z.string().trim().min(1).max(64).optional(), ip: z.string().trim().min(1).max(100).optional() })
+    .refine((v) => Boolean(v.username || v.ip), { message: "username or ip required" })
+    .parse(req.body);
+  await loginGuard.unlock({ username: body.username, ip: body.ip ? ipKey(body.ip) : undefined });
+  res.json({ ok: true });
+});
+
 adminRouter.get("/security/bans", (_req, res) => {
   res.json({ items: listIpBans(db) });
 });
@@ -1126,48 +1459,128 @@ adminRouter.get("/backup/full", async (_req, res) => {
 
   const ts = new Date().toISOString().replace(/[:.]/g, "-");
   const filename = `yablog-full-backup-${ts}.tar.gz`;
-  const dir = path.dirname(config.databasePath);
-
-  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "yablog_full_backup_"));
-  const tmpDb = path.join(tmpDir, "db.sqlite");
-  const tmpUploads = path.join(tmpDir, "uploads");
-  const tmpManifest = path.join(tmpDir, "manifest.json");
   const tmpTar = path.join(os.tmpdir(), `yablog-full-backup-${Date.now()}.tar.gz`);
 
   try {
-    await db.backup(tmpDb);
-    fs.mkdirSync(tmpUploads, { recursive: true });
-    if (fs.existsSync(uploadsDir)) {
-      fs.cpSync(uploadsDir, tmpUploads, {
-        recursive: true,
-        filter: (src) => {
-          const rel = path.relative(uploadsDir, src);
-          if (!rel) return true;
-          return !rel.split(path.sep).includes("_tmp");
-        },
-      });
-    }
+    await writeFullBackup(db, { uploadsDir, file: tmpTar });
 
-    const files: BackupManifest["files"] = [];
-    const all = [tmpDb, ...listFilesRecursive(tmpUploads)];
-    for (const full of all) {
-      const stat = fs.statSync(full);
-      const rel = path.relative(tmpDir, full).replaceAll(path.sep, "/");
-      files.push({ path: rel, size: stat.size, sha256: await sha256File(full) });
-    }
+    res.setHeader("content-type", "application/gzip");
+    res.setHeader("content-disposition", `attachment; filename="${filename}"`);
+    res.setHeader("cache-control", "no-store");
+    await pipeline(fs.createReadStream(tmpTar), res);
+  } finally {
+    isBackingUp = false;
+    fs.rmSync(tmpTar, { force: true });
+  }
+});
 
-    const manifest: BackupManifest = { version: 1, createdAt: new Date().toISOString(), files };
-    fs.writeFileSync(tmpManifest, JSON.stringify(manifest, null, 2), "utf8");
+// Scheduled local backups: settings, health and history of the automatic archives.
+adminRouter.get("/backup/schedule", (_req, res) => {
+  res.json({ backup: backupCache, health: backupScheduler.health(), runs: backupScheduler.listRuns(50) });
+});
 
-    await tar.c(
-      {
-        gzip: { level: 9 },
-        cwd: tmpDir,
-        file: tmpTar,
-        portable: true,
-      },
-      ["manifest.json", "db.sqlite", "uploads"],
-    );
+adminRouter.put("/backup/schedule", (req: AuthedRequest, res) => {
+  const count = (max: number) => z.number().int().min(0).max(max);
+  const schema = z.object({
+    enabled: z.boolean().default(false),
+    schedule: z.string().trim().max(100).default("0 3 * * *"),
+    dir: z.string().trim().max(1000).default(""),
+    keepDaily: count(365).default(7),
+    keepWeekly: count(520).default(4),
+    keepMonthly: count(240).default(6),
+    leftoverDays: count(3650).default(7),
+  });
+  const next = z.object({ backup: schema }).parse(req.body).backup;
+
+  if (!parseCron(next.schedule)) return res.status(400).json({ error: "invalid_schedule" });
+  if (!backupScheduler.dirIsAllowed(next)) return res.status(400).json({ error: "invalid_backup_dir" });
+
+  setBackupSettings(db, next);
+  backupCache = next;
+  backupScheduler.reschedule();
+  res.json({ ok: true, health: backupScheduler.health() });
+});
+
+adminRouter.post("/backup/schedule/run", async (_req, res) => {
+  if (isRestoring) return res.status(503).json({ error: "restarting" });
+  const run = await backupScheduler.runNow("manual");
+  if (!run) return res.status(429).json({ error: "busy" });
+  res.json({ run, health: backupScheduler.health() });
+});
+
+adminRouter.get("/backup/local/:name", async (req, res) => {
+  const file = backupScheduler.archivePath(String(req.params.name));
+  if (!file) return res.status(404).json({ error: "not_found" });
+  res.setHeader("content-type", "application/gzip");
+  res.setHeader("content-disposition", `attachment; filename="${path.basename(file)}"`);
+  res.setHeader("cache-control", "no-store");
+  await pipeline(fs.createReadStream(file), res);
+});
+
+adminRouter.post("/backup/local/:name/verify", async (req, res) => {
+  const file = backupScheduler.archivePath(String(req.params.name));
+  if (!file) return res.status(404).json({ error: "not_found" });
+  const check = await verifyBackupArchive(file);
+  res.json(check.ok ? { ok: true, files: check.manifest.files.length, createdAt: check.manifest.createdAt } : check);
+});
+
+const s3SettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  endpoint: z.union([z.literal(""), z.string().trim().url().max(2000)]).default(""),
+  region: z.string().trim().max(100).default("us-east-1"),
+  bucket: z.string().trim().max(255).default(""),
+  accessKeyId: z.string().max(500).default(""),
+  secretAccessKey: z.string().max(2000).default(""),
+  prefix: z.string().trim().max(500).default("yablog/"),
+  forcePathStyle: z.boolean().default(true),
+  pruneRemote: z.boolean().default(true),
+});
+
+// Off-site copies of the scheduled backups (S3-compatible: AWS, R2, B2, MinIO).
+adminRouter.get("/backup/s3", (_req, res) => {
+  res.json({ s3: s3Cache });
+});
+
+adminRouter.put("/backup/s3", (req: AuthedRequest, res) => {
+  const next = z.object({ s3: s3SettingsSchema }).parse(req.body).s3;
+  if (next.enabled) {
+    if (!next.endpoint) return res.status(400).json({ error: "s3_endpoint_required" });
+    if (!next.bucket) return res.status(400).json({ error: "s3_bucket_required" });
+    if (!next.accessKeyId.trim() || !next.secretAccessKey.trim()) return res.status(400).json({ error: "s3_credentials_required" });
+  }
+  setS3Settings(db, next);
+  s3Cache = next;
+  res.json({ ok: true });
+});
+
+// Tests the submitted (not yet saved) settings by listing the prefix.
+adminRouter.post("/backup/s3/test", async (req: AuthedRequest, res) => {
+  const body = z.object({ s3: s3SettingsSchema.optional() }).parse(req.body ?? {});
+  const target = { ...(body.s3 ?? s3Cache), enabled: true };
+  if (!s3IsConfigured(target)) return res.status(400).json({ error: "s3_not_configured" });
+  try {
+    await s3List(target, { maxKeys: 1 });
+    res.json({ ok: true });
+  } catch (e: any) {
+    res.status(400).json({ error: String(e?.message ?? e) });
+  }
+});
+
+// Portable content export (Markdown + front matter), readable by Hugo/Hexo and by the Markdown importer.
+adminRouter.get("/backup/markdown", async (req, res) => {
+  if (isRestoring) return res.status(503).json({ error: "restarting" });
+  if (isBackingUp) return res.status(429).json({ error: "busy" });
+  const query = z.object({ layout: z.enum(EXPORT_LAYOUTS).default("hugo") }).parse(req.query);
+  isBackingUp = true;
+
+  const ts = new Date().toISOString().replace(/[:.]/g, "-");
+  const filename = `yablog-markdown-${query.layout}-${ts}.tar.gz`;
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "yablog_md_export_"));
+  const tmpTar = path.join(os.tmpdir(), `yablog-markdown-${Date.now()}.tar.gz`);
+
+  try {
+    const { entries } = writeMarkdownExport(db, { outDir: tmpDir, uploadsDir, layout: query.layout });
+    await tar.c({ gzip: { level: 9 }, cwd: tmpDir, file: tmpTar, portable: true }, entries);
 
     res.setHeader("content-type", "application/gzip");
     res.setHeader("content-disposition", `attachment; filename="${filename}"`);
@@ -1319,6 +1732,54 @@ adminRouter.post("/cloudflare/purge", async (_req: AuthedRequest, res) => {
   res.json({ ok: true });
 });
 
+adminRouter.get("/mail", (_req, res) => {
+  res.json({ mail: mailCache });
+});
+
+adminRouter.put("/mail", (req: AuthedRequest, res) => {
+  const schema = z.object({
+    enabled: z.boolean().default(false),
+    host: z.string().max(255).default(""),
+    port: z.number().int().min(1).max(65535).default(587),
+    security: z.enum(["tls", "starttls", "none"]).default("starttls"),
+    username: z.string().max(320).default(""),
+    password: z.string().max(2000).default(""),
+    from: z.string().max(320).default(""),
+    siteUrl: z.union([z.literal(""), z.string().url().max(2000)]).default(""),
+    adminEmail: z.union([z.literal(""), z.string().email().max(320)]).default(""),
+    adminMode: z.enum(["off", "instant", "digest"]).default("instant"),
+    digestMinutes: z.number().int().min(5).max(10080).default(60),
+    notifyComments: z.boolean().default(true),
+    notifyLinkRequests: z.boolean().default(true),
+    notifyCommenters: z.boolean().default(false),
+  });
+  const body = z.object({ mail: schema }).parse(req.body);
+  const next = body.mail;
+
+  if (next.enabled) {
+    if (!next.host.trim()) return res.status(400).json({ error: "mail_host_required" });
+    if (!next.from.trim()) return res.status(400).json({ error: "mail_from_required" });
+    if (next.adminMode !== "off" && !next.adminEmail.trim()) return res.status(400).json({ error: "mail_admin_email_required" });
+  }
+
+  const startDigest = next.adminMode === "digest" && mailCache.adminMode !== "digest";
+  setMailSettings(db, next);
+  mailCache = next;
+  // Start counting from now so switching to digest mode does not mail out the whole history.
+  if (startDigest) notifier.resetDigest();
+  res.json({ ok: true });
+});
+
+adminRouter.post("/mail/test", async (req: AuthedRequest, res) => {
+  const body = z.object({ to: z.string().email().max(320).optional() }).parse(req.body ?? {});
+  if (!mailIsConfigured(mailCache)) return res.status(400).json({ error: "mail_not_configured" });
+  const to = body.to ?? mailCache.adminEmail.trim();
+  if (!to) return res.status(400).json({ error: "mail_admin_email_required" });
+  const r = await notifier.sendTest(to);
+  if (!r.ok) return res.status(400).json({ error: r.error });
+  res.json({ ok: true });
+});
+
 
 const upload = multer({
   dest: path.join(os.tmpdir(), "yablog_uploads"),
@@ -1410,12 +1871,18 @@ adminRouter.post("/upload", uploadImage.single("file"), async (req: AuthedReques
     fs.rmSync(file.path, { force: true });
     return res.status(400).json({ error: "image_only" });
   }
+  // Authors may add images but not overwrite ones that other posts may use.
+  if (query.replace && req.user?.role === "author") {
+    fs.rmSync(file.path, { force: true });
+    return res.status(403).json({ error: "forbidden" });
+  }
 
   try {
     const url = await storeUploadedImage(file, query.replace ?? null);
     // When Cloudflare is used with aggressive caching, ensure uploads are visible quickly.
     scheduleCloudflarePurge(query.replace ? "upload_replace" : "upload_new");
     void runCloudflarePurge(query.replace ? "upload_replace" : "upload_new", false);
+    emitEvent({ type: "upload.created", files: [{ name: path.basename(url), url }], replaced: Boolean(query.replace) });
     res.json({ ok: true, url });
   } catch (e: any) {
     if (String(e?.message || e) === "not_found") return res.status(404).json({ error: "not_found" });
@@ -1451,6 +1918,7 @@ adminRouter.post("/upload/batch", uploadImage.array("files", 30), async (req: Au
   if (urls.length) {
     scheduleCloudflarePurge("upload_batch");
     void runCloudflarePurge("upload_batch", false);
+    emitEvent({ type: "upload.created", files: urls.map((url) => ({ name: path.basename(url), url })), replaced: false });
   }
   res.json({ ok: true, urls, failed });
 });
@@ -1486,7 +1954,7 @@ adminRouter.get("/uploads", (_req: AuthedRequest, res) => {
   res.json({ items });
 });
 
-adminRouter.delete("/uploads/:name", (req: AuthedRequest, res) => {
+adminRouter.delete("/uploads/:name", requireRole("admin", "editor"), (req: AuthedRequest, res) => {
   const { name: raw } = z.object({ name: z.string().min(1) }).parse(req.params);
   const name = safeUploadName(raw);
   if (!name) return res.status(400).json({ error: "invalid_name" });
@@ -1498,50 +1966,54 @@ adminRouter.delete("/uploads/:name", (req: AuthedRequest, res) => {
   fs.rmSync(path.join(thumbsDir, thumbNameFor(name)), { force: true });
   scheduleCloudflarePurge("upload_delete");
   void runCloudflarePurge("upload_delete", false);
+  emitEvent({ type: "upload.deleted", name });
   res.json({ ok: true });
 });
 
-adminRouter.post("/restore", upload.single("file"), async (req: AuthedRequest & { file?: any }, res) => {
-  if (isRestoring) return res.status(429).json({ error: "busy" });
-  const file = req.file as { path: string; originalname: string } | undefined;
-  if (!file) return res.status(400).json({ error: "file_required" });
+// The restore waiting for the admin to confirm. Only one at a time; dropped after 30 minutes.
+const PENDING_RESTORE_TTL_MS = 30 * 60 * 1000;
+let pendingRestore: { staged: StagedRestore; preview: RestorePreview; timer: NodeJS.Timeout } | null = null;
+let isPreparingRestore = false;
 
-  isRestoring = true;
+const dropPendingRestore = () => {
+  if (!pendingRestore) return;
+  clearTimeout(pendingRestore.timer);
+  discardStagedRestore(pendingRestore.staged);
+  pendingRestore = null;
+};
 
+// Swap a staged backup in and restart. The staged files are removed either way.
+const applyStagedRestore = async (staged: StagedRestore, res: express.Response) => {
+  // A running backup is still reading the database that would be closed under it.
+  if (isBackingUp) {
+    discardStagedRestore(staged);
+    isRestoring = false;
+    res.status(429).json({ error: "busy" });
+    return;
+  }
+  isRestoring = true;
   const dir = path.dirname(config.databasePath);
   const ts = new Date().toISOString().replace(/[:.]/g, "-");
   const restoredDbPath = path.join(dir, `yablog.restored.${Date.now()}.db`);
+  const stagedUploads = staged.uploadsPath ? path.join(dir, `uploads.restored.${Date.now()}`) : null;
   const preRestorePath = path.join(dir, `yablog.pre-restore.${ts}.db`);
   let dbClosed = false;
 
   try {
-    const isGz = file.originalname.toLowerCase().endsWith(".gz");
-    if (isGz) {
-      await pipeline(
-        fs.createReadStream(file.path),
-        zlib.createGunzip(),
-        fs.createWriteStream(restoredDbPath),
-      );
-    } else {
-      fs.copyFileSync(file.path, restoredDbPath);
-    }
+    await db.backup(preRestorePath);
 
-    {
-      const fd = fs.openSync(restoredDbPath, "r");
-      const header = Buffer.alloc(16);
-      fs.readSync(fd, header, 0, 16, 0);
-      fs.closeSync(fd);
-      if (!header.subarray(0, 15).toString("utf8").startsWith("SQLite format 3")) {
-        isRestoring = false;
-        return res.status(400).json({ error: "invalid_sqlite_file" });
+    // Stage DB + uploads inside the mounted data directory for atomic renames.
+    fs.copyFileSync(staged.dbPath, restoredDbPath);
+    if (staged.uploadsPath && stagedUploads) {
+      fs.rmSync(stagedUploads, { recursive: true, force: true });
+      fs.mkdirSync(stagedUploads, { recursive: true });
+      if (fs.existsSync(staged.uploadsPath)) {
+        fs.cpSync(staged.uploadsPath, stagedUploads, { recursive: true });
       }
     }
 
-    await db.backup(preRestorePath);
-
     // Stop accepting new connections; active requests are already gated to 503 via isRestoring.
     server?.close();
-
     try {
       db.close();
       dbClosed = true;
@@ -1557,22 +2029,87 @@ adminRouter.post("/restore", upload.single("file"), async (req: AuthedRequest &
     }
     fs.renameSync(restoredDbPath, config.databasePath);
 
-    res.json({ ok: true, restarting: true });
+    if (stagedUploads) {
+      const replacedUploads = path.join(dir, `uploads.replaced.${ts}`);
+      if (fs.existsSync(uploadsDir)) {
+        fs.rmSync(replacedUploads, { recursive: true, force: true });
+        fs.renameSync(uploadsDir, replacedUploads);
+      }
+      fs.renameSync(stagedUploads, uploadsDir);
+    }
 
+    res.json({ ok: true, restarting: true });
     setTimeout(() => process.exit(0), 150);
   } catch (e) {
     // After we start restore, failing "half-way" should restart the process to avoid a stuck closed DB.
     // eslint-disable-next-line no-console
     console.error("[yablog-api] restore failed", e);
-    if (!res.headersSent) {
-      res.status(500).json({ error: "restore_failed", restarting: dbClosed });
-    }
+    if (!res.headersSent) res.status(500).json({ error: "restore_failed", restarting: dbClosed });
     if (dbClosed) setTimeout(() => process.exit(1), 150);
     if (!dbClosed) isRestoring = false;
   } finally {
-    fs.rmSync(file.path, { force: true });
+    discardStagedRestore(staged);
     fs.rmSync(restoredDbPath, { force: true });
+    if (stagedUploads) fs.rmSync(stagedUploads, { recursive: true, force: true });
+  }
+};
+
+// Unpack and check `archivePath` (removed afterwards). Sends the error response itself and returns null on failure.
+const stageOrFail = async (
+  args: { archivePath: string; source: string; kind: RestoreKind },
+  res: express.Response,
+) => {
+  try {
+    const result = await stageRestore(args);
+    if (result.ok) return result.staged;
+    res.status(400).json({ error: result.error });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error("[yablog-api] restore staging failed", e);
+    res.status(500).json({ error: "restore_failed" });
+  } finally {
+    fs.rmSync(args.archivePath, { force: true });
+  }
+  return null;
+};
+
+// Direct restores (no preview step) stay available for scripts and API tokens.
+const restoreDirect = async (args: { archivePath: string; source: string; kind: RestoreKind }, res: express.Response) => {
+  isRestoring = true;
+  const staged = await stageOrFail(args, res);
+  if (!staged) {
+    isRestoring = false;
+    return;
+  }
+  await applyStagedRestore(staged, res);
+};
+
+const downloadRemoteBackup = async (key: string, res: express.Response) => {
+  if (!s3IsConfigured(s3Cache)) {
+    res.status(400).json({ error: "s3_not_configured" });
+    return null;
   }
+  if (!key.startsWith(s3Key(s3Cache, "")) || !key.endsWith(".tar.gz")) {
+    res.status(400).json({ error: "invalid_key" });
+    return null;
+  }
+  const tmpFile = path.join(os.tmpdir(), `yablog-remote-restore-${Date.now()}.tar.gz`);
+  try {
+    await s3GetToFile(s3Cache, key, tmpFile);
+    return tmpFile;
+  } catch (e: any) {
+    fs.rmSync(tmpFile, { force: true });
+    res.status(400).json({ error: String(e?.message ?? e) });
+    return null;
+  }
+};
+
+adminRouter.post("/restore", upload.single("file"), async (req: AuthedRequest & { file?: any }, res) => {
+  if (isRestoring) return res.status(429).json({ error: "busy" });
+  const file = req.file as { path: string; originalname: string } | undefined;
+  if (!file) return res.status(400).json({ error: "file_required" });
+  dropPendingRestore();
+  await restoreDirect({ archivePath: file.path, source: file.originalname, kind: "db" }, res);
 });
 
 adminRouter.post(
@@ -1582,106 +2119,112 @@ adminRouter.post(
     if (isRestoring) return res.status(429).json({ error: "busy" });
     const file = req.file as { path: string; originalname: string } | undefined;
     if (!file) return res.status(400).json({ error: "file_required" });
+    dropPendingRestore();
+    await restoreDirect({ archivePath: file.path, source: file.originalname, kind: "full" }, res);
+  },
+);
 
-    isRestoring = true;
-    const dir = path.dirname(config.databasePath);
-    const ts = new Date().toISOString().replace(/[:.]/g, "-");
+// Full backups stored in the S3 target: the scheduled ones plus any other .tar.gz under the prefix.
+adminRouter.get("/restore/remote", async (_req, res) => {
+  if (!s3IsConfigured(s3Cache)) return res.status(400).json({ error: "s3_not_configured" });
+  try {
+    const items = (await s3List(s3Cache))
+      .filter((o) => o.key.endsWith(".tar.gz"))
+      .sort((a, b) => b.lastModified.localeCompare(a.lastModified));
+    res.json({ items });
+  } catch (e: any) {
+    res.status(400).json({ error: String(e?.message ?? e) });
+  }
+});
 
-    const extractDir = fs.mkdtempSync(path.join(os.tmpdir(), "yablog_restore_"));
-    const restoredDbPath = path.join(dir, `yablog.restored.${Date.now()}.db`);
-    const stagedUploads = path.join(dir, `uploads.restored.${Date.now()}`);
-    const preRestorePath = path.join(dir, `yablog.pre-restore.${ts}.db`);
-    let dbClosed = false;
+adminRouter.post("/restore/full/remote", async (req: AuthedRequest, res) => {
+  const body = z.object({ key: z.string().min(1).max(1024) }).parse(req.body);
+  if (isRestoring || isPreparingRestore || isBackingUp) return res.status(429).json({ error: "busy" });
+  isPreparingRestore = true;
+  let tmpFile: string | null;
+  try {
+    tmpFile = await downloadRemoteBackup(body.key, res);
+  } finally {
+    isPreparingRestore = false;
+  }
+  if (!tmpFile) return;
+  dropPendingRestore();
+  await restoreDirect({ archivePath: tmpFile, source: body.key, kind: "full" }, res);
+});
 
+// Dry run: stage the backup, open it read-only and compare it with the live site. Nothing is
+// replaced until POST /restore/confirm; a new preview replaces the previous one.
+const previewStaged = async (
+  args: { archivePath: string; source: string; kind: RestoreKind },
+  res: express.Response,
+) => {
+  isPreparingRestore = true;
+  try {
+    const staged = await stageOrFail(args, res);
+    if (!staged) return;
+    let preview: RestorePreview;
     try {
-      await tar.x({ file: file.path, cwd: extractDir, strict: true });
-      const manifestPath = path.join(extractDir, "manifest.json");
-      const dbPath = path.join(extractDir, "db.sqlite");
-      const uploadsPath = path.join(extractDir, "uploads");
-
-      if (!fs.existsSync(manifestPath) || !fs.existsSync(dbPath)) {
-        isRestoring = false;
-        return res.status(400).json({ error: "invalid_backup" });
-      }
-
-      const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as BackupManifest;
-      if (manifest.version !== 1) {
-        isRestoring = false;
-        return res.status(400).json({ error: "unsupported_backup_version" });
-      }
-
-      for (const entry of manifest.files) {
-        const full = path.join(extractDir, entry.path);
-        if (!fs.existsSync(full)) {
-          isRestoring = false;
-          return res.status(400).json({ error: "backup_missing_file" });
-        }
-        const stat = fs.statSync(full);
-        if (stat.size !== entry.size) {
-          isRestoring = false;
-          return res.status(400).json({ error: "backup_size_mismatch" });
-        }
-        const hash = await sha256File(full);
-        if (hash !== entry.sha256) {
-          isRestoring = false;
-          return res.status(400).json({ error: "backup_hash_mismatch" });
-        }
-      }
-
-      if (!isValidSqliteFile(dbPath)) {
-        isRestoring = false;
-        return res.status(400).json({ error: "invalid_sqlite_file" });
-      }
-
-      await db.backup(preRestorePath);
-
-      // Stage DB + uploads inside the mounted data directory for atomic renames.
-      fs.copyFileSync(dbPath, restoredDbPath);
-      fs.rmSync(stagedUploads, { recursive: true, force: true });
-      fs.mkdirSync(stagedUploads, { recursive: true });
-      if (fs.existsSync(uploadsPath)) {
-        fs.cpSync(uploadsPath, stagedUploads, { recursive: true });
-      }
+      preview = buildRestorePreview(db, uploadsDir, staged);
+    } catch (e) {
+      discardStagedRestore(staged);
+      // eslint-disable-next-line no-console
+      console.error("[yablog-api] restore preview failed", e);
+      return res.status(400).json({ error: "invalid_sqlite_file" });
+    }
+    dropPendingRestore();
+    pendingRestore = { staged, preview, timer: setTimeout(dropPendingRestore, PENDING_RESTORE_TTL_MS).unref() };
+    res.json({ preview, expiresAt: new Date(Date.now() + PENDING_RESTORE_TTL_MS).toISOString() });
+  } finally {
+    isPreparingRestore = false;
+  }
+};
 
-      server?.close();
-      try {
-        db.close();
-        dbClosed = true;
-      } catch {
-        dbClosed = true;
-      }
+adminRouter.get("/restore/preview", (_req, res) => {
+  res.json({ preview: pendingRestore?.preview ?? null });
+});
 
-      fs.rmSync(`${config.databasePath}-wal`, { force: true });
-      fs.rmSync(`${config.databasePath}-shm`, { force: true });
+adminRouter.post("/restore/preview", upload.single("file"), async (req: AuthedRequest & { file?: any }, res) => {
+  const file = req.file as { path: string; originalname: string } | undefined;
+  if (!file) return res.status(400).json({ error: "file_required" });
+  if (isRestoring || isPreparingRestore) {
+    fs.rmSync(file.path, { force: true });
+    return res.status(429).json({ error: "busy" });
+  }
+  const kindRaw = String((req.body as any)?.kind ?? "");
+  const kind: RestoreKind = kindRaw === "db" || kindRaw === "full" ? kindRaw : restoreKindFor(file.originalname);
+  await previewStaged({ archivePath: file.path, source: file.originalname, kind }, res);
+});
 
-      if (fs.existsSync(config.databasePath)) {
-        fs.renameSync(config.databasePath, path.join(dir, `yablog.replaced.${ts}.db`));
-      }
-      fs.renameSync(restoredDbPath, config.databasePath);
+adminRouter.post("/restore/remote/preview", async (req: AuthedRequest, res) => {
+  const body = z.object({ key: z.string().min(1).max(1024) }).parse(req.body);
+  if (isRestoring || isPreparingRestore) return res.status(429).json({ error: "busy" });
+  isPreparingRestore = true;
+  let tmpFile: string | null;
+  try {
+    tmpFile = await downloadRemoteBackup(body.key, res);
+  } finally {
+    isPreparingRestore = false;
+  }
+  if (!tmpFile) return;
+  await previewStaged({ archivePath: tmpFile, source: body.key, kind: "full" }, res);
+});
 
-      const replacedUploads = path.join(dir, `uploads.replaced.${ts}`);
-      if (fs.existsSync(uploadsDir)) {
-        fs.rmSync(replacedUploads, { recursive: true, force: true });
-        fs.renameSync(uploadsDir, replacedUploads);
-      }
-      fs.renameSync(stagedUploads, uploadsDir);
+adminRouter.post("/restore/confirm", async (req: AuthedRequest, res) => {
+  const body = z.object({ id: z.string().min(1).max(64) }).parse(req.body);
+  if (isRestoring || isPreparingRestore) return res.status(429).json({ error: "busy" });
+  if (!pendingRestore || pendingRestore.staged.id !== body.id) {
+    return res.status(404).json({ error: "restore_not_found" });
+  }
+  const { staged, timer } = pendingRestore;
+  clearTimeout(timer);
+  pendingRestore = null;
+  await applyStagedRestore(staged, res);
+});
 
-      res.json({ ok: true, restarting: true });
-      setTimeout(() => process.exit(0), 150);
-    } catch (e) {
-      // eslint-disable-next-line no-console
-      console.error("[yablog-api] full restore failed", e);
-      if (!res.headersSent) res.status(500).json({ error: "restore_failed", restarting: dbClosed });
-      if (dbClosed) setTimeout(() => process.exit(1), 150);
-      if (!dbClosed) isRestoring = false;
-    } finally {
-      fs.rmSync(file.path, { force: true });
-      fs.rmSync(extractDir, { recursive: true, force: true });
-      fs.rmSync(restoredDbPath, { force: true });
-      fs.rmSync(stagedUploads, { recursive: true, force: true });
-    }
-  },
-);
+adminRouter.delete("/restore/preview/:id", (req, res) => {
+  if (pendingRestore?.staged.id === req.params.id) dropPendingRestore();
+  res.json({ ok: true });
+});
 
 adminRouter.put("/account", async (req: AuthedRequest, res) => {
   const body = z
@@ -1721,23 +2264,126 @@ adminRouter.put("/account", async (req: AuthedRequest, res) => {
     throw e;
   }
 
-  const token = signToken({ userId, username: nextUsername });
-  res.cookie(config.cookieName, token, {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: config.cookieSecure,
-    maxAge: 7 * 24 * 60 * 60 * 1000,
-    path: "/",
-  });
+  // The current session stays signed in; everything else has to log in with the new password.
+  if (body.newPassword) deleteUserSessions(db, userId, req.user!.sessionId);
+  res.json({ ok: true, user: { ...req.user, username: nextUsername } });
+});
 
-  res.json({ ok: true, user: { userId, username: nextUsername } });
+adminRouter.put("/account/profile", (req: AuthedRequest, res) => {
+  const body = z.object({ displayName: z.string().trim().max(64) }).parse(req.body);
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: "unauthorized" });
+  setUserDisplayName(db, userId, body.displayName);
+  // Bylines are part of cached post payloads.
+  void cache.bump("posts");
+  res.json({ ok: true, user: { ...req.user, displayName: body.displayName } });
 });
 
 mountAdminRoutes(adminRouter, db, cache, {
   onContentChanged: (reason) => scheduleCloudflarePurge(reason),
+  onEvent: emitEvent,
+});
+mountTaxonomyRoutes(adminRouter, db, cache, {
+  onContentChanged: (reason) => scheduleCloudflarePurge(reason),
+});
+mountWebhookRoutes(adminRouter, db, webhooks);
+mountUserRoutes(adminRouter, db);
+mountSessionRoutes(adminRouter, db);
+mountApiTokenRoutes(adminRouter, db);
+mountImportRoutes(adminRouter, db, cache, {
+  upload: upload.single("file"),
+  storeImage: (file) => storeUploadedImage(file),
+  stagingDir: uploadsTmpDir,
+  onContentChanged: (reason) => scheduleCloudflarePurge(reason),
+});
+mountRestoreMergeRoutes(adminRouter, db, cache, {
+  upload: upload.single("file"),
+  uploadsDir,
+  uploadFilesFor: (name) => [name, path.relative(uploadsDir, path.join(thumbsDir, thumbNameFor(name)))],
+  isBusy: () => isRestoring || isPreparingRestore,
+  onContentChanged: (reason) => scheduleCloudflarePurge(reason),
 });
+mountTwoFactorRoutes(adminRouter, db, { getIssuer: () => siteCache.nav?.brandText?.trim() || "YaBlog" });
 app.use("/api/admin", adminRouter);
 
+// Scheduled publishing: flip due posts live, then invalidate caches like a normal publish would.
+const SCHEDULED_PUBLISH_INTERVAL_MS = 30_000;
+const runScheduledPublish = () => {
+  if (isRestoring) return;
+  try {
+    const published = publishDueScheduledPosts(db);
+    if (!published.length) return;
+    void cache.bump("posts");
+    void cache.bump("tags");
+    void cache.bump("categories");
+    void cache.bump("search");
+    scheduleCloudflarePurge("posts:scheduled");
+    for (const postId of published) emitEvent({ type: "post.published", postId });
+    // eslint-disable-next-line no-console
+    console.log(`[yablog-api] published ${published.length} scheduled post(s)`);
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.error("[yablog-api] scheduled publish failed", e?.message ?? e);
+  }
+};
+runScheduledPublish();
+setInterval(runScheduledPublish, SCHEDULED_PUBLISH_INTERVAL_MS).unref();
+
+// Related posts: saves in the editor recompute right away; this catches everything else (first run after
+// the upgrade, imports, merges, scheduled publishing, neighbours of an edited post) a batch at a time.
+const RELATED_SWEEP_BATCH = 25;
+const runRelatedSweep = () => {
+  if (isRestoring) return;
+  try {
+    const refreshed = refreshStaleRelatedPosts(db, RELATED_SWEEP_BATCH);
+    if (refreshed) void cache.bump("posts");
+  } catch (e: any) {
+    // eslint-disable-next-line no-console
+    console.warn("[yablog-api] related posts refresh failed", e?.message ?? e);
+  }
+};
+setInterval(runRelatedSweep, 60_000).unref();
+
+// Expired sessions are already rejected by requireAuth; this only keeps the tables small.
+const LOGIN_AUDIT_KEEP_DAYS = 90;
+const pruneAuthTables = () => {
+  deleteExpiredSessions(db);
+  pruneLoginAudit(db, LOGIN_AUDIT_KEEP_DAYS);
+};
+pruneAuthTables();
+setInterval(() => {
+  if (isRestoring) return;
+  pruneAuthTables();
+}, 60 * 60 * 1000).unref();
+
+// Webhook retries are persisted; pick up whatever became due (including leftovers from before a restart).
+setInterval(() => void webhooks.processDue(), 15_000).unref();
+
+// Admin notification digest: checked every minute, sent once the configured interval has passed.
+setInterval(() => {
+  if (isRestoring) return;
+  void notifier.runDigest().catch((e: any) => {
+    // eslint-disable-next-line no-console
+    console.warn("[yablog-api] notification digest failed", e?.message ?? e);
+  });
+}, 60_000).unref();
+
+// Scheduled backups: the cron expression has minute resolution, so a one-minute tick is enough.
+setInterval(() => {
+  if (isRestoring) return;
+  void backupScheduler.tick();
+}, 60_000).unref();
+
+// Old URLs of imported content (e.g. WordPress permalinks and `/?p=<id>`) -> permanent redirect.
+app.get("*", (req, res, next) => {
+  if (req.path.startsWith("/api/") || req.path.startsWith("/assets/") || req.path.startsWith("/uploads/")) return next();
+  const wpId = req.path === "/" && typeof req.query.p === "string" ? req.query.p : null;
+  if (req.path === "/" && !wpId) return next();
+  const target = resolveRedirect(db, wpId ? `/?p=${wpId}` : req.path);
+  if (!target || target === req.path) return next();
+  return res.redirect(301, target);
+});
+
 if (config.webDistPath && fs.existsSync(config.webDistPath)) {
   const indexHtml = path.join(config.webDistPath, "index.html");
   const ssrEntry = path.join(config.webDistPath, "ssr", "entry-server.js");
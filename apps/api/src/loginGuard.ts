@@ -0,0 +1,110 @@
+import type { Cache } from "./cache.js";
+
+// Failed sign-in counters per username and per IP. With Redis they live in the cache's rate-limit buckets
+// (shared across restarts); without it they are kept in process memory so protection never silently turns off.
+const WINDOW_SEC = 15 * 60;
+const USERNAME_LOCK_AFTER = 10;
+const IP_LOCK_AFTER = 30;
+// Failures before responses start being slowed down; after that the delay doubles per failure.
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const MEMORY_MAX_KEYS = 10_000;
+
+const USER_BUCKET = "login:user";
+const IP_BUCKET = "login:ip";
+
+type Counter = { count: number; resetSec: number };
+
+type CounterStore = {
+  hit: (bucket: string, key: string) => Promise<Counter>;
+  peek: (bucket: string, key: string) => Promise<Counter>;
+  clear: (bucket: string, key: string) => Promise<void>;
+};
+
+const createMemoryStore = (): CounterStore => {
+  const entries = new Map<string, { count: number; resetAt: number }>();
+
+  const read = (k: string) => {
+    const entry = entries.get(k);
+    if (entry && entry.resetAt <= Date.now()) {
+      entries.delete(k);
+      return null;
+    }
+    return entry ?? null;
+  };
+
+  const toCounter = (entry: { count: number; resetAt: number } | null): Counter =>
+    entry ? { count: entry.count, resetSec: Math.max(1, Math.ceil((entry.resetAt - Date.now()) / 1000)) } : { count: 0, resetSec: 0 };
+
+  return {
+    hit: async (bucket, key) => {
+      const k = `${bucket}:${key}`;
+      if (entries.size >= MEMORY_MAX_KEYS) {
+        const now = Date.now();
+        for (const [id, entry] of entries) if (entry.resetAt <= now) entries.delete(id);
+      }
+      const entry = read(k) ?? { count: 0, resetAt: Date.now() + WINDOW_SEC * 1000 };
+      entry.count += 1;
+      entries.set(k, entry);
+      return toCounter(entry);
+    },
+    peek: async (bucket, key) => toCounter(read(`${bucket}:${key}`)),
+    clear: async (bucket, key) => {
+      entries.delete(`${bucket}:${key}`);
+    },
+  };
+};
+
+const createCacheStore = (cache: Cache): CounterStore => ({
+  hit: async (bucket, key) => {
+    const res = await cache.rateLimit({ bucket, key, limit: Number.MAX_SAFE_INTEGER, windowSec: WINDOW_SEC });
+    return { count: res.count, resetSec: res.resetSec };
+  },
+  peek: (bucket, key) => cache.peekRateLimit({ bucket, key }),
+  clear: (bucket, key) => cache.resetRateLimit({ bucket, key }),
+});
+
+export type LoginLock = { scope: "username" | "ip"; retryAfterSec: number };
+
+export type LoginGuard = ReturnType<typeof createLoginGuard>;
+
+export const createLoginGuard = (cache: Cache, opts: { onAutoBan: (ip: string, reason: string) => void }) => {
+  const store = cache.enabled ? createCacheStore(cache) : createMemoryStore();
+  const userKey = (username: string) => username.trim().toLowerCase();
+
+  const delayFor = (failures: number) =>
+    failures <= FREE_ATTEMPTS ? 0 : Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1));
+
+  // Checked before the password is even looked at, so a locked account gives nothing away.
+  const check = async (args: { username: string; ip: string }): Promise<LoginLock | null> => {
+    const [user, ip] = await Promise.all([store.peek(USER_BUCKET, userKey(args.username)), store.peek(IP_BUCKET, args.ip)]);
+    if (ip.count >= IP_LOCK_AFTER) return { scope: "ip", retryAfterSec: ip.resetSec || WINDOW_SEC };
+    if (user.count >= USERNAME_LOCK_AFTER) return { scope: "username", retryAfterSec: user.resetSec || WINDOW_SEC };
+    return null;
+  };
+
+  // Counts a wrong password or 2FA code and returns how long to hold the response.
+  const recordFailure = async (args: { username: string; ip: string }) => {
+    const [user, ip] = await Promise.all([store.hit(USER_BUCKET, userKey(args.username)), store.hit(IP_BUCKET, args.ip)]);
+    void cache.recordSuspicious({ ip: args.ip, bucket: "login", kind: "login_fail" });
+    void cache.checkAndAutoBan({ ip: args.ip, onBan: opts.onAutoBan });
+    return delayFor(Math.max(user.count, ip.count));
+  };
+
+  // Attempts while locked count as blocks, which also tightens the global per-IP limit.
+  const recordBlocked = (args: { ip: string }) => {
+    void cache.recordSuspicious({ ip: args.ip, bucket: "login", kind: "login_block" });
+    void cache.checkAndAutoBan({ ip: args.ip, onBan: opts.onAutoBan });
+  };
+
+  // The IP counter is deliberately kept: one valid account must not reset guessing against others.
+  const recordSuccess = (args: { username: string }) => store.clear(USER_BUCKET, userKey(args.username));
+
+  const unlock = async (args: { username?: string; ip?: string }) => {
+    if (args.username) await store.clear(USER_BUCKET, userKey(args.username));
+    if (args.ip) await store.clear(IP_BUCKET, args.ip);
+  };
+
+  return { check, recordFailure, recordBlocked, recordSuccess, unlock };
+};
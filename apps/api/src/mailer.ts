@@ -0,0 +1,59 @@
+import nodemailer from "nodemailer";
+
+import type { MailSettings } from "./db.js";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Anything that can deliver a message. The SMTP transport is the default; tests or other
+// deployments can hand the notifier a different factory.
+export type MailTransport = {
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+  verify?: () => Promise<void>;
+};
+
+export type MailTransportFactory = (settings: MailSettings) => MailTransport;
+
+export type MailResult = { ok: true } | { ok: false; error: string };
+
+export const mailIsConfigured = (s: MailSettings) => Boolean(s.enabled && s.host.trim() && s.port && s.from.trim());
+
+export const createSmtpTransport: MailTransportFactory = (s) => {
+  const transporter = nodemailer.createTransport({
+    host: s.host.trim(),
+    port: s.port,
+    secure: s.security === "tls",
+    // Local stand-ins usually do not speak TLS at all; never try to upgrade in "none" mode.
+    ignoreTLS: s.security === "none",
+    auth: s.username.trim() ? { user: s.username.trim(), pass: s.password } : undefined,
+    connectionTimeout: 10_000,
+    greetingTimeout: 10_000,
+    socketTimeout: 20_000,
+  });
+  return {
+    send: async (m) => {
+      await transporter.sendMail({ from: m.from, to: m.to, subject: m.subject, text: m.text, html: m.html });
+    },
+    verify: async () => {
+      await transporter.verify();
+    },
+  };
+};
+
+export const sendMail = async (
+  settings: MailSettings,
+  message: MailMessage,
+  factory: MailTransportFactory = createSmtpTransport,
+): Promise<MailResult> => {
+  if (!mailIsConfigured(settings)) return { ok: false, error: "mail_not_configured" };
+  try {
+    await factory(settings).send({ ...message, from: settings.from.trim() });
+    return { ok: true };
+  } catch (e: any) {
+    return { ok: false, error: `mail_send_failed:${String(e?.message ?? e)}` };
+  }
+};
@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { stringify as stringifyYaml } from "yaml";
+
+import { listAllComments, listAllPosts, listLinksAdmin, type Db, type Post } from "./db.js";
+
+// Portable content export: one Markdown file per post with YAML front matter, the uploads those
+// posts use, and comments/links as JSON data files. The directory layout follows the target
+// generator so the archive can be dropped into a Hugo or Hexo site, and markdownImport.ts reads
+// it back (root-relative /uploads/... images resolve through static/ or source/).
+
+export const EXPORT_LAYOUTS = ["hugo", "hexo"] as const;
+export type ExportLayout = (typeof EXPORT_LAYOUTS)[number];
+
+const LAYOUT_DIRS: Record<ExportLayout, { posts: string; drafts: string; uploads: string; data: string }> = {
+  hugo: { posts: "content/posts", drafts: "content/posts", uploads: "static/uploads", data: "data" },
+  hexo: { posts: "source/_posts", drafts: "source/_drafts", uploads: "source/uploads", data: "source/_data" },
+};
+
+const UPLOAD_REF = /\/uploads\/([A-Za-z0-9._-]+)/g;
+
+// Keys understood by both generators (and by the importer): updated = Hexo, lastmod = Hugo.
+const frontMatter = (post: Post) => {
+  const data: Record<string, unknown> = {
+    title: post.title,
+    slug: post.slug,
+    date: post.publishedAt ?? post.createdAt,
+    updated: post.updatedAt,
+    lastmod: post.updatedAt,
+  };
+  if (post.status === "draft") data.draft = true;
+  data.status = post.status;
+  if (post.summary) data.description = post.summary;
+  if (post.coverImage) data.cover = post.coverImage;
+  data.tags = post.tags;
+  data.categories = post.categories;
+  data.featured = Boolean(post.featured);
+  data.sortOrder = post.sortOrder;
+  if (post.authorName) data.author = post.authorName;
+  return `---\n${stringifyYaml(data, { lineWidth: 0 })}---\n\n`;
+};
+
+// Slugs are unique, but older ones may contain characters that are not safe in file names.
+const fileNameFor = (slug: string, used: Set<string>) => {
+  const base = slug.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "-").replace(/^\.+/, "") || "post";
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+  used.add(name.toLowerCase());
+  return `${name}.md`;
+};
+
+export const writeMarkdownExport = (db: Db, args: { outDir: string; uploadsDir: string; layout: ExportLayout }) => {
+  const dirs = LAYOUT_DIRS[args.layout];
+  for (const dir of new Set(Object.values(dirs))) fs.mkdirSync(path.join(args.outDir, dir), { recursive: true });
+
+  const posts = listAllPosts(db);
+  const usedNames = new Set<string>();
+  const uploads = new Set<string>();
+  for (const post of posts) {
+    const dir = post.status === "draft" ? dirs.drafts : dirs.posts;
+    const body = post.contentMd.endsWith("\n") ? post.contentMd : `${post.contentMd}\n`;
+    fs.writeFileSync(path.join(args.outDir, dir, fileNameFor(post.slug, usedNames)), frontMatter(post) + body, "utf8");
+    for (const m of `${post.contentMd}\n${post.coverImage ?? ""}`.matchAll(UPLOAD_REF)) uploads.add(m[1]);
+  }
+
+  let copied = 0;
+  for (const name of uploads) {
+    if (name.startsWith(".") || name.includes("..")) continue;
+    const src = path.join(args.uploadsDir, name);
+    if (!fs.existsSync(src) || !fs.statSync(src).isFile()) continue;
+    fs.copyFileSync(src, path.join(args.outDir, dirs.uploads, name));
+    copied++;
+  }
+
+  const comments = listAllComments(db);
+  const links = listLinksAdmin(db);
+  fs.writeFileSync(path.join(args.outDir, dirs.data, "comments.json"), JSON.stringify(comments, null, 2), "utf8");
+  fs.writeFileSync(path.join(args.outDir, dirs.data, "links.json"), JSON.stringify(links, null, 2), "utf8");
+
+  return {
+    // Top-level entries of outDir, for the archive.
+    entries: fs.readdirSync(args.outDir),
+    posts: posts.length,
+    uploads: copied,
+    comments: comments.length,
+    links: links.length,
+  };
+};
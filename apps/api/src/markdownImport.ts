@@ -0,0 +1,266 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import extractZip from "extract-zip";
+import slugify from "slugify";
+import { parse as parseToml } from "smol-toml";
+import tar from "tar";
+import { parse as parseYaml } from "yaml";
+
+// Bulk import of Markdown posts exported from static-site generators (Hexo, Hugo, Jekyll and friends).
+// Everything here works on an extracted copy of the archive; the route decides what gets written.
+
+const MAX_MARKDOWN_FILES = 5000;
+const MARKDOWN_EXTS = new Set([".md", ".markdown", ".mdx"]);
+export const IMPORT_IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".svg": "image/svg+xml",
+  ".bmp": "image/bmp",
+};
+
+export const isSupportedArchive = (name: string) => /\.(zip|tar|tar\.gz|tgz)$/i.test(name);
+
+// Deletes every symlink under dir. extract-zip recreates link entries, and a link to a file outside the
+// archive would otherwise be picked up as an image and published to /uploads.
+const removeLinks = (dir: string) => {
+  for (const entry of fs.readdirSync(dir)) {
+    const full = path.join(dir, entry);
+    const st = fs.lstatSync(full);
+    if (st.isSymbolicLink()) fs.unlinkSync(full);
+    else if (st.isDirectory()) removeLinks(full);
+  }
+};
+
+export const extractArchive = async (file: string, originalName: string, destDir: string) => {
+  if (/\.zip$/i.test(originalName)) {
+    // extract-zip refuses entries that would land outside destDir.
+    await extractZip(file, { dir: path.resolve(destDir) });
+    removeLinks(destDir);
+    return;
+  }
+  await tar.x({
+    file,
+    cwd: destDir,
+    strict: true,
+    // Only plain files and directories; links could point outside the extraction directory.
+    filter: (_p, entry) => {
+      const type = (entry as unknown as { type?: string }).type;
+      return type === "File" || type === "Directory" || type === "OldFile" || type === "ContiguousFile";
+    },
+  });
+};
+
+// Hidden folders, dependency folders and generated output are never content; neither are repo docs
+// or Hugo section pages (_index.md).
+const SKIP_DIRS = new Set(["node_modules", "public", "resources", "_site", "themes", "__MACOSX"]);
+const SKIP_FILES = /^(readme|license|changelog|_index)\./i;
+
+export const findMarkdownFiles = (root: string) => {
+  const out: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (out.length >= MAX_MARKDOWN_FILES) return;
+      if (entry.name.startsWith(".")) continue;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIP_DIRS.has(entry.name)) walk(full);
+      } else if (entry.isFile() && MARKDOWN_EXTS.has(path.extname(entry.name).toLowerCase()) && !SKIP_FILES.test(entry.name)) {
+        out.push(full);
+      }
+    }
+  };
+  walk(root);
+  return out.sort();
+};
+
+export const splitFrontMatter = (raw: string): { data: Record<string, unknown>; body: string; format: "yaml" | "toml" | null } => {
+  const text = raw.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n");
+  const fenced = text.match(/^(---|\+\+\+)[ \t]*\n([\s\S]*?)\n\1[ \t]*(?:\n|$)/);
+  if (fenced) {
+    const format = fenced[1] === "+++" ? "toml" : "yaml";
+    const parsed = format === "toml" ? parseToml(fenced[2]) : parseYaml(fenced[2]);
+    const data = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+    return { data, body: text.slice(fenced[0].length), format };
+  }
+  // Hexo also accepts front matter without the opening fence.
+  const open = text.match(/^([A-Za-z_][\w-]*:[^\n]*\n(?:[^\n]*\n)*?)---[ \t]*(?:\n|$)/);
+  if (open) {
+    const parsed = parseYaml(open[1]);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return { data: parsed as Record<string, unknown>, body: text.slice(open[0].length), format: "yaml" };
+    }
+  }
+  return { data: {}, body: text, format: null };
+};
+
+const asString = (v: unknown) => (typeof v === "string" ? v.trim() : typeof v === "number" ? String(v) : "");
+
+const asDate = (v: unknown) => {
+  // TOML dates subclass Date and print local dates as "YYYY-MM-DD", so go through the timestamp.
+  if (v instanceof Date) return Number.isNaN(v.getTime()) ? null : new Date(v.getTime()).toISOString();
+  const s = asString(v);
+  if (!s) return null;
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+};
+
+// Jekyll tags may be a space separated string; Hexo categories may be nested lists (a hierarchy).
+const asList = (v: unknown): string[] => {
+  if (Array.isArray(v)) return v.flatMap(asList);
+  const s = asString(v);
+  if (!s) return [];
+  return (s.includes(",") ? s.split(",") : s.split(/\s+/)).map((x) => x.trim()).filter(Boolean);
+};
+
+const firstString = (...values: unknown[]) => {
+  for (const v of values) {
+    const s = asString(v);
+    if (s) return s;
+  }
+  return "";
+};
+
+const JEKYLL_NAME = /^(\d{4}-\d{2}-\d{2})-(.+)$/;
+
+export type ImportDraft = {
+  file: string;
+  title: string;
+  slug: string;
+  summary: string | null;
+  contentMd: string;
+  coverImage: string | null;
+  draft: boolean;
+  // Only set when the source says so; overwrites keep the existing values otherwise.
+  featured?: boolean;
+  sortOrder?: number;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  tags: string[];
+  categories: string[];
+};
+
+// Maps the front matter keys used by the common generators onto YabLog's post fields.
+export const toImportDraft = (root: string, file: string): ImportDraft => {
+  const rel = path.relative(root, file).split(path.sep).join("/");
+  const { data, body } = splitFrontMatter(fs.readFileSync(file, "utf8"));
+
+  const base = path.basename(file, path.extname(file));
+  // Hugo page bundles keep the post in <slug>/index.md.
+  const nameSlug = base === "index" ? path.basename(path.dirname(file)) : base;
+  const jekyll = nameSlug.match(JEKYLL_NAME);
+  const permalink = firstString(data.permalink, data.url)
+    .split("/")
+    .filter(Boolean)
+    .pop()
+    ?.replace(/\.html?$/i, "");
+
+  const rawSlug = firstString(data.slug, data.abbrlink, permalink, jekyll?.[2] ?? nameSlug);
+  // Same normalisation as slugs typed in the editor.
+  const slug = slugify(rawSlug, { lower: true, strict: true, trim: true }) || "post";
+
+  const cover = data.cover && typeof data.cover === "object" ? (data.cover as Record<string, unknown>).image : data.cover;
+  const images = Array.isArray(data.images) ? data.images[0] : undefined;
+
+  const inDraftsDir = rel.split("/").includes("_drafts");
+
+  return {
+    file: rel,
+    title: firstString(data.title) || (jekyll?.[2] ?? nameSlug),
+    slug,
+    summary: firstString(data.description, data.summary, data.excerpt) || null,
+    contentMd: body.trim(),
+    coverImage: firstString(cover, data.image, data.thumbnail, data.featured_image, data.banner, data.index_img, images) || null,
+    draft: inDraftsDir || data.draft === true || data.published === false,
+    // `sticky` is Hexo's pin flag (a boolean or a priority number).
+    featured: "featured" in data || "sticky" in data ? data.featured === true || data.sticky === true || Number(data.sticky) > 0 : undefined,
+    sortOrder: Number.isInteger(data.sortOrder) ? (data.sortOrder as number) : undefined,
+    publishedAt: asDate(data.date) ?? asDate(data.publishDate) ?? (jekyll ? asDate(jekyll[1]) : null),
+    updatedAt: asDate(data.updated) ?? asDate(data.lastmod) ?? asDate(data.last_modified_at),
+    tags: [...new Set(asList(data.tags))],
+    categories: [...new Set(asList(data.categories ?? data.category))],
+  };
+};
+
+const isRemoteRef = (ref: string) => /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+
+// Refs that should be found in the archive. /uploads paths (e.g. from a YabLog export) are uploaded
+// when the archive has them, but may also already exist on this site, so they never count as missing.
+export const isLocalRef = (ref: string) => Boolean(ref) && !ref.startsWith("/uploads/") && !isRemoteRef(ref);
+
+// Resolves an image reference the way the generators do: next to the post, in a Hexo asset folder
+// (<post>/<name>), or for root-relative paths in the site root or its static/source folders.
+export const resolveImageRef = (root: string, mdFile: string, ref: string): string | null => {
+  if (!ref || isRemoteRef(ref)) return null;
+  let clean: string;
+  try {
+    clean = decodeURIComponent(ref.split(/[?#]/)[0]);
+  } catch {
+    clean = ref.split(/[?#]/)[0];
+  }
+  if (!IMPORT_IMAGE_TYPES[path.extname(clean).toLowerCase()]) return null;
+
+  const rootAbs = path.resolve(root);
+  const rootReal = fs.realpathSync(rootAbs);
+  const mdDir = path.dirname(mdFile);
+  const candidates: string[] = [];
+  if (clean.startsWith("/")) {
+    for (let dir = mdDir; dir.startsWith(rootAbs); dir = path.dirname(dir)) {
+      for (const sub of ["", "static", "source", "assets"]) candidates.push(path.join(dir, sub, clean));
+      if (dir === rootAbs) break;
+    }
+  } else {
+    candidates.push(path.join(mdDir, clean));
+    candidates.push(path.join(mdDir, path.basename(mdFile, path.extname(mdFile)), clean));
+  }
+  for (const c of candidates) {
+    const abs = path.resolve(c);
+    if (abs !== rootAbs && !abs.startsWith(rootAbs + path.sep)) continue;
+    if (!fs.existsSync(abs) || !fs.lstatSync(abs).isFile()) continue;
+    // A link in a parent directory could still lead outside the archive.
+    const real = fs.realpathSync(abs);
+    if (real === rootReal || real.startsWith(rootReal + path.sep)) return real;
+  }
+  return null;
+};
+
+const MD_IMAGE = /(!\[[^\]]*\]\()(<[^>]+>|[^)\s]+)((?:\s+"[^"]*")?\))/g;
+const HTML_IMAGE = /(<img\b[^>]*?\ssrc=)(["'])([^"']+)\2/gi;
+const HUGO_FIGURE = /(\{\{[<%]\s*figure\b[^}]*?\ssrc=)(["'])([^"']+)\2/g;
+const HEXO_ASSET_IMG = /\{%\s*asset_img\s+(\S+)(?:\s+([^%]*?))?\s*%\}/g;
+
+// Rewrites every image reference in the Markdown through `map` (return null to keep it as is).
+// Hexo's {% asset_img %} tag has no meaning here, so it becomes a plain Markdown image.
+export const rewriteImageRefs = (markdown: string, map: (ref: string) => string | null) => {
+  const unwrap = (ref: string) => (ref.startsWith("<") && ref.endsWith(">") ? ref.slice(1, -1) : ref);
+  return markdown
+    .replace(HEXO_ASSET_IMG, (all, ref: string, title?: string) => {
+      const next = map(ref);
+      return next ? `![${(title ?? "").replace(/^["']|["']$/g, "")}](${next})` : all;
+    })
+    .replace(MD_IMAGE, (all, pre: string, ref: string, post: string) => {
+      const next = map(unwrap(ref));
+      return next ? `${pre}${next}${post}` : all;
+    })
+    .replace(HTML_IMAGE, (all, pre: string, q: string, ref: string) => {
+      const next = map(ref);
+      return next ? `${pre}${q}${next}${q}` : all;
+    })
+    .replace(HUGO_FIGURE, (all, pre: string, q: string, ref: string) => {
+      const next = map(ref);
+      return next ? `${pre}${q}${next}${q}` : all;
+    });
+};
+
+export const collectImageRefs = (markdown: string) => {
+  const refs: string[] = [];
+  rewriteImageRefs(markdown, (ref) => {
+    refs.push(ref);
+    return null;
+  });
+  return refs;
+};
@@ -1,23 +1,103 @@
 import type { NextFunction, Request, Response } from "express";
 
+import { hashApiToken, isApiToken, requiredScope, type ApiTokenScope } from "./apiTokens.js";
 import { config } from "./config.js";
 import { verifyToken } from "./auth.js";
+import {
+  getActiveApiTokenByHash,
+  getActiveSession,
+  getUserById,
+  touchApiToken,
+  touchSession,
+  type Db,
+  type UserRole,
+} from "./db.js";
+
+// `scopes` is null for interactive logins (no restriction beyond the role) and set for API tokens.
+export type AuthUser = {
+  userId: number;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  sessionId: string | null;
+  scopes: ApiTokenScope[] | null;
+};
 
 export type AuthedRequest = Request & {
-  user?: { userId: number; username: string };
+  user?: AuthUser;
 };
 
-export const requireAuth = (req: AuthedRequest, res: Response, next: NextFunction) => {
+// Writing last-seen on every request would turn each admin page view into a DB write.
+const SESSION_TOUCH_INTERVAL_MS = 60_000;
+
+export const readAuthToken = (req: Request) => {
   const tokenFromCookie = req.cookies?.[config.cookieName] as string | undefined;
   const bearer = req.header("authorization")?.match(/^Bearer (.+)$/i)?.[1];
-  const token = tokenFromCookie ?? bearer;
+  return tokenFromCookie ?? bearer;
+};
+
+const isStale = (iso: string | null) => !iso || Date.now() - Date.parse(iso) > SESSION_TOUCH_INTERVAL_MS;
+
+// The token only identifies the session (or API token); it must still exist, and role and disabled state
+// are read on every request so revocations and changes made in user management apply immediately.
+export const createRequireAuth = (db: Db) => (req: AuthedRequest, res: Response, next: NextFunction) => {
+  const token = readAuthToken(req);
 
   if (!token) return res.status(401).json({ error: "unauthorized" });
   try {
-    req.user = verifyToken(token);
+    if (isApiToken(token)) {
+      const apiToken = getActiveApiTokenByHash(db, hashApiToken(token));
+      if (!apiToken) return res.status(401).json({ error: "unauthorized" });
+      const row = getUserById(db, apiToken.userId);
+      if (!row || row.disabled) return res.status(401).json({ error: "unauthorized" });
+      if (isStale(apiToken.lastUsedAt)) touchApiToken(db, apiToken.id);
+      req.user = {
+        userId: row.id,
+        username: row.username,
+        displayName: row.displayName,
+        role: row.role,
+        sessionId: null,
+        scopes: apiToken.scopes as ApiTokenScope[],
+      };
+      return next();
+    }
+
+    const payload = verifyToken(token);
+    const session = payload.sid ? getActiveSession(db, payload.sid) : null;
+    if (!session || session.userId !== payload.userId) return res.status(401).json({ error: "unauthorized" });
+    const row = getUserById(db, payload.userId);
+    if (!row || row.disabled) return res.status(401).json({ error: "unauthorized" });
+    if (isStale(session.lastSeenAt)) {
+      touchSession(db, { id: session.id, ip: req.ip ?? "" });
+    }
+    req.user = {
+      userId: row.id,
+      username: row.username,
+      displayName: row.displayName,
+      role: row.role,
+      sessionId: session.id,
+      scopes: null,
+    };
     return next();
   } catch {
     return res.status(401).json({ error: "unauthorized" });
   }
 };
 
+export const requireRole =
+  (...roles: UserRole[]) =>
+  (req: AuthedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ error: "unauthorized" });
+    if (!roles.includes(req.user.role)) return res.status(403).json({ error: "forbidden" });
+    return next();
+  };
+
+// Mounted on the whole admin router: API tokens only reach routes whose scope they carry,
+// and routes without a scope (accounts, users, sessions, tokens) are closed to them.
+export const requireTokenScope = (req: AuthedRequest, res: Response, next: NextFunction) => {
+  const scopes = req.user?.scopes;
+  if (!scopes) return next();
+  const scope = requiredScope(req.method, req.path);
+  if (!scope || !scopes.includes(scope)) return res.status(403).json({ error: "insufficient_scope", scope });
+  return next();
+};
@@ -0,0 +1,190 @@
+import path from "node:path";
+
+import { SEGMENT_SQL_FUNCTION } from "./cjk.js";
+import { initDb, upgradeLegacySchema, type Db } from "./db.js";
+
+// Numbered schema migrations. Applied versions are recorded in `schema_migrations` and mirrored in
+// PRAGMA user_version, which a backup carries along so restores can tell which build wrote it.
+
+export type Migration = {
+  version: number;
+  name: string;
+  // Table rebuilds (the only way to change a column or CHECK constraint in SQLite) need foreign keys
+  // off, or dropping the old table cascades into every table that references it.
+  disableForeignKeys?: boolean;
+  up: (db: Db) => void;
+};
+
+// Append only: never edit or renumber a migration that has shipped, add a new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    // Everything from before numbered migrations. Idempotent, so databases of any older layout end up the same.
+    version: 1,
+    name: "baseline",
+    disableForeignKeys: true,
+    up: (db) => {
+      initDb(db);
+      upgradeLegacySchema(db);
+    },
+  },
+  {
+    // Precomputed related posts (see related.ts). A post without a state row has never been computed.
+    version: 2,
+    name: "post_related",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS post_related (
+          post_id INTEGER NOT NULL,
+          related_id INTEGER NOT NULL,
+          score REAL NOT NULL,
+          PRIMARY KEY (post_id, related_id),
+          FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE,
+          FOREIGN KEY (related_id) REFERENCES posts(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_post_related_related ON post_related(related_id);
+
+        CREATE TABLE IF NOT EXISTS post_related_state (
+          post_id INTEGER PRIMARY KEY,
+          computed_at TEXT NOT NULL,
+          FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE
+        );
+      `);
+      // Document frequencies for picking a post's most distinctive terms; only exists alongside posts_fts.
+      const fts = db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'posts_fts'").get();
+      if (fts) db.exec("CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts_vocab USING fts5vocab(posts_fts, 'row');");
+    },
+  },
+  {
+    // Rebuild posts_fts over CJK-segmented text (see cjk.ts). The index no longer mirrors posts column
+    // for column, so it is contentless and filled by triggers through the segmenting SQL function.
+    version: 3,
+    name: "cjk_fts",
+    up: (db) => {
+      // A SQLite build without FTS5 never had an index to rebuild; search there uses LIKE. Anything else
+      // that goes wrong fails the migration: the query side already sends bigram queries.
+      const fts = db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'posts_fts'").get();
+      if (!fts) return;
+      db.exec(`
+        DROP TRIGGER IF EXISTS posts_ai;
+        DROP TRIGGER IF EXISTS posts_ad;
+        DROP TRIGGER IF EXISTS posts_au;
+        DROP TABLE IF EXISTS posts_fts_vocab;
+        DROP TABLE IF EXISTS posts_fts;
+
+        CREATE VIRTUAL TABLE posts_fts USING fts5(
+          title,
+          summary,
+          content_md,
+          content='',
+          contentless_delete=1
+        );
+        CREATE VIRTUAL TABLE posts_fts_vocab USING fts5vocab(posts_fts, 'row');
+
+        CREATE TRIGGER posts_ai AFTER INSERT ON posts BEGIN
+          INSERT INTO posts_fts(rowid, title, summary, content_md)
+          VALUES (new.id, ${SEGMENT_SQL_FUNCTION}(new.title), ${SEGMENT_SQL_FUNCTION}(new.summary), ${SEGMENT_SQL_FUNCTION}(new.content_md));
+        END;
+        CREATE TRIGGER posts_ad AFTER DELETE ON posts BEGIN
+          DELETE FROM posts_fts WHERE rowid = old.id;
+        END;
+        CREATE TRIGGER posts_au AFTER UPDATE OF title, summary, content_md ON posts BEGIN
+          DELETE FROM posts_fts WHERE rowid = old.id;
+          INSERT INTO posts_fts(rowid, title, summary, content_md)
+          VALUES (new.id, ${SEGMENT_SQL_FUNCTION}(new.title), ${SEGMENT_SQL_FUNCTION}(new.summary), ${SEGMENT_SQL_FUNCTION}(new.content_md));
+        END;
+
+        INSERT INTO posts_fts(rowid, title, summary, content_md)
+        SELECT id, ${SEGMENT_SQL_FUNCTION}(title), ${SEGMENT_SQL_FUNCTION}(summary), ${SEGMENT_SQL_FUNCTION}(content_md) FROM posts;
+      `);
+      // Related-post scores were computed from the old tokens.
+      db.exec("DELETE FROM post_related_state");
+    },
+  },
+  {
+    // Tags and categories become editable terms with a description and a header image (see taxonomy routes).
+    version: 4,
+    name: "taxonomy_details",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tags ADD COLUMN description TEXT NOT NULL DEFAULT '';
+        ALTER TABLE tags ADD COLUMN image TEXT;
+        ALTER TABLE categories ADD COLUMN description TEXT NOT NULL DEFAULT '';
+        ALTER TABLE categories ADD COLUMN image TEXT;
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Works on read-only handles too (backups being previewed), where schema_migrations may not exist.
+export const readSchemaVersion = (db: Db) => {
+  const userVersion = Number(db.pragma("user_version", { simple: true }) ?? 0);
+  try {
+    const recorded = db.prepare("SELECT MAX(version) FROM schema_migrations").pluck().get() as number | null;
+    return Math.max(userVersion, recorded ?? 0);
+  } catch {
+    return userVersion;
+  }
+};
+
+export type MigrationResult = { from: number; to: number; applied: string[]; backupPath: string | null };
+
+// Runs pending migrations in order, each in its own transaction. A copy of the database is written to
+// `backupDir` first (yablog.pre-migrate.*.db, cleaned up with the other restore leftovers).
+// Throws, leaving the database at the last completed version, if a migration fails.
+export const runMigrations = async (db: Db, opts: { backupDir: string }): Promise<MigrationResult> => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const from = readSchemaVersion(db);
+  if (from > SCHEMA_VERSION) {
+    throw new Error(`database schema version ${from} is newer than this build supports (${SCHEMA_VERSION}); upgrade YaBlog`);
+  }
+  const applied = new Set(db.prepare("SELECT version FROM schema_migrations").pluck().all() as number[]);
+  const pending = MIGRATIONS.filter((m) => m.version > from && !applied.has(m.version));
+  if (!pending.length) return { from, to: from, applied: [], backupPath: null };
+
+  // A brand new database has nothing worth keeping.
+  const tables = db
+    .prepare("SELECT COUNT(*) FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')")
+    .pluck()
+    .get() as number;
+  let backupPath: string | null = null;
+  if (tables > 0) {
+    const ts = new Date().toISOString().replace(/[:.]/g, "-");
+    backupPath = path.join(opts.backupDir, `yablog.pre-migrate.v${from}.${ts}.db`);
+    await db.backup(backupPath);
+  }
+
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)");
+  const done: string[] = [];
+  for (const m of pending) {
+    // foreign_keys cannot be changed inside a transaction.
+    if (m.disableForeignKeys) db.pragma("foreign_keys = OFF");
+    try {
+      // Rows that were already dangling before the migration are not its fault.
+      const danglingBefore = m.disableForeignKeys ? (db.pragma("foreign_key_check") as unknown[]).length : 0;
+      db.transaction(() => {
+        m.up(db);
+        if (m.disableForeignKeys && (db.pragma("foreign_key_check") as unknown[]).length > danglingBefore) {
+          throw new Error("foreign key check failed");
+        }
+        record.run(m.version, m.name, new Date().toISOString());
+        db.pragma(`user_version = ${m.version}`);
+      })();
+    } catch (e: any) {
+      const kept = backupPath ? `; the previous database was saved to ${backupPath}` : "";
+      throw new Error(`migration ${m.version} (${m.name}) failed: ${String(e?.message ?? e)}${kept}`);
+    } finally {
+      if (m.disableForeignKeys) db.pragma("foreign_keys = ON");
+    }
+    done.push(`${m.version}_${m.name}`);
+  }
+  return { from, to: SCHEMA_VERSION, applied: done, backupPath };
+};
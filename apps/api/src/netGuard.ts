@@ -0,0 +1,86 @@
+import dnsCb from "node:dns";
+import dns from "node:dns/promises";
+import net from "node:net";
+
+// Outbound fetches of user supplied URLs (link icons, imported media, webhooks) must not reach the
+// server's own network.
+
+const isPrivateIpv4 = (ip: string) => {
+  const parts = ip.split(".").map((n) => Number(n));
+  if (parts.length !== 4 || parts.some((n) => Number.isNaN(n) || n < 0 || n > 255)) return true;
+  const [a, b] = parts;
+  if (a === 10) return true;
+  if (a === 127) return true;
+  if (a === 0) return true;
+  if (a === 100 && b >= 64 && b <= 127) return true; // carrier-grade NAT
+  if (a === 169 && b === 254) return true;
+  if (a === 172 && b >= 16 && b <= 31) return true;
+  if (a === 192 && b === 168) return true;
+  if (a >= 224) return true; // multicast and reserved
+  return false;
+};
+
+// The eight 16-bit groups of an IPv6 address, with a dotted IPv4 tail folded into the last two.
+const ipv6Groups = (ip: string): number[] | null => {
+  let s = ip.toLowerCase().replace(/%.*$/, "");
+  const tail = s.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const p = tail[1].split(".").map(Number);
+    s = s.slice(0, -tail[1].length) + `${((p[0] << 8) | p[1]).toString(16)}:${((p[2] << 8) | p[3]).toString(16)}`;
+  }
+  const [head, rest] = s.split("::");
+  const left = head ? head.split(":") : [];
+  const right = rest ? rest.split(":") : [];
+  const fill = s.includes("::") ? 8 - left.length - right.length : 0;
+  const groups = [...left, ...Array(fill).fill("0"), ...right].map((g) => parseInt(g, 16));
+  return groups.length === 8 && groups.every((g) => g >= 0 && g <= 0xffff) ? groups : null;
+};
+
+const isPrivateIpv6 = (ip: string) => {
+  const g = ipv6Groups(ip);
+  if (!g) return true;
+  const v4 = () => `${g[6] >> 8}.${g[6] & 0xff}.${g[7] >> 8}.${g[7] & 0xff}`;
+  if (g.slice(0, 5).every((n) => n === 0)) {
+    // ::ffff:a.b.c.d is the IPv4 address itself; ::, ::1 and ::a.b.c.d are never public.
+    return g[5] === 0xffff ? isPrivateIpv4(v4()) : true;
+  }
+  if (g.slice(0, 4).every((n) => n === 0) && g[4] === 0xffff && g[5] === 0) return true; // ::ffff:0:0:0/96
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((n) => n === 0)) return true; // NAT64
+  if ((g[0] & 0xfe00) === 0xfc00) return true; // unique local
+  if ((g[0] & 0xffc0) === 0xfe80) return true; // link-local
+  if ((g[0] & 0xff00) === 0xff00) return true; // multicast
+  return false;
+};
+
+const isPrivateIp = (ip: string) => {
+  const v = net.isIP(ip);
+  if (v === 4) return isPrivateIpv4(ip);
+  if (v === 6) return isPrivateIpv6(ip);
+  return true;
+};
+
+// Accepts URL hostnames as they are, brackets around IPv6 literals included.
+export const safeResolveHost = async (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost") return false;
+  if (net.isIP(host)) return !isPrivateIp(host);
+  const addrs4 = await dns.resolve4(host).catch(() => [] as string[]);
+  const addrs6 = await dns.resolve6(host).catch(() => [] as string[]);
+  const all = [...addrs4, ...addrs6];
+  if (!all.length) return false;
+  return all.every((ip) => !isPrivateIp(ip));
+};
+
+// A `lookup` for http(s).request that refuses private addresses, so the connection goes to the address
+// that was checked and a DNS answer that changes after safeResolveHost cannot point it inward.
+// IP literals never reach a lookup function; check them with safeResolveHost first.
+export const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dnsCb.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (hostname === "localhost" || !addresses.length || addresses.some((a) => isPrivateIp(a.address))) {
+      return callback(Object.assign(new Error("blocked_host"), { code: "blocked_host" }), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,213 @@
+import {
+  getCommentForNotify,
+  getLinkRequestById,
+  getMailDigestCursor,
+  listCommentsCreatedSince,
+  listLinkRequestsCreatedSince,
+  setMailDigestCursor,
+  type CommentNotifyRow,
+  type Db,
+  type LinkRequest,
+  type MailSettings,
+} from "./db.js";
+import type { AppEvent } from "./events.js";
+import { createSmtpTransport, mailIsConfigured, sendMail, type MailMessage, type MailTransportFactory } from "./mailer.js";
+
+const esc = (s: string) =>
+  s.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+
+const excerpt = (s: string, max = 500) => {
+  const t = s.replace(/\r\n/g, "\n").trim();
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+};
+
+type Section = { heading?: string; lines: string[]; link?: string };
+
+// Minimal multipart body: readable as plain text, lightly formatted as HTML.
+const renderEmail = (to: string, subject: string, sections: Section[]): MailMessage => {
+  const text = sections
+    .map((s) => [s.heading ? `## ${s.heading}` : "", ...s.lines, s.link ?? ""].filter(Boolean).join("\n"))
+    .join("\n\n");
+  const html = sections
+    .map(
+      (s) =>
+        `<div style="margin:0 0 18px">` +
+        (s.heading ? `<h3 style="margin:0 0 8px">${esc(s.heading)}</h3>` : "") +
+        s.lines.map((l) => `<p style="margin:0 0 6px;white-space:pre-wrap">${esc(l)}</p>`).join("") +
+        (s.link ? `<p style="margin:0"><a href="${esc(s.link)}">${esc(s.link)}</a></p>` : "") +
+        `</div>`,
+    )
+    .join("");
+  return { to, subject, text, html: `<div style="font-family:sans-serif;font-size:14px;line-height:1.6">${html}</div>` };
+};
+
+export const createNotifier = (args: {
+  db: Db;
+  getSettings: () => MailSettings;
+  getSiteName: () => string;
+  transport?: MailTransportFactory;
+}) => {
+  const { db, getSettings, getSiteName } = args;
+  const transport = args.transport ?? createSmtpTransport;
+
+  const url = (s: MailSettings, path: string) => {
+    const base = s.siteUrl.trim().replace(/\/+$/, "");
+    return base ? `${base}${path}` : path;
+  };
+  const postUrl = (s: MailSettings, slug: string) => url(s, `/post/${encodeURIComponent(slug)}`);
+
+  const send = async (s: MailSettings, message: MailMessage) => {
+    const res = await sendMail(s, message, transport);
+    if (!res.ok) {
+      // eslint-disable-next-line no-console
+      console.warn("[yablog-api] notification email failed", { subject: message.subject, error: res.error });
+    }
+    return res;
+  };
+
+  const adminTarget = (s: MailSettings) => (mailIsConfigured(s) ? s.adminEmail.trim() : "");
+
+  const commentSection = (s: MailSettings, c: CommentNotifyRow): Section => ({
+    heading: `${c.author} 评论了《${c.postTitle}》`,
+    lines: [excerpt(c.contentMd)],
+    link: postUrl(s, c.postSlug),
+  });
+
+  const linkRequestSection = (r: LinkRequest): Section => ({
+    heading: `${r.name} 申请友链`,
+    lines: [r.url, r.description, r.message].filter((l) => l.trim()),
+  });
+
+  const onCommentCreated = async (id: number) => {
+    const s = getSettings();
+    const c = getCommentForNotify(db, id);
+    // Author replies skip moderation, so the reader being replied to is told right away.
+    if (c?.isAdmin && c.status === "approved") return notifyReplyTarget(s, c);
+    const to = adminTarget(s);
+    if (!to || s.adminMode !== "instant" || !s.notifyComments) return;
+    if (!c || c.isAdmin) return;
+    await send(
+      s,
+      renderEmail(to, `[${getSiteName()}] 新评论待审核：${c.postTitle}`, [
+        commentSection(s, c),
+        { lines: ["前往后台审核："], link: url(s, "/admin/comments") },
+      ]),
+    );
+  };
+
+  const onLinkRequestCreated = async (id: number) => {
+    const s = getSettings();
+    const to = adminTarget(s);
+    if (!to || s.adminMode !== "instant" || !s.notifyLinkRequests) return;
+    const r = getLinkRequestById(db, id);
+    if (!r) return;
+    await send(
+      s,
+      renderEmail(to, `[${getSiteName()}] 新的友链申请：${r.name}`, [
+        linkRequestSection(r),
+        { lines: ["前往后台处理："], link: url(s, "/admin/links") },
+      ]),
+    );
+  };
+
+  const notifyReplyTarget = async (s: MailSettings, c: CommentNotifyRow) => {
+    if (!mailIsConfigured(s) || !s.notifyCommenters || !c.parentId) return;
+    const parent = getCommentForNotify(db, c.parentId);
+    if (!parent || !parent.notify || !parent.email) return;
+    if (c.email && c.email.toLowerCase() === parent.email.toLowerCase()) return;
+    await send(
+      s,
+      renderEmail(parent.email, `[${getSiteName()}] ${c.author} 回复了你在《${c.postTitle}》的评论`, [
+        { heading: "你的评论", lines: [excerpt(parent.contentMd, 200)] },
+        { heading: `${c.author}${c.isAdmin ? "（作者）" : ""} 的回复`, lines: [excerpt(c.contentMd)], link: postUrl(s, c.postSlug) },
+      ]),
+    );
+  };
+
+  // Only readers who left an email and ticked the opt-in box are contacted.
+  const onCommentApproved = async (id: number) => {
+    const s = getSettings();
+    if (!mailIsConfigured(s) || !s.notifyCommenters) return;
+    const c = getCommentForNotify(db, id);
+    if (!c || c.status !== "approved") return;
+    const site = getSiteName();
+
+    if (!c.isAdmin && c.notify && c.email) {
+      await send(
+        s,
+        renderEmail(c.email, `[${site}] 你在《${c.postTitle}》的评论已通过审核`, [
+          { lines: [`${c.author}，你好：`, "你的评论已经公开显示。", excerpt(c.contentMd)], link: postUrl(s, c.postSlug) },
+        ]),
+      );
+    }
+
+    await notifyReplyTarget(s, c);
+  };
+
+  const handle = async (event: AppEvent) => {
+    try {
+      if (event.type === "comment.created") await onCommentCreated(event.commentId);
+      else if (event.type === "comment.approved") await onCommentApproved(event.commentId);
+      else if (event.type === "link_request.created") await onLinkRequestCreated(event.linkRequestId);
+    } catch (e: any) {
+      // eslint-disable-next-line no-console
+      console.warn("[yablog-api] notification failed", { event: event.type, error: String(e?.message ?? e) });
+    }
+  };
+
+  let digestRunning = false;
+
+  // Called periodically; sends one email covering everything since the last digest once the interval has passed.
+  const runDigest = async () => {
+    const s = getSettings();
+    const to = adminTarget(s);
+    if (!to || s.adminMode !== "digest" || digestRunning) return;
+    const now = new Date().toISOString();
+    const cursor = getMailDigestCursor(db);
+    if (!cursor) {
+      setMailDigestCursor(db, now);
+      return;
+    }
+    if (Date.parse(now) - Date.parse(cursor) < s.digestMinutes * 60_000) return;
+
+    digestRunning = true;
+    try {
+      const comments = s.notifyComments ? listCommentsCreatedSince(db, cursor).filter((c) => c.createdAt <= now) : [];
+      const requests = s.notifyLinkRequests ? listLinkRequestsCreatedSince(db, cursor).filter((r) => r.createdAt <= now) : [];
+      if (!comments.length && !requests.length) {
+        setMailDigestCursor(db, now);
+        return;
+      }
+      const summary = [comments.length ? `${comments.length} 条新评论` : "", requests.length ? `${requests.length} 个友链申请` : ""]
+        .filter(Boolean)
+        .join("、");
+      const sections: Section[] = [
+        ...comments.map((c) => commentSection(s, c)),
+        ...requests.map(linkRequestSection),
+        { lines: ["前往后台处理："], link: url(s, comments.length ? "/admin/comments" : "/admin/links") },
+      ];
+      const res = await send(s, renderEmail(to, `[${getSiteName()}] 通知汇总：${summary}`, sections));
+      // On failure the cursor stays put so the next run retries the same batch.
+      if (res.ok) setMailDigestCursor(db, now);
+    } finally {
+      digestRunning = false;
+    }
+  };
+
+  const resetDigest = () => setMailDigestCursor(db, new Date().toISOString());
+
+  const sendTest = async (to: string) => {
+    const s = getSettings();
+    return await sendMail(
+      s,
+      renderEmail(to, `[${getSiteName()}] 测试邮件`, [
+        { lines: ["如果你收到了这封邮件，说明 SMTP 配置可用。", `发送时间：${new Date().toISOString()}`] },
+      ]),
+      transport,
+    );
+  };
+
+  return { handle, runDigest, resetDigest, sendTest };
+};
+
+export type Notifier = ReturnType<typeof createNotifier>;
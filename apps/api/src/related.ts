@@ -0,0 +1,300 @@
+import { segmentForIndex } from "./cjk.js";
+import { getPostById, hasFts, listPosts, type Db, type Post } from "./db.js";
+import { withoutBody, type PostSummary } from "./snippets.js";
+
+// Related posts: BM25 over posts_fts using a post's most distinctive terms as the query, blended with
+// shared tags and categories. Results are stored in post_related so reading a post costs one lookup;
+// a post is recomputed when it is saved and by the periodic sweep when it changed some other way.
+
+const KEEP = 8;
+const QUERY_TERMS = 24;
+const CANDIDATES = 60;
+const MIN_SCORE = 0.08;
+const WEIGHTS = { text: 0.6, tags: 0.3, category: 0.1 };
+// Matches the column order of posts_fts (title, summary, content_md).
+const FIELD_WEIGHTS = { title: 3, summary: 2, body: 1 };
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can do for from has have how i if in into is it its not of on or our so that the their " +
+    "then there these this to was we were what when which will with you your"
+  ).split(" "),
+);
+
+// Mirrors what posts_fts indexes (CJK bigrams, then unicode61 with diacritics removed) so the terms we
+// pick exist in the index.
+export const indexTerms = (text: string) =>
+  segmentForIndex(text)
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const isUseful = (term: string) => term.length > 1 && !/^\p{N}+$/u.test(term) && !STOPWORDS.has(term);
+
+// Link targets and bare URLs are mostly hostnames and path fragments, not what the post is about.
+const stripUrls = (md: string) => md.replace(/\]\([^)]*\)/g, "]").replace(/https?:\/\/\S+/g, " ");
+
+type Source = { id: number; title: string; summary: string | null; contentMd: string };
+
+const pickQueryTerms = (db: Db, post: Source) => {
+  const weights = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of indexTerms(text)) {
+      if (isUseful(term)) weights.set(term, (weights.get(term) ?? 0) + weight);
+    }
+  };
+  add(post.title, FIELD_WEIGHTS.title);
+  add(post.summary ?? "", FIELD_WEIGHTS.summary);
+  add(stripUrls(post.contentMd), FIELD_WEIGHTS.body);
+  if (!weights.size) return [];
+
+  const docFreq = new Map<string, number>();
+  try {
+    const rows = db
+      .prepare("SELECT term, doc FROM posts_fts_vocab WHERE term IN (SELECT value FROM json_each(?))")
+      .all(JSON.stringify([...weights.keys()])) as { term: string; doc: number }[];
+    for (const r of rows) docFreq.set(r.term, r.doc);
+  } catch {
+    // No vocab table: rank by term frequency alone.
+  }
+  const total = (db.prepare("SELECT COUNT(*) FROM posts").pluck().get() as number) || 1;
+
+  const scored: { term: string; weight: number }[] = [];
+  for (const [term, tf] of weights) {
+    const df = docFreq.get(term);
+    // A term only this post uses cannot match anything else.
+    if (docFreq.size && (df ?? 0) <= 1) continue;
+    const idf = df === undefined ? 1 : Math.log(1 + (total - df + 0.5) / (df + 0.5));
+    scored.push({ term, weight: (1 + Math.log(tf)) * idf });
+  }
+  return scored
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, QUERY_TERMS)
+    .map((s) => s.term);
+};
+
+// Text similarity in 0..1, relative to how well the post matches its own query.
+const textScores = (db: Db, post: Source) => {
+  const scores = new Map<number, number>();
+  if (!hasFts(db)) return scores;
+  const terms = pickQueryTerms(db, post);
+  if (!terms.length) return scores;
+
+  const rows = db
+    .prepare(
+      `
+      SELECT f.rowid as id, bm25(posts_fts, ${FIELD_WEIGHTS.title}, ${FIELD_WEIGHTS.summary}, ${FIELD_WEIGHTS.body}) as rank
+      FROM posts_fts f
+      JOIN posts p ON p.id = f.rowid
+      WHERE posts_fts MATCH ?
+        AND (p.id = ? OR (p.status = 'published' AND p.slug != 'about'))
+      ORDER BY rank ASC
+      LIMIT ?
+      `,
+    )
+    .all(terms.map((t) => `"${t}"`).join(" OR "), post.id, CANDIDATES + 1) as { id: number; rank: number }[];
+  if (!rows.length) return scores;
+
+  // bm25() is negative, lower is better.
+  const best = rows.find((r) => r.id === post.id)?.rank ?? rows[0].rank;
+  if (best >= 0) return scores;
+  for (const r of rows) {
+    if (r.id !== post.id) scores.set(r.id, Math.min(1, r.rank / best));
+  }
+  return scores;
+};
+
+const taxonomyOf = (db: Db, ids: number[]) => {
+  const tags = new Map<number, Set<number>>();
+  const categories = new Map<number, Set<number>>();
+  const json = JSON.stringify(ids);
+  const collect = (sql: string, into: Map<number, Set<number>>) => {
+    for (const r of db.prepare(sql).all(json) as { postId: number; id: number }[]) {
+      if (!into.has(r.postId)) into.set(r.postId, new Set());
+      into.get(r.postId)!.add(r.id);
+    }
+  };
+  collect("SELECT post_id as postId, tag_id as id FROM post_tags WHERE post_id IN (SELECT value FROM json_each(?))", tags);
+  collect(
+    "SELECT post_id as postId, category_id as id FROM post_categories WHERE post_id IN (SELECT value FROM json_each(?))",
+    categories,
+  );
+  return { tags, categories };
+};
+
+const jaccard = (a: Set<number> | undefined, b: Set<number> | undefined) => {
+  if (!a?.size || !b?.size) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+const overlaps = (a: Set<number> | undefined, b: Set<number> | undefined) => {
+  if (!a?.size || !b?.size) return false;
+  for (const x of a) if (b.has(x)) return true;
+  return false;
+};
+
+// Recomputes and stores one post's related list. Returns the related ids, best first.
+export const computeRelatedPosts = (db: Db, postId: number): number[] => {
+  const post = db
+    .prepare("SELECT id, title, summary, content_md as contentMd FROM posts WHERE id = ?")
+    .get(postId) as Source | undefined;
+  if (!post) return [];
+
+  const text = textScores(db, post);
+  const sharing = db
+    .prepare(
+      `
+      SELECT p.id
+      FROM posts p
+      WHERE p.status = 'published' AND p.slug != 'about' AND p.id != ?
+        AND (
+          EXISTS (SELECT 1 FROM post_tags t WHERE t.post_id = p.id AND t.tag_id IN (SELECT tag_id FROM post_tags WHERE post_id = ?))
+          OR EXISTS (
+            SELECT 1 FROM post_categories c
+            WHERE c.post_id = p.id AND c.category_id IN (SELECT category_id FROM post_categories WHERE post_id = ?)
+          )
+        )
+      ORDER BY COALESCE(p.published_at, p.updated_at) DESC
+      LIMIT ?
+      `,
+    )
+    .pluck()
+    .all(postId, postId, postId, CANDIDATES) as number[];
+
+  const candidates = [...new Set([...text.keys(), ...sharing])];
+  const { tags, categories } = taxonomyOf(db, [postId, ...candidates]);
+  // Without full-text search only the taxonomy weights are left; scale them back up to 0..1.
+  const scale = hasFts(db) ? 1 : 1 / (WEIGHTS.tags + WEIGHTS.category);
+  const ranked = candidates
+    .map((id) => {
+      const score =
+        WEIGHTS.text * (text.get(id) ?? 0) +
+        WEIGHTS.tags * jaccard(tags.get(postId), tags.get(id)) +
+        WEIGHTS.category * (overlaps(categories.get(postId), categories.get(id)) ? 1 : 0);
+      return { id, score: score * scale };
+    })
+    .filter((r) => r.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, KEEP);
+
+  const insert = db.prepare("INSERT INTO post_related (post_id, related_id, score) VALUES (?, ?, ?)");
+  db.transaction(() => {
+    db.prepare("DELETE FROM post_related WHERE post_id = ?").run(postId);
+    for (const r of ranked) insert.run(postId, r.id, Math.round(r.score * 1000) / 1000);
+    db.prepare(
+      "INSERT INTO post_related_state (post_id, computed_at) VALUES (?, ?) ON CONFLICT(post_id) DO UPDATE SET computed_at = excluded.computed_at",
+    ).run(postId, new Date().toISOString());
+  })();
+  return ranked.map((r) => r.id);
+};
+
+// Marks posts for the sweep to recompute, e.g. after their tags or categories changed outside the editor.
+export const invalidateRelatedPosts = (db: Db, ids: number[]) => {
+  if (!ids.length) return;
+  db.prepare("DELETE FROM post_related_state WHERE post_id IN (SELECT value FROM json_each(?))").run(JSON.stringify(ids));
+};
+
+const referrers = (db: Db, postId: number) =>
+  db.prepare("SELECT post_id FROM post_related WHERE related_id = ?").pluck().all(postId) as number[];
+
+// After a post is saved: recompute it now, and queue the posts whose lists it was or now should be on.
+export const refreshRelatedPosts = (db: Db, postId: number) => {
+  const before = referrers(db, postId);
+  const after = computeRelatedPosts(db, postId);
+  invalidateRelatedPosts(db, [...new Set([...before, ...after])].filter((id) => id !== postId));
+};
+
+// Call before deleting a post; the cascade would otherwise silently shorten other posts' lists.
+export const forgetRelatedPost = (db: Db, postId: number) => {
+  invalidateRelatedPosts(db, referrers(db, postId));
+};
+
+// Published posts never computed, invalidated, or edited outside the admin editor (imports, merges,
+// scheduled publishing). Returns how many were recomputed.
+export const refreshStaleRelatedPosts = (db: Db, max: number) => {
+  const ids = db
+    .prepare(
+      `
+      SELECT p.id
+      FROM posts p
+      LEFT JOIN post_related_state s ON s.post_id = p.id
+      WHERE p.status = 'published' AND p.slug != 'about' AND (s.post_id IS NULL OR s.computed_at < p.updated_at)
+      ORDER BY COALESCE(p.published_at, p.updated_at) DESC
+      LIMIT ?
+      `,
+    )
+    .pluck()
+    .all(max) as number[];
+  for (const id of ids) computeRelatedPosts(db, id);
+  return ids.length;
+};
+
+const relatedIds = (db: Db, postId: number, limit: number) => {
+  const state = db.prepare("SELECT 1 FROM post_related_state WHERE post_id = ?").get(postId);
+  if (!state) computeRelatedPosts(db, postId);
+  return db
+    .prepare(
+      `
+      SELECT r.related_id as id, r.score
+      FROM post_related r
+      JOIN posts p ON p.id = r.related_id
+      WHERE r.post_id = ? AND p.status = 'published'
+      ORDER BY r.score DESC
+      LIMIT ?
+      `,
+    )
+    .all(postId, limit) as { id: number; score: number }[];
+};
+
+// Only what a post card shows; the bodies are not needed and would bloat every post page.
+const loadPosts = (db: Db, ids: number[]) =>
+  ids
+    .map((id) => getPostById(db, id))
+    .filter((p): p is Post => Boolean(p && p.status === "published"))
+    .map(withoutBody);
+
+export const getRelatedPosts = (db: Db, postId: number, limit: number): PostSummary[] =>
+  loadPosts(
+    db,
+    relatedIds(db, postId, limit).map((r) => r.id),
+  );
+
+const latestPosts = (db: Db, limit: number) =>
+  listPosts(db, {
+    includeDrafts: false,
+    page: 1,
+    limit,
+    featured: undefined,
+    tag: undefined,
+    category: undefined,
+    q: undefined,
+  }).items;
+
+// Search page recommendations: posts related to the top hits, topped up with the latest posts.
+export const recommendPosts = (db: Db, args: { base: Post[]; limit: number }): PostSummary[] => {
+  const exclude = new Set(args.base.map((p) => p.id));
+  const totals = new Map<number, number>();
+  for (const base of args.base.slice(0, 5)) {
+    for (const r of relatedIds(db, base.id, KEEP)) {
+      if (!exclude.has(r.id)) totals.set(r.id, (totals.get(r.id) ?? 0) + r.score);
+    }
+  }
+  const picked = loadPosts(
+    db,
+    [...totals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, args.limit)
+      .map(([id]) => id),
+  );
+  if (picked.length >= args.limit) return picked;
+
+  for (const p of picked) exclude.add(p.id);
+  const fill = latestPosts(db, args.limit + exclude.size)
+    .filter((p) => !exclude.has(p.id))
+    .map(withoutBody);
+  return [...picked, ...fill].slice(0, args.limit);
+};
@@ -0,0 +1,252 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import zlib from "node:zlib";
+
+import Database from "better-sqlite3";
+import tar from "tar";
+
+import { listFilesRecursive, verifyExtractedBackup, type BackupCheckError } from "./backups.js";
+import type { Db } from "./db.js";
+import { readSchemaVersion, SCHEMA_VERSION } from "./migrations.js";
+
+// Restores happen in two steps: an uploaded (or downloaded) backup is staged and checked first,
+// so its contents can be compared with the live site before anything is swapped.
+
+export type RestoreKind = "db" | "full";
+
+export type StagedRestore = {
+  id: string;
+  kind: RestoreKind;
+  // Original file name or S3 key, for display.
+  source: string;
+  dir: string;
+  dbPath: string;
+  // Only full backups replace the image library.
+  uploadsPath: string | null;
+  backupCreatedAt: string | null;
+  stagedAt: string;
+};
+
+export type StageError = BackupCheckError | "invalid_archive" | "invalid_sqlite_file" | "backup_schema_too_new";
+
+export const isValidSqliteFile = (filePath: string) => {
+  const fd = fs.openSync(filePath, "r");
+  const header = Buffer.alloc(16);
+  fs.readSync(fd, header, 0, 16, 0);
+  fs.closeSync(fd);
+  return header.subarray(0, 15).toString("utf8").startsWith("SQLite format 3");
+};
+
+// .tar.gz / .tgz are full backups; .db and .db.gz are database-only.
+export const restoreKindFor = (fileName: string): RestoreKind => (/\.(tar\.gz|tgz)$/i.test(fileName) ? "full" : "db");
+
+export const discardStagedRestore = (staged: StagedRestore) => {
+  fs.rmSync(staged.dir, { recursive: true, force: true });
+};
+
+const backupSchemaVersion = (dbPath: string) => {
+  try {
+    const backup = new Database(dbPath, { readonly: true, fileMustExist: true });
+    try {
+      return readSchemaVersion(backup);
+    } finally {
+      backup.close();
+    }
+  } catch {
+    return null;
+  }
+};
+
+// Unpacks and checks a backup in a private temp dir. `archivePath` itself is left alone.
+export const stageRestore = async (args: {
+  archivePath: string;
+  source: string;
+  kind: RestoreKind;
+}): Promise<{ ok: true; staged: StagedRestore } | { ok: false; error: StageError }> => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "yablog_restore_"));
+  const staged: StagedRestore = {
+    id: crypto.randomUUID(),
+    kind: args.kind,
+    source: args.source,
+    dir,
+    dbPath: path.join(dir, "db.sqlite"),
+    uploadsPath: null,
+    backupCreatedAt: null,
+    stagedAt: new Date().toISOString(),
+  };
+  const fail = (error: StageError) => {
+    discardStagedRestore(staged);
+    return { ok: false as const, error };
+  };
+
+  try {
+    if (args.kind === "full") {
+      try {
+        await tar.x({ file: args.archivePath, cwd: dir, strict: true });
+      } catch {
+        return fail("invalid_archive");
+      }
+      const check = await verifyExtractedBackup(dir);
+      if (!check.ok) return fail(check.error);
+      staged.uploadsPath = path.join(dir, "uploads");
+      staged.backupCreatedAt = check.manifest.createdAt ?? null;
+    } else if (args.source.toLowerCase().endsWith(".gz")) {
+      try {
+        await pipeline(fs.createReadStream(args.archivePath), zlib.createGunzip(), fs.createWriteStream(staged.dbPath));
+      } catch {
+        return fail("invalid_archive");
+      }
+    } else {
+      fs.copyFileSync(args.archivePath, staged.dbPath);
+    }
+
+    if (!isValidSqliteFile(staged.dbPath)) return fail("invalid_sqlite_file");
+    // Older backups are migrated on the next start; newer ones would need a code downgrade.
+    const version = backupSchemaVersion(staged.dbPath);
+    if (version === null) return fail("invalid_sqlite_file");
+    if (version > SCHEMA_VERSION) return fail("backup_schema_too_new");
+    return { ok: true, staged };
+  } catch (e) {
+    discardStagedRestore(staged);
+    throw e;
+  }
+};
+
+export type RestoreSummary = {
+  posts: number | null;
+  published: number | null;
+  drafts: number | null;
+  comments: number | null;
+  links: number | null;
+  users: number | null;
+  // Image files; null when the backup does not contain the library (database-only backups).
+  uploads: number | null;
+  newestPostAt: string | null;
+  lastUpdatedAt: string | null;
+  schemaVersion: number;
+};
+
+export type SettingsChange = { key: string; status: "added" | "removed" | "changed"; fields: string[] };
+
+export type RestorePreview = {
+  id: string;
+  kind: RestoreKind;
+  source: string;
+  backupCreatedAt: string | null;
+  backup: RestoreSummary;
+  current: RestoreSummary;
+  // Tables the backup lacks (older version, created again on start) or has extra (newer version).
+  schema: { missingTables: string[]; extraTables: string[] };
+  // Which settings groups would change; values are never included (they contain secrets).
+  settings: SettingsChange[];
+  warnings: string[];
+};
+
+// Counts that fail (a table missing from an older backup) come back as null instead of throwing.
+const scalar = <T>(db: Db, sql: string): T | null => {
+  try {
+    const row = db.prepare(sql).pluck().get() as T | undefined;
+    return row ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const countUploads = (dir: string) => listFilesRecursive(dir).filter((f) => !path.relative(dir, f).split(path.sep).includes("_tmp")).length;
+
+const summarize = (db: Db, uploadsDir: string | null): RestoreSummary => ({
+  posts: scalar<number>(db, "SELECT COUNT(*) FROM posts"),
+  published: scalar<number>(db, "SELECT COUNT(*) FROM posts WHERE status = 'published'"),
+  drafts: scalar<number>(db, "SELECT COUNT(*) FROM posts WHERE status = 'draft'"),
+  comments: scalar<number>(db, "SELECT COUNT(*) FROM comments"),
+  links: scalar<number>(db, "SELECT COUNT(*) FROM links"),
+  users: scalar<number>(db, "SELECT COUNT(*) FROM users"),
+  uploads: uploadsDir ? countUploads(uploadsDir) : null,
+  newestPostAt: scalar<string>(db, "SELECT MAX(COALESCE(published_at, created_at)) FROM posts"),
+  lastUpdatedAt: scalar<string>(db, "SELECT MAX(updated_at) FROM posts"),
+  schemaVersion: readSchemaVersion(db),
+});
+
+const tableNames = (db: Db) =>
+  new Set(
+    (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '%fts%'").pluck().all() as string[]),
+  );
+
+const readSettings = (db: Db) => {
+  const out = new Map<string, string>();
+  try {
+    for (const row of db.prepare("SELECT key, value FROM settings").all() as { key: string; value: string }[]) out.set(row.key, row.value);
+  } catch {
+    // Very old backups have no settings table.
+  }
+  return out;
+};
+
+const changedFields = (a: string, b: string) => {
+  try {
+    const x = JSON.parse(a);
+    const y = JSON.parse(b);
+    if (x && y && typeof x === "object" && typeof y === "object" && !Array.isArray(x) && !Array.isArray(y)) {
+      const keys = new Set([...Object.keys(x), ...Object.keys(y)]);
+      return [...keys].filter((k) => JSON.stringify(x[k]) !== JSON.stringify(y[k])).sort();
+    }
+  } catch {
+    // Plain string values (cursors and the like).
+  }
+  return [];
+};
+
+const diffSettings = (backup: Map<string, string>, current: Map<string, string>): SettingsChange[] => {
+  const out: SettingsChange[] = [];
+  for (const key of [...new Set([...backup.keys(), ...current.keys()])].sort()) {
+    const b = backup.get(key);
+    const c = current.get(key);
+    if (b === c) continue;
+    if (b === undefined) out.push({ key, status: "removed", fields: [] });
+    else if (c === undefined) out.push({ key, status: "added", fields: [] });
+    else out.push({ key, status: "changed", fields: changedFields(c, b) });
+  }
+  return out;
+};
+
+export const buildRestorePreview = (live: Db, liveUploadsDir: string, staged: StagedRestore): RestorePreview => {
+  const backupDb = new Database(staged.dbPath, { readonly: true, fileMustExist: true });
+  try {
+    const backup = summarize(backupDb, staged.uploadsPath);
+    const current = summarize(live, staged.kind === "full" ? liveUploadsDir : null);
+    const backupTables = tableNames(backupDb);
+    const liveTables = tableNames(live);
+
+    const preview: RestorePreview = {
+      id: staged.id,
+      kind: staged.kind,
+      source: staged.source,
+      backupCreatedAt: staged.backupCreatedAt,
+      backup,
+      current,
+      schema: {
+        missingTables: [...liveTables].filter((t) => !backupTables.has(t)).sort(),
+        extraTables: [...backupTables].filter((t) => !liveTables.has(t)).sort(),
+      },
+      settings: diffSettings(readSettings(backupDb), readSettings(live)),
+      warnings: [],
+    };
+
+    if (backup.posts === null) preview.warnings.push("no_posts_table");
+    else if (backup.posts === 0 && (current.posts ?? 0) > 0) preview.warnings.push("empty_backup");
+    else if (backup.posts < (current.posts ?? 0)) preview.warnings.push("fewer_posts");
+    if (backup.newestPostAt && current.newestPostAt && backup.newestPostAt < current.newestPostAt) {
+      preview.warnings.push("older_content");
+    }
+    if (backup.uploads !== null && current.uploads !== null && backup.uploads < current.uploads) {
+      preview.warnings.push("fewer_uploads");
+    }
+    if (preview.schema.extraTables.length) preview.warnings.push("newer_schema");
+    return preview;
+  } finally {
+    backupDb.close();
+  }
+};
@@ -1,23 +1,32 @@
 import type { Router } from "express";
-import dns from "node:dns/promises";
-import net from "node:net";
 import slugify from "slugify";
 import { z } from "zod";
 
 import type { Cache } from "../cache.js";
-import type { Db } from "../db.js";
+import type { Db, PostStatus } from "../db.js";
+import { requireRole, type AuthedRequest } from "../middleware.js";
+import { safeResolveHost } from "../netGuard.js";
+import { forgetRelatedPost, refreshRelatedPosts } from "../related.js";
+import type { AppEvent } from "../events.js";
 import {
+  createComment,
   createPost,
+  createPostRevision,
   createLinkAdmin,
   deletePost,
   deleteCommentAdmin,
   deleteLinkAdmin,
   deleteLinkRequestAdmin,
+  getCommentById,
   getPostBySlug,
+  getPostRevision,
+  hasPostRevisions,
   listCommentsAdmin,
   listLinkRequestsAdmin,
   listLinksAdmin,
   listPosts,
+  listPostRevisions,
+  resolveReplyParent,
   updateCommentAdmin,
   updateLinkAdmin,
   updateLinkRequestAdmin,
@@ -25,13 +34,13 @@ import {
   upsertTagsAndCategories,
 } from "../db.js";
 
-const postPayloadSchema = z.object({
+export const postPayloadSchema = z.object({
   title: z.string().min(1).max(200),
   slug: z.string().min(1).max(250).optional(),
   summary: z.string().max(500).optional().nullable(),
   contentMd: z.string().min(1),
   coverImage: z.string().max(2000).optional().nullable(),
-  status: z.enum(["draft", "published"]).default("draft"),
+  status: z.enum(["draft", "scheduled", "published"]).default("draft"),
   featured: z.boolean().optional().default(false),
   sortOrder: z.number().int().optional().default(0),
   tags: z.array(z.string().max(64)).optional().default([]),
@@ -39,6 +48,18 @@ const postPayloadSchema = z.object({
   publishedAt: z.string().datetime().optional().nullable(),
 });
 
+// "published" with a future date becomes "scheduled"; "scheduled" without a future date goes live immediately.
+// The background job in index.ts flips scheduled posts to published once publishedAt passes.
+export const resolvePublishState = (payload: z.infer<typeof postPayloadSchema>) => {
+  const now = new Date();
+  const requested = payload.publishedAt ? new Date(payload.publishedAt) : null;
+  if (payload.status === "draft") return { status: "draft" as const, publishedAt: requested ? requested.toISOString() : null };
+  if (requested && requested.getTime() > now.getTime()) {
+    return { status: "scheduled" as const, publishedAt: requested.toISOString() };
+  }
+  return { status: "published" as const, publishedAt: (requested ?? now).toISOString() };
+};
+
 const uniqueSlug = (db: Db, rawSlug: string, excludePostId?: number) => {
   const base = slugify(rawSlug, { lower: true, strict: true, trim: true }) || "post";
   let slug = base;
@@ -58,15 +79,43 @@ export const mountAdminRoutes = (
   router: Router,
   db: Db,
   cache: Cache,
-  opts?: { onContentChanged?: (reason: string) => void },
+  opts?: { onContentChanged?: (reason: string) => void; onEvent?: (event: AppEvent) => void },
 ) => {
-  router.get("/posts", (req, res) => {
+  const revisionAuthor = (req: AuthedRequest) => ({
+    authorId: req.user?.userId ?? null,
+    authorName: req.user?.username ?? "",
+  });
+
+  // Authors only see and change their own posts; editors and admins manage every post.
+  // Unknown ids pass through so the route itself can answer 404.
+  const canEditPost = (req: AuthedRequest, postId: number) => {
+    if (req.user?.role !== "author") return true;
+    const row = db.prepare("SELECT author_id as authorId FROM posts WHERE id = ?").get(postId) as
+      | { authorId: number | null }
+      | undefined;
+    return !row || row.authorId === req.user.userId;
+  };
+  const isAuthor = (req: AuthedRequest) => req.user?.role === "author";
+
+  // Related lists are secondary: a failure must not fail the save. Nothing is stored then, so the
+  // sweep in index.ts retries.
+  const updateRelated = (postId: number) => {
+    try {
+      refreshRelatedPosts(db, postId);
+    } catch {
+      // ignore
+    }
+  };
+
+  router.use(["/comments", "/links", "/link-requests", "/link-icon"], requireRole("admin", "editor"));
+
+  router.get("/posts", (req: AuthedRequest, res) => {
     const query = z
       .object({
         page: z.string().optional(),
         limit: z.string().optional(),
         q: z.string().optional(),
-        status: z.enum(["draft", "published"]).optional(),
+        status: z.enum(["draft", "scheduled", "published"]).optional(),
       })
       .parse(req.query);
 
@@ -78,6 +127,7 @@ export const mountAdminRoutes = (
       page,
       limit,
       q: query.q,
+      authorId: isAuthor(req) ? req.user!.userId : undefined,
       featured: undefined,
       tag: undefined,
       category: undefined,
@@ -87,11 +137,10 @@ export const mountAdminRoutes = (
     res.json({ items: filtered, total, page, limit });
   });
 
-  router.post("/posts", (req, res) => {
+  router.post("/posts", (req: AuthedRequest, res) => {
     const payload = postPayloadSchema.parse(req.body);
     const slug = uniqueSlug(db, payload.slug ?? payload.title);
-    const publishedAt =
-      payload.publishedAt ?? (payload.status === "published" ? new Date().toISOString() : null);
+    const { status, publishedAt } = resolvePublishState(payload);
 
     const postId = createPost(db, {
       title: payload.title,
@@ -99,10 +148,12 @@ export const mountAdminRoutes = (
       summary: payload.summary ?? null,
       contentMd: payload.contentMd,
       coverImage: payload.coverImage ?? null,
-      status: payload.status,
-      featured: payload.featured ? 1 : 0,
-      sortOrder: payload.sortOrder ?? 0,
+      status,
+      // Pinning and ordering shape the home page, so they stay with editors and admins.
+      featured: payload.featured && !isAuthor(req) ? 1 : 0,
+      sortOrder: isAuthor(req) ? 0 : (payload.sortOrder ?? 0),
       publishedAt,
+      authorId: req.user?.userId ?? null,
     });
 
     upsertTagsAndCategories(db, {
@@ -114,19 +165,30 @@ export const mountAdminRoutes = (
       })),
     });
 
+    createPostRevision(db, { postId, reason: "create", ...revisionAuthor(req) });
+    updateRelated(postId);
+
     void cache.bump("posts");
     void cache.bump("tags");
     void cache.bump("categories");
+    void cache.bump("search");
     opts?.onContentChanged?.("posts:create");
-    res.json({ id: postId, slug });
+    if (status === "published") opts?.onEvent?.({ type: "post.published", postId });
+    res.json({ id: postId, slug, status, publishedAt });
   });
 
-  router.put("/posts/:id", (req, res) => {
+  router.put("/posts/:id", (req: AuthedRequest, res) => {
     const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
     const payload = postPayloadSchema.parse(req.body);
+    if (!canEditPost(req, id)) return res.status(403).json({ error: "forbidden" });
     const slug = uniqueSlug(db, payload.slug ?? payload.title, id);
-    const publishedAt =
-      payload.publishedAt ?? (payload.status === "published" ? new Date().toISOString() : null);
+    const { status, publishedAt } = resolvePublishState(payload);
+    const before = db.prepare("SELECT status, featured, sort_order as sortOrder FROM posts WHERE id = ?").get(id) as
+      | { status: PostStatus; featured: 0 | 1; sortOrder: number }
+      | undefined;
+
+    // Posts created before revision history existed: keep their current text before overwriting it.
+    if (!hasPostRevisions(db, id)) createPostRevision(db, { postId: id, reason: "baseline" });
 
     updatePost(db, {
       id,
@@ -135,9 +197,9 @@ export const mountAdminRoutes = (
       summary: payload.summary ?? null,
       contentMd: payload.contentMd,
       coverImage: payload.coverImage ?? null,
-      status: payload.status,
-      featured: payload.featured ? 1 : 0,
-      sortOrder: payload.sortOrder ?? 0,
+      status,
+      featured: isAuthor(req) ? (before?.featured ?? 0) : payload.featured ? 1 : 0,
+      sortOrder: isAuthor(req) ? (before?.sortOrder ?? 0) : (payload.sortOrder ?? 0),
       publishedAt,
     });
 
@@ -150,14 +212,93 @@ export const mountAdminRoutes = (
       })),
     });
 
+    createPostRevision(db, { postId: id, reason: "update", ...revisionAuthor(req) });
+    updateRelated(id);
+
     void cache.bump("posts");
     void cache.bump("tags");
     void cache.bump("categories");
+    void cache.bump("search");
     opts?.onContentChanged?.("posts:update");
-    res.json({ ok: true, slug });
+    // Unpublishing is reported as an update; subscribers can tell from the post status.
+    if (status === "published" && before?.status !== "published") opts?.onEvent?.({ type: "post.published", postId: id });
+    else if (status === "published" || before?.status === "published") opts?.onEvent?.({ type: "post.updated", postId: id });
+    res.json({ ok: true, slug, status, publishedAt });
   });
 
-  router.patch("/posts/:id/order", (req, res) => {
+  router.get("/posts/:id/revisions", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    if (!canEditPost(req, id)) return res.status(403).json({ error: "forbidden" });
+    res.json({ items: listPostRevisions(db, id) });
+  });
+
+  router.get("/posts/:id/revisions/:revisionId", (req: AuthedRequest, res) => {
+    const { id, revisionId } = z
+      .object({ id: z.coerce.number().int().positive(), revisionId: z.coerce.number().int().positive() })
+      .parse(req.params);
+    if (!canEditPost(req, id)) return res.status(403).json({ error: "forbidden" });
+    const revision = getPostRevision(db, { postId: id, id: revisionId });
+    if (!revision) return res.status(404).json({ error: "not_found" });
+    res.json({ revision });
+  });
+
+  // Restoring never rewrites history: the old snapshot is copied onto the post and recorded as a new revision.
+  // Slug, status, pinning and publish time stay as they are so restoring content does not move or unpublish the post.
+  router.post("/posts/:id/revisions/:revisionId/restore", (req: AuthedRequest, res) => {
+    const { id, revisionId } = z
+      .object({ id: z.coerce.number().int().positive(), revisionId: z.coerce.number().int().positive() })
+      .parse(req.params);
+    if (!canEditPost(req, id)) return res.status(403).json({ error: "forbidden" });
+    const revision = getPostRevision(db, { postId: id, id: revisionId });
+    if (!revision) return res.status(404).json({ error: "not_found" });
+
+    const row = db
+      .prepare("SELECT slug, status, featured, sort_order as sortOrder, published_at as publishedAt FROM posts WHERE id = ?")
+      .get(id) as
+      | { slug: string; status: PostStatus; featured: 0 | 1; sortOrder: number; publishedAt: string | null }
+      | undefined;
+    if (!row) return res.status(404).json({ error: "not_found" });
+
+    updatePost(db, {
+      id,
+      title: revision.title,
+      slug: row.slug,
+      summary: revision.summary,
+      contentMd: revision.contentMd,
+      coverImage: revision.coverImage,
+      status: row.status,
+      featured: row.featured,
+      sortOrder: row.sortOrder,
+      publishedAt: row.publishedAt,
+    });
+
+    upsertTagsAndCategories(db, {
+      postId: id,
+      tags: revision.tags,
+      categories: revision.categories.map((name) => ({
+        name,
+        slug: slugify(name, { lower: true, strict: true, trim: true }) || name,
+      })),
+    });
+
+    const newRevisionId = createPostRevision(db, {
+      postId: id,
+      reason: "restore",
+      restoredFrom: revision.id,
+      ...revisionAuthor(req),
+    });
+    updateRelated(id);
+
+    void cache.bump("posts");
+    void cache.bump("tags");
+    void cache.bump("categories");
+    void cache.bump("search");
+    opts?.onContentChanged?.("posts:restore");
+    if (row.status === "published") opts?.onEvent?.({ type: "post.updated", postId: id });
+    res.json({ ok: true, revisionId: newRevisionId, post: getPostBySlug(db, row.slug) });
+  });
+
+  router.patch("/posts/:id/order", requireRole("admin", "editor"), (req, res) => {
     const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
     const payload = z
       .object({
@@ -189,13 +330,20 @@ export const mountAdminRoutes = (
     res.json({ ok: true });
   });
 
-  router.delete("/posts/:id", (req, res) => {
+  router.delete("/posts/:id", (req: AuthedRequest, res) => {
     const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    if (!canEditPost(req, id)) return res.status(403).json({ error: "forbidden" });
+    const existing = db.prepare("SELECT id, slug, title, status FROM posts WHERE id = ?").get(id) as
+      | { id: number; slug: string; title: string; status: string }
+      | undefined;
+    forgetRelatedPost(db, id);
     deletePost(db, id);
     void cache.bump("posts");
     void cache.bump("tags");
     void cache.bump("categories");
+    void cache.bump("search");
     opts?.onContentChanged?.("posts:delete");
+    if (existing) opts?.onEvent?.({ type: "post.deleted", post: existing });
     res.json({ ok: true });
   });
 
@@ -219,13 +367,48 @@ export const mountAdminRoutes = (
       })
       .refine((v) => v.status !== undefined || v.contentMd !== undefined, { message: "status or contentMd required" })
       .parse(req.body);
+    const before = getCommentById(db, id);
     const ok = updateCommentAdmin(db, { id, status: body.status, contentMd: body.contentMd });
     if (!ok) return res.status(404).json({ error: "not_found" });
     void cache.bump("comments");
     opts?.onContentChanged?.("comments:update");
+    if (before?.status === "pending" && body.status === "approved") opts?.onEvent?.({ type: "comment.approved", commentId: id });
     res.json({ ok: true });
   });
 
+  // Reply in place as the blog author: published immediately, and approving the comment being answered
+  // so the reply is not left hanging under a hidden parent.
+  router.post("/comments/:id/reply", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    const body = z
+      .object({
+        contentMd: z.string().min(1).max(2000),
+        author: z.string().trim().min(1).max(40).optional(),
+      })
+      .parse(req.body);
+    const target = getCommentById(db, id);
+    if (!target) return res.status(404).json({ error: "not_found" });
+    if (target.status !== "approved") {
+      updateCommentAdmin(db, { id: target.id, status: "approved" });
+      opts?.onEvent?.({ type: "comment.approved", commentId: target.id });
+    }
+    const replyId = createComment(db, {
+      postId: target.postId,
+      parentId: resolveReplyParent(db, target.id),
+      author: body.author ?? (req.user?.displayName || req.user?.username) ?? "admin",
+      contentMd: body.contentMd,
+      status: "approved",
+      isAdmin: true,
+      ip: req.ip,
+      userAgent: req.get("user-agent") ?? null,
+    });
+    void cache.bump("comments");
+    opts?.onContentChanged?.("comments:reply");
+    // Created already approved: subscribers see it as a new comment, like any other.
+    opts?.onEvent?.({ type: "comment.created", commentId: replyId });
+    res.json({ ok: true, id: replyId });
+  });
+
   router.delete("/comments/:id", (req, res) => {
     const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
     deleteCommentAdmin(db, id);
@@ -306,42 +489,6 @@ export const mountAdminRoutes = (
     res.json({ ok: true });
   });
 
-  const isPrivateIpv4 = (ip: string) => {
-    const parts = ip.split(".").map((n) => Number(n));
-    if (parts.length !== 4 || parts.some((n) => Number.isNaN(n) || n < 0 || n > 255)) return true;
-    const [a, b] = parts;
-    if (a === 10) return true;
-    if (a === 127) return true;
-    if (a === 0) return true;
-    if (a === 169 && b === 254) return true;
-    if (a === 172 && b >= 16 && b <= 31) return true;
-    if (a === 192 && b === 168) return true;
-    return false;
-  };
-
-  const isPrivateIp = (ip: string) => {
-    const v = net.isIP(ip);
-    if (v === 4) return isPrivateIpv4(ip);
-    if (v === 6) {
-      const s = ip.toLowerCase();
-      if (s === "::1") return true;
-      if (s.startsWith("fc") || s.startsWith("fd")) return true; // unique local
-      if (s.startsWith("fe80")) return true; // link-local
-      return false;
-    }
-    return true;
-  };
-
-  const safeResolveHost = async (hostname: string) => {
-    if (hostname === "localhost") return false;
-    if (net.isIP(hostname)) return !isPrivateIp(hostname);
-    const addrs4 = await dns.resolve4(hostname).catch(() => [] as string[]);
-    const addrs6 = await dns.resolve6(hostname).catch(() => [] as string[]);
-    const all = [...addrs4, ...addrs6];
-    if (!all.length) return false;
-    return all.every((ip) => !isPrivateIp(ip));
-  };
-
   router.get("/link-icon", async (req, res) => {
     const q = z.object({ url: z.string().url().max(2000) }).parse(req.query);
     const u = new URL(q.url);
@@ -0,0 +1,44 @@
+import type { Router } from "express";
+import { z } from "zod";
+
+import { API_TOKEN_SCOPES, generateApiToken, scopesForRole } from "../apiTokens.js";
+import { createApiToken, deleteApiToken, listApiTokens, type Db } from "../db.js";
+import type { AuthedRequest } from "../middleware.js";
+
+// Each user manages their own tokens from the settings page. The plain token is returned exactly once.
+export const mountApiTokenRoutes = (router: Router, db: Db) => {
+  router.get("/account/tokens", (req: AuthedRequest, res) => {
+    res.json({ items: listApiTokens(db, req.user!.userId), scopes: scopesForRole(req.user!.role) });
+  });
+
+  router.post("/account/tokens", (req: AuthedRequest, res) => {
+    const body = z
+      .object({
+        name: z.string().trim().min(1).max(64),
+        scopes: z.array(z.string().max(32)).min(1).max(API_TOKEN_SCOPES.length),
+        expiresInDays: z.number().int().min(1).max(3650).nullable().default(null),
+      })
+      .parse(req.body);
+    // Unknown scopes and scopes above the owner's role are both rejected here.
+    const allowed = scopesForRole(req.user!.role) as string[];
+    if (body.scopes.some((s) => !allowed.includes(s))) return res.status(400).json({ error: "invalid_scope" });
+
+    const { token, tokenHash, prefix } = generateApiToken();
+    const expiresAt = body.expiresInDays ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null;
+    const id = createApiToken(db, {
+      userId: req.user!.userId,
+      name: body.name,
+      tokenHash,
+      prefix,
+      scopes: [...new Set(body.scopes)],
+      expiresAt,
+    });
+    res.json({ ok: true, id, token });
+  });
+
+  router.delete("/account/tokens/:id", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    if (!deleteApiToken(db, id, req.user!.userId)) return res.status(404).json({ error: "not_found" });
+    res.json({ ok: true });
+  });
+};
@@ -0,0 +1,489 @@
+import type { RequestHandler, Router } from "express";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import slugify from "slugify";
+import { z } from "zod";
+
+import type { Cache } from "../cache.js";
+import {
+  createComment,
+  createPost,
+  createPostRevision,
+  getPostBySlug,
+  hasPostRevisions,
+  normalizeRedirectPath,
+  resolveReplyParent,
+  updatePost,
+  upsertRedirect,
+  upsertTagsAndCategories,
+  type Db,
+  type PostStatus,
+} from "../db.js";
+import {
+  IMPORT_IMAGE_TYPES,
+  collectImageRefs,
+  extractArchive,
+  findMarkdownFiles,
+  isLocalRef,
+  isSupportedArchive,
+  resolveImageRef,
+  rewriteImageRefs,
+  toImportDraft,
+  type ImportDraft,
+} from "../markdownImport.js";
+import { requireRole, type AuthedRequest } from "../middleware.js";
+import { safeResolveHost } from "../netGuard.js";
+import { parseWxr, type WxrPost } from "../wordpressImport.js";
+import { postPayloadSchema, resolvePublishState } from "./admin.js";
+
+type StoredImageFile = { filename: string; originalname: string; mimetype: string; path: string };
+
+type ImportAction = "create" | "overwrite" | "skip" | "error";
+
+type ImportItem = {
+  file: string;
+  title: string;
+  slug: string;
+  originalSlug: string;
+  status: PostStatus | null;
+  publishedAt: string | null;
+  tags: string[];
+  categories: string[];
+  action: ImportAction;
+  // "existing": a post with this slug is already on the site; "duplicate": an earlier file in the archive took it.
+  conflict: { type: "existing"; postId: number; title: string } | { type: "duplicate"; file: string } | null;
+  images: { found: number; missing: string[] };
+  comments: number;
+  error: string | null;
+};
+
+// One post to import, before conflict planning. `draft` is null when the source could not be read.
+type ImportSource = { file: string; draft: ImportDraft | null; error?: string; images: ImportItem["images"]; comments?: number };
+
+const importOptionsSchema = z.object({
+  dryRun: z.enum(["0", "1"]).default("1"),
+  onConflict: z.enum(["skip", "rename", "overwrite"]).default("skip"),
+});
+
+// Same cap as the image upload endpoint.
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+const MEDIA_TIMEOUT_MS = 20_000;
+const MAX_MEDIA_REDIRECTS = 5;
+
+// Both importers are a two-step flow: the same file is uploaded once with dryRun=1 to get the report,
+// then again with dryRun=0 to write it. Nothing is kept on the server in between.
+export const mountImportRoutes = (
+  router: Router,
+  db: Db,
+  cache: Cache,
+  opts: {
+    upload: RequestHandler;
+    // Same pipeline as the media library (webp conversion + thumbnails); files must be staged in `stagingDir`.
+    storeImage: (file: StoredImageFile) => Promise<string>;
+    stagingDir: string;
+    onContentChanged?: (reason: string) => void;
+  },
+) => {
+  const stageAndStore = async (originalname: string, write: (staged: string) => void | Promise<void>) => {
+    const staged = path.join(opts.stagingDir, crypto.randomBytes(16).toString("hex"));
+    await write(staged);
+    return opts.storeImage({
+      filename: path.basename(staged),
+      originalname,
+      mimetype: IMPORT_IMAGE_TYPES[path.extname(originalname).toLowerCase()] ?? "application/octet-stream",
+      path: staged,
+    });
+  };
+
+  const finish = (reason: string) => {
+    void cache.bump("posts");
+    void cache.bump("tags");
+    void cache.bump("categories");
+    void cache.bump("search");
+    void cache.bump("comments");
+    // No per-post webhook/notification events: an import of hundreds of posts would flood subscribers.
+    opts.onContentChanged?.(reason);
+  };
+
+  router.post("/import/markdown", requireRole("admin", "editor"), opts.upload, async (req: AuthedRequest & { file?: any }, res) => {
+    const file = req.file as { path: string; originalname: string } | undefined;
+    if (!file) return res.status(400).json({ error: "file_required" });
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "yablog_import_"));
+    try {
+      const options = importOptionsSchema.parse(req.body ?? {});
+      if (!isSupportedArchive(file.originalname)) return res.status(400).json({ error: "unsupported_archive" });
+      try {
+        await extractArchive(file.path, file.originalname, workDir);
+      } catch {
+        return res.status(400).json({ error: "invalid_archive" });
+      }
+
+      const files = findMarkdownFiles(workDir);
+      if (!files.length) return res.status(400).json({ error: "no_markdown_files" });
+
+      const sources = files.map((abs): ImportSource & { abs: string } => {
+        const rel = path.relative(workDir, abs).split(path.sep).join("/");
+        const images = { found: 0, missing: [] as string[] };
+        try {
+          const draft = toImportDraft(workDir, abs);
+          for (const ref of draftImageRefs(draft)) {
+            if (resolveImageRef(workDir, abs, ref)) images.found++;
+            else if (isLocalRef(ref)) images.missing.push(ref);
+          }
+          return { abs, file: rel, draft, images };
+        } catch (e: any) {
+          const error = `front_matter_invalid: ${String(e?.message ?? e).split("\n")[0].slice(0, 160)}`;
+          return { abs, file: rel, draft: null, error, images };
+        }
+      });
+
+      const plan = planImport(db, sources, options.onConflict);
+      if (options.dryRun === "1") return res.json(report(plan, true));
+
+      // One upload per image file, even when several posts reference it.
+      const storedImages = new Map<string, Promise<string>>();
+      const storeImage = (abs: string) => {
+        let url = storedImages.get(abs);
+        if (!url) {
+          url = stageAndStore(path.basename(abs), (staged) => fs.copyFileSync(abs, staged));
+          storedImages.set(abs, url);
+        }
+        return url;
+      };
+
+      for (const [i, { item, draft }] of plan.entries()) {
+        if (!draft || (item.action !== "create" && item.action !== "overwrite")) continue;
+        const abs = sources[i].abs;
+        try {
+          const urls = new Map<string, string>();
+          for (const ref of draftImageRefs(draft)) {
+            const found = resolveImageRef(workDir, abs, ref);
+            if (found && !urls.has(ref)) urls.set(ref, await storeImage(found));
+          }
+          const contentMd = rewriteImageRefs(draft.contentMd, (ref) => urls.get(ref) ?? null);
+          const coverImage = draft.coverImage ? (urls.get(draft.coverImage) ?? draft.coverImage) : null;
+          writePost(db, req, { ...draft, contentMd, coverImage }, item);
+        } catch (e: any) {
+          item.action = "error";
+          item.error = String(e?.message ?? e).slice(0, 200);
+        }
+      }
+
+      finish("posts:import");
+      res.json(report(plan, false));
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+      fs.rmSync(file.path, { force: true });
+    }
+  });
+
+  router.post("/import/wordpress", requireRole("admin", "editor"), opts.upload, async (req: AuthedRequest & { file?: any }, res) => {
+    const file = req.file as { path: string; originalname: string } | undefined;
+    if (!file) return res.status(400).json({ error: "file_required" });
+
+    try {
+      const options = importOptionsSchema
+        .extend({ downloadMedia: z.enum(["0", "1"]).default("1") })
+        .parse(req.body ?? {});
+      if (!/\.xml$/i.test(file.originalname)) return res.status(400).json({ error: "unsupported_file" });
+
+      let archive: ReturnType<typeof parseWxr>;
+      try {
+        archive = parseWxr(fs.readFileSync(file.path, "utf8"));
+      } catch {
+        return res.status(400).json({ error: "invalid_wxr" });
+      }
+      if (!archive.posts.length) return res.status(400).json({ error: "no_posts" });
+
+      const sources = archive.posts.map(
+        (p): ImportSource => ({
+          file: p.draft.file,
+          draft: p.draft,
+          images: { found: options.downloadMedia === "1" ? p.mediaUrls.length : 0, missing: [] },
+          comments: p.comments.length,
+        }),
+      );
+      const plan = planImport(db, sources, options.onConflict);
+      // Re-importing over an existing post keeps its comments instead of duplicating them.
+      for (const { item } of plan) if (item.action === "overwrite") item.comments = 0;
+      if (options.dryRun === "1") return res.json(report(plan, true, archive.skipped));
+
+      const downloaded = new Map<string, Promise<string | null>>();
+      const download = (url: string) => {
+        let result = downloaded.get(url);
+        if (!result) {
+          result = downloadMedia(url, stageAndStore).catch(() => null);
+          downloaded.set(url, result);
+        }
+        return result;
+      };
+
+      for (const [i, { item, draft }] of plan.entries()) {
+        if (!draft || (item.action !== "create" && item.action !== "overwrite")) continue;
+        const post: WxrPost = archive.posts[i];
+        try {
+          let contentMd = draft.contentMd;
+          let coverImage = draft.coverImage;
+          if (options.downloadMedia === "1") {
+            // Longest first, so "pic.jpg" is not replaced inside "pic.jpg?resize=..." style variants.
+            for (const url of [...post.mediaUrls].sort((a, b) => b.length - a.length)) {
+              const next = await download(url);
+              if (!next) {
+                item.images.missing.push(url);
+                continue;
+              }
+              contentMd = contentMd.replaceAll(url, next);
+              if (coverImage === url) coverImage = next;
+            }
+          }
+          writePost(db, req, { ...draft, contentMd, coverImage }, item, (postId, created) => {
+            for (const link of post.links) {
+              const fromPath = toRedirectPath(link, archive.siteUrl);
+              // Redirects made elsewhere (renamed or merged tags and categories) are left alone.
+              if (fromPath) upsertRedirect(db, { fromPath, postId, source: "wordpress", keepOtherSources: true });
+            }
+            if (!created) return;
+            const commentIds = new Map<string, number>();
+            for (const c of post.comments) {
+              const parent = c.parentId ? commentIds.get(c.parentId) : undefined;
+              const id = createComment(db, {
+                postId,
+                parentId: parent ? resolveReplyParent(db, parent) : null,
+                author: c.author,
+                contentMd: c.contentMd.slice(0, 5000),
+                status: "approved",
+                email: c.email,
+                ip: c.ip,
+                createdAt: c.createdAt ?? undefined,
+              });
+              commentIds.set(c.id, id);
+            }
+          });
+        } catch (e: any) {
+          item.action = "error";
+          item.error = String(e?.message ?? e).slice(0, 200);
+        }
+      }
+
+      finish("posts:import");
+      res.json(report(plan, false, archive.skipped));
+    } finally {
+      fs.rmSync(file.path, { force: true });
+    }
+  });
+};
+
+const draftImageRefs = (draft: ImportDraft) => [...collectImageRefs(draft.contentMd), ...(draft.coverImage ? [draft.coverImage] : [])];
+
+// Paths this site serves itself. The redirect middleware answers before the SPA does, so an imported
+// permalink on one of them (a WordPress "/about/" page, say) would take the page over behind a cached 301.
+const APP_PATHS =
+  /^\/(?:admin|feed|(?:post|tag|category)(?:\/|$)|(?:search|tags|categories|about|links|ai|archive|atom\.xml|sitemap\.xml|robots\.txt)$)/i;
+
+// Permalinks become "/2019/03/hello-world" style paths on this site; "?p=<id>" links keep the id.
+const toRedirectPath = (link: string, siteUrl: string) => {
+  try {
+    const u = new URL(link, siteUrl || "http://localhost");
+    const id = u.searchParams.get("p");
+    if (id) return `/?p=${id}`;
+    if (u.pathname === "/" || APP_PATHS.test(normalizeRedirectPath(u.pathname))) return null;
+    return u.pathname;
+  } catch {
+    return null;
+  }
+};
+
+const downloadMedia = async (url: string, store: (name: string, write: (staged: string) => Promise<void>) => Promise<string>) => {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), MEDIA_TIMEOUT_MS);
+  try {
+    // Redirects are followed by hand so every hop gets the same host check as the first URL.
+    let u = new URL(url);
+    let resp: Response | null = null;
+    for (let hop = 0; hop <= MAX_MEDIA_REDIRECTS; hop++) {
+      if (!(u.protocol === "http:" || u.protocol === "https:")) throw new Error("invalid_url");
+      if (!(await safeResolveHost(u.hostname))) throw new Error("blocked_host");
+      resp = await fetch(u, { signal: controller.signal, redirect: "manual", headers: { "user-agent": "yablog/1.0" } });
+      const location = resp.headers.get("location");
+      if (resp.status < 300 || resp.status >= 400 || !location) break;
+      await resp.body?.cancel().catch(() => {});
+      u = new URL(location, u);
+      resp = null;
+    }
+    if (!resp) throw new Error("too_many_redirects");
+    if (!resp.ok) throw new Error(`http_${resp.status}`);
+    if (!(resp.headers.get("content-type") ?? "").startsWith("image/")) throw new Error("not_image");
+    if (Number(resp.headers.get("content-length") ?? 0) > MAX_MEDIA_BYTES) throw new Error("too_large");
+    const body = Buffer.from(await resp.arrayBuffer());
+    if (body.length > MAX_MEDIA_BYTES) throw new Error("too_large");
+    return await store(decodeURIComponent(path.posix.basename(new URL(url).pathname)), async (staged) => fs.writeFileSync(staged, body));
+  } finally {
+    clearTimeout(t);
+  }
+};
+
+const toPayload = (draft: ImportDraft) => ({
+  title: draft.title.slice(0, 200),
+  slug: draft.slug,
+  summary: draft.summary ? draft.summary.slice(0, 500) : null,
+  contentMd: draft.contentMd,
+  coverImage: draft.coverImage,
+  status: draft.draft ? "draft" : "published",
+  tags: draft.tags,
+  categories: draft.categories,
+  publishedAt: draft.publishedAt,
+});
+
+const planImport = (db: Db, sources: ImportSource[], onConflict: "skip" | "rename" | "overwrite") => {
+  // Slugs taken by earlier entries in this import (slug -> file).
+  const taken = new Map<string, string>();
+  const nextFreeSlug = (base: string) => {
+    for (let n = 2; ; n++) {
+      const candidate = `${base}-${n}`;
+      if (!taken.has(candidate) && !getPostBySlug(db, candidate)) return candidate;
+    }
+  };
+
+  return sources.map(({ file, draft, error, images, comments }) => {
+    const item: ImportItem = {
+      file,
+      title: "",
+      slug: "",
+      originalSlug: "",
+      status: null,
+      publishedAt: null,
+      tags: [],
+      categories: [],
+      action: "create",
+      conflict: null,
+      images,
+      comments: comments ?? 0,
+      error: null,
+    };
+    if (!draft) {
+      item.action = "error";
+      item.error = error ?? "unreadable";
+      return { item, draft };
+    }
+
+    Object.assign(item, {
+      title: draft.title,
+      slug: draft.slug,
+      originalSlug: draft.slug,
+      tags: draft.tags,
+      categories: draft.categories,
+    });
+
+    const parsed = postPayloadSchema.safeParse(toPayload(draft));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      item.action = "error";
+      item.error = `${issue.path.join(".") || "post"}: ${issue.message}`;
+      return { item, draft };
+    }
+    const { status, publishedAt } = resolvePublishState(parsed.data);
+    item.status = status;
+    item.publishedAt = publishedAt;
+
+    const duplicateOf = taken.get(draft.slug);
+    const existing = duplicateOf ? null : getPostBySlug(db, draft.slug);
+    if (duplicateOf) {
+      item.conflict = { type: "duplicate", file: duplicateOf };
+      item.slug = nextFreeSlug(draft.slug);
+    } else if (existing) {
+      item.conflict = { type: "existing", postId: existing.id, title: existing.title };
+      if (onConflict === "skip") item.action = "skip";
+      else if (onConflict === "rename") item.slug = nextFreeSlug(draft.slug);
+      else item.action = "overwrite";
+    }
+    if (item.action !== "skip") taken.set(item.slug, file);
+    return { item, draft };
+  });
+};
+
+// `after` runs inside the same transaction, once the post exists (`created` is false for overwrites).
+const writePost = (
+  db: Db,
+  req: AuthedRequest,
+  draft: ImportDraft,
+  item: ImportItem,
+  after?: (postId: number, created: boolean) => void,
+) => {
+  const payload = postPayloadSchema.parse(toPayload(draft));
+  const { status, publishedAt } = resolvePublishState(payload);
+  const categories = payload.categories.map((name) => ({
+    name,
+    slug: slugify(name, { lower: true, strict: true, trim: true }) || name,
+  }));
+  const revisionAuthor = { authorId: req.user?.userId ?? null, authorName: req.user?.username ?? "" };
+
+  db.transaction(() => {
+    if (item.action === "overwrite" && item.conflict?.type === "existing") {
+      const postId = item.conflict.postId;
+      if (!hasPostRevisions(db, postId)) createPostRevision(db, { postId, reason: "baseline" });
+      const before = db.prepare("SELECT featured, sort_order as sortOrder FROM posts WHERE id = ?").get(postId) as
+        | { featured: 0 | 1; sortOrder: number }
+        | undefined;
+      updatePost(db, {
+        id: postId,
+        title: payload.title,
+        slug: item.slug,
+        summary: payload.summary ?? null,
+        contentMd: payload.contentMd,
+        coverImage: payload.coverImage ?? null,
+        status,
+        featured: draft.featured === undefined ? (before?.featured ?? 0) : draft.featured ? 1 : 0,
+        sortOrder: draft.sortOrder ?? before?.sortOrder ?? 0,
+        publishedAt,
+      });
+      upsertTagsAndCategories(db, { postId, tags: payload.tags, categories });
+      createPostRevision(db, { postId, reason: "import", ...revisionAuthor });
+      after?.(postId, false);
+      return;
+    }
+
+    const postId = createPost(db, {
+      title: payload.title,
+      slug: item.slug,
+      summary: payload.summary ?? null,
+      contentMd: payload.contentMd,
+      coverImage: payload.coverImage ?? null,
+      status,
+      featured: draft.featured ? 1 : 0,
+      sortOrder: draft.sortOrder ?? 0,
+      publishedAt,
+      authorId: req.user?.userId ?? null,
+      createdAt: draft.publishedAt ?? undefined,
+      updatedAt: draft.updatedAt ?? draft.publishedAt ?? undefined,
+    });
+    upsertTagsAndCategories(db, { postId, tags: payload.tags, categories });
+    createPostRevision(db, { postId, reason: "import", ...revisionAuthor });
+    after?.(postId, true);
+  })();
+};
+
+// `ignored`: source entries that are not posts (WordPress pages, menus, trashed items).
+const report = (plan: { item: ImportItem }[], dryRun: boolean, ignored = 0) => {
+  const items = plan.map((p) => p.item);
+  const count = (action: ImportAction) => items.filter((i) => i.action === action).length;
+  const written = items.filter((i) => i.action === "create" || i.action === "overwrite");
+  return {
+    dryRun,
+    summary: {
+      total: items.length,
+      create: count("create"),
+      overwrite: count("overwrite"),
+      skip: count("skip"),
+      error: count("error"),
+      conflicts: items.filter((i) => i.conflict).length,
+      imagesFound: written.reduce((n, i) => n + i.images.found, 0),
+      imagesMissing: written.reduce((n, i) => n + i.images.missing.length, 0),
+      comments: written.reduce((n, i) => n + i.comments, 0),
+      ignored,
+    },
+    items,
+  };
+};
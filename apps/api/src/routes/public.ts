@@ -3,21 +3,33 @@ import { z } from "zod";
 
 import type { Cache } from "../cache.js";
 import type { Db } from "../db.js";
+import type { AppEvent } from "../events.js";
 import {
   createCaptcha,
   createComment,
+  getCommentById,
   getPostBySlug,
+  getTaxonomyTermByName,
   listApprovedCommentsByPostSlug,
   listCategories,
   listLinkRequestsPublic,
   listLinksPublic,
   listPosts,
   listTags,
-  recommendPosts,
+  resolveRedirect,
+  resolveReplyParent,
   searchPosts,
+  suggestSearch,
   createLinkRequest,
+  taxonomyPath,
   verifyCaptcha,
+  type TaxonomyKind,
 } from "../db.js";
+import { getRelatedPosts, recommendPosts } from "../related.js";
+import { toSearchHit } from "../snippets.js";
+
+const RELATED_LIMIT = 4;
+const SUGGEST_LIMIT = 5;
 
 const parseBool = (value: unknown) => {
   if (value === "1" || value === "true") return true;
@@ -25,7 +37,12 @@ const parseBool = (value: unknown) => {
   return undefined;
 };
 
-export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
+export const mountPublicRoutes = (
+  router: Router,
+  db: Db,
+  cache: Cache,
+  opts?: { onEvent?: (event: AppEvent) => void },
+) => {
   const ipKey = (ip: string | undefined | null) => (ip ?? "").replace("::ffff:", "") || "unknown";
   const peek = async <T,>(ns: string, raw: unknown): Promise<T | null> => {
     const k = await cache.key(ns, raw);
@@ -73,14 +90,25 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
         q: z.string().optional(),
         page: z.string().optional(),
         limit: z.string().optional(),
+        // Repeatable: ?tag=a&tag=b
+        tag: z.union([z.string(), z.array(z.string())]).optional(),
+        category: z.union([z.string(), z.array(z.string())]).optional(),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        sort: z.enum(["relevance", "newest"]).optional(),
       })
       .parse(req.query);
 
     const q = (query.q ?? "").trim();
     const page = Math.max(1, Number.parseInt(query.page ?? "1", 10) || 1);
     const limit = Math.min(50, Math.max(1, Number.parseInt(query.limit ?? "10", 10) || 10));
+    const values = (v: string | string[] | undefined) => [...new Set([v ?? []].flat().filter(Boolean))].sort().slice(0, 20);
+    const filters = { tags: values(query.tag), categories: values(query.category), from: query.from, to: query.to };
+    const sort = query.sort ?? "relevance";
 
-    if (!q) return res.json({ items: [], total: 0, page, limit, recommendations: [] });
+    if (!q) {
+      return res.json({ items: [], total: 0, page, limit, recommendations: [], facets: { tags: [], categories: [], years: [] } });
+    }
 
     const ip = ipKey(req.ip);
     const [rlIp, rlGlobal] = await Promise.all([
@@ -89,7 +117,7 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
     ]);
 
     if (!rlIp.allowed || !rlGlobal.allowed) {
-      const cached = await peek<any>("search", { q, page, limit });
+      const cached = await peek<any>("search", { q, page, limit, filters, sort });
       if (cached) {
         void cache.recordSuspicious({ ip, bucket: "search", kind: (!rlGlobal.allowed ? "global_" : "ip_") + "cache" });
         res.setHeader("x-rate-limited", "1");
@@ -104,17 +132,46 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
 
     const data = await cache.wrapJSON(
       "search",
-      { q, page, limit },
+      { q, page, limit, filters, sort },
       20,
       () => {
-        const { items, total } = searchPosts(db, { q, page, limit, includeDrafts: false });
+        const { items, total, facets } = searchPosts(db, { q, page, limit, includeDrafts: false, filters, sort });
         const recommendations = recommendPosts(db, { base: items, limit: 6 });
-        return { items, total, page, limit, recommendations };
+        return { items: items.map((p) => toSearchHit(p, q)), total, page, limit, recommendations, facets };
       },
     );
     res.json(data);
   });
 
+  // Header search type-ahead. Fired on every keystroke (debounced by the client), hence its own, looser bucket.
+  router.get("/search/suggest", async (req, res) => {
+    const query = z.object({ q: z.string().optional() }).parse(req.query);
+    const q = (query.q ?? "").trim().toLowerCase().slice(0, 64);
+    if (!q) return res.json({ posts: [], tags: [], categories: [] });
+
+    const ip = ipKey(req.ip);
+    const [rlIp, rlGlobal] = await Promise.all([
+      cache.rateLimit({ bucket: "suggest", key: ip, limit: 120, windowSec: 60 }),
+      cache.rateLimit({ bucket: "suggest:g", key: "global", limit: 1500, windowSec: 60 }),
+    ]);
+    if (!rlIp.allowed || !rlGlobal.allowed) {
+      const cached = await peek<any>("search", { suggest: q });
+      if (cached) {
+        void cache.recordSuspicious({ ip, bucket: "suggest", kind: (!rlGlobal.allowed ? "global_" : "ip_") + "cache" });
+        res.setHeader("x-rate-limited", "1");
+        res.setHeader("x-cache", "hit");
+        res.setHeader("retry-after", String((!rlGlobal.allowed ? rlGlobal.resetSec : rlIp.resetSec) || 60));
+        return res.json(cached);
+      }
+      void cache.recordSuspicious({ ip, bucket: "suggest", kind: (!rlGlobal.allowed ? "global_" : "ip_") + "block" });
+      res.setHeader("retry-after", String((!rlGlobal.allowed ? rlGlobal.resetSec : rlIp.resetSec) || 60));
+      return res.status(429).json({ error: "rate_limited" });
+    }
+
+    const data = await cache.wrapJSON("search", { suggest: q }, 30, () => suggestSearch(db, q, SUGGEST_LIMIT));
+    res.json(data);
+  });
+
   router.get("/posts/:slug/comments", async (req, res) => {
     const { slug } = z.object({ slug: z.string().min(1) }).parse(req.params);
     const post = getPostBySlug(db, slug);
@@ -162,6 +219,9 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
       .object({
         author: z.string().min(1).max(40),
         contentMd: z.string().min(1).max(2000),
+        parentId: z.number().int().positive().optional().nullable(),
+        email: z.union([z.literal(""), z.string().trim().email().max(200)]).optional(),
+        notify: z.boolean().optional().default(false),
         captchaId: z.string().min(1),
         captchaAnswer: z.string().min(1).max(20),
       })
@@ -170,13 +230,27 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
     const cap = verifyCaptcha(db, { id: body.captchaId, answer: body.captchaAnswer });
     if (!cap.ok) return res.status(400).json({ error: "invalid_captcha" });
 
+    // Readers can only reply to comments they can see: approved ones on the same post.
+    let parentId: number | null = null;
+    if (body.parentId) {
+      const parent = getCommentById(db, body.parentId);
+      if (!parent || parent.postId !== post.id || parent.status !== "approved") {
+        return res.status(400).json({ error: "invalid_parent" });
+      }
+      parentId = resolveReplyParent(db, parent.id);
+    }
+
     const id = createComment(db, {
       postId: post.id,
+      parentId,
       author: body.author,
       contentMd: body.contentMd,
+      email: body.email || null,
+      notify: body.notify,
       ip: req.ip,
       userAgent: req.get("user-agent") ?? null,
     });
+    opts?.onEvent?.({ type: "comment.created", commentId: id });
     res.json({ ok: true, id, status: "pending" });
   });
 
@@ -253,7 +327,8 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
         res.setHeader("x-cache", "hit");
         res.setHeader("retry-after", String((!rlGlobal.allowed ? rlGlobal.resetSec : rlIp.resetSec) || 60));
         if (!cached || cached.status !== "published") return res.status(404).json({ error: "not_found" });
-        return res.json({ post: cached });
+        const related = await peek<any[]>("posts", { slug, related: RELATED_LIMIT });
+        return res.json({ post: cached, related: related ?? [] });
       }
       void cache.recordSuspicious({ ip, bucket: "post", kind: (!rlGlobal.allowed ? "global_" : "ip_") + "block" });
       res.setHeader("retry-after", String((!rlGlobal.allowed ? rlGlobal.resetSec : rlIp.resetSec) || 60));
@@ -261,7 +336,10 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
     }
     const post = await cache.wrapJSON("posts", { slug }, 60, () => getPostBySlug(db, slug));
     if (!post || post.status !== "published") return res.status(404).json({ error: "not_found" });
-    res.json({ post });
+    const related = await cache.wrapJSON("posts", { slug, related: RELATED_LIMIT }, 60, () =>
+      getRelatedPosts(db, post.id, RELATED_LIMIT),
+    );
+    res.json({ post, related });
   });
 
   router.get("/tags", async (_req, res) => {
@@ -310,6 +388,42 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
     res.json(data);
   });
 
+  // A tag or category page's header. Renamed and merged terms answer with where they went instead, so
+  // client-side navigation to an old URL follows the same redirect a full page load would.
+  const termRoutes: { kind: TaxonomyKind; ns: "tags" | "categories" }[] = [
+    { kind: "tag", ns: "tags" },
+    { kind: "category", ns: "categories" },
+  ];
+  for (const { kind, ns } of termRoutes) {
+    router.get(`/${ns}/:name`, async (req, res) => {
+      const { name } = z.object({ name: z.string().min(1).max(200) }).parse(req.params);
+      const ip = ipKey(req.ip);
+      const [rlIp, rlGlobal] = await Promise.all([
+        cache.rateLimit({ bucket: ns, key: ip, limit: 240, windowSec: 60 }),
+        cache.rateLimit({ bucket: `${ns}:g`, key: "global", limit: 3000, windowSec: 60 }),
+      ]);
+      if (!rlIp.allowed || !rlGlobal.allowed) {
+        const cached = await peek<any>(ns, { name });
+        if (cached) {
+          void cache.recordSuspicious({ ip, bucket: ns, kind: (!rlGlobal.allowed ? "global_" : "ip_") + "cache" });
+          res.setHeader("x-rate-limited", "1");
+          res.setHeader("x-cache", "hit");
+          res.setHeader("retry-after", String((!rlGlobal.allowed ? rlGlobal.resetSec : rlIp.resetSec) || 60));
+          return res.json(cached);
+        }
+        void cache.recordSuspicious({ ip, bucket: ns, kind: (!rlGlobal.allowed ? "global_" : "ip_") + "block" });
+        res.setHeader("retry-after", String((!rlGlobal.allowed ? rlGlobal.resetSec : rlIp.resetSec) || 60));
+        return res.status(429).json({ error: "rate_limited" });
+      }
+      const data = await cache.wrapJSON(ns, { name }, 300, () => {
+        const term = getTaxonomyTermByName(db, kind, name);
+        if (!term) return { term: null, redirect: resolveRedirect(db, taxonomyPath(kind, name)) };
+        return { term: { name: term.name, slug: term.slug, description: term.description, image: term.image }, redirect: null };
+      });
+      res.json(data);
+    });
+  }
+
   router.get("/links", async (_req, res) => {
     const ip = ipKey(_req.ip);
     const [rlIp, rlGlobal] = await Promise.all([
@@ -390,6 +504,7 @@ export const mountPublicRoutes = (router: Router, db: Db, cache: Cache) => {
       ip: req.ip,
       userAgent: req.get("user-agent") ?? null,
     });
+    opts?.onEvent?.({ type: "link_request.created", linkRequestId: id });
     res.json({ ok: true, id, status: "pending" });
   });
 };
@@ -0,0 +1,464 @@
+import type { RequestHandler, Router } from "express";
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { z } from "zod";
+
+import type { Cache } from "../cache.js";
+import {
+  createComment,
+  createPost,
+  createPostRevision,
+  getPostBySlug,
+  getUserByUsername,
+  hasPostRevisions,
+  updatePost,
+  upsertTagsAndCategories,
+  type Db,
+  type PostStatus,
+} from "../db.js";
+import { collectImageRefs } from "../markdownImport.js";
+import type { AuthedRequest } from "../middleware.js";
+import { discardStagedRestore, restoreKindFor, stageRestore, type StagedRestore } from "../restore.js";
+
+// Selective restore: posts (and their comments) are copied out of an uploaded backup into the live
+// database one by one. Unlike a full restore nothing is swapped and the server keeps running.
+
+type MergeAction = "create" | "overwrite" | "skip" | "error";
+
+type BackupPost = {
+  id: number;
+  title: string;
+  slug: string;
+  summary: string | null;
+  contentMd: string;
+  coverImage: string | null;
+  status: PostStatus;
+  featured: 0 | 1;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt: string | null;
+  authorName: string | null;
+};
+
+type BackupComment = {
+  id: number;
+  parentId: number | null;
+  author: string;
+  contentMd: string;
+  status: "pending" | "approved";
+  isAdmin: boolean;
+  email: string | null;
+  notify: boolean;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+type MergeSource = { staged: StagedRestore; backup: Db; expiresAt: number; timer: NodeJS.Timeout };
+
+const SOURCE_TTL_MS = 30 * 60 * 1000;
+const PAGE_SIZE = 50;
+
+const applySchema = z.object({
+  // Backup post ids.
+  items: z.array(z.number().int().positive()).min(1).max(500),
+  comments: z.boolean().default(true),
+  // "keep_both" restores the backup copy under a free slug as a draft, next to the live post.
+  onConflict: z.enum(["overwrite", "keep_both", "skip"]).default("skip"),
+});
+
+// Older backups may miss columns added later, so rows are read with SELECT * and defaulted here.
+const toBackupPost = (row: any, authorName: string | null): BackupPost => ({
+  id: row.id,
+  title: String(row.title ?? ""),
+  slug: String(row.slug ?? ""),
+  summary: row.summary ?? null,
+  contentMd: String(row.content_md ?? ""),
+  coverImage: row.cover_image ?? null,
+  status: row.status === "published" || row.status === "scheduled" ? row.status : "draft",
+  featured: row.featured ? 1 : 0,
+  sortOrder: Number(row.sort_order ?? 0),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at ?? row.created_at,
+  publishedAt: row.published_at ?? null,
+  authorName,
+});
+
+const readBackupPost = (backup: Db, id: number) => {
+  const row = backup.prepare("SELECT * FROM posts WHERE id = ?").get(id) as any;
+  if (!row) return null;
+  let authorName: string | null = null;
+  try {
+    if (row.author_id) authorName = (backup.prepare("SELECT username FROM users WHERE id = ?").pluck().get(row.author_id) as string) ?? null;
+  } catch {
+    // No author column in very old backups.
+  }
+  return toBackupPost(row, authorName);
+};
+
+const readTaxonomy = (backup: Db, postId: number) => {
+  const safe = <T>(fn: () => T, fallback: T) => {
+    try {
+      return fn();
+    } catch {
+      return fallback;
+    }
+  };
+  const tags = safe(
+    () =>
+      backup
+        .prepare("SELECT t.name FROM post_tags pt JOIN tags t ON t.id = pt.tag_id WHERE pt.post_id = ? ORDER BY t.name")
+        .pluck()
+        .all(postId) as string[],
+    [],
+  );
+  const categories = safe(
+    () =>
+      backup
+        .prepare(
+          "SELECT c.name, c.slug FROM post_categories pc JOIN categories c ON c.id = pc.category_id WHERE pc.post_id = ? ORDER BY c.name",
+        )
+        .all(postId) as { name: string; slug: string }[],
+    [],
+  );
+  return { tags, categories };
+};
+
+// Oldest first, so a reply's parent is always written before the reply.
+const readBackupComments = (backup: Db, postId: number): BackupComment[] => {
+  let rows: any[] = [];
+  try {
+    rows = backup.prepare("SELECT * FROM comments WHERE post_id = ? ORDER BY id ASC").all(postId) as any[];
+  } catch {
+    return [];
+  }
+  return rows.map((row) => ({
+    id: row.id,
+    parentId: row.parent_id ?? null,
+    author: String(row.author ?? ""),
+    contentMd: String(row.content_md ?? ""),
+    status: row.status === "approved" ? "approved" : "pending",
+    isAdmin: Boolean(row.is_admin),
+    email: row.email ?? null,
+    notify: Boolean(row.notify),
+    ip: row.ip ?? null,
+    userAgent: row.user_agent ?? null,
+    createdAt: row.created_at,
+  }));
+};
+
+// `/uploads/<name>` references of a post; thumbnails and subfolders are not referenced directly.
+const uploadNames = (post: BackupPost) => {
+  const refs = [...collectImageRefs(post.contentMd), ...(post.coverImage ? [post.coverImage] : [])];
+  const out = new Set<string>();
+  for (const ref of refs) {
+    if (!ref.startsWith("/uploads/")) continue;
+    let name: string;
+    try {
+      name = decodeURIComponent(ref.slice("/uploads/".length).split(/[?#]/)[0]);
+    } catch {
+      continue;
+    }
+    if (name && name === path.basename(name) && !name.startsWith(".")) out.add(name);
+  }
+  return [...out];
+};
+
+export const mountRestoreMergeRoutes = (
+  router: Router,
+  db: Db,
+  cache: Cache,
+  opts: {
+    upload: RequestHandler;
+    uploadsDir: string;
+    // Files that belong with an image in the library (the image itself plus its thumbnail), relative to uploadsDir.
+    uploadFilesFor: (name: string) => string[];
+    isBusy: () => boolean;
+    onContentChanged?: (reason: string) => void;
+  },
+) => {
+  let source: MergeSource | null = null;
+
+  const dropSource = () => {
+    if (!source) return;
+    clearTimeout(source.timer);
+    source.backup.close();
+    discardStagedRestore(source.staged);
+    source = null;
+  };
+
+  const current = (id: string) => (source && source.staged.id === id ? source : null);
+
+  const describe = (s: MergeSource) => ({
+    id: s.staged.id,
+    kind: s.staged.kind,
+    source: s.staged.source,
+    backupCreatedAt: s.staged.backupCreatedAt,
+    posts: s.backup.prepare("SELECT COUNT(*) FROM posts").pluck().get() as number,
+    expiresAt: new Date(s.expiresAt).toISOString(),
+  });
+
+  const nextFreeSlug = (base: string) => {
+    for (let n = 2; ; n++) {
+      const candidate = `${base}-${n}`;
+      if (!getPostBySlug(db, candidate)) return candidate;
+    }
+  };
+
+  const liveCommentKeys = (postId: number) =>
+    new Map(
+      (
+        db.prepare("SELECT id, author, content_md as contentMd, created_at as createdAt FROM comments WHERE post_id = ?").all(postId) as {
+          id: number;
+          author: string;
+          contentMd: string;
+          createdAt: string;
+        }[]
+      ).map((c) => [`${c.createdAt}\n${c.author}\n${c.contentMd}`, c.id]),
+    );
+
+  // Comments already on the live post (same author, time and text) are matched instead of duplicated.
+  const mergeComments = (postId: number, comments: BackupComment[]) => {
+    const existing = liveCommentKeys(postId);
+    const ids = new Map<number, number>();
+    let added = 0;
+    for (const c of comments) {
+      const key = `${c.createdAt}\n${c.author}\n${c.contentMd}`;
+      const match = existing.get(key);
+      if (match) {
+        ids.set(c.id, match);
+        continue;
+      }
+      const id = createComment(db, {
+        postId,
+        parentId: c.parentId ? (ids.get(c.parentId) ?? null) : null,
+        author: c.author,
+        contentMd: c.contentMd,
+        status: c.status,
+        isAdmin: c.isAdmin,
+        email: c.email,
+        notify: c.notify,
+        ip: c.ip,
+        userAgent: c.userAgent,
+        createdAt: c.createdAt,
+      });
+      ids.set(c.id, id);
+      added++;
+    }
+    return added;
+  };
+
+  // Missing images are copied from a full backup; files already in the library are never replaced.
+  const copyImages = (staged: StagedRestore, post: BackupPost) => {
+    if (!staged.uploadsPath) return 0;
+    let copied = 0;
+    for (const name of uploadNames(post)) {
+      if (fs.existsSync(path.join(opts.uploadsDir, name))) continue;
+      if (!fs.existsSync(path.join(staged.uploadsPath, name))) continue;
+      for (const rel of opts.uploadFilesFor(name)) {
+        const from = path.join(staged.uploadsPath, rel);
+        const to = path.join(opts.uploadsDir, rel);
+        if (!fs.existsSync(from) || fs.existsSync(to)) continue;
+        fs.mkdirSync(path.dirname(to), { recursive: true });
+        fs.copyFileSync(from, to);
+      }
+      copied++;
+    }
+    return copied;
+  };
+
+  router.get("/restore/merge", (_req, res) => {
+    res.json({ source: source ? describe(source) : null });
+  });
+
+  router.post("/restore/merge", opts.upload, async (req: AuthedRequest & { file?: any }, res) => {
+    const file = req.file as { path: string; originalname: string } | undefined;
+    if (!file) return res.status(400).json({ error: "file_required" });
+    try {
+      if (opts.isBusy()) return res.status(429).json({ error: "busy" });
+      const result = await stageRestore({ archivePath: file.path, source: file.originalname, kind: restoreKindFor(file.originalname) });
+      if (!result.ok) return res.status(400).json({ error: result.error });
+
+      let backup: Db;
+      try {
+        backup = new Database(result.staged.dbPath, { readonly: true, fileMustExist: true });
+        backup.prepare("SELECT id, slug FROM posts LIMIT 1").get();
+      } catch {
+        discardStagedRestore(result.staged);
+        return res.status(400).json({ error: "no_posts_table" });
+      }
+
+      dropSource();
+      const expiresAt = Date.now() + SOURCE_TTL_MS;
+      source = { staged: result.staged, backup, expiresAt, timer: setTimeout(dropSource, SOURCE_TTL_MS).unref() };
+      res.json({ source: describe(source) });
+    } finally {
+      fs.rmSync(file.path, { force: true });
+    }
+  });
+
+  router.delete("/restore/merge/:id", (req, res) => {
+    if (current(req.params.id)) dropSource();
+    res.json({ ok: true });
+  });
+
+  router.get("/restore/merge/:id/posts", (req, res) => {
+    const s = current(req.params.id);
+    if (!s) return res.status(404).json({ error: "merge_source_not_found" });
+    const query = z
+      .object({ q: z.string().trim().max(200).default(""), page: z.coerce.number().int().min(1).default(1) })
+      .parse(req.query);
+
+    const where = query.q ? "WHERE title LIKE ? OR slug LIKE ?" : "";
+    const params = query.q ? [`%${query.q}%`, `%${query.q}%`] : [];
+    const total = s.backup.prepare(`SELECT COUNT(*) FROM posts ${where}`).pluck().get(...params) as number;
+    const rows = s.backup
+      .prepare(`SELECT * FROM posts ${where} ORDER BY COALESCE(published_at, created_at) DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, PAGE_SIZE, (query.page - 1) * PAGE_SIZE) as any[];
+    let commentCount = (_postId: number) => 0;
+    try {
+      const stmt = s.backup.prepare("SELECT COUNT(*) FROM comments WHERE post_id = ?").pluck();
+      commentCount = (postId) => stmt.get(postId) as number;
+    } catch {
+      // No comments table.
+    }
+
+    const items = rows.map((row) => {
+      const post = toBackupPost(row, null);
+      const live = getPostBySlug(db, post.slug);
+      return {
+        id: post.id,
+        title: post.title,
+        slug: post.slug,
+        status: post.status,
+        publishedAt: post.publishedAt,
+        updatedAt: post.updatedAt,
+        comments: commentCount(post.id),
+        live: live
+          ? {
+              id: live.id,
+              title: live.title,
+              updatedAt: live.updatedAt,
+              identical: live.title === post.title && live.contentMd === post.contentMd,
+            }
+          : null,
+      };
+    });
+    res.json({ items, total, page: query.page, pageSize: PAGE_SIZE });
+  });
+
+  router.get("/restore/merge/:id/posts/:postId", (req, res) => {
+    const s = current(req.params.id);
+    if (!s) return res.status(404).json({ error: "merge_source_not_found" });
+    const { postId } = z.object({ postId: z.coerce.number().int().positive() }).parse(req.params);
+    const post = readBackupPost(s.backup, postId);
+    if (!post) return res.status(404).json({ error: "not_found" });
+    const live = getPostBySlug(db, post.slug);
+    res.json({
+      post: { ...post, ...readTaxonomy(s.backup, postId) },
+      // Commenter addresses and IPs stay on the server.
+      comments: readBackupComments(s.backup, postId).map(({ email: _email, ip: _ip, userAgent: _ua, ...c }) => c),
+      live: live ? { id: live.id, title: live.title, contentMd: live.contentMd, updatedAt: live.updatedAt } : null,
+    });
+  });
+
+  router.post("/restore/merge/:id/apply", (req: AuthedRequest, res) => {
+    const s = current(req.params.id);
+    if (!s) return res.status(404).json({ error: "merge_source_not_found" });
+    if (opts.isBusy()) return res.status(429).json({ error: "busy" });
+    const body = applySchema.parse(req.body);
+    const revisionAuthor = { authorId: req.user?.userId ?? null, authorName: req.user?.username ?? "" };
+
+    const results = body.items.map((backupId) => {
+      const item = {
+        id: backupId,
+        title: "",
+        slug: "",
+        action: "skip" as MergeAction,
+        postId: null as number | null,
+        comments: 0,
+        images: 0,
+        error: null as string | null,
+      };
+      const post = readBackupPost(s.backup, backupId);
+      if (!post) {
+        item.action = "error";
+        item.error = "not_found";
+        return item;
+      }
+      item.title = post.title;
+      item.slug = post.slug;
+      const { tags, categories } = readTaxonomy(s.backup, backupId);
+      const existing = getPostBySlug(db, post.slug);
+      if (existing && body.onConflict === "skip") return item;
+
+      try {
+        db.transaction(() => {
+          if (existing && body.onConflict === "overwrite") {
+            if (!hasPostRevisions(db, existing.id)) createPostRevision(db, { postId: existing.id, reason: "baseline" });
+            updatePost(db, {
+              id: existing.id,
+              title: post.title,
+              slug: post.slug,
+              summary: post.summary,
+              contentMd: post.contentMd,
+              coverImage: post.coverImage,
+              status: post.status,
+              featured: post.featured,
+              sortOrder: post.sortOrder,
+              publishedAt: post.publishedAt,
+            });
+            item.action = "overwrite";
+            item.postId = existing.id;
+          } else {
+            const keepBoth = Boolean(existing);
+            item.slug = keepBoth ? nextFreeSlug(post.slug) : post.slug;
+            const author = post.authorName ? getUserByUsername(db, post.authorName) : null;
+            item.postId = createPost(db, {
+              title: post.title,
+              slug: item.slug,
+              summary: post.summary,
+              contentMd: post.contentMd,
+              coverImage: post.coverImage,
+              status: keepBoth ? "draft" : post.status,
+              featured: keepBoth ? 0 : post.featured,
+              sortOrder: post.sortOrder,
+              publishedAt: post.publishedAt,
+              authorId: author?.id ?? req.user?.userId ?? null,
+              createdAt: post.createdAt,
+              updatedAt: post.updatedAt,
+            });
+            item.action = "create";
+          }
+          upsertTagsAndCategories(db, { postId: item.postId, tags, categories });
+          createPostRevision(db, { postId: item.postId, reason: "backup", ...revisionAuthor });
+          if (body.comments) item.comments = mergeComments(item.postId, readBackupComments(s.backup, backupId));
+        })();
+      } catch (e: any) {
+        item.action = "error";
+        item.postId = null;
+        item.error = String(e?.message ?? e).slice(0, 200);
+        return item;
+      }
+      // The post is already written; a failed image copy is reported but does not undo it.
+      try {
+        item.images = copyImages(s.staged, post);
+      } catch (e: any) {
+        item.error = `images: ${String(e?.message ?? e).slice(0, 200)}`;
+      }
+      return item;
+    });
+
+    if (results.some((r) => r.action === "create" || r.action === "overwrite")) {
+      void cache.bump("posts");
+      void cache.bump("tags");
+      void cache.bump("categories");
+      void cache.bump("search");
+      void cache.bump("comments");
+      opts.onContentChanged?.("posts:restore");
+    }
+    res.json({ items: results });
+  });
+};
@@ -0,0 +1,40 @@
+import type { Router } from "express";
+import { z } from "zod";
+
+import { deleteSession, deleteUserSessions, listSessions, type Db } from "../db.js";
+import type { AuthedRequest } from "../middleware.js";
+
+// Signed-in devices. Everyone can see and revoke their own sessions; the /sessions routes are admin-only
+// (gated in index.ts) and cover every account.
+export const mountSessionRoutes = (router: Router, db: Db) => {
+  const withCurrent = (req: AuthedRequest, items: ReturnType<typeof listSessions>) =>
+    items.map((s) => ({ ...s, current: s.id === req.user!.sessionId }));
+
+  router.get("/account/sessions", (req: AuthedRequest, res) => {
+    res.json({ items: withCurrent(req, listSessions(db, { userId: req.user!.userId })) });
+  });
+
+  router.delete("/account/sessions/:id", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.string().min(1).max(100) }).parse(req.params);
+    // Ending the current session is what logout is for.
+    if (id === req.user!.sessionId) return res.status(400).json({ error: "current_session" });
+    if (!deleteSession(db, id, req.user!.userId)) return res.status(404).json({ error: "not_found" });
+    res.json({ ok: true });
+  });
+
+  router.post("/account/sessions/revoke-others", (req: AuthedRequest, res) => {
+    const revoked = deleteUserSessions(db, req.user!.userId, req.user!.sessionId);
+    res.json({ ok: true, revoked });
+  });
+
+  router.get("/sessions", (req: AuthedRequest, res) => {
+    res.json({ items: withCurrent(req, listSessions(db)) });
+  });
+
+  router.delete("/sessions/:id", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.string().min(1).max(100) }).parse(req.params);
+    if (id === req.user!.sessionId) return res.status(400).json({ error: "current_session" });
+    if (!deleteSession(db, id)) return res.status(404).json({ error: "not_found" });
+    res.json({ ok: true });
+  });
+};
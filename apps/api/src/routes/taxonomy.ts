@@ -0,0 +1,115 @@
+import type { Router } from "express";
+import slugify from "slugify";
+import { z } from "zod";
+
+import type { Cache } from "../cache.js";
+import {
+  createTaxonomyTerm,
+  deleteTaxonomyTerm,
+  getTaxonomyTerm,
+  getTaxonomyTermByName,
+  listTaxonomyTerms,
+  mergeTaxonomyTerms,
+  updateTaxonomyTerm,
+  type Db,
+  type TaxonomyKind,
+} from "../db.js";
+import { requireRole } from "../middleware.js";
+import { invalidateRelatedPosts } from "../related.js";
+
+const termSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    // Names are URL path segments (/tag/:tag).
+    .refine((v) => !v.includes("/"), { message: "slash not allowed" }),
+  description: z.string().trim().max(2000).default(""),
+  image: z.string().trim().max(2000).optional().nullable(),
+});
+
+const KINDS: { kind: TaxonomyKind; path: string }[] = [
+  { kind: "tag", path: "/taxonomy/tags" },
+  { kind: "category", path: "/taxonomy/categories" },
+];
+
+// Admin management of tags and categories. Posts still create terms on the fly when saved; these routes
+// rename, describe, merge and delete them. Renamed and merged terms leave a redirect from their old URL.
+export const mountTaxonomyRoutes = (
+  router: Router,
+  db: Db,
+  cache: Cache,
+  opts?: { onContentChanged?: (reason: string) => void },
+) => {
+  router.use("/taxonomy", requireRole("admin", "editor"));
+
+  // Post payloads, listings and search facets all embed term names.
+  const changed = (kind: TaxonomyKind, action: string, postIds: number[] = []) => {
+    invalidateRelatedPosts(db, postIds);
+    void cache.bump("posts");
+    void cache.bump("tags");
+    void cache.bump("categories");
+    void cache.bump("search");
+    opts?.onContentChanged?.(`taxonomy:${kind}:${action}`);
+  };
+
+  const slugFor = (name: string) => slugify(name, { lower: true, strict: true, trim: true }) || name;
+
+  for (const { kind, path } of KINDS) {
+    router.get(path, (_req, res) => {
+      res.json({ items: listTaxonomyTerms(db, kind) });
+    });
+
+    router.post(path, (req, res) => {
+      const body = termSchema.parse(req.body);
+      if (getTaxonomyTermByName(db, kind, body.name)) return res.status(409).json({ error: "name_taken" });
+      const id = createTaxonomyTerm(db, kind, {
+        name: body.name,
+        slug: slugFor(body.name),
+        description: body.description,
+        image: body.image || null,
+      });
+      changed(kind, "create");
+      res.json({ ok: true, term: getTaxonomyTerm(db, kind, id) });
+    });
+
+    router.put(`${path}/:id`, (req, res) => {
+      const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+      const body = termSchema.parse(req.body);
+      if (!getTaxonomyTerm(db, kind, id)) return res.status(404).json({ error: "not_found" });
+      const clash = getTaxonomyTermByName(db, kind, body.name);
+      // Renaming onto an existing term is a merge, and has to be asked for as one.
+      if (clash && clash.id !== id) return res.status(409).json({ error: "name_taken", id: clash.id });
+      updateTaxonomyTerm(db, kind, {
+        id,
+        name: body.name,
+        slug: slugFor(body.name),
+        description: body.description,
+        image: body.image || null,
+      });
+      changed(kind, "update");
+      res.json({ ok: true, term: getTaxonomyTerm(db, kind, id) });
+    });
+
+    router.post(`${path}/:id/merge`, (req, res) => {
+      const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+      const { into } = z.object({ into: z.number().int().positive() }).parse(req.body);
+      if (id === into) return res.status(400).json({ error: "same_term" });
+      if (!getTaxonomyTerm(db, kind, id) || !getTaxonomyTerm(db, kind, into)) {
+        return res.status(404).json({ error: "not_found" });
+      }
+      const postIds = mergeTaxonomyTerms(db, kind, { fromId: id, intoId: into });
+      changed(kind, "merge", postIds);
+      res.json({ ok: true, term: getTaxonomyTerm(db, kind, into) });
+    });
+
+    router.delete(`${path}/:id`, (req, res) => {
+      const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+      if (!getTaxonomyTerm(db, kind, id)) return res.status(404).json({ error: "not_found" });
+      const postIds = deleteTaxonomyTerm(db, kind, id);
+      changed(kind, "delete", postIds);
+      res.json({ ok: true });
+    });
+  }
+};
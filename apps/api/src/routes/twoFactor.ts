@@ -0,0 +1,80 @@
+import type { Router } from "express";
+import QRCode from "qrcode";
+import { z } from "zod";
+
+import { verifyPassword, verifySecondFactor } from "../auth.js";
+import {
+  countRecoveryCodes,
+  disableUserTotp,
+  enableUserTotp,
+  getUserById,
+  getUserTotp,
+  replaceRecoveryCodes,
+  setUserTotpPending,
+  type Db,
+} from "../db.js";
+import type { AuthedRequest } from "../middleware.js";
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, totpUri, verifyTotp } from "../totp.js";
+
+// Two-factor settings for the signed-in account. Everything is generated locally (secret, QR code,
+// recovery codes), so enrolment works without any outside service.
+export const mountTwoFactorRoutes = (router: Router, db: Db, opts: { getIssuer: () => string }) => {
+  const issueRecoveryCodes = () => {
+    const codes = generateRecoveryCodes();
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+  };
+
+  router.get("/account/2fa", (req: AuthedRequest, res) => {
+    const userId = req.user!.userId;
+    const totp = getUserTotp(db, userId);
+    res.json({ enabled: Boolean(totp?.secret), recoveryCodesLeft: totp?.secret ? countRecoveryCodes(db, userId) : 0 });
+  });
+
+  router.post("/account/2fa/setup", async (req: AuthedRequest, res) => {
+    const body = z.object({ password: z.string().min(1).max(200) }).parse(req.body);
+    const row = getUserById(db, req.user!.userId);
+    if (!row) return res.status(401).json({ error: "unauthorized" });
+    if (row.totpEnabled) return res.status(400).json({ error: "2fa_already_enabled" });
+    if (!(await verifyPassword(body.password, row.passwordHash))) return res.status(401).json({ error: "invalid_credentials" });
+
+    const secret = generateTotpSecret();
+    setUserTotpPending(db, row.id, secret);
+    const uri = totpUri({ issuer: opts.getIssuer(), account: row.username, secret });
+    const qr = await QRCode.toDataURL(uri, { margin: 1, width: 220 });
+    res.json({ secret, uri, qr });
+  });
+
+  router.post("/account/2fa/enable", (req: AuthedRequest, res) => {
+    const body = z.object({ code: z.string().trim().min(1).max(16) }).parse(req.body);
+    const userId = req.user!.userId;
+    const totp = getUserTotp(db, userId);
+    if (!totp?.pendingSecret) return res.status(400).json({ error: "2fa_setup_required" });
+    const step = verifyTotp(totp.pendingSecret, body.code);
+    if (step === null) return res.status(400).json({ error: "invalid_code" });
+
+    const { codes, hashes } = issueRecoveryCodes();
+    enableUserTotp(db, { id: userId, secret: totp.pendingSecret, step, recoveryCodeHashes: hashes });
+    res.json({ ok: true, recoveryCodes: codes });
+  });
+
+  // Turning 2FA off needs both factors, so a stolen session alone cannot do it.
+  router.post("/account/2fa/disable", async (req: AuthedRequest, res) => {
+    const body = z.object({ password: z.string().min(1).max(200), code: z.string().trim().min(1).max(32) }).parse(req.body);
+    const row = getUserById(db, req.user!.userId);
+    if (!row) return res.status(401).json({ error: "unauthorized" });
+    if (!(await verifyPassword(body.password, row.passwordHash))) return res.status(401).json({ error: "invalid_credentials" });
+    if (!verifySecondFactor(db, row.id, body.code)) return res.status(400).json({ error: "invalid_code" });
+    disableUserTotp(db, row.id);
+    res.json({ ok: true });
+  });
+
+  router.post("/account/2fa/recovery-codes", (req: AuthedRequest, res) => {
+    const body = z.object({ code: z.string().trim().min(1).max(32) }).parse(req.body);
+    const userId = req.user!.userId;
+    if (!getUserTotp(db, userId)?.secret) return res.status(400).json({ error: "2fa_not_enabled" });
+    if (!verifySecondFactor(db, userId, body.code)) return res.status(400).json({ error: "invalid_code" });
+    const { codes, hashes } = issueRecoveryCodes();
+    replaceRecoveryCodes(db, userId, hashes);
+    res.json({ ok: true, recoveryCodes: codes });
+  });
+};
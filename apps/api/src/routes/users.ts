@@ -0,0 +1,106 @@
+import type { Router } from "express";
+import { z } from "zod";
+
+import { createPasswordToken, hashPassword } from "../auth.js";
+import {
+  countActiveAdmins,
+  createUser,
+  deleteUserSessions,
+  disableUserTotp,
+  getUserById,
+  listUsers,
+  setUserPassword,
+  setUserPasswordToken,
+  updateUserProfile,
+  type Db,
+} from "../db.js";
+import type { AuthedRequest } from "../middleware.js";
+
+const roleSchema = z.enum(["admin", "editor", "author"]);
+
+// Admin-only user management. Passwords are never chosen for someone else by default:
+// invites and resets hand out a one-time set-password link instead.
+export const mountUserRoutes = (router: Router, db: Db) => {
+  const issueLink = (id: number) => {
+    const { token, tokenHash, expiresAt } = createPasswordToken();
+    setUserPasswordToken(db, { id, tokenHash, expiresAt });
+    return { path: `/admin/invite/${token}`, expiresAt };
+  };
+
+  router.get("/users", (_req, res) => {
+    res.json({ items: listUsers(db) });
+  });
+
+  router.post("/users", (req, res) => {
+    const body = z
+      .object({
+        username: z.string().trim().min(1).max(64),
+        displayName: z.string().trim().max(64).default(""),
+        role: roleSchema,
+      })
+      .parse(req.body);
+    let id: number;
+    try {
+      id = createUser(db, { username: body.username, displayName: body.displayName, role: body.role });
+    } catch (e: any) {
+      const msg = String(e?.message ?? e);
+      if (msg.includes("UNIQUE") || msg.includes("unique")) return res.status(409).json({ error: "username_taken" });
+      throw e;
+    }
+    res.json({ ok: true, id, link: issueLink(id) });
+  });
+
+  router.put("/users/:id", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    const body = z
+      .object({
+        displayName: z.string().trim().max(64),
+        role: roleSchema,
+        disabled: z.boolean(),
+      })
+      .parse(req.body);
+    const row = getUserById(db, id);
+    if (!row) return res.status(404).json({ error: "not_found" });
+
+    // Nobody can lock themselves out, and there must always be one active admin left.
+    if (id === req.user?.userId && (body.disabled || body.role !== "admin")) {
+      return res.status(400).json({ error: "cannot_change_self" });
+    }
+    const losesAdmin = row.role === "admin" && !row.disabled && (body.disabled || body.role !== "admin");
+    if (losesAdmin && countActiveAdmins(db) <= 1) return res.status(400).json({ error: "last_admin" });
+
+    updateUserProfile(db, { id, displayName: body.displayName, role: body.role, disabled: body.disabled });
+    if (body.disabled) deleteUserSessions(db, id);
+    res.json({ ok: true });
+  });
+
+  // Without a password a new set-password link is issued; the current password keeps working until it is used.
+  router.post("/users/:id/reset-password", async (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    const body = z.object({ password: z.string().min(8).max(200).optional() }).parse(req.body ?? {});
+    if (!getUserById(db, id)) return res.status(404).json({ error: "not_found" });
+    if (body.password) {
+      setUserPassword(db, { id, passwordHash: await hashPassword(body.password) });
+      deleteUserSessions(db, id, req.user?.sessionId);
+      return res.json({ ok: true, link: null });
+    }
+    res.json({ ok: true, link: issueLink(id) });
+  });
+
+  // For members who lost both their authenticator and their recovery codes.
+  router.post("/users/:id/2fa/reset", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    if (id === req.user?.userId) return res.status(400).json({ error: "cannot_change_self" });
+    if (!getUserById(db, id)) return res.status(404).json({ error: "not_found" });
+    disableUserTotp(db, id);
+    res.json({ ok: true });
+  });
+
+  // Signs a member out on every device (the admin's own current session is kept).
+  router.post("/users/:id/sessions/revoke", (req: AuthedRequest, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    if (!getUserById(db, id)) return res.status(404).json({ error: "not_found" });
+    const revoked = deleteUserSessions(db, id, req.user?.sessionId);
+    res.json({ ok: true, revoked });
+  });
+};
@@ -0,0 +1,94 @@
+import type { Router } from "express";
+import { z } from "zod";
+
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  listWebhooks,
+  updateWebhook,
+  type Db,
+} from "../db.js";
+import { APP_EVENT_TYPES } from "../events.js";
+import { generateWebhookSecret, webhookTargetAllowed, type WebhookDispatcher } from "../webhooks.js";
+
+const webhookSchema = z.object({
+  name: z.string().max(80).default(""),
+  url: z
+    .string()
+    .url()
+    .max(2000)
+    .refine((v) => /^https?:\/\//i.test(v), { message: "http(s) url required" }),
+  // Blank secret on create means "generate one"; on update it means "keep the current one".
+  secret: z.string().max(200).default(""),
+  events: z.array(z.enum(APP_EVENT_TYPES as [string, ...string[]])).default([]),
+  enabled: z.boolean().default(true),
+});
+
+export const mountWebhookRoutes = (router: Router, db: Db, dispatcher: WebhookDispatcher) => {
+  router.get("/webhooks", (_req, res) => {
+    res.json({ items: listWebhooks(db), events: APP_EVENT_TYPES });
+  });
+
+  router.post("/webhooks", async (req, res) => {
+    const body = webhookSchema.parse(req.body);
+    if (!(await webhookTargetAllowed(body.url.trim()))) return res.status(400).json({ error: "blocked_host" });
+    const id = createWebhook(db, {
+      name: body.name.trim(),
+      url: body.url.trim(),
+      secret: body.secret.trim() || generateWebhookSecret(),
+      events: body.events,
+      enabled: body.enabled,
+    });
+    res.json({ ok: true, webhook: getWebhook(db, id) });
+  });
+
+  router.put("/webhooks/:id", async (req, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    const body = webhookSchema.parse(req.body);
+    const current = getWebhook(db, id);
+    if (!current) return res.status(404).json({ error: "not_found" });
+    if (!(await webhookTargetAllowed(body.url.trim()))) return res.status(400).json({ error: "blocked_host" });
+    updateWebhook(db, {
+      id,
+      name: body.name.trim(),
+      url: body.url.trim(),
+      secret: body.secret.trim() || current.secret,
+      events: body.events,
+      enabled: body.enabled,
+    });
+    res.json({ ok: true, webhook: getWebhook(db, id) });
+  });
+
+  router.delete("/webhooks/:id", (req, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    deleteWebhook(db, id);
+    res.json({ ok: true });
+  });
+
+  router.post("/webhooks/:id/ping", async (req, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    if (!getWebhook(db, id)) return res.status(404).json({ error: "not_found" });
+    const deliveryId = await dispatcher.ping(id);
+    res.json({ ok: true, delivery: getWebhookDelivery(db, deliveryId) });
+  });
+
+  router.get("/webhooks/deliveries", (req, res) => {
+    const q = z
+      .object({
+        webhookId: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      })
+      .parse(req.query);
+    res.json({ items: listWebhookDeliveries(db, q) });
+  });
+
+  router.post("/webhooks/deliveries/:id/redeliver", async (req, res) => {
+    const { id } = z.object({ id: z.coerce.number().int().positive() }).parse(req.params);
+    const ok = await dispatcher.redeliver(id);
+    if (!ok) return res.status(404).json({ error: "not_found" });
+    res.json({ ok: true, delivery: getWebhookDelivery(db, id) });
+  });
+};
@@ -0,0 +1,170 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+import { XMLParser } from "fast-xml-parser";
+
+import { sha256File } from "./backups.js";
+import type { S3Settings } from "./db.js";
+
+// Just enough of the S3 API for off-site backups (put/list/get/delete), signed with AWS SigV4.
+// Works with AWS, Cloudflare R2, Backblaze B2 and MinIO; no SDK needed.
+
+export type S3Object = { key: string; size: number; lastModified: string };
+
+const EMPTY_SHA256 = crypto.createHash("sha256").update("").digest("hex");
+
+// RFC 3986 encoding as SigV4 expects it.
+const encode = (s: string) => encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Object keys keep their "/" separators.
+const encodeKey = (key: string) => key.split("/").map(encode).join("/");
+
+const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+export const s3IsConfigured = (s: S3Settings) =>
+  Boolean(s.enabled && s.endpoint.trim() && s.bucket.trim() && s.accessKeyId.trim() && s.secretAccessKey.trim());
+
+// Object key for a file name, under the configured prefix.
+export const s3Key = (s: S3Settings, name: string) => {
+  const prefix = s.prefix.trim().replace(/^\/+/, "");
+  return prefix && !prefix.endsWith("/") ? `${prefix}/${name}` : `${prefix}${name}`;
+};
+
+const objectUrl = (s: S3Settings, key: string, query: Record<string, string> = {}) => {
+  const base = new URL(s.endpoint.trim());
+  const bucket = s.bucket.trim();
+  const pathname = s.forcePathStyle ? `/${encode(bucket)}${key ? `/${encodeKey(key)}` : ""}` : `/${encodeKey(key)}`;
+  const host = s.forcePathStyle ? base.host : `${bucket}.${base.host}`;
+  const search = Object.keys(query)
+    .sort()
+    .map((k) => `${encode(k)}=${encode(query[k])}`)
+    .join("&");
+  return { url: `${base.protocol}//${host}${pathname}${search ? `?${search}` : ""}`, host, pathname, search };
+};
+
+const signedHeaders = (
+  s: S3Settings,
+  method: string,
+  target: ReturnType<typeof objectUrl>,
+  payloadHash: string,
+  now = new Date(),
+) => {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const region = s.region.trim() || "us-east-1";
+  const headers: Record<string, string> = {
+    host: target.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(headers).sort();
+  const canonical = [
+    method,
+    target.pathname,
+    target.search,
+    ...names.map((n) => `${n}:${headers[n]}`),
+    "",
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+  const scope = `${day}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, crypto.createHash("sha256").update(canonical).digest("hex")].join("\n");
+  const key = hmac(hmac(hmac(hmac(`AWS4${s.secretAccessKey}`, day), region), "s3"), "aws4_request");
+  const signature = crypto.createHmac("sha256", key).update(stringToSign).digest("hex");
+  const { host: _host, ...rest } = headers;
+  return {
+    ...rest,
+    authorization: `AWS4-HMAC-SHA256 Credential=${s.accessKeyId.trim()}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+};
+
+const parser = new XMLParser({ parseTagValue: false, isArray: (name) => name === "Contents" });
+
+// S3 errors come back as <Error><Code>…</Code></Error>; surface the code for the admin UI.
+const s3Error = async (resp: Response) => {
+  const text = await resp.text().catch(() => "");
+  const code = String(parser.parse(text || "<x/>")?.Error?.Code ?? "").trim();
+  return new Error(`s3_${resp.status}${code ? `:${code}` : ""}`);
+};
+
+type S3RequestOptions = {
+  query?: Record<string, string>;
+  payloadHash?: string;
+  body?: any;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+const s3Fetch = async (s: S3Settings, method: string, key: string, opts: S3RequestOptions = {}) => {
+  const target = objectUrl(s, key, opts.query);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs ?? 30_000);
+  try {
+    const resp = await fetch(target.url, {
+      method,
+      headers: { ...signedHeaders(s, method, target, opts.payloadHash ?? EMPTY_SHA256), ...opts.headers },
+      body: opts.body,
+      duplex: opts.body ? "half" : undefined,
+      signal: controller.signal,
+      redirect: "manual",
+    });
+    if (!resp.ok) throw await s3Error(resp);
+    return { resp, done: () => clearTimeout(timer) };
+  } catch (e) {
+    clearTimeout(timer);
+    throw e;
+  }
+};
+
+export const s3PutFile = async (s: S3Settings, key: string, filePath: string) => {
+  const size = fs.statSync(filePath).size;
+  const { resp, done } = await s3Fetch(s, "PUT", key, {
+    payloadHash: await sha256File(filePath),
+    body: Readable.toWeb(fs.createReadStream(filePath)),
+    headers: { "content-length": String(size), "content-type": "application/gzip" },
+    // Large archives over slow uplinks: allow roughly 1 MB/s plus a minute.
+    timeoutMs: 60_000 + size / 1000,
+  });
+  await resp.arrayBuffer();
+  done();
+};
+
+export const s3GetToFile = async (s: S3Settings, key: string, filePath: string) => {
+  const { resp, done } = await s3Fetch(s, "GET", key, { timeoutMs: 60 * 60 * 1000 });
+  try {
+    if (!resp.body) throw new Error("s3_empty_body");
+    await pipeline(Readable.fromWeb(resp.body as any), fs.createWriteStream(filePath));
+  } finally {
+    done();
+  }
+};
+
+export const s3Delete = async (s: S3Settings, key: string) => {
+  const { resp, done } = await s3Fetch(s, "DELETE", key);
+  await resp.arrayBuffer();
+  done();
+};
+
+// All objects under the configured prefix (ListObjectsV2, following continuation tokens).
+export const s3List = async (s: S3Settings, opts: { maxKeys?: number } = {}) => {
+  const out: S3Object[] = [];
+  let token = "";
+  for (;;) {
+    const query: Record<string, string> = { "list-type": "2", prefix: s3Key(s, "") };
+    if (opts.maxKeys) query["max-keys"] = String(opts.maxKeys);
+    if (token) query["continuation-token"] = token;
+    const { resp, done } = await s3Fetch(s, "GET", "", { query });
+    const doc = parser.parse(await resp.text());
+    done();
+    const result = doc?.ListBucketResult;
+    if (!result) throw new Error("s3_invalid_response");
+    for (const c of result.Contents ?? []) {
+      out.push({ key: String(c.Key), size: Number(c.Size) || 0, lastModified: String(c.LastModified ?? "") });
+    }
+    token = String(result.NextContinuationToken ?? "");
+    if (opts.maxKeys || String(result.IsTruncated) !== "true" || !token) break;
+  }
+  return out;
+};
@@ -0,0 +1,107 @@
+import { queryParts } from "./cjk.js";
+import type { Post } from "./db.js";
+
+// Highlighted titles and body excerpts for search results. posts_fts is contentless, so FTS5's
+// snippet()/highlight() have nothing to read; the same matching rules are applied to the stored text
+// here instead, which also covers the LIKE fallback. Output is HTML: everything is escaped and the only
+// markup added is <mark>.
+
+const SNIPPET_CHARS = 160;
+const SNIPPET_LEAD = 30;
+
+// A post as listed on a card: everything but the Markdown body.
+export type PostSummary = Omit<Post, "contentMd">;
+
+export type SearchHit = PostSummary & { titleHtml: string; snippetHtml: string };
+
+export const withoutBody = ({ contentMd: _body, ...rest }: Post): PostSummary => rest;
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Rough plain text of a Markdown body: what a reader sees, without link targets, code fences or markup.
+const markdownToText = (md: string) =>
+  md
+    .replace(/```[^\n]*\n/g, " ")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_~`|]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Latin words match at the start of a word (as the FTS prefix query does); CJK runs match anywhere.
+// Each pattern is tagged with its part so a snippet can prefer windows covering more of the query.
+const matcherFor = (q: string) => {
+  const parts = queryParts(q);
+  if (!parts.length) return null;
+  const alternatives = parts.map((p, i) =>
+    p.cjk ? `(?<p${i}>${escapeRegExp(p.text)})` : `(?<![\\p{L}\\p{N}])(?<p${i}>${escapeRegExp(p.text)})`,
+  );
+  return new RegExp(alternatives.join("|"), "giu");
+};
+
+type Match = { start: number; end: number; part: string };
+
+const findMatches = (text: string, re: RegExp): Match[] => {
+  const out: Match[] = [];
+  for (const m of text.matchAll(re)) {
+    const part = Object.entries(m.groups ?? {}).find(([, v]) => v !== undefined)?.[0] ?? "";
+    out.push({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length, part });
+  }
+  return out;
+};
+
+const markRange = (text: string, from: number, to: number, matches: Match[]) => {
+  let html = "";
+  let at = from;
+  for (const m of matches) {
+    if (m.start < at || m.end > to) continue;
+    html += escapeHtml(text.slice(at, m.start)) + `<mark>${escapeHtml(text.slice(m.start, m.end))}</mark>`;
+    at = m.end;
+  }
+  return html + escapeHtml(text.slice(at, to));
+};
+
+export const highlightHtml = (text: string, q: string) => {
+  const re = matcherFor(q);
+  return re ? markRange(text, 0, text.length, findMatches(text, re)) : escapeHtml(text);
+};
+
+// An excerpt of about SNIPPET_CHARS around the densest cluster of matches.
+export const snippetHtml = (text: string, q: string) => {
+  const re = matcherFor(q);
+  const matches = re ? findMatches(text, re) : [];
+  let from = 0;
+  if (matches.length) {
+    let best = -1;
+    for (const m of matches) {
+      const start = Math.max(0, m.start - SNIPPET_LEAD);
+      const covered = new Set(matches.filter((x) => x.start >= start && x.end <= start + SNIPPET_CHARS).map((x) => x.part)).size;
+      if (covered > best) {
+        best = covered;
+        from = start;
+      }
+    }
+  }
+  // Don't start or end in the middle of a surrogate pair.
+  if (/[\uDC00-\uDFFF]/.test(text[from] ?? "")) from++;
+  let to = Math.min(text.length, from + SNIPPET_CHARS);
+  if (/[\uD800-\uDBFF]/.test(text[to - 1] ?? "")) to--;
+  return (from > 0 ? "…" : "") + markRange(text, from, to, matches) + (to < text.length ? "…" : "");
+};
+
+export const toSearchHit = (post: Post, q: string): SearchHit => {
+  const body = markdownToText(post.contentMd);
+  const re = matcherFor(q);
+  // Matched only in the summary (or only the title): show the summary rather than the start of the body.
+  const useSummary = Boolean(re && post.summary && !findMatches(body, re).length && findMatches(post.summary, re).length);
+  return {
+    ...withoutBody(post),
+    titleHtml: highlightHtml(post.title, q),
+    snippetHtml: snippetHtml(useSummary ? post.summary! : body || (post.summary ?? ""), q),
+  };
+};
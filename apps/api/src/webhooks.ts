@@ -0,0 +1,235 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+
+import { config } from "./config.js";
+import {
+  createWebhookDelivery,
+  getCommentForNotify,
+  getLinkRequestById,
+  getPostById,
+  getWebhook,
+  listDueWebhookDeliveries,
+  listWebhooks,
+  recordWebhookAttempt,
+  requeueWebhookDelivery,
+  type Db,
+  type WebhookDelivery,
+} from "./db.js";
+import type { AppEvent } from "./events.js";
+import { guardedLookup, safeResolveHost } from "./netGuard.js";
+
+// Wait before attempt n+1 after attempt n failed; once these run out the delivery is marked failed.
+const RETRY_DELAYS_SEC = [30, 120, 600, 3600, 6 * 3600];
+const MAX_ATTEMPTS = RETRY_DELAYS_SEC.length + 1;
+const REQUEST_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_MAX = 2000;
+
+// Receivers verify with: hex(HMAC-SHA256(secret, `${timestamp}.${rawBody}`)) === signature without "sha256=".
+export const signWebhookPayload = (secret: string, timestamp: string, body: string) =>
+  crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+export const generateWebhookSecret = () => crypto.randomBytes(24).toString("hex");
+
+// Webhook responses end up in the delivery log, so like any other user supplied URL they must not reach
+// the server's own network unless WEBHOOK_ALLOW_PRIVATE=1. Checked on save and again before every
+// attempt, since DNS can change in between.
+export const webhookTargetAllowed = async (url: string) => {
+  if (config.webhookAllowPrivate) return true;
+  try {
+    return await safeResolveHost(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// fetch() cannot be handed a lookup function, so deliveries go through http(s).request, which connects to
+// the address guardedLookup approved. Redirects are not followed so the signed payload only ever goes to
+// the configured URL.
+const postWebhook = (url: string, headers: Record<string, string>, body: string, signal: AbortSignal) =>
+  new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const u = new URL(url);
+    const request = u.protocol === "https:" ? https.request : http.request;
+    const req = request(
+      u,
+      {
+        method: "POST",
+        headers: { ...headers, "content-length": String(Buffer.byteLength(body)) },
+        signal,
+        lookup: config.webhookAllowPrivate ? undefined : guardedLookup,
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < RESPONSE_BODY_MAX) text += chunk;
+        });
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_MAX) }));
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+
+// Snapshot what subscribers need at the time of the event, so retries send the same thing even
+// if the row changes or disappears later.
+const buildEventData = (db: Db, event: AppEvent): unknown | null => {
+  switch (event.type) {
+    case "post.published":
+    case "post.updated": {
+      const post = getPostById(db, event.postId);
+      if (!post) return null;
+      return {
+        post: {
+          id: post.id,
+          slug: post.slug,
+          path: `/post/${encodeURIComponent(post.slug)}`,
+          title: post.title,
+          summary: post.summary,
+          contentMd: post.contentMd,
+          coverImage: post.coverImage,
+          status: post.status,
+          tags: post.tags,
+          categories: post.categories,
+          publishedAt: post.publishedAt,
+          updatedAt: post.updatedAt,
+        },
+      };
+    }
+    case "post.deleted":
+      return { post: { ...event.post, path: `/post/${encodeURIComponent(event.post.slug)}` } };
+    case "comment.created":
+    case "comment.approved": {
+      const c = getCommentForNotify(db, event.commentId);
+      if (!c) return null;
+      // Commenter email and IP stay private.
+      return {
+        comment: {
+          id: c.id,
+          parentId: c.parentId,
+          author: c.author,
+          contentMd: c.contentMd,
+          status: c.status,
+          isAdmin: c.isAdmin,
+          createdAt: c.createdAt,
+        },
+        post: { slug: c.postSlug, title: c.postTitle, path: `/post/${encodeURIComponent(c.postSlug)}` },
+      };
+    }
+    case "link_request.created": {
+      const r = getLinkRequestById(db, event.linkRequestId);
+      return r ? { linkRequest: r } : null;
+    }
+    case "upload.created":
+      return { files: event.files, replaced: event.replaced };
+    case "upload.deleted":
+      return { name: event.name, url: `/uploads/${event.name}` };
+  }
+};
+
+export const createWebhookDispatcher = (args: { db: Db; isPaused?: () => boolean }) => {
+  const { db } = args;
+
+  const enqueue = (webhookId: number, event: string, data: unknown) => {
+    const body = JSON.stringify({ id: crypto.randomUUID(), event, createdAt: new Date().toISOString(), data });
+    return createWebhookDelivery(db, { webhookId, event, payload: body });
+  };
+
+  const attempt = async (d: WebhookDelivery) => {
+    const hook = getWebhook(db, d.webhookId);
+    if (!hook) return;
+    const attempts = d.attempts + 1;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+      "user-agent": "YaBlog-Webhook/1.0",
+      "x-yablog-event": d.event,
+      "x-yablog-delivery": String(d.id),
+      "x-yablog-timestamp": timestamp,
+    };
+    if (hook.secret) headers["x-yablog-signature"] = `sha256=${signWebhookPayload(hook.secret, timestamp, d.payload)}`;
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      if (!(await webhookTargetAllowed(hook.url))) throw new Error("blocked_host");
+      const resp = await postWebhook(hook.url, headers, d.payload, controller.signal);
+      responseStatus = resp.status;
+      responseBody = resp.body;
+      if (resp.status < 200 || resp.status > 299) error = `HTTP ${resp.status}`;
+    } catch (e: any) {
+      error = String(e?.name === "AbortError" ? "timeout" : e?.code ?? e?.message ?? e);
+    } finally {
+      clearTimeout(t);
+    }
+
+    const ok = !error;
+    const retry = !ok && attempts < MAX_ATTEMPTS;
+    recordWebhookAttempt(db, {
+      id: d.id,
+      status: ok ? "success" : retry ? "pending" : "failed",
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      nextAttemptAt: retry ? new Date(Date.now() + RETRY_DELAYS_SEC[attempts - 1] * 1000).toISOString() : null,
+    });
+  };
+
+  let running: Promise<void> | null = null;
+
+  // Send everything that is due, one request at a time. Safe to call often; concurrent calls share one run.
+  const processDue = () => {
+    if (running || args.isPaused?.()) return running ?? Promise.resolve();
+    running = (async () => {
+      try {
+        for (;;) {
+          const due = listDueWebhookDeliveries(db);
+          if (!due.length) break;
+          for (const d of due) await attempt(d);
+        }
+      } catch (e: any) {
+        // eslint-disable-next-line no-console
+        console.warn("[yablog-api] webhook delivery failed", e?.message ?? e);
+      } finally {
+        running = null;
+      }
+    })();
+    return running;
+  };
+
+  const handle = (event: AppEvent) => {
+    try {
+      const hooks = listWebhooks(db).filter((h) => h.enabled && (!h.events.length || h.events.includes(event.type)));
+      if (!hooks.length) return;
+      const data = buildEventData(db, event);
+      if (data === null) return;
+      for (const h of hooks) enqueue(h.id, event.type, data);
+      void processDue();
+    } catch (e: any) {
+      // eslint-disable-next-line no-console
+      console.warn("[yablog-api] webhook enqueue failed", { event: event.type, error: String(e?.message ?? e) });
+    }
+  };
+
+  // "ping" is sent regardless of the event filter so a new endpoint can be checked right away.
+  const ping = async (webhookId: number) => {
+    const id = enqueue(webhookId, "ping", { message: "pong" });
+    await processDue();
+    return id;
+  };
+
+  const redeliver = async (deliveryId: number) => {
+    if (!requeueWebhookDelivery(db, deliveryId)) return false;
+    await processDue();
+    return true;
+  };
+
+  return { handle, processDue, ping, redeliver };
+};
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;
@@ -0,0 +1,252 @@
+import { XMLParser } from "fast-xml-parser";
+import slugify from "slugify";
+import TurndownService from "turndown";
+
+import type { ImportDraft } from "./markdownImport.js";
+
+// WordPress eXtended RSS (Tools -> Export) import. Parsing and HTML -> Markdown conversion only;
+// the route decides what gets written and downloads the media.
+
+export type WxrComment = {
+  id: string;
+  parentId: string | null;
+  author: string;
+  email: string | null;
+  ip: string | null;
+  contentMd: string;
+  createdAt: string | null;
+};
+
+export type WxrPost = {
+  wpId: string;
+  // Original permalink plus the `?p=<id>` form, both kept for redirects.
+  links: string[];
+  draft: ImportDraft;
+  comments: WxrComment[];
+  // Media on the old site referenced by the post (content and featured image).
+  mediaUrls: string[];
+};
+
+export type WxrArchive = {
+  siteUrl: string;
+  posts: WxrPost[];
+  // Pages, menus, trashed posts and other item types that are not imported.
+  skipped: number;
+};
+
+const asText = (v: unknown): string => {
+  if (v === undefined || v === null) return "";
+  if (typeof v === "object") return asText((v as Record<string, unknown>)["#text"]);
+  return String(v).trim();
+};
+
+const asArray = <T>(v: T | T[] | undefined): T[] => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+
+// WXR dates are "YYYY-MM-DD HH:MM:SS"; the *_gmt variants are UTC and all-zero for unpublished drafts.
+const wpDate = (gmt: unknown, local?: unknown) => {
+  for (const [v, suffix] of [
+    [asText(gmt), "Z"],
+    [asText(local), ""],
+  ] as const) {
+    if (!v || v.startsWith("0000")) continue;
+    const d = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(v) ? `${v.replace(" ", "T")}${suffix}` : v);
+    if (!Number.isNaN(d.getTime())) return d.toISOString();
+  }
+  return null;
+};
+
+const safeDecode = (s: string) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+};
+
+const toSlug = (s: string) => slugify(s, { lower: true, strict: true, trim: true });
+
+const BLOCK_TAG = /^<\/?(p|div|h[1-6]|ul|ol|li|table|thead|tbody|tr|blockquote|pre|figure|hr|iframe|dl|section|address)\b/i;
+
+// The classic editor stores paragraphs as blank-line separated text (wpautop adds the <p> on render);
+// Gutenberg stores real HTML wrapped in <!-- wp:... --> comments. Normalise both to plain HTML.
+const toHtml = (raw: string) => {
+  const pres: string[] = [];
+  let html = raw
+    .replace(/<!--\s*\/?wp:[\s\S]*?-->/g, "")
+    .replace(/\[caption[^\]]*\]([\s\S]*?)\[\/caption\]/g, "<figure>$1</figure>")
+    .replace(/\r\n/g, "\n")
+    .replace(/<pre[\s\S]*?<\/pre>/gi, (m) => `\u0000${pres.push(m) - 1}\u0000`);
+  html = html
+    .split(/\n\s*\n/)
+    .map((chunk) => {
+      const t = chunk.trim();
+      if (!t || t.startsWith("\u0000") || BLOCK_TAG.test(t)) return t;
+      return `<p>${t.replace(/\n/g, "<br>\n")}</p>`;
+    })
+    .join("\n");
+  return html.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => pres[Number(i)]);
+};
+
+const createTurndown = () => {
+  const td = new TurndownService({ headingStyle: "atx", codeBlockStyle: "fenced", bulletListMarker: "-", emDelimiter: "*" });
+  td.remove(["script", "style"]);
+  td.addRule("strikethrough", {
+    filter: ["del", "s", "strike"],
+    replacement: (content) => `~~${content}~~`,
+  });
+  // The post renderer does not allow raw HTML, so embeds become plain links.
+  td.addRule("iframe", {
+    filter: "iframe",
+    replacement: (_content, node) => {
+      const src = node.getAttribute("src");
+      return src ? `\n\n[${src}](${src})\n\n` : "";
+    },
+  });
+  // <pre> without an inner <code> (SyntaxHighlighter, Gutenberg "preformatted").
+  td.addRule("preformatted", {
+    filter: (node) => node.nodeName === "PRE" && !node.querySelector("code"),
+    replacement: (_content, node) => `\n\n\`\`\`\n${(node.textContent ?? "").replace(/\n$/, "")}\n\`\`\`\n\n`,
+  });
+  // GFM tables; the first row always becomes the header row.
+  td.addRule("tableCell", {
+    filter: ["th", "td"],
+    replacement: (content, node) => {
+      const text = content.trim().replace(/\n+/g, " ").replace(/\|/g, "\\|");
+      return `${node.previousElementSibling ? "" : "|"} ${text} |`;
+    },
+  });
+  td.addRule("tableRow", {
+    filter: "tr",
+    replacement: (content, node) => {
+      const isFirst = node.closest("table")?.querySelector("tr") === node;
+      if (!isFirst) return `\n${content}`;
+      const divider = Array.from(node.children)
+        .map(() => " --- |")
+        .join("");
+      return `\n${content}\n|${divider}`;
+    },
+  });
+  td.addRule("tableSection", {
+    filter: ["thead", "tbody", "tfoot"],
+    replacement: (content) => content,
+  });
+  td.addRule("table", {
+    filter: "table",
+    replacement: (content) => `\n\n${content.trim()}\n\n`,
+  });
+  return td;
+};
+
+export const htmlToMarkdown = (() => {
+  let td: TurndownService | null = null;
+  return (raw: string) => {
+    if (!raw.trim()) return "";
+    td ??= createTurndown();
+    return td.turndown(toHtml(raw)).trim();
+  };
+})();
+
+const IMAGE_EXT = /\.(png|jpe?g|gif|webp|avif|svg|bmp)$/i;
+
+// Absolute URLs in the converted Markdown that point at the old site's media library.
+const findMediaUrls = (markdown: string, known: Set<string>) => {
+  const out = new Set<string>();
+  for (const m of markdown.matchAll(/https?:\/\/[^\s)"'<>\]]+/g)) {
+    const url = m[0];
+    const pathname = url.split(/[?#]/)[0];
+    if (!IMAGE_EXT.test(pathname)) continue;
+    if (known.has(url) || pathname.includes("/wp-content/uploads/")) out.add(url);
+  }
+  return [...out];
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  // Slugs like "2024" and ids must stay strings.
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (name) => ["item", "category", "wp:postmeta", "wp:comment"].includes(name),
+});
+
+export const parseWxr = (xml: string): WxrArchive => {
+  const doc = parser.parse(xml) as any;
+  const channel = doc?.rss?.channel;
+  if (!channel || !asText(channel["wp:wxr_version"])) throw new Error("not_wxr");
+
+  const siteUrl = asText(channel["wp:base_blog_url"]) || asText(channel.link);
+  const items = asArray<any>(channel.item);
+
+  // Attachments are separate items; posts point at them through _thumbnail_id.
+  const attachments = new Map<string, string>();
+  for (const item of items) {
+    if (asText(item["wp:post_type"]) !== "attachment") continue;
+    const url = asText(item["wp:attachment_url"]);
+    if (url) attachments.set(asText(item["wp:post_id"]), url);
+  }
+  const knownMedia = new Set(attachments.values());
+
+  const posts: WxrPost[] = [];
+  let skipped = 0;
+  for (const item of items) {
+    const type = asText(item["wp:post_type"]);
+    if (type === "attachment") continue;
+    const status = asText(item["wp:status"]);
+    if (type !== "post" || status === "trash" || status === "auto-draft" || status === "inherit") {
+      skipped++;
+      continue;
+    }
+
+    const wpId = asText(item["wp:post_id"]);
+    const contentMd = htmlToMarkdown(asText(item["content:encoded"]));
+    const excerpt = htmlToMarkdown(asText(item["excerpt:encoded"]));
+    const meta = new Map(asArray<any>(item["wp:postmeta"]).map((m) => [asText(m["wp:meta_key"]), asText(m["wp:meta_value"])]));
+    const thumbnail = attachments.get(meta.get("_thumbnail_id") ?? "") ?? null;
+
+    const terms = (domain: string) =>
+      [...new Set(asArray<any>(item.category).filter((c) => c?.["@_domain"] === domain).map(asText).filter(Boolean))];
+
+    const title = asText(item.title);
+    const rawSlug = safeDecode(asText(item["wp:post_name"]));
+    const draft: ImportDraft = {
+      file: asText(item.link) || `?p=${wpId}`,
+      title: title || rawSlug || `post-${wpId}`,
+      // Non-latin post names slugify to nothing; the WordPress id keeps them unique and stable.
+      slug: toSlug(rawSlug || title) || `post-${wpId}`,
+      summary: excerpt || null,
+      contentMd,
+      coverImage: thumbnail,
+      // Pending review and private posts are not public on WordPress either.
+      draft: status !== "publish" && status !== "future",
+      featured: asText(item["wp:is_sticky"]) === "1",
+      publishedAt: wpDate(item["wp:post_date_gmt"], item["wp:post_date"]) ?? wpDate(undefined, item.pubDate),
+      updatedAt: wpDate(item["wp:post_modified_gmt"], item["wp:post_modified"]),
+      tags: terms("post_tag"),
+      categories: terms("category"),
+    };
+
+    const comments = asArray<any>(item["wp:comment"])
+      .filter((c) => asText(c["wp:comment_approved"]) === "1")
+      .filter((c) => ["", "comment"].includes(asText(c["wp:comment_type"])))
+      .map((c) => ({
+        id: asText(c["wp:comment_id"]),
+        parentId: ["", "0"].includes(asText(c["wp:comment_parent"])) ? null : asText(c["wp:comment_parent"]),
+        author: asText(c["wp:comment_author"]).slice(0, 64) || "匿名",
+        email: asText(c["wp:comment_author_email"]) || null,
+        ip: asText(c["wp:comment_author_IP"]) || null,
+        contentMd: htmlToMarkdown(asText(c["wp:comment_content"])),
+        createdAt: wpDate(c["wp:comment_date_gmt"], c["wp:comment_date"]),
+      }))
+      .filter((c) => c.contentMd)
+      // Parents always have lower ids, so creating in id order can resolve them.
+      .sort((a, b) => Number(a.id) - Number(b.id));
+
+    const links = [asText(item.link), wpId ? `/?p=${wpId}` : ""].filter(Boolean);
+    const mediaUrls = findMediaUrls(contentMd, knownMedia);
+    if (thumbnail && !mediaUrls.includes(thumbnail)) mediaUrls.push(thumbnail);
+
+    posts.push({ wpId, links, draft, comments, mediaUrls });
+  }
+
+  return { siteUrl, posts, skipped };
+};
@@ -1,3 +1,5 @@
+export type PostStatus = "draft" | "scheduled" | "published";
+
 export type Post = {
   id: number;
   title: string;
@@ -5,31 +7,90 @@ export type Post = {
   summary: string | null;
   contentMd: string;
   coverImage: string | null;
-  status: "draft" | "published";
+  status: PostStatus;
   featured: 0 | 1;
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
   publishedAt: string | null;
+  authorId: number | null;
+  authorName: string | null;
   tags: string[];
   categories: string[];
 };
 
-export type User = { userId: number; username: string };
+// List payloads that leave the Markdown body out.
+export type PostSummary = Omit<Post, "contentMd">;
+
+// Escaped HTML; the only markup is <mark> around the matched words.
+export type SearchHit = PostSummary & { titleHtml: string; snippetHtml: string };
+
+export type SearchSort = "relevance" | "newest";
+
+export type FacetCount = { value: string; count: number };
+
+// Counts for the current query with every other filter applied (a facet ignores its own selection).
+export type SearchFacets = { tags: FacetCount[]; categories: FacetCount[]; years: FacetCount[] };
+
+// Values within one facet are alternatives; different facets narrow each other. Dates are YYYY-MM-DD, inclusive.
+export type SearchSuggestions = { posts: { slug: string; title: string }[]; tags: FacetCount[]; categories: FacetCount[] };
+
+export type SearchFilters = { tag?: string[]; category?: string[]; from?: string; to?: string; sort?: SearchSort };
+
+export type UserRole = "admin" | "editor" | "author";
+
+export type User = { userId: number; username: string; displayName: string; role: UserRole };
+
+export type UserAdminRow = {
+  id: number;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  disabled: boolean;
+  totpEnabled: boolean;
+  hasPassword: boolean;
+  inviteExpiresAt: string | null;
+  postCount: number;
+  createdAt: string;
+};
+
+export type PasswordLink = { path: string; expiresAt: string };
+
+export type Session = {
+  id: string;
+  userId: number;
+  username: string;
+  displayName: string;
+  device: string;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
 
 export type Captcha = { id: string; question: string };
 
 export type Comment = {
   id: number;
   postId: number;
+  parentId: number | null;
   author: string;
   contentMd: string;
   status: "pending" | "approved";
+  isAdmin: boolean;
   createdAt: string;
   updatedAt: string;
 };
 
-export type CommentAdminRow = Comment & { postTitle: string; postSlug: string };
+export type CommentAdminRow = Comment & {
+  postTitle: string;
+  postSlug: string;
+  parentAuthor: string | null;
+  email: string | null;
+  notify: boolean;
+};
 
 export type Link = {
   id: number;
@@ -52,6 +113,22 @@ export type LinkRequest = {
   createdAt: string;
 };
 
+export type TaxonomyKind = "tag" | "category";
+
+// The header of a tag or category page.
+export type TaxonomyTermInfo = {
+  name: string;
+  slug: string | null;
+  description: string;
+  image: string | null;
+};
+
+export type TaxonomyTerm = TaxonomyTermInfo & { id: number; postCount: number };
+
+export type TaxonomyTermPayload = { name: string; description?: string; image?: string | null };
+
+const TAXONOMY_PATHS: Record<TaxonomyKind, string> = { tag: "tags", category: "categories" };
+
 export type SuspiciousIp = {
   ip: string;
   score: number;
@@ -65,6 +142,113 @@ export type IpBan = {
   createdAt: string;
 };
 
+export type ApiToken = {
+  id: number;
+  userId: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+};
+
+export type LoginAuditResult = "success" | "failed" | "locked" | "disabled" | "2fa_failed";
+
+export type LoginAuditEntry = {
+  id: number;
+  username: string;
+  userId: number | null;
+  ip: string;
+  userAgent: string;
+  result: LoginAuditResult;
+  createdAt: string;
+};
+
+export type ImportConflictMode = "skip" | "rename" | "overwrite";
+
+export type ImportReportItem = {
+  file: string;
+  title: string;
+  slug: string;
+  originalSlug: string;
+  status: PostStatus | null;
+  publishedAt: string | null;
+  tags: string[];
+  categories: string[];
+  action: "create" | "overwrite" | "skip" | "error";
+  conflict: { type: "existing"; postId: number; title: string } | { type: "duplicate"; file: string } | null;
+  images: { found: number; missing: string[] };
+  comments: number;
+  error: string | null;
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    create: number;
+    overwrite: number;
+    skip: number;
+    error: number;
+    conflicts: number;
+    imagesFound: number;
+    imagesMissing: number;
+    comments: number;
+    ignored: number;
+  };
+  items: ImportReportItem[];
+};
+
+export type Webhook = {
+  id: number;
+  name: string;
+  url: string;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookPayload = Pick<Webhook, "name" | "url" | "secret" | "events" | "enabled">;
+
+export type WebhookDelivery = {
+  id: number;
+  webhookId: number;
+  event: string;
+  payload: string;
+  status: "pending" | "success" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PostRevisionSummary = {
+  id: number;
+  postId: number;
+  title: string;
+  authorName: string;
+  reason: "create" | "update" | "restore" | "baseline" | "import" | "backup";
+  restoredFrom: number | null;
+  contentLength: number;
+  createdAt: string;
+};
+
+export type PostRevision = PostRevisionSummary & {
+  slug: string;
+  summary: string | null;
+  contentMd: string;
+  coverImage: string | null;
+  status: PostStatus;
+  tags: string[];
+  categories: string[];
+};
+
 export type ChatMessage = {
   role: "system" | "user" | "assistant";
   content: string;
@@ -95,6 +279,151 @@ export type CloudflareSettings = {
   zoneId: string;
 };
 
+export type MailSettings = {
+  enabled: boolean;
+  host: string;
+  port: number;
+  security: "tls" | "starttls" | "none";
+  username: string;
+  password: string;
+  from: string;
+  siteUrl: string;
+  adminEmail: string;
+  adminMode: "off" | "instant" | "digest";
+  digestMinutes: number;
+  notifyComments: boolean;
+  notifyLinkRequests: boolean;
+  notifyCommenters: boolean;
+};
+
+export type BackupSettings = {
+  enabled: boolean;
+  schedule: string;
+  dir: string;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+  leftoverDays: number;
+};
+
+export type BackupRun = {
+  id: number;
+  trigger: "schedule" | "manual";
+  status: "success" | "failed";
+  file: string | null;
+  size: number;
+  files: number;
+  verified: boolean;
+  pruned: number;
+  error: string | null;
+  remoteStatus: "uploaded" | "failed" | null;
+  remoteError: string | null;
+  startedAt: string;
+  finishedAt: string;
+};
+
+export type BackupFile = { name: string; size: number; createdAt: string };
+
+export type S3Settings = {
+  enabled: boolean;
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string;
+  forcePathStyle: boolean;
+  pruneRemote: boolean;
+};
+
+export type RemoteBackup = { key: string; size: number; lastModified: string };
+
+export type MergeSource = {
+  id: string;
+  kind: "db" | "full";
+  source: string;
+  backupCreatedAt: string | null;
+  posts: number;
+  expiresAt: string;
+};
+
+export type MergePostItem = {
+  id: number;
+  title: string;
+  slug: string;
+  status: PostStatus;
+  publishedAt: string | null;
+  updatedAt: string;
+  comments: number;
+  live: { id: number; title: string; updatedAt: string; identical: boolean } | null;
+};
+
+export type MergePostDetail = {
+  post: {
+    id: number;
+    title: string;
+    slug: string;
+    summary: string | null;
+    contentMd: string;
+    coverImage: string | null;
+    status: PostStatus;
+    publishedAt: string | null;
+    updatedAt: string;
+    tags: string[];
+    categories: { name: string; slug: string }[];
+  };
+  comments: { id: number; parentId: number | null; author: string; contentMd: string; status: "pending" | "approved"; createdAt: string }[];
+  live: { id: number; title: string; contentMd: string; updatedAt: string } | null;
+};
+
+export type MergeConflict = "overwrite" | "keep_both" | "skip";
+
+export type MergeResult = {
+  id: number;
+  title: string;
+  slug: string;
+  action: "create" | "overwrite" | "skip" | "error";
+  postId: number | null;
+  comments: number;
+  images: number;
+  error: string | null;
+};
+
+export type RestoreSummary = {
+  posts: number | null;
+  published: number | null;
+  drafts: number | null;
+  comments: number | null;
+  links: number | null;
+  users: number | null;
+  uploads: number | null;
+  newestPostAt: string | null;
+  lastUpdatedAt: string | null;
+  schemaVersion: number;
+};
+
+export type RestorePreview = {
+  id: string;
+  kind: "db" | "full";
+  source: string;
+  backupCreatedAt: string | null;
+  backup: RestoreSummary;
+  current: RestoreSummary;
+  schema: { missingTables: string[]; extraTables: string[] };
+  settings: { key: string; status: "added" | "removed" | "changed"; fields: string[] }[];
+  warnings: string[];
+};
+
+export type BackupHealth = {
+  status: "disabled" | "never" | "ok" | "stale" | "error";
+  dir: string;
+  nextRunAt: string | null;
+  lastRun: BackupRun | null;
+  lastSuccessAt: string | null;
+  files: BackupFile[];
+  disk: { free: number; total: number } | null;
+};
+
 export type SiteSettings = {
   nav: {
     brandText: string;
@@ -157,7 +486,7 @@ export type PostUpsertPayload = {
   slug?: string;
   summary?: string;
   coverImage?: string | null;
-  status?: "draft" | "published";
+  status?: PostStatus;
   featured?: boolean;
   sortOrder?: number;
   tags?: string[];
@@ -183,7 +512,9 @@ function buildUrl(path: string, params?: Record<string, unknown>) {
   const usp = new URLSearchParams();
   for (const [k, v] of Object.entries(params ?? {})) {
     if (v === undefined || v === null || v === "") continue;
-    usp.set(k, String(v));
+    // Arrays become repeated keys (?tag=a&tag=b).
+    if (Array.isArray(v)) v.forEach((item) => usp.append(k, String(item)));
+    else usp.set(k, String(v));
   }
   const qs = usp.toString();
   return qs ? `${path}?${qs}` : path;
@@ -231,6 +562,10 @@ async function json<T>(
       if (err === "invalid_url") throw new Error("URL 不合法");
       if (err === "rate_limited") throw new Error("请求过于频繁，请稍后再试");
       if (err === "ip_banned") throw new Error("你的 IP 已被封禁");
+      if (err === "login_locked") {
+        const minutes = Math.max(1, Math.ceil((Number(data?.retryAfterSec) || 900) / 60));
+        throw new Error(`登录失败次数过多，请 ${minutes} 分钟后再试`);
+      }
       if (err) throw new Error(err);
       throw new Error(`HTTP ${res.status}`);
     }
@@ -311,15 +646,18 @@ export function createApiClient(opts?: ApiClientOptions) {
     // Use POST to avoid aggressive CDN caching (e.g. Cloudflare "Cache Everything").
     captcha: () => j<Captcha>("/api/captcha", { method: "POST" }),
 
-    search: (args: { q: string; page?: number; limit?: number }) =>
+    search: (args: { q: string; page?: number; limit?: number } & SearchFilters) =>
       j<{
-        items: Post[];
+        items: SearchHit[];
         total: number;
         page: number;
         limit: number;
-        recommendations: Post[];
+        recommendations: PostSummary[];
+        facets: SearchFacets;
       }>(buildUrl("/api/search", args)),
 
+    searchSuggest: (q: string) => j<SearchSuggestions>(buildUrl("/api/search/suggest", { q })),
+
     listPosts: (args: {
     page?: number;
     limit?: number;
@@ -330,14 +668,22 @@ export function createApiClient(opts?: ApiClientOptions) {
     pinned?: boolean;
     }) => j<{ items: Post[]; total: number; page: number; limit: number }>(buildUrl("/api/posts", args)),
 
-    getPost: (slug: string) => j<{ post: Post }>(`/api/posts/${encodeURIComponent(slug)}`),
+    getPost: (slug: string) => j<{ post: Post; related: PostSummary[] }>(`/api/posts/${encodeURIComponent(slug)}`),
 
     listPostComments: (slug: string) =>
       j<{ items: Comment[]; total: number }>(`/api/posts/${encodeURIComponent(slug)}/comments`),
 
     createPostComment: (
     slug: string,
-    payload: { author: string; contentMd: string; captchaId: string; captchaAnswer: string },
+    payload: {
+      author: string;
+      contentMd: string;
+      parentId?: number | null;
+      email?: string;
+      notify?: boolean;
+      captchaId: string;
+      captchaAnswer: string;
+    },
   ) =>
       j<{ ok: true; id: number; status: "pending" }>(`/api/posts/${encodeURIComponent(slug)}/comments`, {
       method: "POST",
@@ -347,6 +693,10 @@ export function createApiClient(opts?: ApiClientOptions) {
 
     listTags: () => j<{ items: string[] }>("/api/tags"),
     listCategories: () => j<{ items: { name: string; slug: string }[] }>("/api/categories"),
+    getTerm: (kind: TaxonomyKind, name: string) =>
+      j<{ term: TaxonomyTermInfo | null; redirect: string | null }>(
+        `/api/${TAXONOMY_PATHS[kind]}/${encodeURIComponent(name)}`,
+      ),
 
     listLinks: () => j<{ items: Link[] }>("/api/links"),
     listLinkRequests: () => j<{ items: LinkRequest[] }>("/api/links/requests"),
@@ -366,7 +716,7 @@ export function createApiClient(opts?: ApiClientOptions) {
       }),
 
     login: (args: { username: string; password: string }) =>
-      j<{ ok: true; user: { id: number; username: string; createdAt: string } }>(
+      j<{ ok: true; user?: { id: number; username: string; createdAt: string }; twoFactorRequired?: boolean; ticket?: string }>(
       "/api/auth/login",
       {
         method: "POST",
@@ -375,8 +725,23 @@ export function createApiClient(opts?: ApiClientOptions) {
       },
     ),
 
+    loginTwoFactor: (args: { ticket: string; code: string }) =>
+      j<{ ok: true; usedRecoveryCode: boolean }>("/api/auth/login/2fa", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(args),
+      }),
+
     logout: () => j<{ ok: true }>("/api/auth/logout", { method: "POST" }),
     me: () => j<{ user: User }>("/api/auth/me"),
+    getInvite: (token: string) =>
+      j<{ username: string; displayName: string; isNew: boolean }>(`/api/auth/invite/${encodeURIComponent(token)}`),
+    acceptInvite: (token: string, password: string) =>
+      j<{ ok: true }>(`/api/auth/invite/${encodeURIComponent(token)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ password }),
+      }),
 
     site: () => j<{ site: SiteSettings }>("/api/site"),
     about: () => j<{ about: SiteSettings["about"]; heroImage: string }>("/api/about"),
@@ -391,14 +756,14 @@ export function createApiClient(opts?: ApiClientOptions) {
       j<{ items: Post[]; total: number; page: number; limit: number }>(buildUrl("/api/admin/posts", args)),
 
     adminCreatePost: (payload: PostUpsertPayload) =>
-      j<{ id: number; slug: string }>("/api/admin/posts", {
+      j<{ id: number; slug: string; status: PostStatus; publishedAt: string | null }>("/api/admin/posts", {
       method: "POST",
       headers: { "content-type": "application/json" },
       body: JSON.stringify(payload),
       }),
 
     adminUpdatePost: (id: number, payload: PostUpsertPayload) =>
-      j<{ ok: true; slug: string }>(`/api/admin/posts/${id}`, {
+      j<{ ok: true; slug: string; status: PostStatus; publishedAt: string | null }>(`/api/admin/posts/${id}`, {
       method: "PUT",
       headers: { "content-type": "application/json" },
       body: JSON.stringify(payload),
@@ -406,6 +771,17 @@ export function createApiClient(opts?: ApiClientOptions) {
 
     adminDeletePost: (id: number) => j<{ ok: true }>(`/api/admin/posts/${id}`, { method: "DELETE" }),
 
+    adminListPostRevisions: (id: number) =>
+      j<{ items: PostRevisionSummary[] }>(`/api/admin/posts/${id}/revisions`),
+
+    adminGetPostRevision: (id: number, revisionId: number) =>
+      j<{ revision: PostRevision }>(`/api/admin/posts/${id}/revisions/${revisionId}`),
+
+    adminRestorePostRevision: (id: number, revisionId: number) =>
+      j<{ ok: true; revisionId: number | null; post: Post | null }>(`/api/admin/posts/${id}/revisions/${revisionId}/restore`, {
+      method: "POST",
+      }),
+
     adminUpdateAccount: (payload: {
     currentPassword: string;
     newUsername?: string;
@@ -417,19 +793,193 @@ export function createApiClient(opts?: ApiClientOptions) {
       body: JSON.stringify(payload),
       }),
 
-    adminRestoreBackup: (file: File) => {
+    adminUpdateProfile: (payload: { displayName: string }) =>
+      j<{ ok: true; user: User }>("/api/admin/account/profile", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminGetTwoFactor: () => j<{ enabled: boolean; recoveryCodesLeft: number }>("/api/admin/account/2fa"),
+
+    adminSetupTwoFactor: (password: string) =>
+      j<{ secret: string; uri: string; qr: string }>("/api/admin/account/2fa/setup", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ password }),
+      }),
+
+    adminEnableTwoFactor: (code: string) =>
+      j<{ ok: true; recoveryCodes: string[] }>("/api/admin/account/2fa/enable", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ code }),
+      }),
+
+    adminDisableTwoFactor: (payload: { password: string; code: string }) =>
+      j<{ ok: true }>("/api/admin/account/2fa/disable", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminRegenerateRecoveryCodes: (code: string) =>
+      j<{ ok: true; recoveryCodes: string[] }>("/api/admin/account/2fa/recovery-codes", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ code }),
+      }),
+
+    adminListUsers: () => j<{ items: UserAdminRow[] }>("/api/admin/users"),
+
+    adminCreateUser: (payload: { username: string; displayName: string; role: UserRole }) =>
+      j<{ ok: true; id: number; link: PasswordLink }>("/api/admin/users", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminUpdateUser: (id: number, payload: { displayName: string; role: UserRole; disabled: boolean }) =>
+      j<{ ok: true }>(`/api/admin/users/${id}`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminResetUserPassword: (id: number, payload: { password?: string } = {}) =>
+      j<{ ok: true; link: PasswordLink | null }>(`/api/admin/users/${id}/reset-password`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminResetUserTwoFactor: (id: number) =>
+      j<{ ok: true }>(`/api/admin/users/${id}/2fa/reset`, { method: "POST" }),
+
+    adminRevokeUserSessions: (id: number) =>
+      j<{ ok: true; revoked: number }>(`/api/admin/users/${id}/sessions/revoke`, { method: "POST" }),
+
+    adminListMySessions: () => j<{ items: Session[] }>("/api/admin/account/sessions"),
+
+    adminRevokeMySession: (id: string) =>
+      j<{ ok: true }>(`/api/admin/account/sessions/${encodeURIComponent(id)}`, { method: "DELETE" }),
+
+    adminRevokeOtherSessions: () =>
+      j<{ ok: true; revoked: number }>("/api/admin/account/sessions/revoke-others", { method: "POST" }),
+
+    adminListApiTokens: () => j<{ items: ApiToken[]; scopes: string[] }>("/api/admin/account/tokens"),
+
+    adminCreateApiToken: (payload: { name: string; scopes: string[]; expiresInDays: number | null }) =>
+      j<{ ok: true; id: number; token: string }>("/api/admin/account/tokens", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminDeleteApiToken: (id: number) =>
+      j<{ ok: true }>(`/api/admin/account/tokens/${id}`, { method: "DELETE" }),
+
+    adminListSessions: () => j<{ items: Session[] }>("/api/admin/sessions"),
+
+    adminRevokeSession: (id: string) =>
+      j<{ ok: true }>(`/api/admin/sessions/${encodeURIComponent(id)}`, { method: "DELETE" }),
+
+    adminGetRestorePreview: () => j<{ preview: RestorePreview | null }>("/api/admin/restore/preview"),
+    adminPreviewRestore: (file: File, kind?: "db" | "full") => {
+    const fd = new FormData();
+    fd.append("file", file);
+    if (kind) fd.append("kind", kind);
+      return j<{ preview: RestorePreview; expiresAt: string }>("/api/admin/restore/preview", {
+      method: "POST",
+      body: fd,
+    });
+  },
+    adminPreviewRemoteRestore: (key: string) =>
+      j<{ preview: RestorePreview; expiresAt: string }>("/api/admin/restore/remote/preview", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ key }),
+      }),
+    adminConfirmRestore: (id: string) =>
+      j<{ ok: true; restarting: boolean }>("/api/admin/restore/confirm", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id }),
+      }),
+    adminCancelRestore: (id: string) =>
+      j<{ ok: true }>(`/api/admin/restore/preview/${encodeURIComponent(id)}`, { method: "DELETE" }),
+
+    adminGetMergeSource: () => j<{ source: MergeSource | null }>("/api/admin/restore/merge"),
+    adminOpenMergeSource: (file: File) => {
+    const fd = new FormData();
+    fd.append("file", file);
+      return j<{ source: MergeSource }>("/api/admin/restore/merge", {
+      method: "POST",
+      body: fd,
+    });
+  },
+    adminCloseMergeSource: (id: string) =>
+      j<{ ok: true }>(`/api/admin/restore/merge/${encodeURIComponent(id)}`, { method: "DELETE" }),
+    adminListMergePosts: (id: string, args: { q?: string; page?: number }) =>
+      j<{ items: MergePostItem[]; total: number; page: number; pageSize: number }>(
+        buildUrl(`/api/admin/restore/merge/${encodeURIComponent(id)}/posts`, args),
+      ),
+    adminGetMergePost: (id: string, postId: number) =>
+      j<MergePostDetail>(`/api/admin/restore/merge/${encodeURIComponent(id)}/posts/${postId}`),
+    adminApplyMerge: (id: string, body: { items: number[]; comments: boolean; onConflict: MergeConflict }) =>
+      j<{ items: MergeResult[] }>(`/api/admin/restore/merge/${encodeURIComponent(id)}/apply`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+      }),
+
+    adminGetBackupSchedule: () =>
+      j<{ backup: BackupSettings; health: BackupHealth; runs: BackupRun[] }>("/api/admin/backup/schedule"),
+    adminUpdateBackupSchedule: (backup: BackupSettings) =>
+      j<{ ok: true; health: BackupHealth }>("/api/admin/backup/schedule", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ backup }),
+      }),
+    adminGetS3: () => j<{ s3: S3Settings }>("/api/admin/backup/s3"),
+    adminUpdateS3: (s3: S3Settings) =>
+      j<{ ok: true }>("/api/admin/backup/s3", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ s3 }),
+      }),
+    adminTestS3: (s3: S3Settings) =>
+      j<{ ok: true }>("/api/admin/backup/s3/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ s3 }),
+      }),
+    adminListRemoteBackups: () => j<{ items: RemoteBackup[] }>("/api/admin/restore/remote"),
+    adminRunBackupNow: () => j<{ run: BackupRun; health: BackupHealth }>("/api/admin/backup/schedule/run", { method: "POST" }),
+    adminVerifyLocalBackup: (name: string) =>
+      j<{ ok: true; files: number; createdAt: string } | { ok: false; error: string }>(
+        `/api/admin/backup/local/${encodeURIComponent(name)}/verify`,
+        { method: "POST" },
+      ),
+
+    adminImportMarkdown: (file: File, opts: { dryRun: boolean; onConflict: ImportConflictMode }) => {
     const fd = new FormData();
+    fd.append("dryRun", opts.dryRun ? "1" : "0");
+    fd.append("onConflict", opts.onConflict);
     fd.append("file", file);
-      return j<{ ok: true; restarting: boolean }>("/api/admin/restore", {
+      return j<ImportReport>("/api/admin/import/markdown", {
       method: "POST",
       body: fd,
     });
   },
 
-    adminRestoreFullBackup: (file: File) => {
+    adminImportWordPress: (file: File, opts: { dryRun: boolean; onConflict: ImportConflictMode; downloadMedia: boolean }) => {
     const fd = new FormData();
+    fd.append("dryRun", opts.dryRun ? "1" : "0");
+    fd.append("onConflict", opts.onConflict);
+    fd.append("downloadMedia", opts.downloadMedia ? "1" : "0");
     fd.append("file", file);
-      return j<{ ok: true; restarting: boolean }>("/api/admin/restore/full", {
+      return j<ImportReport>("/api/admin/import/wordpress", {
       method: "POST",
       body: fd,
     });
@@ -460,6 +1010,20 @@ export function createApiClient(opts?: ApiClientOptions) {
       }),
     adminCloudflarePurge: () => j<{ ok: true }>("/api/admin/cloudflare/purge", { method: "POST" }),
 
+    adminGetMail: () => j<{ mail: MailSettings }>("/api/admin/mail"),
+    adminUpdateMail: (mail: MailSettings) =>
+      j<{ ok: true }>("/api/admin/mail", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ mail }),
+      }),
+    adminTestMail: (to?: string) =>
+      j<{ ok: true }>("/api/admin/mail/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ to: to || undefined }),
+      }),
+
     adminUploadImage: (file: File, opts?: { replace?: string; onProgress?: (p: { loaded: number; total: number; percent: number }) => void }) => {
     const fd = new FormData();
     fd.append("file", file);
@@ -513,6 +1077,13 @@ export function createApiClient(opts?: ApiClientOptions) {
 
     adminDeleteComment: (id: number) => j<{ ok: true }>(`/api/admin/comments/${id}`, { method: "DELETE" }),
 
+    adminReplyComment: (id: number, payload: { contentMd: string; author?: string }) =>
+      j<{ ok: true; id: number }>(`/api/admin/comments/${id}/reply`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
     adminListLinks: () => j<{ items: Link[] }>("/api/admin/links"),
 
     adminCreateLink: (payload: { title: string; url: string; description?: string; iconUrl?: string; sortOrder?: number }) =>
@@ -534,6 +1105,32 @@ export function createApiClient(opts?: ApiClientOptions) {
 
     adminDeleteLink: (id: number) => j<{ ok: true }>(`/api/admin/links/${id}`, { method: "DELETE" }),
 
+    adminListTerms: (kind: TaxonomyKind) => j<{ items: TaxonomyTerm[] }>(`/api/admin/taxonomy/${TAXONOMY_PATHS[kind]}`),
+
+    adminCreateTerm: (kind: TaxonomyKind, payload: TaxonomyTermPayload) =>
+      j<{ ok: true; term: TaxonomyTerm }>(`/api/admin/taxonomy/${TAXONOMY_PATHS[kind]}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminUpdateTerm: (kind: TaxonomyKind, id: number, payload: TaxonomyTermPayload) =>
+      j<{ ok: true; term: TaxonomyTerm }>(`/api/admin/taxonomy/${TAXONOMY_PATHS[kind]}/${id}`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminMergeTerm: (kind: TaxonomyKind, id: number, into: number) =>
+      j<{ ok: true; term: TaxonomyTerm }>(`/api/admin/taxonomy/${TAXONOMY_PATHS[kind]}/${id}/merge`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ into }),
+      }),
+
+    adminDeleteTerm: (kind: TaxonomyKind, id: number) =>
+      j<{ ok: true }>(`/api/admin/taxonomy/${TAXONOMY_PATHS[kind]}/${id}`, { method: "DELETE" }),
+
     adminListLinkRequests: (args: { status?: "pending" | "approved" }) =>
       j<{ items: LinkRequest[] }>(buildUrl("/api/admin/link-requests", { status: args.status })),
 
@@ -555,6 +1152,18 @@ export function createApiClient(opts?: ApiClientOptions) {
 
     adminListIpBans: () => j<{ items: IpBan[] }>("/api/admin/security/bans"),
 
+    adminListLoginAudit: (args?: { limit?: number; result?: LoginAuditResult; q?: string }) =>
+      j<{ items: LoginAuditEntry[] }>(
+        buildUrl("/api/admin/security/logins", { limit: args?.limit, result: args?.result, q: args?.q }),
+      ),
+
+    adminUnlockLogin: (payload: { username?: string; ip?: string }) =>
+      j<{ ok: true }>("/api/admin/security/logins/unlock", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
     adminBanIps: (payload: { ips: string[]; reason?: string }) =>
       j<{ ok: true; added: number; invalid: string[] }>("/api/admin/security/bans", {
       method: "POST",
@@ -568,6 +1177,38 @@ export function createApiClient(opts?: ApiClientOptions) {
       headers: { "content-type": "application/json" },
       body: JSON.stringify(payload),
       }),
+
+    adminListWebhooks: () => j<{ items: Webhook[]; events: string[] }>("/api/admin/webhooks"),
+
+    adminCreateWebhook: (payload: WebhookPayload) =>
+      j<{ ok: true; webhook: Webhook }>("/api/admin/webhooks", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminUpdateWebhook: (id: number, payload: WebhookPayload) =>
+      j<{ ok: true; webhook: Webhook }>(`/api/admin/webhooks/${id}`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      }),
+
+    adminDeleteWebhook: (id: number) => j<{ ok: true }>(`/api/admin/webhooks/${id}`, { method: "DELETE" }),
+
+    adminPingWebhook: (id: number) =>
+      j<{ ok: true; delivery: WebhookDelivery | null }>(`/api/admin/webhooks/${id}/ping`, { method: "POST" }),
+
+    adminListWebhookDeliveries: (args?: { webhookId?: number; limit?: number }) =>
+      j<{ items: WebhookDelivery[] }>(buildUrl("/api/admin/webhooks/deliveries", {
+        webhookId: args?.webhookId,
+        limit: args?.limit,
+      })),
+
+    adminRedeliverWebhook: (deliveryId: number) =>
+      j<{ ok: true; delivery: WebhookDelivery | null }>(`/api/admin/webhooks/deliveries/${deliveryId}/redeliver`, {
+      method: "POST",
+      }),
   };
 }
 
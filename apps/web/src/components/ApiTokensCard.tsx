@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { api, type ApiToken } from "../api";
+
+const RESOURCE_LABELS: Record<string, string> = {
+  posts: "文章",
+  uploads: "图片上传/图库",
+  comments: "评论",
+  links: "友链",
+  backup: "备份与恢复",
+  settings: "站点设置与 Webhook",
+  security: "安全中心",
+};
+
+const scopeLabel = (scope: string) => {
+  const [resource, access] = scope.split(":");
+  return `${RESOURCE_LABELS[resource] ?? resource}${access === "write" ? "（写）" : "（读）"}`;
+};
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "30 天", days: 30 },
+  { label: "90 天", days: 90 },
+  { label: "1 年", days: 365 },
+  { label: "永不过期", days: null },
+];
+
+export function ApiTokensCard() {
+  const [items, setItems] = useState<ApiToken[] | null>(null);
+  const [available, setAvailable] = useState<string[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Set<string>>(() => new Set());
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  // The plain token is only returned once, right after creation.
+  const [created, setCreated] = useState<{ name: string; token: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await api.adminListApiTokens();
+      setItems(res.items);
+      setAvailable(res.scopes);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const toggleScope = (scope: string) =>
+    setScopes((prev) => {
+      const next = new Set(prev);
+      if (next.has(scope)) next.delete(scope);
+      else next.add(scope);
+      return next;
+    });
+
+  const create = async () => {
+    if (!name.trim()) return setErr("请输入令牌名称");
+    if (!scopes.size) return setErr("请至少选择一个权限");
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await api.adminCreateApiToken({ name: name.trim(), scopes: Array.from(scopes), expiresInDays });
+      setCreated({ name: name.trim(), token: res.token });
+      setName("");
+      setScopes(new Set());
+      await refresh();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (t: ApiToken) => {
+    if (!confirm(`确定吊销令牌「${t.name}」吗？使用它的脚本将立即失效。`)) return;
+    setErr(null);
+    setBusy(true);
+    try {
+      await api.adminDeleteApiToken(t.id);
+      await refresh();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>API 令牌</div>
+      <div className="muted" style={{ marginBottom: 14 }}>
+        供发布脚本、CI 调用后台 API：请求头带 <code>Authorization: Bearer &lt;令牌&gt;</code>。令牌权限不会超过当前账号的角色，且不能管理账号、用户或令牌。
+      </div>
+
+      {created ? (
+        <div className="card" style={{ padding: 16, marginBottom: 14, display: "grid", gap: 8, borderColor: "var(--accent)" }}>
+          <div>令牌「{created.name}」已创建，请立即复制保存（仅显示一次）：</div>
+          <input readOnly value={created.token} onFocus={(e) => e.currentTarget.select()} />
+          <div style={{ display: "flex", gap: 10 }}>
+            <button className="btn-ghost" onClick={() => void navigator.clipboard?.writeText(created.token)}>复制</button>
+            <button className="btn-ghost" onClick={() => setCreated(null)}>我已保存</button>
+          </div>
+        </div>
+      ) : null}
+
+      <div style={{ display: "grid", gap: 10, marginBottom: 18 }}>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="名称，如 publish-script" style={{ flex: 1, minWidth: 180 }} />
+          <select
+            value={expiresInDays === null ? "" : String(expiresInDays)}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            style={{ width: 140 }}
+          >
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.label} value={o.days === null ? "" : String(o.days)}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+          {available.map((scope) => (
+            <label key={scope} className="chkWrap">
+              <input type="checkbox" checked={scopes.has(scope)} onChange={() => toggleScope(scope)} />
+              <span className="muted" title={scope}>{scopeLabel(scope)}</span>
+            </label>
+          ))}
+        </div>
+        <div>
+          <button className="btn-primary" onClick={create} disabled={busy}>创建令牌</button>
+        </div>
+      </div>
+
+      {!items ? (
+        <div className="muted">加载中…</div>
+      ) : items.length === 0 ? (
+        <div className="muted">还没有 API 令牌</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {items.map((t) => {
+            const expired = Boolean(t.expiresAt && Date.parse(t.expiresAt) <= Date.now());
+            return (
+              <div key={t.id} className="card" style={{ padding: 14, display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={{ flex: 1, minWidth: 220, display: "grid", gap: 4 }}>
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                    <b>{t.name}</b>
+                    <code className="muted">{t.prefix}…</code>
+                    {expired ? <span className="pill" style={{ color: "red" }}>已过期</span> : null}
+                  </div>
+                  <div className="muted" style={{ fontSize: 12 }}>{t.scopes.map(scopeLabel).join("、")}</div>
+                  <div className="muted" style={{ fontSize: 12 }}>
+                    创建于 {shortTime(t.createdAt)} · {t.lastUsedAt ? `最近使用 ${shortTime(t.lastUsedAt)}` : "从未使用"} ·{" "}
+                    {t.expiresAt ? `${expired ? "已于" : "有效至"} ${shortTime(t.expiresAt)}` : "永不过期"}
+                  </div>
+                </div>
+                <button className="btn-ghost" onClick={() => revoke(t)} disabled={busy}>吊销</button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {err ? <div style={{ marginTop: 12, color: "red" }}>{err}</div> : null}
+    </div>
+  );
+}
+
+function shortTime(iso: string) {
+  return new Date(iso).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+
+import { api, type BackupHealth, type BackupRun, type BackupSettings } from "../api";
+
+const errorText = (raw: string) => {
+  if (raw.includes("invalid_schedule")) return "定时规则无效，请使用 5 段 cron 表达式，例如 0 3 * * *";
+  if (raw.includes("invalid_backup_dir")) return "备份目录不能位于图片库（uploads）中";
+  if (raw.includes("busy")) return "已有备份或恢复任务在进行，请稍后再试";
+  return raw;
+};
+
+const HEALTH_LABELS: Record<BackupHealth["status"], { text: string; color: string }> = {
+  disabled: { text: "未启用", color: "var(--muted)" },
+  never: { text: "尚未执行", color: "#d97706" },
+  ok: { text: "正常", color: "green" },
+  stale: { text: "已错过计划时间", color: "#d97706" },
+  error: { text: "最近一次失败", color: "red" },
+};
+
+const SCHEDULE_PRESETS = [
+  { value: "0 3 * * *", label: "每天 03:00" },
+  { value: "0 */6 * * *", label: "每 6 小时" },
+  { value: "0 3 * * 1", label: "每周一 03:00" },
+];
+
+const checkboxRow = { display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" } as const;
+
+export function BackupScheduleCard() {
+  const [draft, setDraft] = useState<BackupSettings | null>(null);
+  const [health, setHealth] = useState<BackupHealth | null>(null);
+  const [runs, setRuns] = useState<BackupRun[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [verified, setVerified] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    const res = await api.adminGetBackupSchedule();
+    setDraft(res.backup);
+    setHealth(res.health);
+    setRuns(res.runs);
+  };
+
+  useEffect(() => {
+    void load().catch(() => {
+      // ignore
+    });
+  }, []);
+
+  const act = async (fn: () => Promise<string>) => {
+    setErr(null);
+    setMsg(null);
+    setBusy(true);
+    try {
+      setMsg(await fn());
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () =>
+    act(async () => {
+      if (!draft) return "";
+      await api.adminUpdateBackupSchedule(draft);
+      await load();
+      return "定时备份设置已保存";
+    });
+
+  const runNow = () =>
+    act(async () => {
+      const res = await api.adminRunBackupNow();
+      await load();
+      if (res.run.status === "failed") throw new Error(`备份失败：${res.run.error ?? "未知错误"}`);
+      return `备份完成：${res.run.file}`;
+    });
+
+  const verify = async (name: string) => {
+    setVerified((v) => ({ ...v, [name]: "校验中…" }));
+    try {
+      const res = await api.adminVerifyLocalBackup(name);
+      setVerified((v) => ({ ...v, [name]: res.ok ? `校验通过（${res.files} 个文件）` : `校验失败：${res.error}` }));
+    } catch (e: any) {
+      setVerified((v) => ({ ...v, [name]: `校验失败：${e?.message ?? String(e)}` }));
+    }
+  };
+
+  const num = (key: "keepDaily" | "keepWeekly" | "keepMonthly" | "leftoverDays", label: string, title: string) =>
+    draft ? (
+      <label style={{ display: "grid", gap: 6 }}>
+        <span className="muted">{label}</span>
+        <input
+          type="number"
+          min={0}
+          value={draft[key]}
+          onChange={(e) => setDraft({ ...draft, [key]: Math.max(0, Number(e.target.value) || 0) })}
+          title={title}
+        />
+      </label>
+    ) : null;
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>定时备份</div>
+      {!draft || !health ? (
+        <div className="muted">加载备份设置中…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 16 }}>
+          <div className="card" style={{ padding: 14 }}>
+            <b style={{ color: HEALTH_LABELS[health.status].color }}>{HEALTH_LABELS[health.status].text}</b>
+            <div className="muted" style={{ marginTop: 6, display: "grid", gap: 4 }}>
+              <div>
+                上次成功：{health.lastSuccessAt ? shortTime(health.lastSuccessAt) : "—"} · 下次执行：
+                {health.nextRunAt ? shortTime(health.nextRunAt) : "—"}
+              </div>
+              {health.lastRun?.status === "failed" ? (
+                <div style={{ color: "red" }}>最近错误：{health.lastRun.error}</div>
+              ) : null}
+              {health.lastRun?.remoteStatus === "failed" ? (
+                <div style={{ color: "red" }}>S3 上传失败：{health.lastRun.remoteError}</div>
+              ) : null}
+              <div>
+                目录 <code>{health.dir}</code> · 保留 {health.files.length} 份，共{" "}
+                {prettyBytes(health.files.reduce((sum, f) => sum + f.size, 0))}
+                {health.disk ? ` · 磁盘剩余 ${prettyBytes(health.disk.free)} / ${prettyBytes(health.disk.total)}` : ""}
+              </div>
+            </div>
+          </div>
+
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>启用定时全量备份（数据库 + 图片库，写入后自动校验哈希）</span>
+          </label>
+
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
+            <input
+              value={draft.schedule}
+              onChange={(e) => setDraft({ ...draft, schedule: e.target.value })}
+              placeholder="cron 表达式：分 时 日 月 周，例如 0 3 * * *"
+              title="服务器本地时间"
+            />
+            <select
+              value={SCHEDULE_PRESETS.some((p) => p.value === draft.schedule) ? draft.schedule : ""}
+              onChange={(e) => e.target.value && setDraft({ ...draft, schedule: e.target.value })}
+            >
+              <option value="">自定义</option>
+              {SCHEDULE_PRESETS.map((p) => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            value={draft.dir}
+            onChange={(e) => setDraft({ ...draft, dir: e.target.value })}
+            placeholder="备份目录（留空 = 数据目录下的 backups；相对路径基于数据目录）"
+          />
+
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "repeat(4, 1fr)" }}>
+            {num("keepDaily", "保留每日", "最近 N 天，每天保留最新的一份")}
+            {num("keepWeekly", "保留每周", "最近 N 周，每周保留最新的一份")}
+            {num("keepMonthly", "保留每月", "最近 N 个月，每月保留最新的一份")}
+            {num("leftoverDays", "恢复残留（天）", "恢复与升级时留下的 yablog.pre-restore / yablog.pre-migrate / yablog.replaced / uploads.replaced 超过 N 天后删除；0 = 不删除")}
+          </div>
+          <div className="muted">
+            最新的一份始终保留；恢复残留（恢复前的安全副本）仅在一次备份成功并校验通过后才清理。
+          </div>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn-primary" onClick={save} disabled={busy}>
+              {busy ? "处理中…" : "保存定时备份设置"}
+            </button>
+            <button className="btn-ghost" onClick={runNow} disabled={busy}>
+              立即备份
+            </button>
+            {msg ? <span style={{ color: "green" }}>{msg}</span> : null}
+            {err ? <span style={{ color: "red" }}>{err}</span> : null}
+          </div>
+
+          {health.files.length ? (
+            <div>
+              <div className="widget-title">本地备份</div>
+              <div style={{ display: "grid", gap: 8 }}>
+                {health.files.map((f) => (
+                  <div key={f.name} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <code style={{ wordBreak: "break-all" }}>{f.name}</code>
+                    <span className="muted">{prettyBytes(f.size)}</span>
+                    <a className="btn-ghost" href={`/api/admin/backup/local/${encodeURIComponent(f.name)}`}>下载</a>
+                    <button className="btn-ghost" onClick={() => verify(f.name)}>校验</button>
+                    {verified[f.name] ? <span className="muted">{verified[f.name]}</span> : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {runs.length ? (
+            <div>
+              <div className="widget-title">执行记录</div>
+              <div style={{ display: "grid", gap: 6 }}>
+                {runs.slice(0, 20).map((r) => (
+                  <div key={r.id} style={{ display: "flex", gap: 10, flexWrap: "wrap", fontSize: 13 }}>
+                    <span className="muted">{shortTime(r.startedAt)}</span>
+                    <span>{r.trigger === "manual" ? "手动" : "定时"}</span>
+                    {r.status === "success" ? (
+                      <span style={{ color: "green" }}>
+                        成功 · {prettyBytes(r.size)} · {r.files} 个文件{r.pruned ? ` · 清理旧备份 ${r.pruned} 份` : ""}
+                      </span>
+                    ) : (
+                      <span style={{ color: "red" }}>失败：{r.error}</span>
+                    )}
+                    {r.remoteStatus === "uploaded" ? <span className="muted">已上传 S3</span> : null}
+                    {r.remoteStatus === "failed" ? <span style={{ color: "red" }}>S3 上传失败：{r.remoteError}</span> : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function shortTime(iso: string) {
+  return new Date(iso).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+function prettyBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let n = bytes;
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i += 1;
+  }
+  return `${n.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+
+import { api, type ImportConflictMode, type ImportReport, type ImportReportItem } from "../api";
+
+type ImportSource = "markdown" | "wordpress";
+
+const SOURCES: Record<ImportSource, { label: string; accept: string; hint: string }> = {
+  markdown: {
+    label: "Markdown 压缩包",
+    accept: ".zip,.tar,.tgz,.gz",
+    hint: "上传 Hexo / Hugo / Jekyll 的文章目录压缩包（.zip / .tar / .tar.gz），读取 YAML 或 TOML front matter，文中引用的本地图片会一并上传到图库。",
+  },
+  wordpress: {
+    label: "WordPress (WXR)",
+    accept: ".xml",
+    hint: "上传 WordPress「工具 → 导出」生成的 .xml 文件：文章正文转换为 Markdown，已批准的评论一并导入，图片附件下载到图库，原文章链接自动 301 跳转到新地址。",
+  },
+};
+
+const ERROR_LABELS: Record<string, string> = {
+  unsupported_archive: "仅支持 .zip / .tar / .tar.gz 压缩包",
+  invalid_archive: "压缩包损坏或无法解压",
+  no_markdown_files: "压缩包中没有找到 Markdown 文章",
+  unsupported_file: "请上传 WordPress 导出的 .xml 文件",
+  invalid_wxr: "不是有效的 WordPress 导出文件（WXR）",
+  no_posts: "导出文件中没有文章",
+};
+
+const ACTION_LABELS: Record<ImportReportItem["action"], string> = {
+  create: "新建",
+  overwrite: "覆盖",
+  skip: "跳过",
+  error: "错误",
+};
+
+const CONFLICT_OPTIONS: { value: ImportConflictMode; label: string }[] = [
+  { value: "skip", label: "跳过已存在的文章" },
+  { value: "rename", label: "重命名 slug 后导入" },
+  { value: "overwrite", label: "覆盖已存在的文章" },
+];
+
+// Static-site archives or a WordPress export -> YabLog posts. The file is checked first (dry run), then uploaded again to import.
+export function ImportPanel() {
+  const [source, setSource] = useState<ImportSource>("markdown");
+  const [file, setFile] = useState<File | null>(null);
+  const [onConflict, setOnConflict] = useState<ImportConflictMode>("skip");
+  const [downloadMedia, setDownloadMedia] = useState(true);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const run = async (dryRun: boolean) => {
+    if (!file) return setErr("请先选择文件");
+    setErr(null);
+    setBusy(true);
+    try {
+      setReport(
+        source === "wordpress"
+          ? await api.adminImportWordPress(file, { dryRun, onConflict, downloadMedia })
+          : await api.adminImportMarkdown(file, { dryRun, onConflict }),
+      );
+    } catch (e: any) {
+      const msg = e?.message ?? String(e);
+      setErr(ERROR_LABELS[msg] ?? msg);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmImport = () => {
+    if (!report) return;
+    const { create, overwrite } = report.summary;
+    if (!confirm(`将新建 ${create} 篇、覆盖 ${overwrite} 篇文章，确定导入吗？`)) return;
+    void run(false);
+  };
+
+  // Any change invalidates the previous report; the import must be re-checked first.
+  const reset = () => {
+    setReport(null);
+    setErr(null);
+  };
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>导入文章</div>
+
+      <div style={{ display: "flex", gap: 10, marginBottom: 14 }}>
+        {(Object.keys(SOURCES) as ImportSource[]).map((key) => (
+          <button
+            key={key}
+            className={source === key ? "btn-primary" : "btn-ghost"}
+            onClick={() => {
+              setSource(key);
+              setFile(null);
+              reset();
+            }}
+            disabled={busy}
+          >
+            {SOURCES[key].label}
+          </button>
+        ))}
+      </div>
+      <div className="muted" style={{ marginBottom: 14 }}>
+        {SOURCES[source].hint}先检查生成导入报告，确认无误后再正式导入。
+      </div>
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", marginBottom: 18 }}>
+        <input
+          key={source}
+          type="file"
+          accept={SOURCES[source].accept}
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            reset();
+          }}
+          style={{ flex: 1, minWidth: 220 }}
+        />
+        <select
+          value={onConflict}
+          onChange={(e) => {
+            setOnConflict(e.target.value as ImportConflictMode);
+            reset();
+          }}
+          style={{ width: 200 }}
+        >
+          {CONFLICT_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+        {source === "wordpress" ? (
+          <label className="chkWrap">
+            <input
+              type="checkbox"
+              checked={downloadMedia}
+              onChange={(e) => {
+                setDownloadMedia(e.target.checked);
+                reset();
+              }}
+            />
+            <span className="muted">下载图片到图库</span>
+          </label>
+        ) : null}
+        <button className="btn-ghost" onClick={() => run(true)} disabled={busy || !file}>
+          {busy && !report ? "检查中…" : "检查"}
+        </button>
+        {report?.dryRun ? (
+          <button className="btn-primary" onClick={confirmImport} disabled={busy || report.summary.create + report.summary.overwrite === 0}>
+            {busy ? "导入中…" : "确认导入"}
+          </button>
+        ) : null}
+      </div>
+
+      {err ? <div style={{ marginBottom: 12, color: "red" }}>{err}</div> : null}
+
+      {report ? (
+        <div style={{ display: "grid", gap: 12 }}>
+          <div className="card" style={{ padding: 14, borderColor: report.dryRun ? undefined : "var(--accent)" }}>
+            <b>{report.dryRun ? "导入预览（尚未写入）" : "导入完成"}</b>
+            <div className="muted" style={{ marginTop: 6 }}>
+              共 {report.summary.total} 篇：{report.dryRun ? "将新建" : "已新建"} {report.summary.create} · 覆盖 {report.summary.overwrite} · 跳过{" "}
+              {report.summary.skip} · 错误 {report.summary.error} · 冲突 {report.summary.conflicts} · 图片 {report.summary.imagesFound}
+              {report.summary.imagesMissing ? `（缺失 ${report.summary.imagesMissing}）` : ""}
+              {source === "wordpress" ? ` · 评论 ${report.summary.comments}` : ""}
+              {report.summary.ignored ? ` · 忽略非文章条目 ${report.summary.ignored}（页面、菜单等）` : ""}
+            </div>
+          </div>
+
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr className="muted" style={{ textAlign: "left" }}>
+                  <th style={cell}>{source === "wordpress" ? "原链接" : "文件"}</th>
+                  <th style={cell}>标题 / slug</th>
+                  <th style={cell}>操作</th>
+                  <th style={cell}>说明</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.items.map((item, i) => (
+                  <tr key={`${i}:${item.file}`} style={{ borderTop: "1px solid var(--border)" }}>
+                    <td style={{ ...cell, wordBreak: "break-all" }}><code>{item.file}</code></td>
+                    <td style={cell}>
+                      <div>{item.title || "—"}</div>
+                      <div className="muted">
+                        /{item.slug || "—"}
+                        {item.slug !== item.originalSlug ? `（原 ${item.originalSlug}）` : ""}
+                        {item.status === "draft" ? " · 草稿" : item.status === "scheduled" ? " · 定时" : ""}
+                      </div>
+                    </td>
+                    <td style={{ ...cell, color: item.action === "error" ? "red" : undefined, whiteSpace: "nowrap" }}>{ACTION_LABELS[item.action]}</td>
+                    <td style={cell}>
+                      <ItemNotes item={item} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function ItemNotes({ item }: { item: ImportReportItem }) {
+  const notes: JSX.Element[] = [];
+  if (item.error) notes.push(<span key="error" style={{ color: "red" }}>{item.error}</span>);
+  if (item.conflict?.type === "existing") {
+    notes.push(
+      <span key="conflict">
+        与已有文章 <Link to={`/admin/edit/${item.conflict.postId}`}>{item.conflict.title}</Link> 的 slug 相同
+      </span>,
+    );
+  }
+  if (item.conflict?.type === "duplicate") {
+    notes.push(<span key="duplicate">与 <code>{item.conflict.file}</code> 的 slug 重复</span>);
+  }
+  if (item.images.found) notes.push(<span key="images">图片 {item.images.found} 张</span>);
+  if (item.images.missing.length) {
+    notes.push(
+      <span key="missing" style={{ color: "#d97706" }} title={item.images.missing.join("\n")}>
+        缺失图片 {item.images.missing.length} 张
+      </span>,
+    );
+  }
+  if (item.comments) notes.push(<span key="comments">评论 {item.comments} 条</span>);
+  if (!notes.length) return <span className="muted">—</span>;
+  return <div style={{ display: "grid", gap: 2 }}>{notes}</div>;
+}
+
+const cell = { padding: "8px 10px", verticalAlign: "top" } as const;
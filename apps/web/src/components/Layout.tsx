@@ -17,6 +17,7 @@ import {
 
 import { applyTheme, getSavedTheme, getSystemTheme, saveTheme, Theme } from "../theme";
 import { useSite } from "../site";
+import { SearchSuggestInput } from "./SearchSuggest";
 import { applySeoHead, buildSeoHead, type SeoLoaderData } from "../seo";
 
 export function Layout({ children }: { children: React.ReactNode }) {
@@ -196,11 +197,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
           </div>
           <div className="navRight">
             <form className="search" onSubmit={onSearch}>
-              <input
-                value={q}
-                onChange={(e) => setQ(e.target.value)}
-                placeholder="搜索..."
-              />
+              <SearchSuggestInput value={q} onChange={setQ} />
             </form>
             <button
               type="button"
@@ -229,7 +226,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
             <button type="submit" className="iconButton" aria-label="Search">
               <MdSearch />
             </button>
-            <input value={q} onChange={(e) => setQ(e.target.value)} placeholder="搜索..." />
+            <SearchSuggestInput value={q} onChange={setQ} onPick={() => setMobileOpen(false)} />
           </form>
 
           <div className="navMobileLinks">
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { api, type LoginAuditEntry, type LoginAuditResult } from "../api";
+
+const RESULT_LABELS: Record<LoginAuditResult, string> = {
+  success: "成功",
+  failed: "密码错误",
+  "2fa_failed": "验证码错误",
+  locked: "已锁定",
+  disabled: "账号停用",
+};
+
+const RESULT_COLORS: Record<LoginAuditResult, string> = {
+  success: "green",
+  failed: "orange",
+  "2fa_failed": "orange",
+  locked: "red",
+  disabled: "red",
+};
+
+export function LoginAuditList() {
+  const [items, setItems] = useState<LoginAuditEntry[]>([]);
+  const [result, setResult] = useState<LoginAuditResult | "">("");
+  const [q, setQ] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await api.adminListLoginAudit({ limit: 300, result: result || undefined, q: q.trim() || undefined });
+      setItems(res.items);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [result, q]);
+
+  useEffect(() => {
+    refresh();
+    // Only the result filter reloads immediately; the search box waits for Enter or the button.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [result]);
+
+  const unlock = async (payload: { username?: string; ip?: string }) => {
+    setBusy(true);
+    setErr(null);
+    setMsg(null);
+    try {
+      await api.adminUnlockLogin(payload);
+      setMsg(`已解除 ${payload.username ?? payload.ip} 的登录锁定`);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="card" style={{ padding: 16, marginBottom: 14, display: "grid", gap: 10 }}>
+        <div className="muted">
+          同一用户名 15 分钟内失败 10 次、同一 IP 失败 30 次会被临时锁定；连续失败时响应逐步变慢。日志保留 90 天。
+        </div>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+          <select value={result} onChange={(e) => setResult(e.target.value as LoginAuditResult | "")} style={{ width: 160 }}>
+            <option value="">全部结果</option>
+            {(Object.keys(RESULT_LABELS) as LoginAuditResult[]).map((r) => (
+              <option key={r} value={r}>{RESULT_LABELS[r]}</option>
+            ))}
+          </select>
+          <input
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void refresh();
+            }}
+            placeholder="按用户名或 IP 搜索"
+            style={{ flex: 1, minWidth: 200 }}
+          />
+          <button className="btn-ghost" onClick={refresh} disabled={loading}>查询</button>
+        </div>
+        {msg ? <div style={{ color: "green" }}>{msg}</div> : null}
+        {err ? <div className="muted" style={{ color: "red" }}>错误：{err}</div> : null}
+      </div>
+
+      {loading ? <div className="muted">加载中…</div> : null}
+
+      <div style={{ display: "grid", gap: 10 }}>
+        {items.map((it) => (
+          <div key={it.id} className="card" style={{ padding: 14, display: "flex", alignItems: "center", gap: 12, flexWrap: "wrap" }}>
+            <span className="pill" style={{ color: RESULT_COLORS[it.result] }}>{RESULT_LABELS[it.result] ?? it.result}</span>
+            <div style={{ minWidth: 140, fontWeight: 800 }}>{it.username}</div>
+            <div style={{ minWidth: 160 }}>{it.ip}</div>
+            <span className="muted" style={{ fontSize: 12 }}>{new Date(it.createdAt).toLocaleString("zh-CN")}</span>
+            <span className="muted" title={it.userAgent} style={{ fontSize: 12, flex: 1, minWidth: 200, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              {it.userAgent || "—"}
+            </span>
+            {it.result === "locked" ? (
+              <>
+                <button className="btn-ghost" disabled={busy} onClick={() => unlock({ username: it.username })}>解锁用户名</button>
+                <button className="btn-ghost" disabled={busy} onClick={() => unlock({ ip: it.ip })}>解锁 IP</button>
+              </>
+            ) : null}
+          </div>
+        ))}
+        {!loading && items.length === 0 ? <div className="muted">暂无登录记录</div> : null}
+      </div>
+    </>
+  );
+}
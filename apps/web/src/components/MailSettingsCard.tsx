@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+
+import { api, type MailSettings } from "../api";
+
+const errorText = (raw: string) => {
+  if (raw.includes("mail_host_required")) return "请输入 SMTP 服务器地址";
+  if (raw.includes("mail_from_required")) return "请输入发件人地址";
+  if (raw.includes("mail_admin_email_required")) return "请输入管理员收件邮箱";
+  if (raw.includes("mail_not_configured")) return "邮件通知未启用或未配置（需先保存）";
+  if (raw.includes("mail_send_failed:")) return `发送失败：${raw.split("mail_send_failed:")[1]}`;
+  return raw;
+};
+
+const checkboxRow = { display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" } as const;
+
+export function MailSettingsCard() {
+  const [draft, setDraft] = useState<MailSettings | null>(null);
+  const [testTo, setTestTo] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await api.adminGetMail();
+        if (!alive) return;
+        setDraft(res.mail);
+      } catch {
+        // ignore
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const save = async () => {
+    if (!draft) return;
+    setErr(null);
+    setMsg(null);
+    setBusy(true);
+    try {
+      await api.adminUpdateMail(draft);
+      setMsg("邮件设置已保存");
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendTest = async () => {
+    setErr(null);
+    setMsg(null);
+    setBusy(true);
+    try {
+      await api.adminTestMail(testTo.trim());
+      setMsg("测试邮件已发送");
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>邮件通知</div>
+      {!draft ? (
+        <div className="muted">加载邮件设置中…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 16 }}>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>启用邮件通知（通过 SMTP 发送）</span>
+          </label>
+
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "2fr 1fr 1fr" }}>
+            <input
+              value={draft.host}
+              onChange={(e) => setDraft({ ...draft, host: e.target.value })}
+              placeholder="SMTP 服务器，例如 smtp.example.com"
+            />
+            <input
+              type="number"
+              value={draft.port}
+              onChange={(e) => setDraft({ ...draft, port: Number(e.target.value) || 0 })}
+              placeholder="端口"
+            />
+            <select value={draft.security} onChange={(e) => setDraft({ ...draft, security: e.target.value as any })} title="加密方式">
+              <option value="starttls">STARTTLS（587）</option>
+              <option value="tls">SSL/TLS（465）</option>
+              <option value="none">不加密（本地调试）</option>
+            </select>
+          </div>
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
+            <input
+              value={draft.username}
+              onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+              placeholder="用户名（留空则不认证）"
+            />
+            <input
+              type="password"
+              value={draft.password}
+              onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+              placeholder="密码 / 授权码（敏感，仅保存在服务器）"
+            />
+          </div>
+          <input
+            value={draft.from}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+            placeholder='发件人，例如 "YaBlog" <noreply@example.com>'
+          />
+          <input
+            value={draft.siteUrl}
+            onChange={(e) => setDraft({ ...draft, siteUrl: e.target.value })}
+            placeholder="站点地址（邮件与订阅源中的链接），例如 https://blog.example.com"
+          />
+
+          <div className="widget-title" style={{ margin: 0 }}>管理员通知</div>
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "2fr 1fr 1fr" }}>
+            <input
+              value={draft.adminEmail}
+              onChange={(e) => setDraft({ ...draft, adminEmail: e.target.value })}
+              placeholder="管理员收件邮箱"
+            />
+            <select value={draft.adminMode} onChange={(e) => setDraft({ ...draft, adminMode: e.target.value as any })} title="发送方式">
+              <option value="instant">逐条发送</option>
+              <option value="digest">定时汇总</option>
+              <option value="off">不发送</option>
+            </select>
+            <input
+              type="number"
+              value={draft.digestMinutes}
+              onChange={(e) => setDraft({ ...draft, digestMinutes: Number(e.target.value) || 0 })}
+              disabled={draft.adminMode !== "digest"}
+              placeholder="汇总间隔（分钟）"
+              title="汇总间隔（分钟，5 ~ 10080）"
+            />
+          </div>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.notifyComments}
+              onChange={(e) => setDraft({ ...draft, notifyComments: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>新评论</span>
+          </label>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.notifyLinkRequests}
+              onChange={(e) => setDraft({ ...draft, notifyLinkRequests: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>新的友链申请</span>
+          </label>
+
+          <div className="widget-title" style={{ margin: 0 }}>评论者通知</div>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.notifyCommenters}
+              onChange={(e) => setDraft({ ...draft, notifyCommenters: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>评论通过审核或收到回复时，邮件通知留下邮箱并勾选了「接收通知」的评论者</span>
+          </label>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn-primary" onClick={save} disabled={busy}>
+              {busy ? "保存中…" : "保存邮件设置"}
+            </button>
+            <input
+              value={testTo}
+              onChange={(e) => setTestTo(e.target.value)}
+              placeholder="测试收件人（默认管理员邮箱）"
+              style={{ width: 240 }}
+            />
+            <button className="btn-ghost" onClick={sendTest} disabled={busy || !draft.enabled}>
+              发送测试邮件
+            </button>
+            {msg ? <span style={{ color: "green" }}>{msg}</span> : null}
+            {err ? <span style={{ color: "red" }}>{err}</span> : null}
+          </div>
+          <div className="muted">
+            本地调试可使用 Mailpit / MailHog 等 SMTP 替身：服务器填 <code>127.0.0.1</code>，端口 <code>1025</code>，加密方式选「不加密」。
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { Link } from "react-router-dom";
 import { MdDateRange, MdLabel, MdPushPin } from "react-icons/md";
-import type { Post } from "../api";
+import type { PostSummary, SearchHit } from "../api";
 import { useSite } from "../site";
 import { placeholderImageDataUrl } from "../placeholder";
 
@@ -14,10 +14,13 @@ export function PostCard({
   post,
   index,
   variant = "list",
+  highlight,
 }: {
-  post: Post;
+  post: PostSummary;
   index: number;
   variant?: "list" | "square";
+  // Search results: the server-escaped title and body excerpt with matches marked.
+  highlight?: Pick<SearchHit, "titleHtml" | "snippetHtml">;
 }) {
   const { site } = useSite();
   const isAlt = index % 2 === 1;
@@ -58,7 +61,11 @@ export function PostCard({
         ) : null}
       </div>
       <div className="card-info">
-        <h3 className="cardTitle">{post.title}</h3>
+        {highlight ? (
+          <h3 className="cardTitle" dangerouslySetInnerHTML={{ __html: highlight.titleHtml }} />
+        ) : (
+          <h3 className="cardTitle">{post.title}</h3>
+        )}
 
         <div className="card-meta">
           <MdDateRange />
@@ -72,7 +79,11 @@ export function PostCard({
           )}
         </div>
 
-        <div className="card-summary">{post.summary || "点击阅读全文..."}</div>
+        {highlight?.snippetHtml ? (
+          <div className="card-summary" dangerouslySetInnerHTML={{ __html: highlight.snippetHtml }} />
+        ) : (
+          <div className="card-summary">{post.summary || "点击阅读全文..."}</div>
+        )}
       </div>
     </Link>
   );
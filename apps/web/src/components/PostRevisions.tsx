@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { MdHistory, MdRefresh, MdRestore } from "react-icons/md";
+
+import { api, type Post, type PostRevision, type PostRevisionSummary } from "../api";
+import { diffLines, type DiffRow } from "../diff";
+
+const REASON_LABELS: Record<PostRevisionSummary["reason"], string> = {
+  create: "创建",
+  update: "保存",
+  restore: "恢复",
+  baseline: "初始版本",
+  import: "导入",
+  backup: "从备份恢复",
+};
+
+// Unchanged lines kept around each change when "only changes" is on.
+const CONTEXT_LINES = 3;
+
+function formatTime(iso: string) {
+  const d = new Date(iso);
+  return d.toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function collapseRows(rows: DiffRow[]) {
+  const keep = new Array<boolean>(rows.length).fill(false);
+  rows.forEach((r, i) => {
+    if (r.kind === "same") return;
+    for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(rows.length - 1, i + CONTEXT_LINES); k++) keep[k] = true;
+  });
+  const out: Array<DiffRow | { kind: "gap"; count: number }> = [];
+  let skipped = 0;
+  rows.forEach((r, i) => {
+    if (keep[i]) {
+      if (skipped) out.push({ kind: "gap", count: skipped });
+      skipped = 0;
+      out.push(r);
+    } else {
+      skipped += 1;
+    }
+  });
+  if (skipped) out.push({ kind: "gap", count: skipped });
+  return out;
+}
+
+const cellBg: Record<DiffRow["kind"], [string, string]> = {
+  same: ["transparent", "transparent"],
+  del: ["rgba(255, 77, 79, 0.14)", "transparent"],
+  add: ["transparent", "rgba(82, 196, 26, 0.16)"],
+  change: ["rgba(255, 77, 79, 0.14)", "rgba(82, 196, 26, 0.16)"],
+};
+
+export function PostRevisionsPanel({
+  postId,
+  currentMd,
+  refreshKey,
+  onRestored,
+}: {
+  postId: number;
+  currentMd: string;
+  refreshKey?: number;
+  onRestored: (post: Post | null) => void;
+}) {
+  const [items, setItems] = useState<PostRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PostRevision | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await api.adminListPostRevisions(postId);
+      setItems(res.items);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const openRevision = async (revisionId: number) => {
+    if (selected?.id === revisionId) return setSelected(null);
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await api.adminGetPostRevision(postId, revisionId);
+      setSelected(res.revision);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    if (!confirm(`确定恢复到 #${selected.id}（${formatTime(selected.createdAt)}）吗？当前内容会作为历史保留。`)) return;
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await api.adminRestorePostRevision(postId, selected.id);
+      setSelected(null);
+      onRestored(res.post);
+      await refresh();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows = useMemo(() => (selected ? diffLines(selected.contentMd, currentMd) : []), [selected, currentMd]);
+  const visibleRows = useMemo(() => (onlyChanges ? collapseRows(rows) : rows), [rows, onlyChanges]);
+  const changed = rows.filter((r) => r.kind !== "same").length;
+
+  return (
+    <div className="card" style={{ padding: 20 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <div className="widget-title" style={{ margin: 0, display: "flex", alignItems: "center", gap: 6 }}>
+          <MdHistory /> 历史版本
+        </div>
+        <button className="btn-ghost" onClick={refresh} disabled={loading} title="刷新">
+          <MdRefresh />
+        </button>
+      </div>
+
+      {err ? <div className="muted" style={{ color: "red", marginTop: 10 }}>错误：{err}</div> : null}
+      {loading ? <div className="muted" style={{ marginTop: 10 }}>加载中…</div> : null}
+      {!loading && items.length === 0 ? <div className="muted" style={{ marginTop: 10 }}>暂无历史版本（保存后自动记录）</div> : null}
+
+      <div style={{ display: "grid", gap: 6, marginTop: 12, maxHeight: 260, overflowY: "auto" }}>
+        {items.map((r, idx) => (
+          <button
+            key={r.id}
+            type="button"
+            className={selected?.id === r.id ? "btn-primary" : "btn-ghost"}
+            onClick={() => openRevision(r.id)}
+            disabled={busy}
+            style={{ justifyContent: "space-between", textAlign: "left", lineHeight: 1.4 }}
+          >
+            <span style={{ minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              #{r.id} · {REASON_LABELS[r.reason] ?? r.reason}
+              {r.restoredFrom ? `（自 #${r.restoredFrom}）` : ""}
+              {idx === 0 ? " · 当前" : ""}
+            </span>
+            <span style={{ fontSize: 12, opacity: 0.8, whiteSpace: "nowrap" }}>
+              {r.authorName || "—"} · {formatTime(r.createdAt)}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected ? (
+        <div style={{ marginTop: 16, display: "grid", gap: 10 }}>
+          <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+            <div className="muted" style={{ flex: 1, minWidth: 0 }}>
+              左：#{selected.id}「{selected.title}」 · 右：编辑器当前内容 · {changed ? `${changed} 行不同` : "内容相同"}
+            </div>
+            <label className="chkWrap">
+              <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+              <span className="muted">只看改动</span>
+            </label>
+            <button className="btn-primary" onClick={restore} disabled={busy}>
+              <MdRestore /> 恢复此版本
+            </button>
+          </div>
+          <div className="revisionDiff">
+            {visibleRows.map((row, i) =>
+              row.kind === "gap" ? (
+                <div key={`gap-${i}`} className="revisionDiffGap">… {row.count} 行未改动 …</div>
+              ) : (
+                <div key={i} className="revisionDiffRow">
+                  <span className="revisionDiffNo">{row.left?.no ?? ""}</span>
+                  <span className="revisionDiffText" style={{ background: cellBg[row.kind][0] }}>{row.left?.text ?? ""}</span>
+                  <span className="revisionDiffNo">{row.right?.no ?? ""}</span>
+                  <span className="revisionDiffText" style={{ background: cellBg[row.kind][1] }}>{row.right?.text ?? ""}</span>
+                </div>
+              ),
+            )}
+          </div>
+          <div className="muted" style={{ fontSize: 12 }}>
+            恢复会替换标题、摘要、正文、封面、标签与分类；Slug、发布状态、置顶与发布时间保持不变，并生成一条新的历史记录。
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
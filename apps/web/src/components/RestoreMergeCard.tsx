@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+
+import { api, type MergeConflict, type MergePostDetail, type MergePostItem, type MergeResult, type MergeSource } from "../api";
+import { restoreErrorText } from "./RestorePreviewPanel";
+
+const errorText = (raw: string) => {
+  if (raw.includes("no_posts_table")) return "备份中没有文章表，可能不是 YaBlog 的数据库";
+  if (raw.includes("merge_source_not_found")) return "备份已过期（30 分钟），请重新上传";
+  if (raw.includes("busy")) return "正在进行整体恢复，请稍后再试";
+  return restoreErrorText(raw);
+};
+
+const CONFLICT_OPTIONS: { value: MergeConflict; label: string }[] = [
+  { value: "skip", label: "跳过（保留站点中的文章）" },
+  { value: "overwrite", label: "覆盖（站点中的旧内容保存在历史版本）" },
+  { value: "keep_both", label: "保留两者（备份另存为草稿，slug 加后缀）" },
+];
+
+const ACTION_TEXT: Record<MergeResult["action"], string> = {
+  create: "已恢复",
+  overwrite: "已覆盖",
+  skip: "已跳过",
+  error: "失败",
+};
+
+const STATUS_TEXT = { draft: "草稿", scheduled: "定时", published: "已发布" } as const;
+
+// Pick single posts out of a backup and merge them into the live site; no restart involved.
+export function RestoreMergeCard() {
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<MergeSource | null>(null);
+  const [q, setQ] = useState("");
+  const [page, setPage] = useState(1);
+  const [list, setList] = useState<{ items: MergePostItem[]; total: number; pageSize: number } | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [detail, setDetail] = useState<MergePostDetail | null>(null);
+  const [onConflict, setOnConflict] = useState<MergeConflict>("skip");
+  const [withComments, setWithComments] = useState(true);
+  const [results, setResults] = useState<MergeResult[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await api.adminGetMergeSource();
+        if (!alive) return;
+        setSource(res.source);
+      } catch {
+        // ignore
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const loadList = useCallback(async () => {
+    if (!source) return setList(null);
+    try {
+      setList(await api.adminListMergePosts(source.id, { q: q.trim(), page }));
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    }
+  }, [source, q, page]);
+
+  useEffect(() => {
+    const t = setTimeout(() => void loadList(), 250);
+    return () => clearTimeout(t);
+  }, [loadList]);
+
+  const act = async (fn: () => Promise<void>) => {
+    setErr(null);
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const open = () =>
+    act(async () => {
+      if (!file) return;
+      const res = await api.adminOpenMergeSource(file);
+      setSource(res.source);
+      setSelected(new Set());
+      setDetail(null);
+      setResults(null);
+      setPage(1);
+    });
+
+  const close = () =>
+    act(async () => {
+      if (source) await api.adminCloseMergeSource(source.id);
+      setSource(null);
+      setList(null);
+      setSelected(new Set());
+      setDetail(null);
+      setResults(null);
+    });
+
+  const show = (postId: number) =>
+    act(async () => {
+      if (!source) return;
+      setDetail(detail?.post.id === postId ? null : await api.adminGetMergePost(source.id, postId));
+    });
+
+  const toggle = (postId: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(postId)) next.delete(postId);
+      else next.add(postId);
+      return next;
+    });
+  };
+
+  const apply = () =>
+    act(async () => {
+      if (!source || !selected.size) return;
+      if (!window.confirm(`将把选中的 ${selected.size} 篇文章合并到当前站点，确定继续吗？`)) return;
+      const res = await api.adminApplyMerge(source.id, { items: [...selected], comments: withComments, onConflict });
+      setResults(res.items);
+      setSelected(new Set());
+      await loadList();
+    });
+
+  const pages = list ? Math.max(1, Math.ceil(list.total / list.pageSize)) : 1;
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>从备份中恢复单篇文章</div>
+      {!source ? (
+        <div style={{ display: "grid", gap: 10 }}>
+          <div className="muted">
+            上传数据库备份（.db / .db.gz）或全量备份（.tar.gz），浏览其中的文章与评论，只把选中的文章合并回当前站点（按 slug 匹配），无需重启服务。
+          </div>
+          <input type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} accept=".db,.gz,.db.gz,.tar.gz,.tgz" />
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn-primary" onClick={open} disabled={busy || !file}>
+              {busy ? "读取中…" : "打开备份"}
+            </button>
+            {err ? <span style={{ color: "red" }}>{err}</span> : null}
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: "grid", gap: 14 }}>
+          <div className="muted">
+            <code style={{ wordBreak: "break-all" }}>{source.source}</code> · {source.posts} 篇文章
+            {source.backupCreatedAt ? ` · 备份于 ${shortTime(source.backupCreatedAt)}` : ""}
+            {source.kind === "full" ? " · 缺失的图片会一并恢复" : ""}
+          </div>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+            <input
+              value={q}
+              onChange={(e) => {
+                setQ(e.target.value);
+                setPage(1);
+              }}
+              placeholder="按标题或 slug 搜索"
+              style={{ flex: 1, minWidth: 200 }}
+            />
+            <button className="btn-ghost" onClick={close} disabled={busy}>
+              关闭备份
+            </button>
+          </div>
+
+          <div style={{ display: "grid", gap: 6 }}>
+            {list && !list.items.length ? <div className="muted">没有匹配的文章</div> : null}
+            {list?.items.map((p) => (
+              <div key={p.id}>
+                <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <input type="checkbox" checked={selected.has(p.id)} onChange={() => toggle(p.id)} style={{ width: "auto" }} />
+                  <b>{p.title || "(无标题)"}</b>
+                  <code className="muted">{p.slug}</code>
+                  <span className="muted">
+                    {STATUS_TEXT[p.status]} · {p.comments} 条评论 · 修改于 {shortTime(p.updatedAt)}
+                  </span>
+                  {!p.live ? (
+                    <span style={{ color: "green" }}>站点中没有</span>
+                  ) : p.live.identical ? (
+                    <span className="muted">与站点一致</span>
+                  ) : (
+                    <span style={{ color: "#d97706" }}>站点中已存在（修改于 {shortTime(p.live.updatedAt)}）</span>
+                  )}
+                  <button className="btn-ghost" onClick={() => show(p.id)} disabled={busy}>
+                    {detail?.post.id === p.id ? "收起" : "查看"}
+                  </button>
+                </div>
+                {detail?.post.id === p.id ? <MergePostPreview detail={detail} /> : null}
+              </div>
+            ))}
+          </div>
+
+          {pages > 1 ? (
+            <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <button className="btn-ghost" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                上一页
+              </button>
+              <span className="muted">
+                {page} / {pages}
+              </span>
+              <button className="btn-ghost" onClick={() => setPage(page + 1)} disabled={page >= pages}>
+                下一页
+              </button>
+            </div>
+          ) : null}
+
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "2fr 1fr" }}>
+            <select value={onConflict} onChange={(e) => setOnConflict(e.target.value as MergeConflict)} title="站点中已有同 slug 文章时">
+              {CONFLICT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  同 slug 冲突时：{o.label}
+                </option>
+              ))}
+            </select>
+            <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <input type="checkbox" checked={withComments} onChange={(e) => setWithComments(e.target.checked)} style={{ width: "auto" }} />
+              <span>同时恢复评论（已有的不会重复）</span>
+            </label>
+          </div>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn-primary" onClick={apply} disabled={busy || !selected.size}>
+              {busy ? "处理中…" : `合并选中的 ${selected.size} 篇`}
+            </button>
+            {err ? <span style={{ color: "red" }}>{err}</span> : null}
+          </div>
+
+          {results ? (
+            <div style={{ display: "grid", gap: 4, fontSize: 13 }}>
+              {results.map((r) => (
+                <div key={r.id}>
+                  <span style={{ color: r.action === "error" ? "red" : r.action === "skip" ? "var(--muted)" : "green" }}>{ACTION_TEXT[r.action]}</span>{" "}
+                  {r.title} <code className="muted">{r.slug}</code>
+                  {r.comments ? <span className="muted"> · 评论 {r.comments} 条</span> : null}
+                  {r.images ? <span className="muted"> · 图片 {r.images} 张</span> : null}
+                  {r.error ? <span style={{ color: "red" }}> · {r.error}</span> : null}
+                  {r.postId ? (
+                    <>
+                      {" "}
+                      <Link to={`/admin/edit/${r.postId}`}>编辑</Link>
+                    </>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MergePostPreview(props: { detail: MergePostDetail }) {
+  const { post, comments, live } = props.detail;
+  return (
+    <div className="card" style={{ padding: 14, margin: "8px 0 8px 28px", display: "grid", gap: 10, fontSize: 13 }}>
+      <div className="muted">
+        {post.tags.length ? `标签：${post.tags.join("、")} · ` : ""}
+        {post.categories.length ? `分类：${post.categories.map((c) => c.name).join("、")} · ` : ""}
+        {post.contentMd.length} 字符{live ? `（站点中 ${live.contentMd.length} 字符）` : ""}
+      </div>
+      <pre style={{ whiteSpace: "pre-wrap", maxHeight: 240, overflow: "auto", margin: 0 }}>{post.contentMd.slice(0, 3000)}</pre>
+      {comments.length ? (
+        <div style={{ display: "grid", gap: 4 }}>
+          <div className="muted">评论（{comments.length}）</div>
+          {comments.slice(0, 50).map((c) => (
+            <div key={c.id}>
+              <b>{c.author}</b> <span className="muted">{shortTime(c.createdAt)}{c.status === "pending" ? " · 待审核" : ""}</span>：
+              {c.contentMd.slice(0, 200)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="muted">没有评论</div>
+      )}
+    </div>
+  );
+}
+
+function shortTime(iso: string) {
+  return new Date(iso).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
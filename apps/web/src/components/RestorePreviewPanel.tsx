@@ -0,0 +1,166 @@
+import { useState } from "react";
+
+import { api, type RestorePreview, type RestoreSummary } from "../api";
+
+const WARNING_TEXT: Record<string, string> = {
+  no_posts_table: "备份中没有文章表，可能不是 YaBlog 的数据库",
+  empty_backup: "备份中没有任何文章，恢复后现有文章将全部消失",
+  fewer_posts: "备份中的文章比当前少",
+  older_content: "备份中最新的文章早于当前站点最新的文章，之后发布的内容会丢失",
+  fewer_uploads: "备份中的图片比当前图片库少",
+  newer_schema: "备份中有当前版本不认识的数据表，恢复后这些数据不会被使用",
+};
+
+// Errors from staging a backup (upload, S3 download or merge source).
+export const restoreErrorText = (raw: string) => {
+  if (raw.includes("backup_schema_too_new")) return "备份来自更新版本的 YaBlog（数据库版本更高），请先升级后再恢复";
+  if (raw.includes("invalid_sqlite_file")) return "不是有效的 SQLite 数据库文件";
+  if (raw.includes("invalid_archive") || raw.includes("invalid_backup")) return "备份文件已损坏或格式不正确";
+  if (raw.includes("backup_")) return `备份校验失败（${raw}）`;
+  return raw;
+};
+
+const SETTINGS_LABELS: Record<string, string> = {
+  site_settings: "站点设置",
+  ai_settings: "AI 设置",
+  cloudflare_settings: "Cloudflare",
+  mail_settings: "邮件通知",
+  backup_settings: "定时备份",
+  s3_settings: "异地备份（S3）",
+};
+
+const STATUS_TEXT = { added: "备份中新增", removed: "备份中没有（将清空）", changed: "有改动" } as const;
+
+const ROWS: { key: keyof RestoreSummary; label: string }[] = [
+  { key: "posts", label: "文章" },
+  { key: "published", label: "已发布" },
+  { key: "drafts", label: "草稿" },
+  { key: "comments", label: "评论" },
+  { key: "links", label: "友链" },
+  { key: "users", label: "用户" },
+  { key: "uploads", label: "图片" },
+  { key: "newestPostAt", label: "最新文章" },
+  { key: "lastUpdatedAt", label: "最近修改" },
+  { key: "schemaVersion", label: "数据库版本" },
+];
+
+const cell = (value: RestoreSummary[keyof RestoreSummary], key: keyof RestoreSummary) => {
+  if (value === null) return "—";
+  if (key === "newestPostAt" || key === "lastUpdatedAt") return shortTime(String(value));
+  return String(value);
+};
+
+// Shows what a staged restore would change; nothing is replaced until 确认恢复 is clicked.
+export function RestorePreviewPanel(props: { preview: RestorePreview; onClose: () => void }) {
+  const { preview } = props;
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const confirm = async () => {
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await api.adminConfirmRestore(preview.id);
+      if (res.restarting) {
+        setMsg(preview.kind === "full" ? "已开始全量恢复，服务正在重启…" : "已开始恢复，服务正在重启…（Docker 会自动拉起新进程）");
+        setTimeout(() => window.location.reload(), 2500);
+      } else {
+        setMsg("已恢复");
+      }
+    } catch (e: any) {
+      const raw = e?.message ?? String(e);
+      setErr(raw.includes("restore_not_found") ? "预览已过期或已被新的预览替换，请重新上传" : raw);
+      setBusy(false);
+    }
+  };
+
+  const cancel = async () => {
+    setBusy(true);
+    try {
+      await api.adminCancelRestore(preview.id);
+    } catch {
+      // ignore
+    } finally {
+      setBusy(false);
+      props.onClose();
+    }
+  };
+
+  return (
+    <div className="card" style={{ padding: 16, marginTop: 14, display: "grid", gap: 12 }}>
+      <div>
+        <b>恢复预览</b>
+        <span className="muted">
+          {" "}
+          · {preview.kind === "full" ? "全量（数据库 + 图片库）" : "仅数据库"} · <code style={{ wordBreak: "break-all" }}>{preview.source}</code>
+          {preview.backupCreatedAt ? ` · 备份于 ${shortTime(preview.backupCreatedAt)}` : ""}
+        </span>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+        <thead>
+          <tr className="muted" style={{ textAlign: "left" }}>
+            <th style={{ padding: "4px 0" }}></th>
+            <th>当前站点</th>
+            <th>备份</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.filter((r) => r.key !== "uploads" || preview.kind === "full").map((r) => {
+            const current = cell(preview.current[r.key], r.key);
+            const backup = cell(preview.backup[r.key], r.key);
+            return (
+              <tr key={r.key} style={{ borderTop: "1px solid var(--border)" }}>
+                <td className="muted" style={{ padding: "4px 0" }}>{r.label}</td>
+                <td>{current}</td>
+                <td style={{ fontWeight: current !== backup ? 600 : undefined }}>{backup}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {preview.warnings.length ? (
+        <div style={{ color: "#d97706", display: "grid", gap: 4 }}>
+          {preview.warnings.map((w) => (
+            <div key={w}>⚠ {WARNING_TEXT[w] ?? w}</div>
+          ))}
+        </div>
+      ) : null}
+
+      {preview.schema.missingTables.length || preview.schema.extraTables.length ? (
+        <div className="muted" style={{ fontSize: 13 }}>
+          {preview.schema.missingTables.length ? <div>备份缺少的表（重启后自动创建）：{preview.schema.missingTables.join("、")}</div> : null}
+          {preview.schema.extraTables.length ? <div>备份多出的表：{preview.schema.extraTables.join("、")}</div> : null}
+        </div>
+      ) : null}
+
+      <div style={{ fontSize: 13 }}>
+        <div className="muted">设置变化（只列出项目，不显示具体值）</div>
+        {!preview.settings.length ? <div className="muted">设置与当前一致</div> : null}
+        {preview.settings.map((s) => (
+          <div key={s.key}>
+            {SETTINGS_LABELS[s.key] ?? s.key}：{STATUS_TEXT[s.status]}
+            {s.fields.length ? <span className="muted">（{s.fields.join("、")}）</span> : null}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <button className="btn-danger" onClick={confirm} disabled={busy || Boolean(msg)}>
+          {busy ? "处理中…" : "确认恢复"}
+        </button>
+        <button className="btn-ghost" onClick={cancel} disabled={busy || Boolean(msg)}>
+          取消
+        </button>
+        {msg ? <span style={{ color: "blue" }}>{msg}</span> : null}
+        {err ? <span style={{ color: "red" }}>{err}</span> : null}
+      </div>
+    </div>
+  );
+}
+
+function shortTime(iso: string) {
+  return new Date(iso).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
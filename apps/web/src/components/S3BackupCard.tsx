@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+
+import { api, type RemoteBackup, type RestorePreview, type S3Settings } from "../api";
+import { RestorePreviewPanel, restoreErrorText } from "./RestorePreviewPanel";
+
+const errorText = (raw: string) => {
+  if (raw.includes("s3_endpoint_required")) return "请输入 S3 服务地址（Endpoint）";
+  if (raw.includes("s3_bucket_required")) return "请输入存储桶名称";
+  if (raw.includes("s3_credentials_required")) return "请输入 Access Key 与 Secret Key";
+  if (raw.includes("s3_not_configured")) return "S3 未启用或配置不完整（需先保存）";
+  if (raw.includes("SignatureDoesNotMatch") || raw.includes("InvalidAccessKeyId")) return `密钥不正确（${raw}）`;
+  if (raw.includes("NoSuchBucket")) return `存储桶不存在（${raw}）`;
+  if (raw.includes("invalid_key")) return "只能从当前前缀下的 .tar.gz 备份恢复";
+  if (raw.includes("busy")) return "已有恢复任务在进行";
+  return restoreErrorText(raw);
+};
+
+const checkboxRow = { display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" } as const;
+
+export function S3BackupCard() {
+  const [draft, setDraft] = useState<S3Settings | null>(null);
+  const [remote, setRemote] = useState<RemoteBackup[] | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await api.adminGetS3();
+        if (!alive) return;
+        setDraft(res.s3);
+      } catch {
+        // ignore
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const act = async (fn: () => Promise<string | null>) => {
+    setErr(null);
+    setMsg(null);
+    setBusy(true);
+    try {
+      setMsg(await fn());
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () =>
+    act(async () => {
+      if (!draft) return null;
+      await api.adminUpdateS3(draft);
+      return "S3 设置已保存";
+    });
+
+  const test = () =>
+    act(async () => {
+      if (!draft) return null;
+      await api.adminTestS3(draft);
+      return "连接成功";
+    });
+
+  const loadRemote = () =>
+    act(async () => {
+      const res = await api.adminListRemoteBackups();
+      setRemote(res.items);
+      return null;
+    });
+
+  const preview = (key: string) =>
+    act(async () => {
+      const res = await api.adminPreviewRemoteRestore(key);
+      setRestorePreview(res.preview);
+      return null;
+    });
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>异地备份（S3）</div>
+      {!draft ? (
+        <div className="muted">加载 S3 设置中…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 16 }}>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>定时备份完成并校验通过后，上传到 S3 兼容存储（AWS S3 / Cloudflare R2 / Backblaze B2 / MinIO）</span>
+          </label>
+
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "2fr 1fr" }}>
+            <input
+              value={draft.endpoint}
+              onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+              placeholder="Endpoint，例如 https://<账户>.r2.cloudflarestorage.com 或 http://127.0.0.1:9000"
+            />
+            <input
+              value={draft.region}
+              onChange={(e) => setDraft({ ...draft, region: e.target.value })}
+              placeholder="区域（R2 填 auto）"
+            />
+          </div>
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
+            <input value={draft.bucket} onChange={(e) => setDraft({ ...draft, bucket: e.target.value })} placeholder="存储桶（Bucket）" />
+            <input value={draft.prefix} onChange={(e) => setDraft({ ...draft, prefix: e.target.value })} placeholder="路径前缀，例如 yablog/" />
+          </div>
+          <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr" }}>
+            <input
+              value={draft.accessKeyId}
+              onChange={(e) => setDraft({ ...draft, accessKeyId: e.target.value })}
+              placeholder="Access Key ID"
+            />
+            <input
+              type="password"
+              value={draft.secretAccessKey}
+              onChange={(e) => setDraft({ ...draft, secretAccessKey: e.target.value })}
+              placeholder="Secret Access Key（敏感，仅保存在服务器）"
+            />
+          </div>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.forcePathStyle}
+              onChange={(e) => setDraft({ ...draft, forcePathStyle: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>路径风格地址（endpoint/bucket/key；MinIO 等自建服务需要勾选）</span>
+          </label>
+          <label style={checkboxRow}>
+            <input
+              type="checkbox"
+              checked={draft.pruneRemote}
+              onChange={(e) => setDraft({ ...draft, pruneRemote: e.target.checked })}
+              style={{ width: "auto" }}
+            />
+            <span>远程也按「定时备份」的保留策略清理旧备份（只处理 yablog-auto-* 文件）</span>
+          </label>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="btn-primary" onClick={save} disabled={busy}>
+              {busy ? "处理中…" : "保存 S3 设置"}
+            </button>
+            <button className="btn-ghost" onClick={test} disabled={busy}>
+              测试连接
+            </button>
+            <button className="btn-ghost" onClick={loadRemote} disabled={busy || !draft.enabled}>
+              查看远程备份
+            </button>
+            {msg ? <span style={{ color: "green" }}>{msg}</span> : null}
+            {err ? <span style={{ color: "red" }}>{err}</span> : null}
+          </div>
+
+          {remote ? (
+            <div>
+              <div className="widget-title">远程备份（{remote.length}）</div>
+              {!remote.length ? <div className="muted">前缀下没有 .tar.gz 备份</div> : null}
+              <div style={{ display: "grid", gap: 8 }}>
+                {remote.map((o) => (
+                  <div key={o.key} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <code style={{ wordBreak: "break-all" }}>{o.key}</code>
+                    <span className="muted">
+                      {prettyBytes(o.size)} · {o.lastModified ? new Date(o.lastModified).toLocaleString("zh-CN") : ""}
+                    </span>
+                    <button className="btn-danger" onClick={() => preview(o.key)} disabled={busy}>
+                      预览恢复
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {restorePreview ? <RestorePreviewPanel preview={restorePreview} onClose={() => setRestorePreview(null)} /> : null}
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function prettyBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let n = bytes;
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i += 1;
+  }
+  return `${n.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
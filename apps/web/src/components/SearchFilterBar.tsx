@@ -0,0 +1,104 @@
+import type { ReactNode } from "react";
+
+import type { FacetCount, SearchFacets, SearchFilters } from "../api";
+
+const SORT_OPTIONS = [
+  { value: "relevance", label: "相关度" },
+  { value: "newest", label: "最新" },
+] as const;
+
+// Selected values stay visible (with a zero count) even when the other filters leave no match for them.
+const withSelected = (items: FacetCount[], selected: string[]) => [
+  ...items,
+  ...selected.filter((v) => !items.some((i) => i.value === v)).map((value) => ({ value, count: 0 })),
+];
+
+function FacetRow(props: { label: string; children: ReactNode }) {
+  return (
+    <div className="facetRow">
+      <div className="facetLabel">{props.label}</div>
+      <div className="facetChips">{props.children}</div>
+    </div>
+  );
+}
+
+function Chip(props: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button type="button" className={`facetChip ${props.active ? "active" : ""}`} aria-pressed={props.active} onClick={props.onClick}>
+      {props.children}
+    </button>
+  );
+}
+
+// Filter chips for the search page, driven by the facet counts of the current query.
+export function SearchFilterBar(props: { facets: SearchFacets; filters: SearchFilters; onChange: (next: SearchFilters) => void }) {
+  const { facets, filters, onChange } = props;
+  const tags = filters.tag ?? [];
+  const categories = filters.category ?? [];
+  const year = filters.from?.endsWith("-01-01") && filters.to === `${filters.from.slice(0, 4)}-12-31` ? filters.from.slice(0, 4) : null;
+  const filtered = tags.length > 0 || categories.length > 0 || Boolean(filters.from || filters.to);
+
+  const toggle = (key: "tag" | "category", value: string) => {
+    const current = filters[key] ?? [];
+    onChange({ ...filters, [key]: current.includes(value) ? current.filter((v) => v !== value) : [...current, value] });
+  };
+
+  return (
+    <div className="card searchFilters">
+      <FacetRow label="排序">
+        {SORT_OPTIONS.map((o) => (
+          <Chip key={o.value} active={(filters.sort ?? "relevance") === o.value} onClick={() => onChange({ ...filters, sort: o.value })}>
+            {o.label}
+          </Chip>
+        ))}
+      </FacetRow>
+
+      {facets.tags.length || tags.length ? (
+        <FacetRow label="标签">
+          {withSelected(facets.tags, tags).map((f) => (
+            <Chip key={f.value} active={tags.includes(f.value)} onClick={() => toggle("tag", f.value)}>
+              {f.value} <span className="facetCount">{f.count}</span>
+            </Chip>
+          ))}
+        </FacetRow>
+      ) : null}
+
+      {facets.categories.length || categories.length ? (
+        <FacetRow label="分类">
+          {withSelected(facets.categories, categories).map((f) => (
+            <Chip key={f.value} active={categories.includes(f.value)} onClick={() => toggle("category", f.value)}>
+              {f.value} <span className="facetCount">{f.count}</span>
+            </Chip>
+          ))}
+        </FacetRow>
+      ) : null}
+
+      <FacetRow label="时间">
+        {facets.years.map((f) => (
+          <Chip
+            key={f.value}
+            active={year === f.value}
+            onClick={() =>
+              onChange(year === f.value ? { ...filters, from: undefined, to: undefined } : { ...filters, from: `${f.value}-01-01`, to: `${f.value}-12-31` })
+            }
+          >
+            {f.value} <span className="facetCount">{f.count}</span>
+          </Chip>
+        ))}
+        <span className="facetDates">
+          <input type="date" value={filters.from ?? ""} onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })} />
+          <span className="muted">至</span>
+          <input type="date" value={filters.to ?? ""} onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })} />
+        </span>
+      </FacetRow>
+
+      {filtered ? (
+        <div>
+          <button type="button" className="btn-ghost" onClick={() => onChange({ sort: filters.sort })}>
+            清除筛选
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { MdArticle, MdFolder, MdLabel } from "react-icons/md";
+
+import { api, type SearchSuggestions } from "../api";
+
+type Option = { key: string; kind: "post" | "tag" | "category"; label: string; hint?: string; to: string };
+
+const ICONS = { post: <MdArticle />, tag: <MdLabel />, category: <MdFolder /> };
+
+const toOptions = (s: SearchSuggestions): Option[] => [
+  ...s.posts.map((p) => ({ key: `post:${p.slug}`, kind: "post" as const, label: p.title, to: `/post/${p.slug}` })),
+  ...s.tags.map((t) => ({
+    key: `tag:${t.value}`,
+    kind: "tag" as const,
+    label: t.value,
+    hint: `${t.count} 篇`,
+    to: `/tag/${encodeURIComponent(t.value)}`,
+  })),
+  ...s.categories.map((c) => ({
+    key: `category:${c.value}`,
+    kind: "category" as const,
+    label: c.value,
+    hint: `${c.count} 篇`,
+    to: `/category/${encodeURIComponent(c.value)}`,
+  })),
+];
+
+// Header search input with a type-ahead dropdown (posts, tags, categories). Arrow keys move through the
+// options and Enter opens the highlighted one; with nothing highlighted Enter submits the surrounding form.
+export function SearchSuggestInput(props: { value: string; onChange: (value: string) => void; onPick?: () => void }) {
+  const navigate = useNavigate();
+  const listId = useId();
+  const [options, setOptions] = useState<Option[]>([]);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  // The value is also filled from ?q= on the search page; only typing should fetch suggestions.
+  const typed = useRef(false);
+
+  useEffect(() => {
+    const q = props.value.trim();
+    if (!q || !typed.current) {
+      setOptions([]);
+      return;
+    }
+    let alive = true;
+    const t = setTimeout(async () => {
+      try {
+        const res = await api.searchSuggest(q);
+        if (!alive) return;
+        setOptions(toOptions(res));
+        setActive(-1);
+      } catch {
+        // ignore: rate limited or offline, the box still works as a plain search
+      }
+    }, 150);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [props.value]);
+
+  const visible = open && options.length > 0 && props.value.trim() !== "";
+
+  const pick = (option: Option) => {
+    setOpen(false);
+    setActive(-1);
+    props.onPick?.();
+    navigate(option.to);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setOpen(false);
+      setActive(-1);
+      return;
+    }
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (!options.length) return;
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i < 0 && step < 0 ? options.length - 1 : (i + step + options.length) % options.length));
+      return;
+    }
+    if (e.key === "Enter") {
+      if (visible && active >= 0) {
+        e.preventDefault();
+        pick(options[active]);
+      } else {
+        setOpen(false);
+      }
+    }
+  };
+
+  return (
+    <div className="searchSuggest">
+      <input
+        role="combobox"
+        aria-expanded={visible}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={visible && active >= 0 ? `${listId}-${active}` : undefined}
+        value={props.value}
+        onChange={(e) => {
+          typed.current = true;
+          props.onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder="搜索..."
+      />
+      {visible ? (
+        <ul className="searchSuggestList" id={listId} role="listbox">
+          {options.map((o, i) => (
+            <li
+              key={o.key}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === active}
+              className={i === active ? "active" : undefined}
+              // Keep focus in the input so the click lands before blur closes the list.
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActive(i)}
+              onClick={() => pick(o)}
+            >
+              <span className="searchSuggestIcon" aria-hidden="true">
+                {ICONS[o.kind]}
+              </span>
+              <span className="searchSuggestLabel">{o.label}</span>
+              {o.hint ? <span className="searchSuggestHint">{o.hint}</span> : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
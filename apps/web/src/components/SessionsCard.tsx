@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { api, type Session } from "../api";
+
+// "mine" lists the signed-in account's devices; "all" is the admin view across every account.
+export function SessionsCard({ scope }: { scope: "mine" | "all" }) {
+  const [items, setItems] = useState<Session[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = scope === "all" ? await api.adminListSessions() : await api.adminListMySessions();
+      setItems(res.items);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (fn: () => Promise<void>) => {
+    setErr(null);
+    setMsg(null);
+    setBusy(true);
+    try {
+      await fn();
+      await refresh();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = (s: Session) =>
+    run(async () => {
+      if (scope === "all") await api.adminRevokeSession(s.id);
+      else await api.adminRevokeMySession(s.id);
+      setMsg("已下线该设备");
+    });
+
+  const revokeOthers = () =>
+    run(async () => {
+      if (!confirm("确定让其他所有设备退出登录吗？")) return;
+      const res = await api.adminRevokeOtherSessions();
+      setMsg(`已下线 ${res.revoked} 个设备`);
+    });
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap", marginBottom: 20 }}>
+        <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18 }}>{scope === "all" ? "全部登录会话" : "登录设备"}</div>
+        <div style={{ display: "flex", gap: 10 }}>
+          <button className="btn-ghost" onClick={refresh} disabled={busy}>刷新</button>
+          {scope === "mine" ? (
+            <button className="btn-ghost" onClick={revokeOthers} disabled={busy || !items || items.length < 2}>退出其他设备</button>
+          ) : null}
+        </div>
+      </div>
+      <div className="muted" style={{ marginBottom: 14 }}>
+        {scope === "all"
+          ? "所有账号当前有效的登录。下线后对方需要重新登录。"
+          : "修改密码后，除当前设备外的登录会自动失效。"}
+      </div>
+      {!items ? (
+        <div className="muted">加载中…</div>
+      ) : items.length === 0 ? (
+        <div className="muted">暂无登录会话</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {items.map((s) => (
+            <div key={s.id} className="card" style={{ padding: 14, display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+              <div style={{ flex: 1, minWidth: 220, display: "grid", gap: 4 }}>
+                <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                  {scope === "all" ? <b>{s.displayName || s.username}</b> : null}
+                  <span style={{ fontWeight: 600 }}>{s.device || "未知设备"}</span>
+                  {s.current ? <span className="pill" style={{ color: "green" }}>当前设备</span> : null}
+                </div>
+                <div className="muted" style={{ fontSize: 12 }} title={s.userAgent}>
+                  {s.ip || "未知 IP"} · 登录于 {shortTime(s.createdAt)} · 最近活动 {shortTime(s.lastSeenAt)}
+                </div>
+              </div>
+              {!s.current ? (
+                <button className="btn-ghost" onClick={() => revoke(s)} disabled={busy}>下线</button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+      {msg ? <div style={{ marginTop: 12, color: "green" }}>{msg}</div> : null}
+      {err ? <div style={{ marginTop: 12, color: "red" }}>{err}</div> : null}
+    </div>
+  );
+}
+
+function shortTime(iso: string) {
+  return new Date(iso).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
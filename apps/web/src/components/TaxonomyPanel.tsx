@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+
+import { api, type TaxonomyKind, type TaxonomyTerm } from "../api";
+import { ImageField } from "./ImageField";
+
+const KIND_LABELS: Record<TaxonomyKind, string> = { tag: "标签", category: "分类" };
+const KIND_PATHS: Record<TaxonomyKind, string> = { tag: "/tag/", category: "/category/" };
+
+type TermForm = { name: string; description: string; image: string };
+
+const emptyForm = (): TermForm => ({ name: "", description: "", image: "" });
+
+const errorText = (e: any, kind: TaxonomyKind) => {
+  const msg = e?.message ?? String(e);
+  if (msg === "name_taken") return `已存在同名${KIND_LABELS[kind]}，如需合并请使用“合并到”`;
+  return msg;
+};
+
+export function TaxonomyPanel() {
+  const navigate = useNavigate();
+  const [kind, setKind] = useState<TaxonomyKind>("tag");
+  const [items, setItems] = useState<TaxonomyTerm[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<TermForm>(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<Record<number, number | "">>({});
+
+  const label = KIND_LABELS[kind];
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await api.adminListTerms(kind);
+      setItems(res.items);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [kind]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const switchKind = (next: TaxonomyKind) => {
+    if (next === kind) return;
+    resetForm();
+    setFilter("");
+    setMergeTarget({});
+    setKind(next);
+  };
+
+  const visible = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    return q ? items.filter((t) => t.name.toLowerCase().includes(q)) : items;
+  }, [items, filter]);
+
+  const save = async () => {
+    if (!form.name.trim()) return setErr(`请输入${label}名称`);
+    if (form.name.includes("/")) return setErr("名称不能包含 /");
+    setErr(null);
+    setBusy(true);
+    try {
+      const payload = { name: form.name.trim(), description: form.description.trim(), image: form.image.trim() || null };
+      if (editingId) await api.adminUpdateTerm(kind, editingId, payload);
+      else await api.adminCreateTerm(kind, payload);
+      resetForm();
+      await refresh();
+    } catch (e: any) {
+      setErr(errorText(e, kind));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = async (term: TaxonomyTerm) => {
+    const into = items.find((t) => t.id === mergeTarget[term.id]);
+    if (!into) return;
+    if (!confirm(`确定把“${term.name}”合并到“${into.name}”吗？${term.postCount} 篇文章会改用“${into.name}”，原${label}将被删除，旧链接自动跳转。`)) {
+      return;
+    }
+    setBusyId(term.id);
+    setErr(null);
+    try {
+      await api.adminMergeTerm(kind, term.id, into.id);
+      if (editingId === term.id) resetForm();
+      await refresh();
+    } catch (e: any) {
+      setErr(errorText(e, kind));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (term: TaxonomyTerm) => {
+    const used = term.postCount ? `${term.postCount} 篇文章会失去这个${label}。` : "";
+    if (!confirm(`确定删除${label}“${term.name}”吗？${used}`)) return;
+    setBusyId(term.id);
+    setErr(null);
+    try {
+      await api.adminDeleteTerm(kind, term.id);
+      if (editingId === term.id) resetForm();
+      await refresh();
+    } catch (e: any) {
+      setErr(errorText(e, kind));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="glass content">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 18 }}>
+        <div>
+          <h2 style={{ margin: 0 }}>标签与分类</h2>
+          <div className="muted">重命名、合并、删除，并为标签/分类页设置简介和头图（改名或合并后旧链接会自动跳转）</div>
+        </div>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          <button className="btn-ghost" onClick={() => navigate("/admin")}>返回控制台</button>
+          <button className="btn-ghost" onClick={refresh} disabled={loading}>刷新</button>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginBottom: 18 }}>
+        {(Object.keys(KIND_LABELS) as TaxonomyKind[]).map((k) => (
+          <button key={k} className={kind === k ? "btn-primary" : "btn-ghost"} onClick={() => switchKind(k)}>
+            {KIND_LABELS[k]}
+          </button>
+        ))}
+      </div>
+
+      {err ? <div className="muted" style={{ color: "red", marginBottom: 14 }}>错误：{err}</div> : null}
+
+      <div className="card" style={{ padding: 16, marginBottom: 18, display: "grid", gap: 10 }}>
+        <div className="widget-title" style={{ margin: 0 }}>{editingId ? `编辑${label} #${editingId}` : `新建${label}`}</div>
+        <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder={`${label}名称`} />
+        <textarea
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder={`简介（显示在${label}页顶部，可选）`}
+          rows={3}
+        />
+        <ImageField
+          label="头图"
+          value={form.image}
+          onChange={(image) => setForm({ ...form, image })}
+          placeholder="/uploads/... 或 https://..."
+          help="留空使用站点设置里的标签页头图"
+        />
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <div style={{ flex: 1 }} />
+          {editingId ? <button className="btn-ghost" onClick={resetForm} disabled={busy}>取消</button> : null}
+          <button className="btn-primary" onClick={save} disabled={busy}>
+            {busy ? "保存中…" : editingId ? "保存" : "添加"}
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <h3 style={{ margin: 0 }}>全部{label}（{items.length}）</h3>
+        <div style={{ flex: 1 }} />
+        <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="筛选…" style={{ width: 220 }} />
+      </div>
+
+      {loading ? <div className="muted">加载中…</div> : null}
+      {!loading && visible.length === 0 ? <div className="muted">暂无{label}</div> : null}
+
+      <div style={{ display: "grid", gap: 12 }}>
+        {visible.map((t) => (
+          <div key={t.id} className="card" style={{ padding: 16 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+              <div style={{ minWidth: 0, flex: 1 }}>
+                <div style={{ fontWeight: 900 }}>
+                  <Link to={`${KIND_PATHS[kind]}${encodeURIComponent(t.name)}`} target="_blank" rel="noreferrer">
+                    {t.name}
+                  </Link>
+                  <span className="muted" style={{ fontWeight: 400, fontSize: 12, marginLeft: 8 }}>{t.postCount} 篇</span>
+                </div>
+                {t.description ? (
+                  <div className="muted" style={{ fontSize: 12, whiteSpace: "pre-line" }}>{t.description}</div>
+                ) : null}
+                {t.image ? <div className="muted" style={{ fontSize: 12, wordBreak: "break-all" }}>头图：{t.image}</div> : null}
+              </div>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                <select
+                  value={mergeTarget[t.id] ?? ""}
+                  onChange={(e) => setMergeTarget({ ...mergeTarget, [t.id]: e.target.value ? Number(e.target.value) : "" })}
+                  style={{ width: 160 }}
+                >
+                  <option value="">合并到…</option>
+                  {items
+                    .filter((x) => x.id !== t.id)
+                    .map((x) => (
+                      <option key={x.id} value={x.id}>{x.name}</option>
+                    ))}
+                </select>
+                <button className="btn-ghost" disabled={busyId === t.id || !mergeTarget[t.id]} onClick={() => merge(t)}>
+                  合并
+                </button>
+                <button
+                  className="btn-ghost"
+                  onClick={() => {
+                    setEditingId(t.id);
+                    setForm({ name: t.name, description: t.description, image: t.image ?? "" });
+                  }}
+                >
+                  编辑
+                </button>
+                <button className="btn-ghost" disabled={busyId === t.id} onClick={() => remove(t)}>
+                  删除
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
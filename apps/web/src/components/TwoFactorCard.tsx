@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+
+import { api } from "../api";
+
+const errorText = (raw: string) => {
+  if (raw.includes("invalid_credentials")) return "密码不正确";
+  if (raw.includes("invalid_code")) return "验证码不正确或已使用";
+  if (raw.includes("2fa_setup_required")) return "请先重新开始设置";
+  return raw;
+};
+
+export function TwoFactorCard() {
+  const [status, setStatus] = useState<{ enabled: boolean; recoveryCodesLeft: number } | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; qr: string } | null>(null);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  // Recovery codes are only ever shown right after they are generated.
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setStatus(await api.adminGetTwoFactor());
+    } catch {
+      // ignore
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (fn: () => Promise<void>) => {
+    setErr(null);
+    setMsg(null);
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      if (!password) throw new Error("请输入当前密码");
+      const res = await api.adminSetupTwoFactor(password);
+      setSetup({ secret: res.secret, qr: res.qr });
+      setPassword("");
+      setCode("");
+    });
+
+  const confirmSetup = () =>
+    run(async () => {
+      const res = await api.adminEnableTwoFactor(code.trim());
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(res.recoveryCodes);
+      setMsg("两步验证已开启");
+      await refresh();
+    });
+
+  const regenerate = () =>
+    run(async () => {
+      const res = await api.adminRegenerateRecoveryCodes(code.trim());
+      setCode("");
+      setRecoveryCodes(res.recoveryCodes);
+      setMsg("已生成新的恢复码，旧恢复码全部失效");
+      await refresh();
+    });
+
+  const disable = () =>
+    run(async () => {
+      if (!confirm("确定关闭两步验证吗？")) return;
+      await api.adminDisableTwoFactor({ password, code: code.trim() });
+      setPassword("");
+      setCode("");
+      setRecoveryCodes(null);
+      setMsg("两步验证已关闭");
+      await refresh();
+    });
+
+  return (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>两步验证（TOTP）</div>
+      {!status ? (
+        <div className="muted">加载中…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 14 }}>
+          <div className="muted">
+            {status.enabled
+              ? `已开启。登录时需要输入身份验证器中的 6 位验证码；剩余恢复码 ${status.recoveryCodesLeft} 个。`
+              : "未开启。开启后登录需额外输入 Google Authenticator、1Password、Aegis 等应用生成的验证码。"}
+          </div>
+
+          {recoveryCodes ? (
+            <div className="card" style={{ padding: 16, display: "grid", gap: 10, borderColor: "var(--accent)" }}>
+              <div>请妥善保存以下恢复码（仅显示一次，每个只能使用一次）。丢失身份验证器时可用它代替验证码登录：</div>
+              <pre style={{ margin: 0, fontSize: 14, columns: 2 }}>{recoveryCodes.join("\n")}</pre>
+              <div style={{ display: "flex", gap: 10 }}>
+                <button className="btn-ghost" onClick={() => void navigator.clipboard?.writeText(recoveryCodes.join("\n"))}>复制</button>
+                <button className="btn-ghost" onClick={() => setRecoveryCodes(null)}>我已保存</button>
+              </div>
+            </div>
+          ) : null}
+
+          {!status.enabled && !setup ? (
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="当前密码" style={{ flex: 1, minWidth: 180 }} />
+              <button className="btn-primary" onClick={startSetup} disabled={busy}>开启两步验证</button>
+            </div>
+          ) : null}
+
+          {setup ? (
+            <div style={{ display: "grid", gap: 12 }}>
+              <div className="muted">1. 用身份验证器扫描二维码（或手动输入密钥）：</div>
+              <img src={setup.qr} alt="TOTP QR code" width={220} height={220} style={{ background: "#fff", borderRadius: 8 }} />
+              <code style={{ wordBreak: "break-all" }}>{setup.secret}</code>
+              <div className="muted">2. 输入应用显示的 6 位验证码完成绑定：</div>
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <input value={code} onChange={(e) => setCode(e.target.value)} placeholder="6 位验证码" inputMode="numeric" autoComplete="one-time-code" style={{ width: 160 }} />
+                <button className="btn-primary" onClick={confirmSetup} disabled={busy || !code.trim()}>验证并开启</button>
+                <button className="btn-ghost" onClick={() => setSetup(null)} disabled={busy}>取消</button>
+              </div>
+            </div>
+          ) : null}
+
+          {status.enabled ? (
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <input value={code} onChange={(e) => setCode(e.target.value)} placeholder="验证码或恢复码" autoComplete="one-time-code" style={{ width: 180 }} />
+                <button className="btn-ghost" onClick={regenerate} disabled={busy || !code.trim()}>重新生成恢复码</button>
+              </div>
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="当前密码（关闭时需要）" style={{ flex: 1, minWidth: 180 }} />
+                <button className="btn-danger" onClick={disable} disabled={busy || !password || !code.trim()}>关闭两步验证</button>
+              </div>
+            </div>
+          ) : null}
+
+          {msg ? <span style={{ color: "green" }}>{msg}</span> : null}
+          {err ? <span style={{ color: "red" }}>{err}</span> : null}
+        </div>
+      )}
+    </div>
+  );
+}
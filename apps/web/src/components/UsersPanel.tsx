@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+import { api, type PasswordLink, type User, type UserAdminRow, type UserRole } from "../api";
+import { SessionsCard } from "./SessionsCard";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "管理员",
+  editor: "编辑",
+  author: "作者",
+};
+
+const ROLE_HINTS: Record<UserRole, string> = {
+  admin: "全部权限，包括设置、备份恢复、安全与用户管理",
+  editor: "管理所有文章、评论、友链与图库",
+  author: "只能撰写和管理自己的文章、上传图片",
+};
+
+const errorText = (raw: string) => {
+  if (raw.includes("username_taken")) return "用户名已被占用";
+  if (raw.includes("cannot_change_self")) return "不能停用自己或修改自己的角色";
+  if (raw.includes("last_admin")) return "至少需要保留一个启用状态的管理员";
+  return raw;
+};
+
+type Draft = { displayName: string; role: UserRole; disabled: boolean };
+
+export function UsersPanel({ me }: { me: User }) {
+  const navigate = useNavigate();
+  const [items, setItems] = useState<UserAdminRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  // Bumped to reload the session list after signing someone out.
+  const [sessionsKey, setSessionsKey] = useState(0);
+
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [role, setRole] = useState<UserRole>("author");
+  const [inviting, setInviting] = useState(false);
+  // Set-password links are shown once, right after they are generated.
+  const [link, setLink] = useState<{ username: string; link: PasswordLink } | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await api.adminListUsers();
+      setItems(res.items);
+      setDrafts(Object.fromEntries(res.items.map((u) => [u.id, { displayName: u.displayName, role: u.role, disabled: u.disabled }])));
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const invite = async () => {
+    if (!username.trim()) return setErr("请输入用户名");
+    setErr(null);
+    setInviting(true);
+    try {
+      const res = await api.adminCreateUser({ username: username.trim(), displayName: displayName.trim(), role });
+      setLink({ username: username.trim(), link: res.link });
+      setUsername("");
+      setDisplayName("");
+      await refresh();
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const runFor = async (id: number, fn: () => Promise<void>) => {
+    setBusyId(id);
+    setErr(null);
+    try {
+      await fn();
+    } catch (e: any) {
+      setErr(errorText(e?.message ?? String(e)));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const fullUrl = (l: PasswordLink) => `${window.location.origin}${l.path}`;
+
+  return (
+    <div className="glass content">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 18 }}>
+        <div>
+          <h2 style={{ margin: 0 }}>用户</h2>
+          <div className="muted">邀请成员、分配角色、停用账号、重置密码或强制下线</div>
+        </div>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          <button className="btn-ghost" onClick={() => navigate("/admin")}>返回控制台</button>
+          <button className="btn-ghost" onClick={refresh} disabled={loading}>刷新</button>
+        </div>
+      </div>
+
+      {err ? <div className="muted" style={{ color: "red", marginBottom: 14 }}>错误：{err}</div> : null}
+
+      <div className="card" style={{ padding: 16, marginBottom: 18, display: "grid", gap: 10 }}>
+        <div className="widget-title" style={{ margin: 0 }}>邀请成员</div>
+        <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 1fr 160px" }}>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="登录用户名" />
+          <input value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="显示名称（文章署名）" />
+          <select value={role} onChange={(e) => setRole(e.target.value as UserRole)}>
+            {(Object.keys(ROLE_LABELS) as UserRole[]).map((r) => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <div className="muted" style={{ flex: 1 }}>{ROLE_LABELS[role]}：{ROLE_HINTS[role]}</div>
+          <button className="btn-primary" onClick={invite} disabled={inviting}>{inviting ? "创建中…" : "生成邀请链接"}</button>
+        </div>
+      </div>
+
+      {link ? (
+        <div className="card" style={{ padding: 16, marginBottom: 18, display: "grid", gap: 8, borderColor: "var(--accent)" }}>
+          <div>
+            <b>{link.username}</b> 的设置密码链接（仅显示一次，{shortTime(link.link.expiresAt)} 前有效）：
+          </div>
+          <input readOnly value={fullUrl(link.link)} onFocus={(e) => e.currentTarget.select()} />
+          <div style={{ display: "flex", gap: 10 }}>
+            <button className="btn-ghost" onClick={() => void navigator.clipboard?.writeText(fullUrl(link.link))}>复制链接</button>
+            <button className="btn-ghost" onClick={() => setLink(null)}>关闭</button>
+          </div>
+        </div>
+      ) : null}
+
+      {loading ? <div className="muted">加载中…</div> : null}
+
+      <div style={{ display: "grid", gap: 12 }}>
+        {items.map((u) => {
+          const draft = drafts[u.id] ?? { displayName: u.displayName, role: u.role, disabled: u.disabled };
+          const setDraft = (next: Partial<Draft>) => setDrafts((prev) => ({ ...prev, [u.id]: { ...draft, ...next } }));
+          const isSelf = u.id === me.userId;
+          const dirty = draft.displayName !== u.displayName || draft.role !== u.role || draft.disabled !== u.disabled;
+          return (
+            <div key={u.id} className="card" style={{ padding: 16, display: "grid", gap: 10 }}>
+              <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={{ fontWeight: 900 }}>{u.username}</div>
+                {isSelf ? <span className="pill">当前账号</span> : null}
+                <span className="pill">{ROLE_LABELS[u.role]}</span>
+                {u.disabled ? <span className="pill" style={{ color: "red" }}>已停用</span> : null}
+                {!u.hasPassword ? <span className="pill" style={{ color: "orange" }}>待接受邀请</span> : null}
+                {u.totpEnabled ? <span className="pill" style={{ color: "green" }}>两步验证</span> : null}
+                <span className="muted" style={{ fontSize: 12 }}>
+                  {u.postCount} 篇文章 · 创建于 {shortTime(u.createdAt)}
+                  {u.inviteExpiresAt ? ` · 链接有效至 ${shortTime(u.inviteExpiresAt)}` : ""}
+                </span>
+              </div>
+              <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 160px auto", alignItems: "center" }}>
+                <input value={draft.displayName} onChange={(e) => setDraft({ displayName: e.target.value })} placeholder="显示名称（留空则文章不显示署名）" />
+                <select value={draft.role} onChange={(e) => setDraft({ role: e.target.value as UserRole })} disabled={isSelf}>
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map((r) => (
+                    <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                  ))}
+                </select>
+                <label className="chkWrap">
+                  <input type="checkbox" checked={draft.disabled} onChange={(e) => setDraft({ disabled: e.target.checked })} disabled={isSelf} />
+                  <span className="muted">停用</span>
+                </label>
+              </div>
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <button
+                  className="btn-primary"
+                  disabled={!dirty || busyId === u.id}
+                  onClick={() =>
+                    runFor(u.id, async () => {
+                      await api.adminUpdateUser(u.id, { ...draft, displayName: draft.displayName.trim() });
+                      await refresh();
+                    })
+                  }
+                >
+                  保存
+                </button>
+                <button
+                  className="btn-ghost"
+                  disabled={busyId === u.id}
+                  onClick={() =>
+                    runFor(u.id, async () => {
+                      const res = await api.adminResetUserPassword(u.id);
+                      if (res.link) setLink({ username: u.username, link: res.link });
+                      await refresh();
+                    })
+                  }
+                >
+                  {u.hasPassword ? "生成重置密码链接" : "重新生成邀请链接"}
+                </button>
+                <button
+                  className="btn-ghost"
+                  disabled={busyId === u.id}
+                  onClick={() => {
+                    const password = prompt(`为 ${u.username} 直接设置新密码（至少 8 位）：`);
+                    if (!password) return;
+                    if (password.length < 8) return setErr("新密码至少 8 位");
+                    void runFor(u.id, async () => {
+                      await api.adminResetUserPassword(u.id, { password });
+                      await refresh();
+                    });
+                  }}
+                >
+                  直接设置密码
+                </button>
+                {u.totpEnabled && !isSelf ? (
+                  <button
+                    className="btn-ghost"
+                    disabled={busyId === u.id}
+                    onClick={() => {
+                      if (!confirm(`确定关闭 ${u.username} 的两步验证吗？对方丢失身份验证器和恢复码时使用。`)) return;
+                      void runFor(u.id, async () => {
+                        await api.adminResetUserTwoFactor(u.id);
+                        await refresh();
+                      });
+                    }}
+                  >
+                    重置两步验证
+                  </button>
+                ) : null}
+                <button
+                  className="btn-ghost"
+                  disabled={busyId === u.id}
+                  onClick={() => {
+                    if (!confirm(`确定让 ${u.username} 在所有设备上退出登录吗？`)) return;
+                    void runFor(u.id, async () => {
+                      await api.adminRevokeUserSessions(u.id);
+                      setSessionsKey((k) => k + 1);
+                    });
+                  }}
+                >
+                  {isSelf ? "下线其他设备" : "下线所有设备"}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ height: 18 }} />
+      <SessionsCard key={sessionsKey} scope="all" />
+    </div>
+  );
+}
+
+function shortTime(iso: string) {
+  return new Date(iso).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
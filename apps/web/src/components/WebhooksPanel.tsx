@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+import { api, type Webhook, type WebhookDelivery, type WebhookPayload } from "../api";
+
+const EVENT_LABELS: Record<string, string> = {
+  "post.published": "文章发布",
+  "post.updated": "文章更新",
+  "post.deleted": "文章删除",
+  "comment.created": "新评论",
+  "comment.approved": "评论通过",
+  "link_request.created": "友链申请",
+  "upload.created": "图片上传",
+  "upload.deleted": "图片删除",
+  ping: "测试",
+};
+
+const STATUS_LABELS: Record<WebhookDelivery["status"], [string, string]> = {
+  pending: ["重试中", "orange"],
+  success: ["成功", "green"],
+  failed: ["失败", "red"],
+};
+
+const emptyForm = (): WebhookPayload => ({ name: "", url: "", secret: "", events: [], enabled: true });
+
+function formatTime(iso: string | null) {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  return d.toLocaleString("zh-CN", { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function prettyJson(raw: string) {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export function WebhooksPanel() {
+  const navigate = useNavigate();
+  const [items, setItems] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<WebhookPayload>(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const [logFilter, setLogFilter] = useState<number | "">("");
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [logLoading, setLogLoading] = useState(true);
+  const [openDeliveryId, setOpenDeliveryId] = useState<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await api.adminListWebhooks();
+      setItems(res.items);
+      setEvents(res.events);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const refreshLog = useCallback(async () => {
+    setLogLoading(true);
+    try {
+      const res = await api.adminListWebhookDeliveries({ webhookId: logFilter || undefined, limit: 100 });
+      setDeliveries(res.items);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setLogLoading(false);
+    }
+  }, [logFilter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refreshLog();
+  }, [refreshLog]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const save = async () => {
+    if (!form.url.trim()) return setErr("请输入 URL");
+    setErr(null);
+    setBusy(true);
+    try {
+      if (editingId) await api.adminUpdateWebhook(editingId, form);
+      else await api.adminCreateWebhook(form);
+      resetForm();
+      await refresh();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleEvent = (ev: string) =>
+    setForm((f) => ({ ...f, events: f.events.includes(ev) ? f.events.filter((x) => x !== ev) : [...f.events, ev] }));
+
+  const hookName = (id: number) => {
+    const h = items.find((x) => x.id === id);
+    return h ? h.name || h.url : `#${id}`;
+  };
+
+  return (
+    <div className="glass content">
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 18 }}>
+        <div>
+          <h2 style={{ margin: 0 }}>Webhook</h2>
+          <div className="muted">内容变动时向外部地址推送 JSON（HMAC-SHA256 签名，失败自动重试）</div>
+        </div>
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          <button className="btn-ghost" onClick={() => navigate("/admin")}>返回控制台</button>
+          <button className="btn-ghost" onClick={() => { refresh(); refreshLog(); }} disabled={loading}>刷新</button>
+        </div>
+      </div>
+
+      {err ? <div className="muted" style={{ color: "red", marginBottom: 14 }}>错误：{err}</div> : null}
+
+      <div className="card" style={{ padding: 16, marginBottom: 18, display: "grid", gap: 10 }}>
+        <div className="widget-title" style={{ margin: 0 }}>{editingId ? `编辑 Webhook #${editingId}` : "新建 Webhook"}</div>
+        <div style={{ display: "grid", gap: 10, gridTemplateColumns: "1fr 2fr" }}>
+          <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="名称（可选）" />
+          <input value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} placeholder="https://example.com/hooks/yablog" />
+        </div>
+        <input
+          value={form.secret}
+          onChange={(e) => setForm({ ...form, secret: e.target.value })}
+          placeholder={editingId ? "签名密钥（留空保持不变）" : "签名密钥（留空自动生成）"}
+        />
+        <div className="muted">事件（不勾选 = 全部）</div>
+        <div style={{ display: "flex", gap: 14, flexWrap: "wrap" }}>
+          {events.map((ev) => (
+            <label key={ev} className="chkWrap">
+              <input type="checkbox" checked={form.events.includes(ev)} onChange={() => toggleEvent(ev)} />
+              <span className="muted">{EVENT_LABELS[ev] ?? ev}</span>
+            </label>
+          ))}
+        </div>
+        <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <label className="chkWrap">
+            <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} />
+            <span className="muted">启用</span>
+          </label>
+          <div style={{ flex: 1 }} />
+          {editingId ? <button className="btn-ghost" onClick={resetForm} disabled={busy}>取消</button> : null}
+          <button className="btn-primary" onClick={save} disabled={busy}>
+            {busy ? "保存中…" : editingId ? "保存" : "添加"}
+          </button>
+        </div>
+      </div>
+
+      {loading ? <div className="muted">加载中…</div> : null}
+      {!loading && items.length === 0 ? <div className="muted" style={{ marginBottom: 18 }}>暂无 Webhook</div> : null}
+
+      <div style={{ display: "grid", gap: 12, marginBottom: 24 }}>
+        {items.map((h) => (
+          <div key={h.id} className="card" style={{ padding: 16 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 900, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {h.name || `Webhook #${h.id}`}
+                </div>
+                <div className="muted" style={{ fontSize: 12, wordBreak: "break-all" }}>{h.url}</div>
+                <div className="muted" style={{ fontSize: 12 }}>
+                  事件：{h.events.length ? h.events.map((ev) => EVENT_LABELS[ev] ?? ev).join("、") : "全部"}
+                </div>
+                <div className="muted" style={{ fontSize: 12, wordBreak: "break-all" }}>
+                  密钥：<code>{h.secret || "（无，不签名）"}</code>
+                </div>
+              </div>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                <span className="pill" style={{ color: h.enabled ? "green" : "gray" }}>{h.enabled ? "启用" : "停用"}</span>
+                <button
+                  className="btn-ghost"
+                  disabled={busyId === h.id}
+                  onClick={async () => {
+                    setBusyId(h.id);
+                    setErr(null);
+                    try {
+                      await api.adminPingWebhook(h.id);
+                      await refreshLog();
+                    } catch (e: any) {
+                      setErr(e?.message ?? String(e));
+                    } finally {
+                      setBusyId(null);
+                    }
+                  }}
+                >
+                  {busyId === h.id ? "发送中…" : "发送测试"}
+                </button>
+                <button className="btn-ghost" onClick={() => setLogFilter(h.id)}>日志</button>
+                <button
+                  className="btn-ghost"
+                  onClick={() => {
+                    setEditingId(h.id);
+                    setForm({ name: h.name, url: h.url, secret: "", events: h.events, enabled: h.enabled });
+                  }}
+                >
+                  编辑
+                </button>
+                <button
+                  className="btn-ghost"
+                  disabled={busyId === h.id}
+                  onClick={async () => {
+                    if (!confirm("确定删除这个 Webhook 吗？投递日志会一并删除。")) return;
+                    setBusyId(h.id);
+                    try {
+                      await api.adminDeleteWebhook(h.id);
+                      if (editingId === h.id) resetForm();
+                      if (logFilter === h.id) setLogFilter("");
+                      await refresh();
+                      await refreshLog();
+                    } catch (e: any) {
+                      setErr(e?.message ?? String(e));
+                    } finally {
+                      setBusyId(null);
+                    }
+                  }}
+                >
+                  删除
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <h3 style={{ margin: 0 }}>投递日志</h3>
+        <div style={{ flex: 1 }} />
+        <select value={logFilter} onChange={(e) => setLogFilter(e.target.value ? Number(e.target.value) : "")} style={{ width: 220 }}>
+          <option value="">全部 Webhook</option>
+          {items.map((h) => (
+            <option key={h.id} value={h.id}>{h.name || h.url}</option>
+          ))}
+        </select>
+        <button className="btn-ghost" onClick={refreshLog} disabled={logLoading}>刷新日志</button>
+      </div>
+
+      {logLoading ? <div className="muted">加载中…</div> : null}
+      {!logLoading && deliveries.length === 0 ? <div className="muted">暂无投递记录</div> : null}
+
+      <div style={{ display: "grid", gap: 8 }}>
+        {deliveries.map((d) => {
+          const [label, color] = STATUS_LABELS[d.status];
+          const open = openDeliveryId === d.id;
+          return (
+            <div key={d.id} className="card" style={{ padding: 12 }}>
+              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                <span className="pill" style={{ color }}>{label}</span>
+                <div style={{ fontWeight: 700 }}>{EVENT_LABELS[d.event] ?? d.event}</div>
+                <div className="muted" style={{ fontSize: 12 }}>
+                  #{d.id} · {hookName(d.webhookId)} · {formatTime(d.createdAt)} · 尝试 {d.attempts} 次
+                  {d.responseStatus ? ` · HTTP ${d.responseStatus}` : ""}
+                  {d.error && !d.responseStatus ? ` · ${d.error}` : ""}
+                  {d.status === "pending" && d.nextAttemptAt ? ` · 下次重试 ${formatTime(d.nextAttemptAt)}` : ""}
+                </div>
+                <div style={{ flex: 1 }} />
+                <button className="btn-ghost" onClick={() => setOpenDeliveryId(open ? null : d.id)}>{open ? "收起" : "详情"}</button>
+                <button
+                  className="btn-ghost"
+                  disabled={busyId === -d.id}
+                  onClick={async () => {
+                    setBusyId(-d.id);
+                    setErr(null);
+                    try {
+                      await api.adminRedeliverWebhook(d.id);
+                      await refreshLog();
+                    } catch (e: any) {
+                      setErr(e?.message ?? String(e));
+                    } finally {
+                      setBusyId(null);
+                    }
+                  }}
+                >
+                  重新投递
+                </button>
+              </div>
+              {open ? (
+                <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+                  <div className="muted">请求体</div>
+                  <pre style={{ margin: 0, maxHeight: 260, overflow: "auto", fontSize: 12 }}>{prettyJson(d.payload)}</pre>
+                  <div className="muted">响应{d.responseStatus ? `（HTTP ${d.responseStatus}）` : ""}</div>
+                  <pre style={{ margin: 0, maxHeight: 200, overflow: "auto", fontSize: 12 }}>{d.responseBody || d.error || "—"}</pre>
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+export type DiffCell = { no: number; text: string };
+
+export type DiffRow = {
+  kind: "same" | "add" | "del" | "change";
+  left: DiffCell | null;
+  right: DiffCell | null;
+};
+
+// Past this many LCS cells we skip the table and report the middle section as one changed block.
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { kind: "same" | "add" | "del"; a: number; b: number };
+
+function lcsOps(a: string[], b: string[], aOffset: number, bOffset: number): Op[] {
+  const n = a.length;
+  const m = b.length;
+  if (!n) return b.map((_, j) => ({ kind: "add", a: -1, b: bOffset + j }));
+  if (!m) return a.map((_, i) => ({ kind: "del", a: aOffset + i, b: -1 }));
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...a.map((_, i) => ({ kind: "del" as const, a: aOffset + i, b: -1 })),
+      ...b.map((_, j) => ({ kind: "add" as const, a: -1, b: bOffset + j })),
+    ];
+  }
+
+  const w = m + 1;
+  const table = new Uint32Array((n + 1) * w);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * w + j] =
+        a[i] === b[j] ? table[(i + 1) * w + j + 1] + 1 : Math.max(table[(i + 1) * w + j], table[i * w + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: "same", a: aOffset + i++, b: bOffset + j++ });
+    } else if (table[(i + 1) * w + j] >= table[i * w + j + 1]) {
+      ops.push({ kind: "del", a: aOffset + i++, b: -1 });
+    } else {
+      ops.push({ kind: "add", a: -1, b: bOffset + j++ });
+    }
+  }
+  while (i < n) ops.push({ kind: "del", a: aOffset + i++, b: -1 });
+  while (j < m) ops.push({ kind: "add", a: -1, b: bOffset + j++ });
+  return ops;
+}
+
+// Line-based diff laid out for a side-by-side view: runs of deletions followed by additions
+// are paired up row by row as "change" rows.
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.replace(/\r\n/g, "\n").split("\n");
+  const b = after.replace(/\r\n/g, "\n").split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = [];
+  for (let k = 0; k < start; k++) ops.push({ kind: "same", a: k, b: k });
+  ops.push(...lcsOps(a.slice(start, endA), b.slice(start, endB), start, start));
+  for (let k = 0; k < a.length - endA; k++) ops.push({ kind: "same", a: endA + k, b: endB + k });
+
+  const rows: DiffRow[] = [];
+  let dels: DiffCell[] = [];
+  let adds: DiffCell[] = [];
+  const flush = () => {
+    const len = Math.max(dels.length, adds.length);
+    for (let k = 0; k < len; k++) {
+      const left = dels[k] ?? null;
+      const right = adds[k] ?? null;
+      rows.push({ kind: left && right ? "change" : left ? "del" : "add", left, right });
+    }
+    dels = [];
+    adds = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === "del") dels.push({ no: op.a + 1, text: a[op.a] });
+    else if (op.kind === "add") adds.push({ no: op.b + 1, text: b[op.b] });
+    else {
+      flush();
+      rows.push({ kind: "same", left: { no: op.a + 1, text: a[op.a] }, right: { no: op.b + 1, text: b[op.b] } });
+    }
+  }
+  flush();
+  return rows;
+}
@@ -1,6 +1,6 @@
-import type { LoaderFunctionArgs } from "react-router-dom";
+import { redirect, type LoaderFunctionArgs } from "react-router-dom";
 
-import { api, SiteSettings, Post } from "./api";
+import { api, SiteSettings, Post, type TaxonomyKind, type TaxonomyTermInfo } from "./api";
 
 // ── Root Loader (site settings for SSR) ──
 
@@ -45,6 +45,7 @@ export async function homeLoader(): Promise<HomeLoaderData> {
 export type PostLoaderData = {
   slug: string;
   post: Awaited<ReturnType<typeof api.getPost>>["post"];
+  related: Awaited<ReturnType<typeof api.getPost>>["related"];
   comments: Awaited<ReturnType<typeof api.listPostComments>>["items"];
 };
 
@@ -58,6 +59,7 @@ export async function postLoader({ params }: LoaderFunctionArgs): Promise<PostLo
   return {
     slug,
     post: p.post,
+    related: p.related,
     comments: c.items,
   };
 }
@@ -109,20 +111,34 @@ export async function tagListLoader(): Promise<TagListLoaderData> {
   }
 }
 
+// Description and image of a tag or category. Renamed and merged terms redirect to their new page.
+async function loadTerm(kind: TaxonomyKind, name: string): Promise<TaxonomyTermInfo | null> {
+  let res: Awaited<ReturnType<typeof api.getTerm>>;
+  try {
+    res = await api.getTerm(kind, name);
+  } catch {
+    return null;
+  }
+  if (res.redirect) throw redirect(res.redirect, 301);
+  return res.term;
+}
+
 // ── Tag ──
 
 export type TagLoaderData = {
   tag: string;
+  term: TaxonomyTermInfo | null;
   posts: Post[];
 };
 
 export async function tagLoader({ params }: LoaderFunctionArgs): Promise<TagLoaderData> {
   const tag = params.tag ?? "";
+  const term = await loadTerm("tag", tag);
   try {
     const res = await api.listPosts({ tag, limit: 50 });
-    return { tag, posts: res.items };
+    return { tag, term, posts: res.items };
   } catch {
-    return { tag, posts: [] };
+    return { tag, term, posts: [] };
   }
 }
 
@@ -145,16 +161,18 @@ export async function categoryListLoader(): Promise<CategoryListLoaderData> {
 
 export type CategoryLoaderData = {
   category: string;
+  term: TaxonomyTermInfo | null;
   posts: Post[];
 };
 
 export async function categoryLoader({ params }: LoaderFunctionArgs): Promise<CategoryLoaderData> {
   const category = params.category ?? "";
+  const term = await loadTerm("category", category);
   try {
     const res = await api.listPosts({ category, limit: 50 });
-    return { category, posts: res.items };
+    return { category, term, posts: res.items };
   } catch {
-    return { category, posts: [] };
+    return { category, term, posts: [] };
   }
 }
 
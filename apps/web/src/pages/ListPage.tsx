@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link, useParams, useSearchParams, useLoaderData } from "react-router-dom";
 
-import { api, Post } from "../api";
+import { api, Post, type PostSummary, type SearchFacets, type SearchFilters, type SearchHit } from "../api";
 import { PostCard } from "../components/PostCard";
+import { SearchFilterBar } from "../components/SearchFilterBar";
 import { Sidebar } from "../components/Sidebar";
 import { useSite } from "../site";
 import { placeholderImageDataUrl } from "../placeholder";
@@ -168,22 +169,49 @@ export function ArchivePage() {
 
 export function SearchPage() {
   const { site } = useSite();
-  const [sp] = useSearchParams();
+  const [sp, setSp] = useSearchParams();
   const q = sp.get("q") ?? "";
-  const [items, setItems] = useState<Post[]>([]);
-  const [recommendations, setRecommendations] = useState<Post[]>([]);
+  const [items, setItems] = useState<SearchHit[]>([]);
+  const [recommendations, setRecommendations] = useState<PostSummary[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   const [total, setTotal] = useState(0);
   const [err, setErr] = useState<string | null>(null);
 
+  // Filters live in the URL so a filtered search can be shared or reloaded.
+  const spKey = sp.toString();
+  const filters = useMemo<SearchFilters>(
+    () => ({
+      tag: sp.getAll("tag"),
+      category: sp.getAll("category"),
+      from: sp.get("from") ?? undefined,
+      to: sp.get("to") ?? undefined,
+      sort: sp.get("sort") === "newest" ? "newest" : undefined,
+    }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [spKey],
+  );
+
+  const setFilters = (next: SearchFilters) => {
+    const params = new URLSearchParams({ q });
+    next.tag?.forEach((t) => params.append("tag", t));
+    next.category?.forEach((c) => params.append("category", c));
+    if (next.from) params.set("from", next.from);
+    if (next.to) params.set("to", next.to);
+    if (next.sort && next.sort !== "relevance") params.set("sort", next.sort);
+    setSp(params, { replace: true });
+  };
+
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        const res = await api.search({ q, limit: 30, page: 1 });
+        const res = await api.search({ q, limit: 30, page: 1, ...filters });
         if (!alive) return;
+        setErr(null);
         setItems(res.items);
         setTotal(res.total);
         setRecommendations(res.recommendations);
+        setFacets(res.facets ?? null);
       } catch (e: any) {
         if (!alive) return;
         setErr(e?.message ?? String(e));
@@ -192,7 +220,9 @@ export function SearchPage() {
     return () => {
       alive = false;
     };
-  }, [q]);
+  }, [q, filters]);
+
+  const filtered = Boolean(filters.tag?.length || filters.category?.length || filters.from || filters.to);
 
   return (
     <PageLayout title={`搜索：${q}`} bg={site?.images.archiveHero}>
@@ -201,8 +231,14 @@ export function SearchPage() {
         <div className="card" style={{ padding: 40, textAlign: "center" }}>请输入关键词进行搜索</div>
       ) : null}
 
+      {q.trim() && facets && (items.length > 0 || filtered) ? (
+        <SearchFilterBar facets={facets} filters={filters} onChange={setFilters} />
+      ) : null}
+
       {q.trim() && items.length === 0 && !err ? (
-        <div className="card" style={{ padding: 40, textAlign: "center" }}>没有找到相关文章</div>
+        <div className="card" style={{ padding: 40, textAlign: "center" }}>
+          {filtered ? "没有符合筛选条件的文章" : "没有找到相关文章"}
+        </div>
       ) : null}
 
       {items.length ? (
@@ -212,7 +248,7 @@ export function SearchPage() {
           </div>
           <div className="grid">
             {items.map((p, i) => (
-              <PostCard key={p.id} post={p} index={i} />
+              <PostCard key={p.id} post={p} index={i} highlight={p} />
             ))}
           </div>
         </div>
@@ -222,7 +258,7 @@ export function SearchPage() {
         <div style={{ marginTop: 24 }}>
           <div className="card" style={{ padding: 20, marginBottom: 14 }}>
             <div className="widget-title" style={{ marginBottom: 0 }}>相关推荐</div>
-            <div className="muted">基于搜索结果的标签/分类推荐</div>
+            <div className="muted">与搜索结果内容相近的文章</div>
           </div>
           <div className="grid">
             {recommendations.map((p, i) => (
@@ -333,6 +369,7 @@ export function TagPage() {
   const { site } = useSite();
   const { tag } = useParams();
   const loaderData = useLoaderData() as TagLoaderData | undefined;
+  const term = loaderData?.term ?? null;
   const [items, setItems] = useState<Post[]>(loaderData?.posts ?? []);
   const [err, setErr] = useState<string | null>(null);
 
@@ -356,7 +393,8 @@ export function TagPage() {
   }, [tag]);
 
   return (
-    <PageLayout title={`标签：${tag}`} bg={site?.images.tagsHero}>
+    <PageLayout title={`标签：${tag}`} bg={term?.image || site?.images.tagsHero}>
+      {term?.description ? <div className="card termDescription">{term.description}</div> : null}
       {err ? <div className="card" style={{ padding: 20 }}>加载失败：{err}</div> : null}
       {items.length > 0 && (
         <div className="listResultsHeader">
@@ -377,6 +415,7 @@ export function CategoryPage() {
   const { site } = useSite();
   const { category } = useParams();
   const loaderData = useLoaderData() as CategoryLoaderData | undefined;
+  const term = loaderData?.term ?? null;
   const [items, setItems] = useState<Post[]>(loaderData?.posts ?? []);
   const [err, setErr] = useState<string | null>(null);
 
@@ -400,7 +439,8 @@ export function CategoryPage() {
   }, [category]);
 
   return (
-    <PageLayout title={`分类：${category}`} bg={site?.images.tagsHero}>
+    <PageLayout title={`分类：${category}`} bg={term?.image || site?.images.tagsHero}>
+      {term?.description ? <div className="card termDescription">{term.description}</div> : null}
       {err ? <div className="card" style={{ padding: 20 }}>加载失败：{err}</div> : null}
       {items.length > 0 && (
         <div className="listResultsHeader">
@@ -1,9 +1,10 @@
-import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useLoaderData } from "react-router-dom";
-import { MdDateRange, MdLabel, MdFolder, MdRefresh, MdKeyboardArrowUp } from "react-icons/md";
+import { MdDateRange, MdLabel, MdFolder, MdRefresh, MdKeyboardArrowUp, MdReply, MdClose, MdPerson } from "react-icons/md";
 
 import { api, Captcha, Comment, Post } from "../api";
 import { Markdown } from "../components/Markdown";
+import { PostCard } from "../components/PostCard";
 import { buildToc, extractImageUrls } from "../markdown";
 import { useSite } from "../site";
 import { placeholderImageDataUrl } from "../placeholder";
@@ -18,7 +19,7 @@ function formatDate(iso: string | null) {
 }
 
 export function PostPage() {
-  const { slug, post, comments: initialComments } = useLoaderData() as PostLoaderData;
+  const { slug, post, related, comments: initialComments } = useLoaderData() as PostLoaderData;
   const { site } = useSite();
 
   const [comments, setComments] = useState<Comment[]>(initialComments);
@@ -35,7 +36,18 @@ export function PostPage() {
       return "";
     }
   });
+  const [email, setEmail] = useState(() => {
+    if (typeof window === "undefined") return "";
+    try {
+      return localStorage.getItem("yablog_comment_email") ?? "";
+    } catch {
+      return "";
+    }
+  });
+  const [notify, setNotify] = useState(false);
   const [contentMd, setContentMd] = useState("");
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const commentFormRef = useRef<HTMLFormElement | null>(null);
   const [submitErr, setSubmitErr] = useState<string | null>(null);
   const [submitOk, setSubmitOk] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
@@ -58,6 +70,7 @@ export function PostPage() {
     setComments(initialComments);
     setCommentsErr(null);
     setCommentsLoading(false);
+    setReplyTo(null);
     // Captcha is POST based; refresh per post.
     refreshCaptcha();
   }, [slug, initialComments, refreshCaptcha]);
@@ -75,6 +88,57 @@ export function PostPage() {
     }
   }, [slug]);
 
+  // Replies whose parent is not visible (e.g. moved back to pending) are shown at the top level.
+  const commentChildren = useMemo(() => {
+    const ids = new Set(comments.map((c) => c.id));
+    const map = new Map<number | null, Comment[]>();
+    for (const c of comments) {
+      const key = c.parentId && ids.has(c.parentId) ? c.parentId : null;
+      const list = map.get(key) ?? [];
+      list.push(c);
+      map.set(key, list);
+    }
+    return map;
+  }, [comments]);
+
+  const startReply = (c: Comment) => {
+    setReplyTo(c);
+    setSubmitErr(null);
+    setSubmitOk(null);
+    commentFormRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const renderComment = (c: Comment) => {
+    const replies = commentChildren.get(c.id) ?? [];
+    return (
+      <div key={c.id} className="glass" style={{ padding: 14 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap" }}>
+          <div style={{ fontWeight: 700 }}>
+            {c.author}
+            {c.isAdmin ? <span className="commentAuthorBadge">作者</span> : null}
+          </div>
+          <div className="muted" style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 10 }}>
+            {formatDate(c.createdAt)}
+            <button
+              className="btn-ghost"
+              type="button"
+              onClick={() => startReply(c)}
+              style={{ display: "inline-flex", alignItems: "center", gap: 4, padding: "2px 8px", fontSize: 12 }}
+            >
+              <MdReply />
+              回复
+            </button>
+          </div>
+        </div>
+        <div style={{ height: 8 }} />
+        <div className="markdown" style={{ padding: 0, background: "transparent", border: 0 }}>
+          <Markdown value={c.contentMd} sanitize />
+        </div>
+        {replies.length ? <div className="commentReplies">{replies.map(renderComment)}</div> : null}
+      </div>
+    );
+  };
+
   useEffect(() => {
     const onScroll = () => setShowTop(window.scrollY > 600);
     onScroll();
@@ -141,6 +205,14 @@ export function PostPage() {
         <div className="post-header-info">
           <h1 className="post-title">{post.title}</h1>
           <div className="post-meta">
+            {post.authorName ? (
+              <>
+                <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                  <MdPerson /> {post.authorName}
+                </span>
+                <span style={{ margin: '0 10px' }}>|</span>
+              </>
+            ) : null}
             <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
               <MdDateRange /> {formatDate(post.publishedAt ?? post.updatedAt)}
             </span>
@@ -222,18 +294,7 @@ export function PostPage() {
             ) : null}
 
             <div style={{ display: "grid", gap: 12 }}>
-              {comments.map((c) => (
-                <div key={c.id} className="glass" style={{ padding: 14 }}>
-                  <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap" }}>
-                    <div style={{ fontWeight: 700 }}>{c.author}</div>
-                    <div className="muted" style={{ fontSize: 12 }}>{formatDate(c.createdAt)}</div>
-                  </div>
-                  <div style={{ height: 8 }} />
-                  <div className="markdown" style={{ padding: 0, background: "transparent", border: 0 }}>
-                    <Markdown value={c.contentMd} sanitize />
-                  </div>
-                </div>
-              ))}
+              {(commentChildren.get(null) ?? []).map(renderComment)}
             </div>
 
             <div style={{ height: 18 }} />
@@ -244,6 +305,7 @@ export function PostPage() {
             <div style={{ height: 12 }} />
 
             <form
+              ref={commentFormRef}
               onSubmit={async (e: FormEvent) => {
                 e.preventDefault();
                 setSubmitErr(null);
@@ -260,13 +322,18 @@ export function PostPage() {
                 setSubmitting(true);
                 try {
                   localStorage.setItem("yablog_comment_author", a);
+                  localStorage.setItem("yablog_comment_email", email.trim());
                   await api.createPostComment(slug, {
                     author: a,
                     contentMd: m,
+                    parentId: replyTo?.id ?? null,
+                    email: email.trim(),
+                    notify: Boolean(email.trim()) && notify,
                     captchaId: captcha.id,
                     captchaAnswer,
                   });
                   setContentMd("");
+                  setReplyTo(null);
                   setSubmitOk("已提交，等待后台审核后展示。");
                   await refreshCaptcha();
                 } catch (e: any) {
@@ -278,7 +345,35 @@ export function PostPage() {
               }}
               style={{ display: "grid", gap: 10 }}
             >
+              {replyTo ? (
+                <div className="muted" style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  回复 @{replyTo.author}
+                  <button className="btn-ghost" type="button" onClick={() => setReplyTo(null)} title="取消回复" style={{ display: "inline-flex", alignItems: "center", padding: "2px 6px" }}>
+                    <MdClose />
+                  </button>
+                </div>
+              ) : null}
               <input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="昵称" maxLength={40} />
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="邮箱（选填，不会公开）"
+                  maxLength={200}
+                  style={{ flex: 1, minWidth: 200 }}
+                />
+                <label className="muted" style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+                  <input
+                    type="checkbox"
+                    checked={notify}
+                    onChange={(e) => setNotify(e.target.checked)}
+                    disabled={!email.trim()}
+                    style={{ width: "auto" }}
+                  />
+                  审核通过或有人回复时邮件通知我
+                </label>
+              </div>
               <textarea
                 value={contentMd}
                 onChange={(e) => setContentMd(e.target.value)}
@@ -312,6 +407,19 @@ export function PostPage() {
               {submitOk ? <div className="muted" style={{ color: "var(--accent)" }}>{submitOk}</div> : null}
             </form>
           </div>
+
+          {related.length ? (
+            <div style={{ marginTop: 24 }}>
+              <div className="card" style={{ padding: 20, marginBottom: 14 }}>
+                <div className="widget-title" style={{ marginBottom: 0 }}>相关文章</div>
+              </div>
+              <div className="grid">
+                {related.map((p, i) => (
+                  <PostCard key={p.id} post={p} index={i} />
+                ))}
+              </div>
+            </div>
+          ) : null}
         </div>
 
         <aside className="sidebar">
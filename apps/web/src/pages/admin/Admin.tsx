@@ -1,11 +1,25 @@
 import { FormEvent, useCallback, useEffect, useState } from "react";
 import { Link, Navigate, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 
-import { AiSettings, api, CloudflareSettings, CommentAdminRow, IpBan, Link as FriendLink, LinkRequest, Post, SuspiciousIp, User } from "../../api";
+import { AiSettings, api, CloudflareSettings, CommentAdminRow, IpBan, Link as FriendLink, LinkRequest, Post, PostStatus, RestorePreview, SuspiciousIp, User, UserRole } from "../../api";
 import { ImageField } from "../../components/ImageField";
+import { MailSettingsCard } from "../../components/MailSettingsCard";
 import { Markdown } from "../../components/Markdown";
 import { MediaLibraryPanel } from "../../components/MediaLibraryModal";
 import { MarkdownEditor } from "../../components/MarkdownEditor";
+import { ImportPanel } from "../../components/ImportPanel";
+import { PostRevisionsPanel } from "../../components/PostRevisions";
+import { RestoreMergeCard } from "../../components/RestoreMergeCard";
+import { RestorePreviewPanel, restoreErrorText } from "../../components/RestorePreviewPanel";
+import { S3BackupCard } from "../../components/S3BackupCard";
+import { ApiTokensCard } from "../../components/ApiTokensCard";
+import { BackupScheduleCard } from "../../components/BackupScheduleCard";
+import { LoginAuditList } from "../../components/LoginAuditList";
+import { SessionsCard } from "../../components/SessionsCard";
+import { TwoFactorCard } from "../../components/TwoFactorCard";
+import { TaxonomyPanel } from "../../components/TaxonomyPanel";
+import { ROLE_LABELS, UsersPanel } from "../../components/UsersPanel";
+import { WebhooksPanel } from "../../components/WebhooksPanel";
 import { useSite } from "../../site";
 
 const NAV_ICON_OPTIONS = [
@@ -29,6 +43,18 @@ const NAV_PATH_OPTIONS = [
   { path: "/about", label: "关于 /about" },
 ];
 
+const STATUS_LABELS: Record<PostStatus, string> = {
+  draft: "草稿",
+  scheduled: "定时发布",
+  published: "已发布",
+};
+
+const STATUS_COLORS: Record<PostStatus, string> = {
+  draft: "orange",
+  scheduled: "var(--accent)",
+  published: "green",
+};
+
 function useMe() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -54,6 +80,9 @@ function useMe() {
   return { user, loading, refresh: async () => api.me().then((r) => setUser(r.user)) };
 }
 
+// Mirrors the server-side checks so people are not shown pages that would only answer "forbidden".
+const hasRole = (user: User, ...roles: UserRole[]) => roles.includes(user.role);
+
 // Wrap admin pages in a simple centered container since we removed the public layout
 const AdminLayoutWrapper = ({ children }: { children: React.ReactNode }) => (
   <div className="adminRoot" style={{ minHeight: "100vh", background: "var(--bg)", padding: "40px 20px" }}>
@@ -83,6 +112,9 @@ export function AdminLoginPage() {
 
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  // Set when the password was accepted but the account also needs a TOTP or recovery code.
+  const [ticket, setTicket] = useState<string | null>(null);
+  const [code, setCode] = useState("");
   const [err, setErr] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -91,7 +123,12 @@ export function AdminLoginPage() {
     setErr(null);
     setLoading(true);
     try {
-      await api.login({ username, password });
+      const res = await api.login({ username, password });
+      if (res.twoFactorRequired && res.ticket) {
+        setTicket(res.ticket);
+        setCode("");
+        return;
+      }
       navigate(from, { replace: true });
     } catch (e: any) {
       setErr(e?.message ?? String(e));
@@ -100,22 +137,126 @@ export function AdminLoginPage() {
     }
   };
 
+  const onSubmitCode = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!ticket) return;
+    setErr(null);
+    setLoading(true);
+    try {
+      const res = await api.loginTwoFactor({ ticket, code: code.trim() });
+      if (res.usedRecoveryCode) alert("已使用一个恢复码登录。请在「设置」中检查剩余恢复码，必要时重新生成。");
+      navigate(from, { replace: true });
+    } catch (e: any) {
+      const raw = e?.message ?? String(e);
+      if (raw.includes("invalid_ticket")) {
+        setTicket(null);
+        setPassword("");
+        setErr("验证已过期或尝试次数过多，请重新登录");
+      } else if (raw.includes("invalid_code")) setErr("验证码不正确");
+      else setErr(raw);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="adminRoot" style={{ minHeight: "100vh", display: "flex", alignItems: "center", justifyContent: "center", background: "var(--bg)" }}>
       <div className="glass content" style={{ width: "100%", maxWidth: 400, padding: 40 }}>
         <h2 style={{ marginTop: 0, textAlign: 'center' }}>后台登录</h2>
         <div style={{ height: 20 }} />
-        <form onSubmit={onSubmit} style={{ display: "grid", gap: 20 }}>
-          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="用户名" />
-          <input
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            placeholder="密码"
-          />
-          <button className="btn-primary" disabled={loading}>{loading ? "登录中…" : "登录"}</button>
-          {err ? <div className="muted" style={{ textAlign: "center", color: "red" }}>{err}</div> : null}
-        </form>
+        {ticket ? (
+          <form onSubmit={onSubmitCode} style={{ display: "grid", gap: 20 }}>
+            <div className="muted" style={{ textAlign: "center" }}>请输入身份验证器中的 6 位验证码，或一个恢复码</div>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="验证码 / 恢复码"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+            />
+            <button className="btn-primary" disabled={loading || !code.trim()}>{loading ? "验证中…" : "验证"}</button>
+            <button type="button" className="btn-ghost" onClick={() => setTicket(null)} disabled={loading}>返回</button>
+            {err ? <div className="muted" style={{ textAlign: "center", color: "red" }}>{err}</div> : null}
+          </form>
+        ) : (
+          <form onSubmit={onSubmit} style={{ display: "grid", gap: 20 }}>
+            <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="用户名" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="密码"
+            />
+            <button className="btn-primary" disabled={loading}>{loading ? "登录中…" : "登录"}</button>
+            {err ? <div className="muted" style={{ textAlign: "center", color: "red" }}>{err}</div> : null}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function AdminInvitePage() {
+  const navigate = useNavigate();
+  const { token = "" } = useParams();
+  const [info, setInfo] = useState<{ username: string; displayName: string; isNew: boolean } | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [err, setErr] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await api.getInvite(token);
+        if (alive) setInfo(res);
+      } catch {
+        if (alive) setErr("链接无效或已过期，请联系管理员重新生成");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [token]);
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setErr(null);
+    if (password.length < 8) return setErr("密码至少 8 位");
+    if (password !== confirmPassword) return setErr("两次输入的密码不一致");
+    setSaving(true);
+    try {
+      await api.acceptInvite(token, password);
+      navigate("/admin", { replace: true });
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="adminRoot" style={{ minHeight: "100vh", display: "flex", alignItems: "center", justifyContent: "center", background: "var(--bg)" }}>
+      <div className="glass content" style={{ width: "100%", maxWidth: 400, padding: 40 }}>
+        <h2 style={{ marginTop: 0, textAlign: 'center' }}>{info && !info.isNew ? "重置密码" : "接受邀请"}</h2>
+        {loading ? <div className="muted" style={{ textAlign: "center" }}>加载中…</div> : null}
+        {info ? (
+          <form onSubmit={onSubmit} style={{ display: "grid", gap: 20 }}>
+            <div className="muted" style={{ textAlign: "center" }}>
+              登录用户名：<b>{info.username}</b>
+              {info.displayName ? `（${info.displayName}）` : ""}
+            </div>
+            <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="设置密码（至少 8 位）" />
+            <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="确认密码" />
+            <button className="btn-primary" disabled={saving}>{saving ? "保存中…" : "设置密码并登录"}</button>
+          </form>
+        ) : null}
+        {err ? <div className="muted" style={{ textAlign: "center", color: "red", marginTop: 20 }}>{err}</div> : null}
       </div>
     </div>
   );
@@ -184,6 +325,9 @@ function AdminDashboard({ user }: { user: User }) {
     });
   const clearSelected = () => setSelectedIds(new Set());
 
+  // Pinning and ordering are editor/admin actions; authors only see their own posts.
+  const canCurate = hasRole(user, "admin", "editor");
+
   const runSequential = async (ids: number[], fn: (id: number) => Promise<void>) => {
     for (const id of ids) await fn(id);
   };
@@ -193,15 +337,27 @@ function AdminDashboard({ user }: { user: User }) {
       <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap", alignItems: 'center', marginBottom: 30 }}>
         <div>
           <h2 style={{ margin: 0 }}>控制台</h2>
-          <div className="muted">欢迎回来，{user.username}</div>
+          <div className="muted">欢迎回来，{user.displayName || user.username}（{ROLE_LABELS[user.role]}）</div>
         </div>
         <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
           <button className="btn-primary" onClick={() => navigate("/admin/new")}>+ 新建文章</button>
           <button className="btn-ghost" onClick={() => navigate("/admin/media")}>图库</button>
-          <button className="btn-ghost" onClick={() => navigate("/admin/comments")}>评论</button>
-          <button className="btn-ghost" onClick={() => navigate("/admin/links")}>友链</button>
-          <button className="btn-ghost" onClick={() => navigate("/admin/security")}>安全</button>
-          <button className="btn-ghost" onClick={() => navigate("/admin/settings")}>设置</button>
+          {hasRole(user, "admin", "editor") ? (
+            <>
+              <button className="btn-ghost" onClick={() => navigate("/admin/comments")}>评论</button>
+              <button className="btn-ghost" onClick={() => navigate("/admin/taxonomy")}>标签与分类</button>
+              <button className="btn-ghost" onClick={() => navigate("/admin/links")}>友链</button>
+              <button className="btn-ghost" onClick={() => navigate("/admin/import")}>导入</button>
+            </>
+          ) : null}
+          {hasRole(user, "admin") ? (
+            <>
+              <button className="btn-ghost" onClick={() => navigate("/admin/security")}>安全</button>
+              <button className="btn-ghost" onClick={() => navigate("/admin/webhooks")}>Webhook</button>
+              <button className="btn-ghost" onClick={() => navigate("/admin/users")}>用户</button>
+            </>
+          ) : null}
+          <button className="btn-ghost" onClick={() => navigate("/admin/settings")}>{hasRole(user, "admin") ? "设置" : "账户"}</button>
           <button className="btn-ghost" onClick={onLogout}>退出</button>
         </div>
       </div>
@@ -223,42 +379,46 @@ function AdminDashboard({ user }: { user: User }) {
         <button className="btn-ghost" disabled={!selectedCount || bulkBusy} onClick={clearSelected}>
           清空
         </button>
-        <button
-          className="btn-ghost"
-          disabled={!selectedCount || bulkBusy}
-          onClick={async () => {
-            setBulkBusy(true);
-            try {
-              const ids = Array.from(selectedIds);
-              await runSequential(ids, async (id) => {
-                await api.adminUpdatePostOrder(id, { featured: true });
-              });
-              await refresh();
-            } finally {
-              setBulkBusy(false);
-            }
-          }}
-        >
-          批量置顶
-        </button>
-        <button
-          className="btn-ghost"
-          disabled={!selectedCount || bulkBusy}
-          onClick={async () => {
-            setBulkBusy(true);
-            try {
-              const ids = Array.from(selectedIds);
-              await runSequential(ids, async (id) => {
-                await api.adminUpdatePostOrder(id, { featured: false });
-              });
-              await refresh();
-            } finally {
-              setBulkBusy(false);
-            }
-          }}
-        >
-          取消置顶
-        </button>
+        {canCurate ? (
+          <>
+            <button
+              className="btn-ghost"
+              disabled={!selectedCount || bulkBusy}
+              onClick={async () => {
+                setBulkBusy(true);
+                try {
+                  const ids = Array.from(selectedIds);
+                  await runSequential(ids, async (id) => {
+                    await api.adminUpdatePostOrder(id, { featured: true });
+                  });
+                  await refresh();
+                } finally {
+                  setBulkBusy(false);
+                }
+              }}
+            >
+              批量置顶
+            </button>
+            <button
+              className="btn-ghost"
+              disabled={!selectedCount || bulkBusy}
+              onClick={async () => {
+                setBulkBusy(true);
+                try {
+                  const ids = Array.from(selectedIds);
+                  await runSequential(ids, async (id) => {
+                    await api.adminUpdatePostOrder(id, { featured: false });
+                  });
+                  await refresh();
+                } finally {
+                  setBulkBusy(false);
+                }
+              }}
+            >
+              取消置顶
+            </button>
+          </>
+        ) : null}
         <button
           className="btn-danger"
           disabled={!selectedCount || bulkBusy}
@@ -292,46 +452,53 @@ function AdminDashboard({ user }: { user: User }) {
             <div className="adminPostMain" style={{ flex: 1, minWidth: 0 }}>
               <div className="adminPostTitle" style={{ fontWeight: 600, fontSize: 16, marginBottom: 4, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{p.title}</div>
               <div className="meta adminPostMeta" style={{ display: 'flex', gap: 8, fontSize: 12, flexWrap: "wrap" }}>
-                <span className={`pill ${p.status === 'published' ? 'active' : ''}`} style={{ color: p.status === 'published' ? 'green' : 'orange' }}>{p.status === 'published' ? '已发布' : '草稿'}</span>
+                <span className={`pill ${p.status === 'published' ? 'active' : ''}`} style={{ color: STATUS_COLORS[p.status] }}>
+                  {p.status === 'scheduled' && p.publishedAt ? `定时 ${shortDate(p.publishedAt)}` : STATUS_LABELS[p.status]}
+                </span>
                 {p.featured ? <span className="pill" style={{ color: 'var(--accent)' }}>置顶</span> : null}
                 <span className="pill">排序 {p.sortOrder ?? 0}</span>
+                {canCurate && p.authorName ? <span className="pill">{p.authorName}</span> : null}
                 <span className="muted adminPostSlug">/{p.slug}</span>
               </div>
             </div>
             <div className="adminPostActions" style={{ display: "flex", gap: 10 }}>
-              <button
-                onClick={async () => {
-                  await api.adminUpdatePostOrder(p.id, { featured: !Boolean(p.featured) });
-                  refresh();
-                }}
-                className="pill"
-                style={{ background: "transparent" }}
-                title="置顶/取消置顶"
-              >
-                {p.featured ? "取消置顶" : "置顶"}
-              </button>
-              <button
-                onClick={async () => {
-                  await api.adminUpdatePostOrder(p.id, { sortOrder: (p.sortOrder ?? 0) + 1 });
-                  refresh();
-                }}
-                className="pill"
-                style={{ background: "transparent" }}
-                title="排序 +1"
-              >
-                ↑
-              </button>
-              <button
-                onClick={async () => {
-                  await api.adminUpdatePostOrder(p.id, { sortOrder: (p.sortOrder ?? 0) - 1 });
-                  refresh();
-                }}
-                className="pill"
-                style={{ background: "transparent" }}
-                title="排序 -1"
-              >
-                ↓
-              </button>
+              {canCurate ? (
+                <>
+                  <button
+                    onClick={async () => {
+                      await api.adminUpdatePostOrder(p.id, { featured: !Boolean(p.featured) });
+                      refresh();
+                    }}
+                    className="pill"
+                    style={{ background: "transparent" }}
+                    title="置顶/取消置顶"
+                  >
+                    {p.featured ? "取消置顶" : "置顶"}
+                  </button>
+                  <button
+                    onClick={async () => {
+                      await api.adminUpdatePostOrder(p.id, { sortOrder: (p.sortOrder ?? 0) + 1 });
+                      refresh();
+                    }}
+                    className="pill"
+                    style={{ background: "transparent" }}
+                    title="排序 +1"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={async () => {
+                      await api.adminUpdatePostOrder(p.id, { sortOrder: (p.sortOrder ?? 0) - 1 });
+                      refresh();
+                    }}
+                    className="pill"
+                    style={{ background: "transparent" }}
+                    title="排序 -1"
+                  >
+                    ↓
+                  </button>
+                </>
+              ) : null}
               <Link to={`/post/${p.slug}`} target="_blank" className="pill">
                 查看
               </Link>
@@ -362,12 +529,13 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
   const [contentMd, setContentMd] = useState("# Hello YaBlog\n\n开始写作吧。");
   const [tags, setTags] = useState("");
   const [categories, setCategories] = useState("");
-  const [status, setStatus] = useState<"draft" | "published">("draft");
+  const [status, setStatus] = useState<PostStatus>("draft");
   const [publishedAtLocal, setPublishedAtLocal] = useState<string>("");
   const [featured, setFeatured] = useState(false);
   const [sortOrder, setSortOrder] = useState(0);
   const [err, setErr] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [revisionsKey, setRevisionsKey] = useState(0);
 
   const toLocalInput = (iso: string | null) => {
     if (!iso) return "";
@@ -376,6 +544,11 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
     return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
   };
 
+  const isFutureLocal = (value: string) => {
+    const iso = fromLocalInput(value);
+    return Boolean(iso && new Date(iso).getTime() > Date.now());
+  };
+
   const fromLocalInput = (value: string) => {
     const v = value.trim();
     if (!v) return null;
@@ -384,6 +557,20 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
     return d.toISOString();
   };
 
+  const applyPost = (found: Post) => {
+    setTitle(found.title);
+    setSlug(found.slug);
+    setSummary(found.summary ?? "");
+    setCoverImage(found.coverImage ?? "");
+    setContentMd(found.contentMd);
+    setTags(found.tags.join(","));
+    setCategories(found.categories.join(","));
+    setStatus(found.status);
+    setPublishedAtLocal(toLocalInput(found.publishedAt ?? null));
+    setFeatured(Boolean(found.featured));
+    setSortOrder(found.sortOrder ?? 0);
+  };
+
   useEffect(() => {
     if (mode === "new") return;
     if (!id) return;
@@ -392,19 +579,7 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
         const res = await api.adminListPosts({ limit: 100 });
         const found = res.items.find((p) => p.id === id) ?? null;
         setPost(found);
-        if (found) {
-          setTitle(found.title);
-          setSlug(found.slug);
-          setSummary(found.summary ?? "");
-          setCoverImage(found.coverImage ?? "");
-          setContentMd(found.contentMd);
-          setTags(found.tags.join(","));
-          setCategories(found.categories.join(","));
-          setStatus(found.status);
-          setPublishedAtLocal(toLocalInput(found.publishedAt ?? null));
-          setFeatured(Boolean(found.featured));
-          setSortOrder(found.sortOrder ?? 0);
-        }
+        if (found) applyPost(found);
       } catch (e: any) {
         setErr(e?.message ?? String(e));
       }
@@ -439,9 +614,11 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
         navigate(`/admin/edit/${res.id}`, { replace: true });
       } else {
         if (!id) throw new Error("missing id");
-        await api.adminUpdatePost(id, payload);
+        const res = await api.adminUpdatePost(id, payload);
+        setStatus(res.status);
+        setPublishedAtLocal(toLocalInput(res.publishedAt));
+        setRevisionsKey((k) => k + 1);
       }
-      if (opts?.publish) setStatus("published");
     } catch (e: any) {
       setErr(e?.message ?? String(e));
     } finally {
@@ -479,7 +656,7 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
               {saving ? "保存中…" : "保存更改"}
             </button>
             <button className="btn-primary" onClick={() => onSave({ publish: true })} disabled={saving}>
-              {saving ? "保存中…" : "保存并发布"}
+              {saving ? "保存中…" : isFutureLocal(publishedAtLocal) ? "定时发布" : "保存并发布"}
             </button>
 	          </div>
 	        </div>
@@ -538,27 +715,34 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
 	              <div className="card" style={{ padding: 20 }}>
                 <div className="widget-title">发布状态</div>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: 12, marginTop: 10 }}>
-                    <div className="muted">当前状态：{status === "published" ? "已发布" : "草稿"}</div>
+                    <div className="muted">
+                      当前状态：{STATUS_LABELS[status]}
+                      {status === "scheduled" && publishedAtLocal ? `（将于 ${publishedAtLocal.replace("T", " ")} 自动发布）` : ""}
+                    </div>
                     <label style={{ display: "grid", gap: 6 }}>
-                      <span style={{ fontSize: 13, color: "var(--muted)" }}>发布时间（可留空，发布时自动取当前时间）</span>
+                      <span style={{ fontSize: 13, color: "var(--muted)" }}>发布时间（可留空，发布时自动取当前时间；填写未来时间并发布即为定时发布）</span>
                       <input
                         type="datetime-local"
                         value={publishedAtLocal}
                         onChange={(e) => setPublishedAtLocal(e.target.value)}
                       />
                     </label>
-	                  <label style={{ display: 'flex', alignItems: 'center', gap: 10, cursor: 'pointer' }}>
-	                    <input type="checkbox" checked={featured} onChange={(e) => setFeatured(e.target.checked)} style={{ width: 'auto' }} />
-	                    <span>置顶文章 (首页置顶)</span>
-	                  </label>
-                    <label style={{ display: 'grid', gap: 6 }}>
-                      <span style={{ fontSize: 13, color: 'var(--muted)' }}>排序权重（数字越大越靠前）</span>
-                      <input
-                        type="number"
-                        value={sortOrder}
-                        onChange={(e) => setSortOrder(Number(e.target.value) || 0)}
-                      />
-                    </label>
+                    {hasRole(user, "admin", "editor") ? (
+                      <>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 10, cursor: 'pointer' }}>
+                          <input type="checkbox" checked={featured} onChange={(e) => setFeatured(e.target.checked)} style={{ width: 'auto' }} />
+                          <span>置顶文章 (首页置顶)</span>
+                        </label>
+                        <label style={{ display: 'grid', gap: 6 }}>
+                          <span style={{ fontSize: 13, color: 'var(--muted)' }}>排序权重（数字越大越靠前）</span>
+                          <input
+                            type="number"
+                            value={sortOrder}
+                            onChange={(e) => setSortOrder(Number(e.target.value) || 0)}
+                          />
+                        </label>
+                      </>
+                    ) : null}
 	                </div>
 	              </div>
 
@@ -571,6 +755,19 @@ export function AdminEditorPage({ mode }: { mode: "new" | "edit" }) {
             </div>
           </div>
 
+          {mode === "edit" && id ? (
+            <PostRevisionsPanel
+              postId={id}
+              currentMd={contentMd}
+              refreshKey={revisionsKey}
+              onRestored={(restored) => {
+                if (!restored) return;
+                setPost(restored);
+                applyPost(restored);
+              }}
+            />
+          ) : null}
+
           {err ? <div className="card" style={{ padding: 15, color: 'red', background: '#fff2f0', border: '1px solid #ffccc7' }}>错误：{err}</div> : null}
 
         </div>
@@ -633,6 +830,7 @@ export function AdminSettingsPage() {
   const [newUsername, setNewUsername] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [displayName, setDisplayName] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
   const [err, setErr] = useState<string | null>(null);
@@ -646,6 +844,7 @@ export function AdminSettingsPage() {
   const [restoreFullFile, setRestoreFullFile] = useState<File | null>(null);
   const [restoreFullMsg, setRestoreFullMsg] = useState<string | null>(null);
   const [restoreFullErr, setRestoreFullErr] = useState<string | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
 
   const [siteDraft, setSiteDraft] = useState(site);
   const [siteBusy, setSiteBusy] = useState(false);
@@ -711,6 +910,23 @@ export function AdminSettingsPage() {
     };
   }, []);
 
+  // A preview staged before a page reload can still be confirmed until it expires.
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await api.adminGetRestorePreview();
+        if (!alive) return;
+        setRestorePreview(res.preview);
+      } catch {
+        // ignore
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
   if (loading) return <div>Loading...</div>;
   if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
 
@@ -747,6 +963,23 @@ export function AdminSettingsPage() {
     }
   };
 
+  const onSaveDisplayName = async () => {
+    if (displayName === null) return;
+    setErr(null);
+    setMsg(null);
+    setSaving(true);
+    try {
+      await api.adminUpdateProfile({ displayName: displayName.trim() });
+      await refresh();
+      setDisplayName(null);
+      setMsg("显示名称已保存");
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const onDownloadBackup = () => {
     setBackupErr(null);
     try {
@@ -756,23 +989,18 @@ export function AdminSettingsPage() {
     }
   };
 
+  // Restores are previewed first; RestorePreviewPanel confirms or cancels the staged backup.
   const onRestore = async () => {
     setRestoreErr(null);
     setRestoreMsg(null);
     if (!restoreFile) return setRestoreErr("请选择要上传的备份文件（.db 或 .db.gz）");
-    if (!window.confirm("恢复备份会替换当前数据库，并触发服务重启。确定继续吗？")) return;
 
     setRestoreBusy(true);
     try {
-      const res = await api.adminRestoreBackup(restoreFile);
-      if (res.restarting) {
-        setRestoreMsg("已开始恢复，服务正在重启…（Docker 会自动拉起新进程）");
-        setTimeout(() => window.location.reload(), 2500);
-      } else {
-        setRestoreMsg("已恢复");
-      }
+      const res = await api.adminPreviewRestore(restoreFile, "db");
+      setRestorePreview(res.preview);
     } catch (e: any) {
-      setRestoreErr(e?.message ?? String(e));
+      setRestoreErr(restoreErrorText(e?.message ?? String(e)));
     } finally {
       setRestoreBusy(false);
     }
@@ -782,23 +1010,21 @@ export function AdminSettingsPage() {
     window.location.assign("/api/admin/backup/full");
   };
 
+  const onExportMarkdown = (layout: "hugo" | "hexo") => {
+    window.location.assign(`/api/admin/backup/markdown?layout=${layout}`);
+  };
+
   const onRestoreFull = async () => {
     setRestoreFullErr(null);
     setRestoreFullMsg(null);
     if (!restoreFullFile) return setRestoreFullErr("请选择全量备份文件（.tar.gz）");
-    if (!window.confirm("全量恢复会替换数据库和图片库，并触发服务重启。确定继续吗？")) return;
 
     setRestoreFullBusy(true);
     try {
-      const res = await api.adminRestoreFullBackup(restoreFullFile);
-      if (res.restarting) {
-        setRestoreFullMsg("已开始全量恢复，服务正在重启…");
-        setTimeout(() => window.location.reload(), 2500);
-      } else {
-        setRestoreFullMsg("已恢复");
-      }
+      const res = await api.adminPreviewRestore(restoreFullFile, "full");
+      setRestorePreview(res.preview);
     } catch (e: any) {
-      setRestoreFullErr(e?.message ?? String(e));
+      setRestoreFullErr(restoreErrorText(e?.message ?? String(e)));
     } finally {
       setRestoreFullBusy(false);
     }
@@ -871,6 +1097,53 @@ export function AdminSettingsPage() {
     }
   };
 
+  const accountCard = (
+    <div className="card adminSettingsCard" style={{ padding: 30 }}>
+      <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>修改账户信息</div>
+      <div style={{ display: 'grid', gap: 15 }}>
+        <div style={{ display: "flex", gap: 10 }}>
+          <input
+            value={displayName ?? user.displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="显示名称（文章署名，留空则不显示）"
+            style={{ flex: 1 }}
+          />
+          <button className="btn-ghost" onClick={onSaveDisplayName} disabled={saving || displayName === null}>保存</button>
+        </div>
+        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} placeholder="当前授权密码" />
+        <input value={newUsername} onChange={(e) => setNewUsername(e.target.value)} placeholder="新用户名 (留空不改)" />
+        <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="新密码 (留空不改, 至少8位)" />
+        <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="确认新密码" />
+        <button className="btn-primary" onClick={onSave} disabled={saving} style={{ marginTop: 10 }}>
+          {saving ? "保存中..." : "保存更改"}
+        </button>
+        {msg ? <span style={{ color: 'green' }}>{msg}</span> : null}
+        {err ? <span style={{ color: 'red' }}>{err}</span> : null}
+      </div>
+    </div>
+  );
+
+  // Editors and authors only manage their own account here; everything else on this page is admin-only.
+  if (!hasRole(user, "admin")) {
+    return (
+      <AdminLayoutWrapper>
+        <div className="glass content">
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 30 }}>
+            <h2 style={{ margin: 0 }}>账户</h2>
+            <button className="btn-ghost" onClick={() => navigate("/admin")}>返回控制台</button>
+          </div>
+          {accountCard}
+          <div style={{ height: 22 }} />
+          <TwoFactorCard />
+          <div style={{ height: 22 }} />
+          <SessionsCard scope="mine" />
+          <div style={{ height: 22 }} />
+          <ApiTokensCard />
+        </div>
+      </AdminLayoutWrapper>
+    );
+  }
+
   return (
     <AdminLayoutWrapper>
       <div className="glass content">
@@ -883,20 +1156,7 @@ export function AdminSettingsPage() {
         </div>
 
         <div className="grid adminSettingsGrid">
-          <div className="card adminSettingsCard" style={{ padding: 30 }}>
-            <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>修改账户信息</div>
-            <div style={{ display: 'grid', gap: 15 }}>
-              <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} placeholder="当前授权密码" />
-              <input value={newUsername} onChange={(e) => setNewUsername(e.target.value)} placeholder="新用户名 (留空不改)" />
-              <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="新密码 (留空不改, 至少8位)" />
-              <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="确认新密码" />
-              <button className="btn-primary" onClick={onSave} disabled={saving} style={{ marginTop: 10 }}>
-                {saving ? "保存中..." : "保存更改"}
-              </button>
-              {msg ? <span style={{ color: 'green' }}>{msg}</span> : null}
-              {err ? <span style={{ color: 'red' }}>{err}</span> : null}
-            </div>
-          </div>
+          {accountCard}
 
           <div className="card adminSettingsCard" style={{ padding: 30 }}>
             <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>数据维护</div>
@@ -910,9 +1170,11 @@ export function AdminSettingsPage() {
               <div className="muted" style={{ marginBottom: 10 }}>恢复数据 (危险操作)</div>
               <input type="file" onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)} accept=".db,.gz,.db.gz" style={{ display: 'block', marginBottom: 10 }} />
               <button className="btn-danger" onClick={onRestore} disabled={restoreBusy || !restoreFile}>
-                {restoreBusy ? "恢复中..." : "覆盖并恢复数据"}
+                {restoreBusy ? "检查中..." : "上传并预览恢复"}
               </button>
               {restoreMsg ? <div style={{ marginTop: 10, color: 'blue' }}>{restoreMsg}</div> : null}
+              {restoreErr ? <div style={{ marginTop: 10, color: 'red' }}>{restoreErr}</div> : null}
+              {restorePreview?.kind === "db" ? <RestorePreviewPanel preview={restorePreview} onClose={() => setRestorePreview(null)} /> : null}
             </div>
 
             <div style={{ borderTop: '1px solid var(--border)', paddingTop: 20, marginTop: 20 }}>
@@ -926,14 +1188,43 @@ export function AdminSettingsPage() {
                 style={{ display: 'block', marginBottom: 10 }}
               />
               <button className="btn-danger" onClick={onRestoreFull} disabled={restoreFullBusy || !restoreFullFile}>
-                {restoreFullBusy ? "全量恢复中..." : "上传并全量恢复"}
+                {restoreFullBusy ? "校验中..." : "上传并预览全量恢复"}
               </button>
               {restoreFullMsg ? <div style={{ marginTop: 10, color: 'blue' }}>{restoreFullMsg}</div> : null}
               {restoreFullErr ? <div style={{ marginTop: 10, color: 'red' }}>{restoreFullErr}</div> : null}
+              {restorePreview?.kind === "full" ? <RestorePreviewPanel preview={restorePreview} onClose={() => setRestorePreview(null)} /> : null}
+            </div>
+
+            <div style={{ borderTop: '1px solid var(--border)', paddingTop: 20, marginTop: 20 }}>
+              <div className="muted" style={{ marginBottom: 10 }}>
+                导出为 Markdown（每篇文章一个 .md 文件，附带引用的图片、评论与友链 JSON；可直接放进 Hugo / Hexo 站点，也可在「导入」中重新导入）
+              </div>
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <button onClick={() => onExportMarkdown("hugo")} className="btn-follow">导出 Hugo 目录</button>
+                <button onClick={() => onExportMarkdown("hexo")} className="btn-follow">导出 Hexo 目录</button>
+              </div>
             </div>
           </div>
         </div>
 
+        <div style={{ height: 22 }} />
+        <BackupScheduleCard />
+
+        <div style={{ height: 22 }} />
+        <S3BackupCard />
+
+        <div style={{ height: 22 }} />
+        <RestoreMergeCard />
+
+        <div style={{ height: 22 }} />
+        <TwoFactorCard />
+
+        <div style={{ height: 22 }} />
+        <SessionsCard scope="mine" />
+
+        <div style={{ height: 22 }} />
+        <ApiTokensCard />
+
         <div style={{ height: 22 }} />
         <div className="card adminSettingsCard" style={{ padding: 30 }}>
           <div className="adminSectionTitle" style={{ fontWeight: 600, fontSize: 18, marginBottom: 20 }}>站点外观与内容</div>
@@ -1557,6 +1848,9 @@ export function AdminSettingsPage() {
             </div>
           )}
         </div>
+
+        <div style={{ height: 22 }} />
+        <MailSettingsCard />
       </div>
     </AdminLayoutWrapper>
   );
@@ -1572,6 +1866,7 @@ export function AdminCommentsPage() {
   const location = useLocation();
   if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
   if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin", "editor")) return <Navigate to="/admin" replace />;
   return (
     <AdminLayoutWrapper>
       <AdminCommentsPanel />
@@ -1581,6 +1876,7 @@ export function AdminCommentsPage() {
 
 function AdminCommentsPanel() {
   const navigate = useNavigate();
+  const { site } = useSite();
   const [status, setStatus] = useState<"" | "pending" | "approved">("pending");
   const [items, setItems] = useState<CommentAdminRow[]>([]);
   const [loading, setLoading] = useState(true);
@@ -1588,6 +1884,8 @@ function AdminCommentsPanel() {
 
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editingMd, setEditingMd] = useState("");
+  const [replyingId, setReplyingId] = useState<number | null>(null);
+  const [replyMd, setReplyMd] = useState("");
   const [busyId, setBusyId] = useState<number | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set());
   const [bulkBusy, setBulkBusy] = useState(false);
@@ -1650,7 +1948,7 @@ function AdminCommentsPanel() {
       <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 18 }}>
         <div>
           <h2 style={{ margin: 0 }}>评论管理</h2>
-          <div className="muted">审核 / 编辑 / 删除</div>
+          <div className="muted">审核 / 编辑 / 回复 / 删除</div>
         </div>
         <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
           <button className="btn-ghost" onClick={() => navigate("/admin")}>返回控制台</button>
@@ -1743,6 +2041,7 @@ function AdminCommentsPanel() {
       <div style={{ display: "grid", gap: 12 }}>
         {items.map((c) => {
           const isEditing = editingId === c.id;
+          const isReplying = replyingId === c.id;
           const isBusy = busyId === c.id;
           return (
             <div key={c.id} className="card" style={{ padding: 16 }}>
@@ -1758,6 +2057,9 @@ function AdminCommentsPanel() {
                     <a href={`/post/${c.postSlug}`} target="_blank" rel="noopener noreferrer">/post/{c.postSlug}</a>
                     {" · "}
                     {c.author}
+                    {c.isAdmin ? <span className="commentAuthorBadge">作者</span> : null}
+                    {c.email ? ` · ${c.email}${c.notify ? "（接收通知）" : ""}` : null}
+                    {c.parentAuthor ? ` · 回复 @${c.parentAuthor}` : null}
                     {" · "}
                     {shortDate(c.createdAt)}
                   </div>
@@ -1795,6 +2097,15 @@ function AdminCommentsPanel() {
                   >
                     {isEditing ? "关闭编辑" : "编辑"}
                   </button>
+                  <button
+                    className="btn-ghost"
+                    onClick={() => {
+                      setReplyingId(isReplying ? null : c.id);
+                      setReplyMd("");
+                    }}
+                  >
+                    {isReplying ? "取消回复" : "回复"}
+                  </button>
                   <button
                     className="btn-ghost"
                     disabled={isBusy}
@@ -1850,6 +2161,39 @@ function AdminCommentsPanel() {
                   <Markdown value={c.contentMd} />
                 </div>
               )}
+
+              {isReplying ? (
+                <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+                  <MarkdownEditor value={replyMd} onChange={setReplyMd} minHeight={120} />
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+                    <div className="muted">
+                      以作者身份回复，直接公开显示{c.status === "approved" ? "" : "（该评论也会一并通过）"}
+                    </div>
+                    <button
+                      className="btn-primary"
+                      disabled={isBusy || !replyMd.trim()}
+                      onClick={async () => {
+                        const next = replyMd.trim();
+                        if (!next) return;
+                        setErr(null);
+                        setBusyId(c.id);
+                        try {
+                          await api.adminReplyComment(c.id, { contentMd: next, author: site?.sidebar?.name?.trim() || undefined });
+                          setReplyingId(null);
+                          setReplyMd("");
+                          await refresh();
+                        } catch (e: any) {
+                          setErr(e?.message ?? String(e));
+                        } finally {
+                          setBusyId(null);
+                        }
+                      }}
+                    >
+                      发送回复
+                    </button>
+                  </div>
+                </div>
+              ) : null}
             </div>
           );
         })}
@@ -1863,6 +2207,7 @@ export function AdminLinksPage() {
   const location = useLocation();
   if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
   if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin", "editor")) return <Navigate to="/admin" replace />;
   return (
     <AdminLayoutWrapper>
       <AdminLinksPanel />
@@ -2467,6 +2812,7 @@ export function AdminSecurityPage() {
   const location = useLocation();
   if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
   if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin")) return <Navigate to="/admin" replace />;
   return (
     <AdminLayoutWrapper>
       <AdminSecurityPanel />
@@ -2474,9 +2820,61 @@ export function AdminSecurityPage() {
   );
 }
 
+export function AdminTaxonomyPage() {
+  const { user, loading } = useMe();
+  const location = useLocation();
+  if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
+  if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin", "editor")) return <Navigate to="/admin" replace />;
+  return (
+    <AdminLayoutWrapper>
+      <TaxonomyPanel />
+    </AdminLayoutWrapper>
+  );
+}
+
+export function AdminWebhooksPage() {
+  const { user, loading } = useMe();
+  const location = useLocation();
+  if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
+  if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin")) return <Navigate to="/admin" replace />;
+  return (
+    <AdminLayoutWrapper>
+      <WebhooksPanel />
+    </AdminLayoutWrapper>
+  );
+}
+
+export function AdminImportPage() {
+  const { user, loading } = useMe();
+  const location = useLocation();
+  if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
+  if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin", "editor")) return <Navigate to="/admin" replace />;
+  return (
+    <AdminLayoutWrapper>
+      <ImportPanel />
+    </AdminLayoutWrapper>
+  );
+}
+
+export function AdminUsersPage() {
+  const { user, loading } = useMe();
+  const location = useLocation();
+  if (loading) return <div className="container" style={{ padding: "26px 0" }}>加载中…</div>;
+  if (!user) return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+  if (!hasRole(user, "admin")) return <Navigate to="/admin" replace />;
+  return (
+    <AdminLayoutWrapper>
+      <UsersPanel me={user} />
+    </AdminLayoutWrapper>
+  );
+}
+
 function AdminSecurityPanel() {
   const navigate = useNavigate();
-  const [tab, setTab] = useState<"suspicious" | "bans">("suspicious");
+  const [tab, setTab] = useState<"suspicious" | "bans" | "logins">("suspicious");
 
   const [suspicious, setSuspicious] = useState<SuspiciousIp[]>([]);
   const [susRedisEnabled, setSusRedisEnabled] = useState<boolean>(false);
@@ -2581,12 +2979,13 @@ function AdminSecurityPanel() {
       <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 18 }}>
         <div>
           <h2 style={{ margin: 0 }}>安全中心</h2>
-          <div className="muted">可疑 IP 统计（Redis）与批量封禁/导出</div>
+          <div className="muted">可疑 IP 统计（Redis）、批量封禁/导出与登录日志</div>
         </div>
         <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
           <button className="btn-ghost" onClick={() => navigate("/admin")}>返回控制台</button>
           <button className={tab === "suspicious" ? "btn-primary" : "btn-ghost"} onClick={() => setTab("suspicious")}>可疑 IP</button>
           <button className={tab === "bans" ? "btn-primary" : "btn-ghost"} onClick={() => setTab("bans")}>封禁列表</button>
+          <button className={tab === "logins" ? "btn-primary" : "btn-ghost"} onClick={() => setTab("logins")}>登录日志</button>
         </div>
       </div>
 
@@ -2706,6 +3105,8 @@ function AdminSecurityPanel() {
             {!susLoading && susRedisEnabled && suspicious.length === 0 ? <div className="muted">暂无可疑 IP</div> : null}
           </div>
         </>
+      ) : tab === "logins" ? (
+        <LoginAuditList />
       ) : (
         <>
           {banLoading ? <div className="muted">加载中…</div> : null}
@@ -26,12 +26,17 @@ import { AiPage } from "./pages/Ai";
 import {
   AdminCommentsPage,
   AdminEditorPage,
+  AdminImportPage,
   AdminIndexPage,
+  AdminInvitePage,
   AdminLinksPage,
   AdminLoginPage,
   AdminMediaPage,
   AdminSecurityPage,
   AdminSettingsPage,
+  AdminTaxonomyPage,
+  AdminUsersPage,
+  AdminWebhooksPage,
 } from "./pages/admin/Admin";
 
 import {
@@ -109,8 +114,13 @@ export const routes: RouteObject[] = [
       { path: "admin/media", element: <AdminMediaPage /> },
       { path: "admin/comments", element: <AdminCommentsPage /> },
       { path: "admin/links", element: <AdminLinksPage /> },
+      { path: "admin/taxonomy", element: <AdminTaxonomyPage /> },
+      { path: "admin/import", element: <AdminImportPage /> },
       { path: "admin/security", element: <AdminSecurityPage /> },
       { path: "admin/settings", element: <AdminSettingsPage /> },
+      { path: "admin/webhooks", element: <AdminWebhooksPage /> },
+      { path: "admin/users", element: <AdminUsersPage /> },
+      { path: "admin/invite/:token", element: <AdminInvitePage /> },
 
       // Prevent rendering HomePage without its loader
       { path: "*", element: <Navigate to="/" replace /> },
@@ -290,10 +290,44 @@ function createHead(args: {
   return { title: args.title, tags } satisfies SeoHead;
 }
 
+function feedLinks(site: SiteSettings | null, origin: string, path: string) {
+  const brand = brandName(site);
+  const tags: HeadTag[] = [
+    link({ rel: "alternate", type: "application/rss+xml", title: `${brand} RSS`, href: `${origin}/feed.xml` }),
+    link({ rel: "alternate", type: "application/atom+xml", title: `${brand} Atom`, href: `${origin}/atom.xml` }),
+    link({ rel: "alternate", type: "application/feed+json", title: `${brand} JSON Feed`, href: `${origin}/feed.json` }),
+  ];
+  const scoped = path.match(/^\/(tag|category)\/([^/]+)\/?$/);
+  if (scoped) {
+    const name = decodeURIComponent(scoped[2]);
+    const label = scoped[1] === "tag" ? "标签" : "分类";
+    tags.push(
+      link({
+        rel: "alternate",
+        type: "application/rss+xml",
+        title: `${brand} · ${label}：${name}`,
+        href: `${origin}/${scoped[1]}/${encodeURIComponent(name)}/feed.xml`,
+      }),
+    );
+  }
+  return tags;
+}
+
 export function buildSeoHead(args: {
   url: URL;
   loaderData?: SeoLoaderData | null;
   site?: SiteSettings | null;
+}): SeoHead {
+  const head = buildPageHead(args);
+  if (args.url.pathname.startsWith("/admin")) return head;
+  const site = args.site ?? args.loaderData?.root?.site ?? null;
+  return { ...head, tags: [...head.tags, ...feedLinks(site, args.url.origin, args.url.pathname)] };
+}
+
+function buildPageHead(args: {
+  url: URL;
+  loaderData?: SeoLoaderData | null;
+  site?: SiteSettings | null;
 }): SeoHead {
   const loaderData = args.loaderData ?? {};
   const site = args.site ?? loaderData.root?.site ?? null;
@@ -568,9 +602,12 @@ export function buildSeoHead(args: {
     const tag = decodeURIComponent(path.slice("/tag/".length));
     const posts = loaderData.tag?.posts ?? [];
     const canonical = `${origin}/tag/${encodeURIComponent(tag)}`;
-    const description = posts.length
-      ? `查看 ${brandName(site)} 中与“${tag}”相关的 ${posts.length} 篇文章。`
-      : `浏览 ${brandName(site)} 中与“${tag}”相关的文章与主题内容。`;
+    const term = loaderData.tag?.term ?? null;
+    const description =
+      term?.description ||
+      (posts.length
+        ? `查看 ${brandName(site)} 中与“${tag}”相关的 ${posts.length} 篇文章。`
+        : `浏览 ${brandName(site)} 中与“${tag}”相关的文章与主题内容。`);
     const itemList = postListItems(posts.slice(0, 20), origin);
     const collectionJsonLd: JsonLd = {
       "@context": "https://schema.org",
@@ -599,7 +636,7 @@ export function buildSeoHead(args: {
       description,
       canonical,
       keywords: uniqueKeywords([tag, "标签", ...fallbackKeywords]),
-      image: absoluteUrl(origin, site?.images?.tagsHero) || fallbackImage,
+      image: absoluteUrl(origin, term?.image || site?.images?.tagsHero) || fallbackImage,
       imageAlt: tag,
       jsonLd: [collectionJsonLd, ...(breadcrumb ? [breadcrumb] : [])],
     });
@@ -651,9 +688,12 @@ export function buildSeoHead(args: {
     const category = decodeURIComponent(path.slice("/category/".length));
     const posts = loaderData.category?.posts ?? [];
     const canonical = `${origin}/category/${encodeURIComponent(category)}`;
-    const description = posts.length
-      ? `查看 ${brandName(site)} 中属于“${category}”分类的 ${posts.length} 篇文章。`
-      : `浏览 ${brandName(site)} 中“${category}”分类下的文章内容。`;
+    const term = loaderData.category?.term ?? null;
+    const description =
+      term?.description ||
+      (posts.length
+        ? `查看 ${brandName(site)} 中属于“${category}”分类的 ${posts.length} 篇文章。`
+        : `浏览 ${brandName(site)} 中“${category}”分类下的文章内容。`);
     const itemList = postListItems(posts.slice(0, 20), origin);
     const collectionJsonLd: JsonLd = {
       "@context": "https://schema.org",
@@ -682,7 +722,7 @@ export function buildSeoHead(args: {
       description,
       canonical,
       keywords: uniqueKeywords([category, "分类", ...fallbackKeywords]),
-      image: absoluteUrl(origin, site?.images?.tagsHero) || fallbackImage,
+      image: absoluteUrl(origin, term?.image || site?.images?.tagsHero) || fallbackImage,
       imageAlt: category,
       jsonLd: [collectionJsonLd, ...(breadcrumb ? [breadcrumb] : [])],
     });